@@ -0,0 +1,68 @@
+// Run with: npx jiti scripts/budgetScheduleTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  generateStrategyProjection,
+  resolveMonthlyBudget,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const schedule = {
+  steps: [
+    { fromMonth: "2026-04-01", amount: 1500 },
+    { fromMonth: "2027-01-01", amount: 2000 },
+  ],
+  yearlyGrowthRate: 0.1,
+};
+
+test("the flat limit applies before the first step", () => {
+  assert.equal(resolveMonthlyBudget(800, "2026-03-01", schedule), 800);
+  assert.equal(resolveMonthlyBudget(800, "2026-03-01", null), 800);
+  assert.equal(resolveMonthlyBudget(800, "2030-03-01"), 800);
+});
+
+test("the latest step started on or before the month applies", () => {
+  assert.equal(resolveMonthlyBudget(800, "2026-04-01", schedule), 1500);
+  assert.equal(resolveMonthlyBudget(800, "2026-12-01", schedule), 1500);
+  assert.equal(resolveMonthlyBudget(800, "2027-01-01", schedule), 2000);
+});
+
+test("a step grows by the yearly rate for every full year since it began", () => {
+  assert.equal(resolveMonthlyBudget(800, "2027-12-01", schedule), 2000);
+  assert.ok(
+    Math.abs(resolveMonthlyBudget(800, "2028-01-01", schedule) - 2200) < 1e-9,
+  );
+  assert.ok(
+    Math.abs(resolveMonthlyBudget(800, "2029-06-01", schedule) - 2420) < 1e-9,
+  );
+});
+
+test("the projection overpays each month's scheduled budget", () => {
+  const loan: ProjectionLoan = {
+    id: "mortgage",
+    principal: 400000,
+    remaining_balance: 400000,
+    annual_rate: 0.07,
+    term_months: 300,
+  };
+
+  const projection = generateStrategyProjection(
+    [loan],
+    "avalanche",
+    null,
+    800,
+    false,
+    2026,
+    0,
+    25,
+    { budgetSchedule: schedule },
+  );
+  const overpaid = (month: string) =>
+    projection.find((entry) => entry.month === month)!.loanData[0].overpayment;
+
+  assert.equal(overpaid("2026-01-01"), 800);
+  assert.equal(overpaid("2026-04-01"), 1500);
+  assert.equal(overpaid("2027-01-01"), 2000);
+  assert.equal(overpaid("2028-01-01"), 2200);
+});
@@ -0,0 +1,82 @@
+// Run with: npx jiti scripts/customWeightsRedistributionTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  allocateByWeights,
+  customWeightsStrategy,
+} from "../src/lib/strategies/customWeightsStrategy.ts";
+import type { AllocationLoan } from "../src/lib/strategies/types.ts";
+
+const context = {
+  objective: "interest",
+  reinvestFreedPayments: false,
+} as const;
+
+const loan = (
+  id: string,
+  balance: number,
+  annualRate = 0.05,
+): AllocationLoan => ({
+  id,
+  balance,
+  annualRate,
+  monthlyInterest: (balance * annualRate) / 12,
+});
+
+test("weighted loans get their share in proportion to the weights", () => {
+  const allocation = allocateByWeights(
+    [loan("a", 10000), loan("b", 10000)],
+    1000,
+    [3, 1],
+  );
+
+  assert.deepEqual(allocation, [750, 250]);
+});
+
+test("a capped weighted loan passes its excess to the other weighted loans", () => {
+  const allocation = allocateByWeights(
+    [loan("a", 100), loan("b", 10000), loan("c", 10000)],
+    1000,
+    [2, 1, 1],
+  );
+
+  assert.deepEqual(allocation, [100, 450, 450]);
+});
+
+test("leftover beyond the weighted loans goes evenly to open unweighted loans", () => {
+  const [weighted, unweightedA, unweightedB] = customWeightsStrategy.allocate(
+    [loan("a", 300), loan("b", 5000), loan("c", 5000)],
+    1000,
+    {
+      mode: "percentages",
+      percentages: [{ loanId: "a", percent: 100 }],
+    },
+    context,
+  );
+
+  assert.equal(weighted, 300);
+  assert.equal(unweightedA, 350);
+  assert.equal(unweightedB, 350);
+});
+
+test("a formula weight of 0 does not leave the budget unused", () => {
+  const allocation = customWeightsStrategy.allocate(
+    [loan("a", 100, 0.06), loan("b", 1000, 0)],
+    500,
+    { mode: "formula", rateWeight: 1, balanceWeight: 0, installmentWeight: 0 },
+    context,
+  );
+
+  assert.deepEqual(allocation, [100, 400]);
+});
+
+test("closed loans receive nothing, even when they carry a weight", () => {
+  const allocation = allocateByWeights(
+    [loan("a", 0), loan("b", 2000)],
+    1000,
+    [1, 0],
+  );
+
+  assert.deepEqual(allocation, [0, 1000]);
+});
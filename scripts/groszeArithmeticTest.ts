@@ -0,0 +1,103 @@
+// Run with: npx jiti scripts/groszeArithmeticTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  generateBaselineProjection,
+  generateStrategyProjection,
+  roundGrosze,
+  sumMoney,
+  toGrosze,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const loans: ProjectionLoan[] = [
+  {
+    id: "mortgage",
+    principal: 250000,
+    remaining_balance: 243817.37,
+    annual_rate: 0.0735,
+    term_months: 300,
+  },
+  {
+    id: "car",
+    principal: 35000,
+    remaining_balance: 21433.19,
+    annual_rate: 0.0899,
+    term_months: 37,
+    amortization_type: "decreasing",
+    interest_rounding: "down",
+  },
+];
+
+const isWholeGrosz = (amount: number) =>
+  Math.abs(amount * 100 - Math.round(amount * 100)) < 1e-6;
+
+test("amounts round to whole grosze by the bank's rule", () => {
+  assert.equal(toGrosze(1135.575), 113558);
+  assert.equal(roundGrosze(1234.5), 1235);
+  assert.equal(roundGrosze(1234.5, "half_even"), 1234);
+  assert.equal(roundGrosze(1235.5, "half_even"), 1236);
+  assert.equal(roundGrosze(1234.01, "up"), 1235);
+  assert.equal(roundGrosze(1234.99, "down"), 1234);
+  assert.equal(roundGrosze(-1234.5), -1235);
+});
+
+test("money totals add up in grosze without floating-point drift", () => {
+  assert.equal(sumMoney([0.1, 0.2]), 0.3);
+  assert.equal(sumMoney(new Array(10).fill(0.1)), 1);
+});
+
+test("every projected amount is a whole grosz and totals match their rows", () => {
+  const projection = generateStrategyProjection(
+    loans,
+    "ratio",
+    null,
+    1234.56,
+    true,
+    2026,
+    0,
+  );
+
+  for (const month of projection) {
+    for (const row of month.loanData) {
+      for (const amount of [
+        row.interest,
+        row.principal,
+        row.overpayment,
+        row.installment,
+        row.remaining,
+      ]) {
+        assert.ok(isWholeGrosz(amount), `${month.month}: ${amount}`);
+      }
+    }
+    assert.equal(
+      month.interest,
+      sumMoney(month.loanData.map((row) => row.interest)),
+    );
+    assert.equal(
+      month.principal,
+      sumMoney(month.loanData.map((row) => row.principal)),
+    );
+    assert.equal(
+      month.remaining,
+      sumMoney(month.loanData.map((row) => row.remaining)),
+    );
+  }
+});
+
+test("principal repaid adds up exactly to the starting balance", () => {
+  const projection = generateBaselineProjection(loans, 2026, 0);
+
+  loans.forEach((loan) => {
+    const repaid = sumMoney(
+      projection.flatMap((month) =>
+        month.loanData
+          .filter((row) => row.loanId === loan.id)
+          .map((row) => row.principal),
+      ),
+    );
+    assert.equal(repaid, loan.remaining_balance);
+  });
+  assert.equal(projection.at(-1)!.remaining, 0);
+});
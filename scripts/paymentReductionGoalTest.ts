@@ -0,0 +1,95 @@
+// Run with: npx jiti scripts/paymentReductionGoalTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  deriveStandardMonthlyPayment,
+  findPaymentReductionMilestone,
+  generateStrategyProjection,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const loans: ProjectionLoan[] = [
+  {
+    id: "mortgage",
+    principal: 200000,
+    remaining_balance: 200000,
+    annual_rate: 0.07,
+    term_months: 240,
+  },
+  {
+    id: "car",
+    principal: 40000,
+    remaining_balance: 40000,
+    annual_rate: 0.09,
+    term_months: 60,
+  },
+];
+
+const installmentTotal = (month: { loanData: { installment: number }[] }) =>
+  month.loanData.reduce((sum, loan) => sum + loan.installment, 0);
+
+const initialTotal = loans.reduce(
+  (sum, loan) =>
+    sum +
+    deriveStandardMonthlyPayment(
+      loan.remaining_balance,
+      loan.annual_rate,
+      loan.term_months,
+    ),
+  0,
+);
+const target = Math.round(initialTotal * 0.8);
+
+const project = (paymentReductionTarget: number | null) =>
+  generateStrategyProjection(
+    loans,
+    "avalanche",
+    paymentReductionTarget,
+    2000,
+    false,
+    2026,
+    0,
+  );
+
+test("overpayments lower the combined installment until the target is reached", () => {
+  const projection = project(target);
+  const milestone = findPaymentReductionMilestone(projection, target);
+
+  assert.ok(milestone);
+  const index = projection.findIndex(
+    (month) => month.month === milestone.month,
+  );
+  assert.ok(index > 0);
+  assert.ok(installmentTotal(projection[index]) <= target + 0.005);
+  for (let i = 1; i <= index; i++) {
+    assert.ok(
+      installmentTotal(projection[i]) < installmentTotal(projection[i - 1]),
+    );
+  }
+});
+
+test("once the target is met, overpayments shorten the term instead", () => {
+  const projection = project(target);
+  const milestone = findPaymentReductionMilestone(projection, target);
+  assert.ok(milestone);
+
+  const index = projection.findIndex(
+    (month) => month.month === milestone.month,
+  );
+  const [mortgage, car] = projection[index + 1].loanData;
+  assert.ok(mortgage.overpayment + car.overpayment > 0);
+  assert.deepEqual(
+    projection[index + 1].loanData.map((loan) => loan.installment),
+    milestone.installments.map((loan) => loan.installment),
+  );
+});
+
+test("without a target the installments stay as scheduled", () => {
+  const projection = project(null);
+
+  assert.equal(
+    installmentTotal(projection[12]),
+    installmentTotal(projection[0]),
+  );
+});
@@ -0,0 +1,114 @@
+// Run with: npx jiti scripts/prepaymentFeePassesTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  allocateWithPrepaymentTerms,
+  generateStrategyProjection,
+  resolvePrepaymentTerms,
+  type PrepaymentTerms,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+import type { AllocationLoan } from "../src/lib/strategies/types.ts";
+
+const loan = (
+  id: string,
+  balance: number,
+  annualRate: number,
+): AllocationLoan => ({
+  id,
+  balance,
+  annualRate,
+  monthlyInterest: (balance * annualRate) / 12,
+});
+
+const freeTerms: PrepaymentTerms = {
+  feeRate: 0,
+  freeAllowance: Infinity,
+  minOverpayment: 0,
+};
+
+const feeLoan: ProjectionLoan = {
+  id: "fee-bearing",
+  principal: 200000,
+  remaining_balance: 200000,
+  annual_rate: 0.08,
+  term_months: 240,
+  start_month: "2026-01-01",
+  prepayment_fee_rate: 0.02,
+  prepayment_fee_months: 36,
+  prepayment_free_allowance: 2500,
+};
+
+test("the free allowance is used before fee-free money goes elsewhere", () => {
+  const { overpayments, fees } = allocateWithPrepaymentTerms(
+    [loan("fee-bearing", 50000, 0.08), loan("fee-free", 50000, 0.05)],
+    "avalanche",
+    1000,
+    undefined,
+    [{ feeRate: 0.02, freeAllowance: 300, minOverpayment: 0 }, freeTerms],
+  );
+
+  assert.deepEqual(overpayments, [300, 700]);
+  assert.deepEqual(fees, [0, 0]);
+});
+
+test("only what no fee-free loan can take goes to the fee-bearing pass", () => {
+  const { overpayments, fees } = allocateWithPrepaymentTerms(
+    [loan("fee-bearing", 50000, 0.08), loan("fee-free", 200, 0.05)],
+    "avalanche",
+    1000,
+    undefined,
+    [{ feeRate: 0.02, freeAllowance: 300, minOverpayment: 0 }, freeTerms],
+  );
+
+  const charged = 500 / 1.02;
+  assert.ok(Math.abs(overpayments[0] - (300 + charged)) < 1e-9);
+  assert.equal(overpayments[1], 200);
+  assert.ok(Math.abs(fees[0] - (500 - charged)) < 1e-9);
+  assert.equal(fees[1], 0);
+});
+
+test("loans outside their fee window are fee-free", () => {
+  assert.equal(resolvePrepaymentTerms(feeLoan, "2028-12-01").feeRate, 0.02);
+  assert.deepEqual(resolvePrepaymentTerms(feeLoan, "2029-01-01"), freeTerms);
+  assert.equal(
+    resolvePrepaymentTerms(feeLoan, "2027-05-01", 1000).freeAllowance,
+    1500,
+  );
+});
+
+test("a share below the minimum overpayment is redistributed", () => {
+  const { overpayments } = allocateWithPrepaymentTerms(
+    [loan("a", 50000, 0.05), loan("b", 50000, 0.05)],
+    "equal",
+    1000,
+    undefined,
+    [{ ...freeTerms, minOverpayment: 600 }, freeTerms],
+  );
+
+  assert.deepEqual(overpayments, [0, 1000]);
+});
+
+test("the free allowance renews every calendar year", () => {
+  const projection = generateStrategyProjection(
+    [feeLoan],
+    "avalanche",
+    null,
+    1000,
+    false,
+    2026,
+    9,
+    4,
+  );
+  const fees = projection.map((month) => month.fees);
+
+  // 2 500 zł is free each year: October and November use 2 000 of it, December
+  // overpays 500 free and pays commission on the rest, January starts afresh
+  assert.equal(fees[0], 0);
+  assert.equal(fees[1], 0);
+  const { overpayment } = projection[2].loanData[0];
+  assert.ok(fees[2] > 0);
+  assert.ok(Math.abs(fees[2] - (overpayment - 500) * 0.02) <= 0.01);
+  assert.equal(fees[3], 0);
+});
@@ -0,0 +1,87 @@
+// Run with: npx jiti scripts/scheduledLoanChangesTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  generateBaselineProjection,
+  generateStrategyProjection,
+  type ProjectionLoan,
+  type ScheduledLoanChange,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const loan: ProjectionLoan = {
+  id: "mortgage",
+  principal: 120000,
+  remaining_balance: 120000,
+  annual_rate: 0.06,
+  term_months: 120,
+};
+
+const monthlyInterest = (balance: number, annualRate: number) =>
+  Math.round((balance * annualRate * 100) / 12) / 100;
+
+const baseline = (loanChanges: ScheduledLoanChange[]) =>
+  generateBaselineProjection([loan], 2026, 0, 4, 0, { loanChanges });
+
+test("a rate change applies from its effective month", () => {
+  const projection = baseline([
+    { loanId: loan.id, month: "2026-03-01", annualRate: 0.045 },
+  ]);
+
+  assert.equal(
+    projection[1].interest,
+    monthlyInterest(projection[0].remaining, 0.06),
+  );
+  assert.equal(
+    projection[2].interest,
+    monthlyInterest(projection[1].remaining, 0.045),
+  );
+});
+
+test("a balance change resets the loan in its effective month", () => {
+  const projection = baseline([
+    { loanId: loan.id, month: "2026-02-01", remainingBalance: 50000 },
+  ]);
+
+  assert.equal(projection[1].interest, monthlyInterest(50000, 0.06));
+  assert.ok(projection[1].remaining < 50000);
+});
+
+test("a term change reschedules the installment over the new term", () => {
+  const projection = generateStrategyProjection(
+    [loan],
+    "avalanche",
+    null,
+    0,
+    false,
+    2026,
+    0,
+    3,
+    { loanChanges: [{ loanId: loan.id, month: "2026-02-01", termMonths: 60 }] },
+  );
+  const [january, february] = projection.map(
+    (month) => month.loanData[0].installment,
+  );
+
+  assert.ok(february > january);
+});
+
+test("changes that fell due before the start are folded into the first month", () => {
+  const projection = baseline([
+    { loanId: loan.id, month: "2025-06-01", annualRate: 0.05 },
+    { loanId: loan.id, month: "2025-09-01", annualRate: 0.04 },
+    { loanId: loan.id, month: "2025-10-01", remainingBalance: 90000 },
+  ]);
+
+  assert.equal(projection[0].interest, monthlyInterest(90000, 0.04));
+});
+
+test("changes to other loans or later months leave the projection untouched", () => {
+  const unchanged = baseline([]);
+  const projection = baseline([
+    { loanId: "other", month: "2026-01-01", annualRate: 0.1 },
+    { loanId: loan.id, month: "2030-01-01", annualRate: 0.1 },
+  ]);
+
+  assert.deepEqual(projection, unchanged);
+});
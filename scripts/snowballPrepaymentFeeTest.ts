@@ -0,0 +1,92 @@
+// Run with: npx jiti scripts/snowballPrepaymentFeeTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  allocateWithPrepaymentTerms,
+  generateStrategyProjection,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const feeLoan: ProjectionLoan = {
+  id: "fee-bearing",
+  principal: 300000,
+  remaining_balance: 300000,
+  annual_rate: 0.07,
+  term_months: 300,
+  start_month: "2026-01-01",
+  prepayment_fee_rate: 0.02,
+  prepayment_fee_months: 36,
+  prepayment_free_allowance: 3000,
+};
+
+const freeLoan: ProjectionLoan = {
+  id: "fee-free",
+  principal: 5000,
+  remaining_balance: 5000,
+  annual_rate: 0.04,
+  term_months: 60,
+};
+
+test("snowball ranks fee-bearing loans by debt, not by their free allowance", () => {
+  const { overpayments, fees } = allocateWithPrepaymentTerms(
+    [
+      {
+        id: feeLoan.id,
+        balance: 300000,
+        annualRate: 0.07,
+        monthlyInterest: 1750,
+      },
+      {
+        id: freeLoan.id,
+        balance: 5000,
+        annualRate: 0.04,
+        monthlyInterest: 16.67,
+      },
+    ],
+    "snowball",
+    1000,
+    undefined,
+    [
+      { feeRate: 0.02, freeAllowance: 3000, minOverpayment: 0 },
+      { feeRate: 0, freeAllowance: Infinity, minOverpayment: 0 },
+    ],
+  );
+
+  assert.deepEqual(overpayments, [0, 1000]);
+  assert.deepEqual(fees, [0, 0]);
+});
+
+test("snowball projection overpays the smaller fee-free loan first", () => {
+  const [firstMonth] = generateStrategyProjection(
+    [feeLoan, freeLoan],
+    "snowball",
+    null,
+    1000,
+    false,
+    2026,
+    3,
+  );
+
+  const [fee, free] = firstMonth.loanData;
+  assert.equal(fee.overpayment, 0);
+  assert.equal(fee.prepaymentFee, 0);
+  assert.equal(free.overpayment, 1000);
+});
+
+test("the commission never exceeds what the fee-bearing part of an overpayment costs", () => {
+  const projection = generateStrategyProjection(
+    [{ ...feeLoan, prepayment_free_allowance: 0 }],
+    "snowball",
+    null,
+    1000,
+    false,
+    2026,
+    3,
+    1,
+  );
+
+  const [{ overpayment, prepaymentFee }] = projection[0].loanData;
+  assert.ok(overpayment + prepaymentFee <= 1000);
+  assert.ok(Math.abs(prepaymentFee - overpayment * 0.02) <= 0.01);
+});
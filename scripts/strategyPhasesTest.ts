@@ -0,0 +1,146 @@
+// Run with: npx jiti scripts/strategyPhasesTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  generateStrategyProjection,
+  resolveStrategyPhase,
+  type ProjectionLoan,
+  type StrategyPhaseState,
+} from "../src/lib/services/simulationSharedService.ts";
+import type { SimulationStrategyPhase } from "../src/types.ts";
+
+const loans: ProjectionLoan[] = [
+  {
+    id: "small",
+    principal: 1500,
+    remaining_balance: 1500,
+    annual_rate: 0.03,
+    term_months: 24,
+  },
+  {
+    id: "medium",
+    principal: 30000,
+    remaining_balance: 30000,
+    annual_rate: 0.05,
+    term_months: 120,
+  },
+  {
+    id: "expensive",
+    principal: 60000,
+    remaining_balance: 60000,
+    annual_rate: 0.11,
+    term_months: 180,
+  },
+];
+
+const state = (
+  overrides: Partial<StrategyPhaseState> = {},
+): StrategyPhaseState => ({
+  month: "2026-06-01",
+  balances: new Map([
+    ["small", 0],
+    ["medium", 20000],
+    ["expensive", 50000],
+  ]),
+  paymentTargetMet: false,
+  ...overrides,
+});
+
+const phase = (
+  startsWhen: SimulationStrategyPhase["startsWhen"],
+  strategy = "avalanche",
+): SimulationStrategyPhase => ({ strategy, startsWhen });
+
+test("each trigger type fires on the state it describes", () => {
+  const fires = (startsWhen: SimulationStrategyPhase["startsWhen"]) =>
+    resolveStrategyPhase([phase(startsWhen)], 0, state()) === 1;
+
+  assert.ok(fires({ type: "loan_closed", loanIds: ["small"] }));
+  assert.ok(!fires({ type: "loan_closed", loanIds: ["small", "medium"] }));
+  assert.ok(fires({ type: "date", month: "2026-06-01" }));
+  assert.ok(!fires({ type: "date", month: "2026-07-01" }));
+  assert.ok(
+    fires({ type: "balance_threshold", amount: 20000, loanId: "medium" }),
+  );
+  assert.ok(!fires({ type: "balance_threshold", amount: 60000 }));
+  assert.ok(fires({ type: "balance_threshold", amount: 70000 }));
+  assert.ok(!fires({ type: "payment_target_met" }));
+});
+
+test("phases start in order and several can start in the same month", () => {
+  const phases = [
+    phase({ type: "loan_closed", loanIds: ["small"] }),
+    phase({ type: "date", month: "2026-01-01" }, "equal"),
+    phase({ type: "payment_target_met" }, "snowball"),
+  ];
+
+  assert.equal(resolveStrategyPhase(phases, 0, state()), 2);
+  assert.equal(
+    resolveStrategyPhase(phases, 2, state({ paymentTargetMet: true })),
+    3,
+  );
+  // A later phase whose trigger fires first still waits for the one before it
+  assert.equal(
+    resolveStrategyPhase(
+      phases,
+      0,
+      state({ balances: new Map([["small", 100]]) }),
+    ),
+    0,
+  );
+});
+
+test("the projection switches strategy in the month the trigger fires", () => {
+  const projection = generateStrategyProjection(
+    loans,
+    "snowball",
+    null,
+    1000,
+    false,
+    2026,
+    0,
+    6,
+    {
+      strategyPhases: [phase({ type: "date", month: "2026-04-01" })],
+    },
+  );
+  const overpaid = (month: string, loanId: string) =>
+    projection
+      .find((entry) => entry.month === month)!
+      .loanData.find((row) => row.loanId === loanId)?.overpayment ?? 0;
+
+  assert.equal(overpaid("2026-01-01", "small"), 1000);
+  assert.equal(overpaid("2026-01-01", "expensive"), 0);
+  assert.equal(overpaid("2026-03-01", "medium"), 1000);
+  assert.equal(overpaid("2026-04-01", "expensive"), 1000);
+  assert.equal(overpaid("2026-04-01", "medium"), 0);
+});
+
+test("a loan_closed phase takes over once the listed loans are repaid", () => {
+  const projection = generateStrategyProjection(
+    loans,
+    "snowball",
+    null,
+    1000,
+    false,
+    2026,
+    0,
+    6,
+    {
+      strategyPhases: [phase({ type: "loan_closed", loanIds: ["small"] })],
+    },
+  );
+  const closedIndex = projection.findIndex(
+    (month) =>
+      month.loanData.find((row) => row.loanId === "small")?.remaining === 0,
+  );
+  assert.ok(closedIndex >= 0);
+
+  // Snowball would move on to the medium loan; the avalanche phase picks the expensive one
+  const [nextMonth] = projection.slice(closedIndex + 1);
+  const overpaid = (loanId: string) =>
+    nextMonth.loanData.find((row) => row.loanId === loanId)!.overpayment;
+  assert.equal(overpaid("expensive"), 1000);
+  assert.equal(overpaid("medium"), 0);
+});
@@ -0,0 +1,88 @@
+// Run with: npx jiti scripts/variableRateIndexTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  generateBaselineProjection,
+  generateStrategyProjection,
+  resolveAnnualRate,
+  type ProjectionLoan,
+  type RateIndexTimeline,
+} from "../src/lib/services/simulationSharedService.ts";
+
+const variableLoan: ProjectionLoan = {
+  id: "variable",
+  principal: 100000,
+  remaining_balance: 100000,
+  annual_rate: 0.08,
+  term_months: 120,
+  rate_type: "variable",
+  rate_index_id: "WIBOR3M",
+  rate_margin: 0.02,
+};
+
+const timeline: RateIndexTimeline = new Map([
+  [
+    "WIBOR3M",
+    [
+      { month: "2026-01-01", value: 0.05 },
+      { month: "2026-03-01", value: 0.04 },
+    ],
+  ],
+]);
+
+const monthlyInterest = (balance: number, annualRate: number) =>
+  Math.round((balance * annualRate * 100) / 12) / 100;
+
+test("a variable loan pays the latest index value plus its margin", () => {
+  assert.equal(resolveAnnualRate(variableLoan, "2026-01-01", timeline), 0.07);
+  assert.equal(resolveAnnualRate(variableLoan, "2026-02-01", timeline), 0.07);
+  assert.equal(resolveAnnualRate(variableLoan, "2026-07-01", timeline), 0.06);
+});
+
+test("the contract rate applies before the first index value and to fixed loans", () => {
+  assert.equal(resolveAnnualRate(variableLoan, "2025-12-01", timeline), 0.08);
+  assert.equal(
+    resolveAnnualRate(
+      { ...variableLoan, rate_type: "fixed" },
+      "2026-03-01",
+      timeline,
+    ),
+    0.08,
+  );
+  assert.equal(resolveAnnualRate(variableLoan, "2026-03-01"), 0.08);
+});
+
+test("baseline interest follows the index from month to month", () => {
+  const [january, february, march] = generateBaselineProjection(
+    [variableLoan],
+    2026,
+    0,
+    3,
+    0,
+    { rateIndexTimeline: timeline },
+  );
+
+  assert.equal(january.interest, monthlyInterest(100000, 0.07));
+  assert.equal(february.interest, monthlyInterest(january.remaining, 0.07));
+  assert.equal(march.interest, monthlyInterest(february.remaining, 0.06));
+});
+
+test("an index change reprices the installment over the remaining term", () => {
+  const projection = generateStrategyProjection(
+    [variableLoan],
+    "avalanche",
+    null,
+    0,
+    false,
+    2026,
+    0,
+    4,
+    { rateIndexTimeline: timeline },
+  );
+  const installments = projection.map((month) => month.loanData[0].installment);
+
+  assert.equal(installments[0], installments[1]);
+  assert.ok(installments[2] < installments[1]);
+  assert.equal(installments[2], installments[3]);
+});
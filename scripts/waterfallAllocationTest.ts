@@ -0,0 +1,116 @@
+// Run with: npx jiti scripts/waterfallAllocationTest.ts
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import {
+  allocateAcrossLoans,
+  generateStrategyProjection,
+  type ProjectionLoan,
+} from "../src/lib/services/simulationSharedService.ts";
+import type { AllocationLoan } from "../src/lib/strategies/types.ts";
+
+const loan = (
+  id: string,
+  balance: number,
+  annualRate: number,
+): AllocationLoan => ({
+  id,
+  balance,
+  annualRate,
+  monthlyInterest: (balance * annualRate) / 12,
+});
+
+test("avalanche puts the whole budget on the highest-rate loan", () => {
+  const allocation = allocateAcrossLoans(
+    [
+      loan("low", 20000, 0.04),
+      loan("high", 20000, 0.09),
+      loan("mid", 20000, 0.06),
+    ],
+    "avalanche",
+    1000,
+  );
+
+  assert.deepEqual(allocation, [0, 1000, 0]);
+});
+
+test("avalanche spills only the excess over a loan's balance to the next rate", () => {
+  const allocation = allocateAcrossLoans(
+    [
+      loan("low", 20000, 0.04),
+      loan("high", 300, 0.09),
+      loan("mid", 20000, 0.06),
+    ],
+    "avalanche",
+    1000,
+  );
+
+  assert.deepEqual(allocation, [0, 300, 700]);
+});
+
+test("snowball fills loans from the smallest balance up", () => {
+  const allocation = allocateAcrossLoans(
+    [
+      loan("large", 50000, 0.09),
+      loan("small", 400, 0.03),
+      loan("medium", 900, 0.05),
+    ],
+    "snowball",
+    1000,
+  );
+
+  assert.deepEqual(allocation, [0, 400, 600]);
+});
+
+test("closed loans are skipped in the waterfall", () => {
+  const allocation = allocateAcrossLoans(
+    [loan("closed", 0, 0.12), loan("open", 5000, 0.05)],
+    "avalanche",
+    1000,
+  );
+
+  assert.deepEqual(allocation, [0, 1000]);
+});
+
+test("an avalanche projection moves the budget on once the top loan is repaid", () => {
+  const loans: ProjectionLoan[] = [
+    {
+      id: "high",
+      principal: 2000,
+      remaining_balance: 2000,
+      annual_rate: 0.1,
+      term_months: 24,
+    },
+    {
+      id: "low",
+      principal: 50000,
+      remaining_balance: 50000,
+      annual_rate: 0.05,
+      term_months: 240,
+    },
+  ];
+
+  const projection = generateStrategyProjection(
+    loans,
+    "avalanche",
+    null,
+    1000,
+    false,
+    2026,
+    0,
+    3,
+  );
+
+  const [first, second] = projection;
+  assert.equal(first.loanData[0].overpayment, 1000);
+  assert.equal(first.loanData[1].overpayment, 0);
+  // The high-rate loan closes in the second month and the rest of the budget follows
+  assert.equal(second.loanData[0].remaining, 0);
+  assert.ok(second.loanData[1].overpayment > 0);
+  assert.equal(
+    Math.round(
+      (second.loanData[0].overpayment + second.loanData[1].overpayment) * 100,
+    ),
+    100000,
+  );
+});
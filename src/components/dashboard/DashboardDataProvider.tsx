@@ -2,12 +2,14 @@ import {
   QueryClient,
   QueryClientProvider,
   useQuery,
+  useQueryClient,
 } from "@tanstack/react-query";
 import {
   createContext,
   useCallback,
   useContext,
   useMemo,
+  useRef,
   useState,
   type PropsWithChildren,
 } from "react";
@@ -21,6 +23,7 @@ import type {
   PaymentStatus,
 } from "@/types";
 import type { DashboardContextValue } from "@/types/dashboard";
+import { useUserEvents, useUserEventsOpen } from "@/lib/hooks/useUserEvents";
 
 const DASHBOARD_OVERVIEW_QUERY_KEY = [
   "dashboard",
@@ -170,11 +173,21 @@ const toSimulationSummary = (
   return {
     id: simulation.id,
     strategy: simulation.strategy,
+    strategyParams: simulation.strategyParams,
+    strategyPhases: simulation.strategyPhases,
     goal: simulation.goal,
     projectedPayoffMonth: simulation.projectedPayoffMonth,
     totalInterestSaved: simulation.totalInterestSaved,
     status: simulation.status,
     stale: simulation.stale,
+    paymentReductionTarget: simulation.paymentReductionTarget,
+    paymentReductionTargetMonth: simulation.paymentReductionTargetMonth,
+    lumpSums: simulation.lumpSums,
+    loanRules: simulation.loanRules,
+    monthlyOverpaymentLimit: simulation.monthlyOverpaymentLimit,
+    overpaymentBudgetSchedule: simulation.overpaymentBudgetSchedule,
+    engineVersion: simulation.engineVersion,
+    engineOutdated: simulation.engineOutdated,
   } satisfies ActiveSimulationSummary;
 };
 
@@ -183,6 +196,30 @@ const DashboardContext = createContext<DashboardContextValue | undefined>(
 );
 
 function DashboardDataProviderInner({ children }: PropsWithChildren) {
+  const queryClient = useQueryClient();
+
+  const connectedRef = useRef(false);
+
+  const reload = useCallback(() => {
+    void queryClient.invalidateQueries({
+      queryKey: DASHBOARD_OVERVIEW_QUERY_KEY,
+    });
+    void queryClient.invalidateQueries({
+      queryKey: ACTIVE_SIMULATION_QUERY_KEY,
+    });
+  }, [queryClient]);
+
+  // Every pushed event can change the overview, so both queries reload
+  useUserEvents(reload);
+
+  // A reconnect may have missed events; the first connection has nothing to catch up on
+  useUserEventsOpen(() => {
+    if (connectedRef.current) {
+      reload();
+    }
+    connectedRef.current = true;
+  });
+
   const overviewQuery = useQuery({
     queryKey: DASHBOARD_OVERVIEW_QUERY_KEY,
     queryFn: fetchDashboardOverview,
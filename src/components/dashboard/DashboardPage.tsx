@@ -1,20 +1,35 @@
+import { useEffect } from "react";
+
 import { DashboardDataProvider } from "./DashboardDataProvider";
 import { SimulationStatusBanner } from "./SimulationStatusBanner";
 import { SimulationStaleBanner } from "./SimulationStaleBanner";
+import { SimulationEngineBanner } from "./SimulationEngineBanner";
 import { EmptyStateCTA } from "./EmptyStateCTA";
 import { OverviewCards } from "./overview/OverviewCards";
+import { StrategyPhasesPanel } from "./overview/StrategyPhasesPanel";
 import { CurrentMonthPanel } from "./currentMonth/CurrentMonthPanel";
 import { LoansSection } from "./loans/LoansSection";
 import { ChartsSection } from "./charts/ChartsSection";
+import { StressTestPanel } from "./charts/StressTestPanel";
 import { useDashboardData } from "@/lib/hooks/useDashboardData";
+import { useStressTest } from "@/lib/hooks/useStressTest";
 import { AppShell } from "@/components/layout/AppShell";
 
 function DashboardContent() {
   const { activeSimulation, showEmptyState, isLoading, overviewCards, graphs } =
     useDashboardData();
+  const stressTest = useStressTest();
+  const { reset: resetStressTest } = stressTest;
 
   const hasActiveSimulation = Boolean(activeSimulation);
   const isStale = Boolean(activeSimulation?.stale);
+  const isEngineOutdated = Boolean(activeSimulation?.engineOutdated);
+  const activeSimulationId = activeSimulation?.id;
+
+  // A band from another simulation would be misleading next to the new lines
+  useEffect(() => {
+    resetStressTest();
+  }, [activeSimulationId, resetStressTest]);
 
   return (
     <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-16 pt-8">
@@ -34,6 +49,14 @@ function DashboardContent() {
 
       {isStale ? <SimulationStaleBanner stale rerouteHref="/wizard" /> : null}
 
+      {isEngineOutdated && !isStale ? (
+        <SimulationEngineBanner
+          outdated
+          engineVersion={activeSimulation?.engineVersion ?? null}
+          rerouteHref="/wizard"
+        />
+      ) : null}
+
       {isLoading ? (
         <section
           aria-live="polite"
@@ -48,13 +71,26 @@ function DashboardContent() {
       ) : (
         <div className="space-y-8">
           {overviewCards.length > 0 ? <OverviewCards /> : null}
+          <StrategyPhasesPanel />
           <CurrentMonthPanel />
           <LoansSection />
           <ChartsSection
             balancePoints={graphs?.monthlyBalances}
+            balanceBand={stressTest.result?.balances}
             interestPoints={graphs?.interestVsSaved}
             isLoading={isLoading}
           />
+          {activeSimulationId ? (
+            <StressTestPanel
+              result={stressTest.result}
+              isLoading={stressTest.isLoading}
+              error={stressTest.error}
+              disabled={isLoading}
+              onRun={(command) =>
+                void stressTest.run(activeSimulationId, command)
+              }
+            />
+          ) : null}
         </div>
       )}
     </main>
@@ -0,0 +1,52 @@
+import { Info } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+interface SimulationEngineBannerProps {
+  readonly outdated: boolean;
+  readonly engineVersion: string | null;
+  readonly rerouteHref?: string;
+}
+
+export function SimulationEngineBanner({
+  outdated,
+  engineVersion,
+  rerouteHref = "/wizard",
+}: SimulationEngineBannerProps) {
+  if (!outdated) {
+    return null;
+  }
+
+  const computedBy = engineVersion
+    ? `version ${engineVersion} of the calculation engine`
+    : "an earlier version of the calculation engine";
+
+  return (
+    <section
+      role="status"
+      aria-live="polite"
+      className={cn(
+        "flex w-full items-start justify-between gap-4 rounded-lg border border-sky-400/40 bg-sky-400/10 px-4 py-3",
+        "text-sky-900 dark:text-sky-200",
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <Info className="size-5" aria-hidden />
+        <div className="space-y-1">
+          <p className="text-sm font-semibold leading-none">
+            Plan computed by an older engine
+          </p>
+          <p className="text-sm text-muted-foreground">
+            This plan was computed by {computedBy}, so its figures may differ
+            from the graphs below. Run the simulation again to bring it up to
+            date.
+          </p>
+        </div>
+      </div>
+      <Button asChild size="sm" variant="outline" className="shrink-0">
+        <a href={rerouteHref}>Open wizard</a>
+      </Button>
+    </section>
+  );
+}
@@ -1,8 +1,9 @@
-import { useMemo, type ReactNode } from "react";
+import { useMemo, useState, type ReactNode } from "react";
 import { CircleAlert, Clock3, Loader2 } from "lucide-react";
 
 import type { ActiveSimulationSummary, SimulationStatus } from "@/types";
 import { Button } from "@/components/ui/button";
+import { useUserEvents } from "@/lib/hooks/useUserEvents";
 import { cn } from "@/lib/utils";
 
 interface SimulationStatusBannerProps {
@@ -15,7 +16,7 @@ interface StatusDescriptor {
   readonly title: string;
   readonly description: string;
   readonly icon: ReactNode;
-  readonly tone: "info" | "warning" | "neutral";
+  readonly tone: "info" | "warning" | "neutral" | "error";
   readonly showCancel?: boolean;
 }
 
@@ -24,10 +25,16 @@ const TONE_STYLES: Record<StatusDescriptor["tone"], string> = {
   warning:
     "border-amber-400/40 bg-amber-400/10 text-amber-900 dark:text-amber-200",
   neutral: "border-muted/50 bg-muted/20 text-muted-foreground",
+  error: "border-destructive/40 bg-destructive/10 text-destructive",
 };
 
 const CANCELABLE_STATUSES = new Set(["running", "queued"]);
-const DISPLAYABLE_STATUSES = new Set(["running", "queued", "cancelled"]);
+const DISPLAYABLE_STATUSES = new Set([
+  "running",
+  "queued",
+  "cancelled",
+  "error",
+]);
 
 const buildDescriptor = (
   status: SimulationStatus | string | undefined,
@@ -60,6 +67,14 @@ const buildDescriptor = (
         icon: <CircleAlert className="size-5" aria-hidden />,
         tone: "warning",
       };
+    case "error":
+      return {
+        title: "Simulation failed",
+        description:
+          "The simulation could not be completed. Start a new simulation to refresh your dashboard metrics.",
+        icon: <CircleAlert className="size-5" aria-hidden />,
+        tone: "error",
+      };
     default:
       return null;
   }
@@ -70,12 +85,33 @@ export function SimulationStatusBanner({
   onCancel,
   isCancelling,
 }: SimulationStatusBannerProps) {
+  // Outcome pushed by the server before the dashboard data catches up
+  const [settled, setSettled] = useState<{
+    readonly simulationId: string;
+    readonly status: "completed" | "error";
+  } | null>(null);
+
+  useUserEvents(
+    (event) => {
+      if ("simulationId" in event.data) {
+        setSettled({
+          simulationId: event.data.simulationId,
+          status: event.type === "simulation.completed" ? "completed" : "error",
+        });
+      }
+    },
+    ["simulation.completed", "simulation.failed"],
+  );
+
   const bannerState = useMemo(() => {
     if (!simulation) {
       return null;
     }
 
-    const statusKey = String(simulation.status);
+    const statusKey =
+      settled?.simulationId === simulation.id
+        ? settled.status
+        : String(simulation.status);
     if (!DISPLAYABLE_STATUSES.has(statusKey)) {
       return null;
     }
@@ -86,7 +122,7 @@ export function SimulationStatusBanner({
     }
 
     return { statusKey, descriptor } as const;
-  }, [simulation]);
+  }, [settled, simulation]);
 
   if (!bannerState) {
     return null;
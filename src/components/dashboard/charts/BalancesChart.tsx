@@ -1,9 +1,14 @@
 import { useMemo } from "react";
 
+import type { StressTestBalancePoint } from "@/types";
 import type { ChartBalancePointVM } from "@/types/dashboard";
 
 interface BalancesChartProps {
   readonly points: ChartBalancePointVM[] | undefined;
+  /** Optional P10–P90 spread of the total balance from a rate stress test. */
+  readonly band?: StressTestBalancePoint[];
+  /** Names of the lines by `loanId`, e.g. when each line is a compared simulation. */
+  readonly lineLabels?: Readonly<Record<string, string>>;
 }
 
 const SVG_WIDTH = 800;
@@ -16,7 +21,7 @@ const CHART_WIDTH = SVG_WIDTH - PADDING_LEFT - PADDING_RIGHT;
 const CHART_HEIGHT = SVG_HEIGHT - PADDING_TOP - PADDING_BOTTOM;
 
 // Color palette for different loans
-const LOAN_COLORS = [
+export const LOAN_COLORS = [
   "#2563eb", // blue
   "#10b981", // emerald
   "#f59e0b", // amber
@@ -27,6 +32,8 @@ const LOAN_COLORS = [
   "#f97316", // orange
 ];
 
+const BAND_COLOR = "#6366f1";
+
 const currencyFormatter = new Intl.NumberFormat("pl-PL", {
   style: "currency",
   currency: "PLN",
@@ -47,7 +54,11 @@ const formatMonthLabel = (value: string | Date, short = false) => {
   return date.toLocaleDateString("pl-PL", { month: "long", year: "numeric" });
 };
 
-export function BalancesChart({ points }: BalancesChartProps) {
+export function BalancesChart({
+  points,
+  band,
+  lineLabels,
+}: BalancesChartProps) {
   const computed = useMemo(() => {
     if (!points || points.length === 0) {
       return null;
@@ -81,6 +92,17 @@ export function BalancesChart({ points }: BalancesChartProps) {
         }
       });
     });
+    const bandByMonth = new Map(
+      (band ?? []).map((entry) => [entry.month, entry]),
+    );
+    points.forEach((point) => {
+      const entry = bandByMonth.get(point.month);
+      if (!entry) return;
+      maxValue = Math.max(maxValue, entry.p90);
+      if (entry.p10 > 0) {
+        minValue = Math.min(minValue, entry.p10);
+      }
+    });
     if (minValue === Infinity) minValue = 0;
     const range = maxValue - minValue || 1;
 
@@ -133,6 +155,30 @@ export function BalancesChart({ points }: BalancesChartProps) {
       })
       .filter(Boolean);
 
+    // Shade the stress-test band: P90 left to right, then P10 back
+    const toY = (value: number) =>
+      PADDING_TOP +
+      CHART_HEIGHT -
+      ((Math.max(value, minValue) - minValue) / range) * CHART_HEIGHT;
+    const bandCoords = points.flatMap((point, index) => {
+      const entry = bandByMonth.get(point.month);
+      return entry ? [{ x: PADDING_LEFT + index * stepX, entry }] : [];
+    });
+    const bandShape =
+      bandCoords.length > 1
+        ? {
+            polygon: [
+              ...bandCoords.map((c) => `${c.x},${toY(c.entry.p90)}`),
+              ...[...bandCoords]
+                .reverse()
+                .map((c) => `${c.x},${toY(c.entry.p10)}`),
+            ].join(" "),
+            median: bandCoords
+              .map((c) => `${c.x},${toY(c.entry.p50)}`)
+              .join(" "),
+          }
+        : null;
+
     // Y-axis ticks (7 values)
     const yTicks = Array.from({ length: 7 }, (_, i) => {
       const value = minValue + (range * i) / 6;
@@ -155,11 +201,12 @@ export function BalancesChart({ points }: BalancesChartProps) {
 
     return {
       loanPaths,
+      bandShape,
       yTicks,
       xTicks,
       chartBottom: PADDING_TOP + CHART_HEIGHT,
     };
-  }, [points]);
+  }, [band, points]);
 
   if (!computed) {
     return null;
@@ -253,6 +300,24 @@ export function BalancesChart({ points }: BalancesChartProps) {
         </g>
       ))}
 
+      {computed.bandShape ? (
+        <g>
+          <polygon
+            points={computed.bandShape.polygon}
+            fill={BAND_COLOR}
+            fillOpacity={0.15}
+            stroke="none"
+          />
+          <polyline
+            points={computed.bandShape.median}
+            fill="none"
+            stroke={BAND_COLOR}
+            strokeWidth={1.5}
+            strokeDasharray="4,3"
+          />
+        </g>
+      ) : null}
+
       {/* Draw a line for each loan */}
       {computed.loanPaths.map((loanPath, index) => (
         <g key={loanPath?.loanId || index}>
@@ -272,7 +337,7 @@ export function BalancesChart({ points }: BalancesChartProps) {
                   r={4}
                   fill={loanPath.color}
                 >
-                  <title>{`Loan ${currencyFormatter.format(point.loanAmount)}: ${point.label} - ${currencyFormatter.format(point.value)}`}</title>
+                  <title>{`${lineLabels?.[loanPath.loanId] ?? `Loan ${currencyFormatter.format(point.loanAmount)}`}: ${point.label} - ${currencyFormatter.format(point.value)}`}</title>
                 </circle>
               ))}
             </>
@@ -1,5 +1,6 @@
 import { useMemo } from "react";
 
+import type { StressTestBalancePoint } from "@/types";
 import type {
   ChartBalancePointVM,
   ChartInterestPointVM,
@@ -12,6 +13,7 @@ import { InterestVsSavedChart } from "./InterestVsSavedChart";
 
 interface ChartsSectionProps {
   readonly balancePoints?: ChartBalancePointVM[];
+  readonly balanceBand?: StressTestBalancePoint[];
   readonly interestPoints?: ChartInterestPointVM[];
   readonly isLoading?: boolean;
 }
@@ -21,6 +23,7 @@ const hasData = <T,>(items: T[] | undefined): items is T[] =>
 
 export function ChartsSection({
   balancePoints,
+  balanceBand,
   interestPoints,
   isLoading = false,
 }: ChartsSectionProps) {
@@ -73,12 +76,15 @@ export function ChartsSection({
           "Track how your remaining balances trend under the active strategy."
         }
         hasData={hasData(balancePoints)}
-        chart={<BalancesChart points={balancePoints} />}
+        chart={<BalancesChart points={balancePoints} band={balanceBand} />}
         table={<BalancesAccessibleTable points={balancePoints} />}
         emptyMessage="Balance projections are unavailable. Re-run your simulation to regenerate chart data."
         legend={
-          <div className="flex items-center gap-4">
+          <div className="flex flex-wrap items-center gap-4">
             <LegendSwatch color="#2563eb" label="Remaining balance" />
+            {hasData(balanceBand) ? (
+              <LegendSwatch color="#6366f1" label="P10–P90 rate stress" />
+            ) : null}
           </div>
         }
         isLoading={isLoading}
@@ -4,6 +4,8 @@ import type { ChartInterestPointVM } from "@/types/dashboard";
 
 interface InterestVsSavedChartProps {
   readonly points: ChartInterestPointVM[] | undefined;
+  /** Names of the lines by `loanId`, e.g. when each line is a compared simulation. */
+  readonly lineLabels?: Readonly<Record<string, string>>;
 }
 
 const SVG_WIDTH = 800;
@@ -16,7 +18,7 @@ const CHART_WIDTH = SVG_WIDTH - PADDING_LEFT - PADDING_RIGHT;
 const CHART_HEIGHT = SVG_HEIGHT - PADDING_TOP - PADDING_BOTTOM;
 
 // Color palette for different loans (interest)
-const INTEREST_COLORS = [
+export const INTEREST_COLORS = [
   "#1f2937", // slate-800
   "#7c2d12", // amber-900
   "#7f1d1d", // red-900
@@ -26,7 +28,7 @@ const INTEREST_COLORS = [
 ];
 
 // Color palette for different loans (saved)
-const SAVED_COLORS = [
+export const SAVED_COLORS = [
   "#10b981", // emerald-500
   "#f59e0b", // amber-500
   "#ef4444", // red-500
@@ -55,7 +57,10 @@ const formatMonthLabel = (value: string | Date, short = false) => {
   return date.toLocaleDateString("pl-PL", { month: "long", year: "numeric" });
 };
 
-export function InterestVsSavedChart({ points }: InterestVsSavedChartProps) {
+export function InterestVsSavedChart({
+  points,
+  lineLabels,
+}: InterestVsSavedChartProps) {
   const computed = useMemo(() => {
     if (!points || points.length === 0) {
       return null;
@@ -298,7 +303,7 @@ export function InterestVsSavedChart({ points }: InterestVsSavedChartProps) {
               fill={loan.interestColor}
             >
               <title>
-                {`Loan ${currencyFormatter.format(coord.loanAmount)}: ${coord.label} - Interest ${currencyFormatter.format(coord.value)}`}
+                {`${lineLabels?.[loan.loanId] ?? `Loan ${currencyFormatter.format(coord.loanAmount)}`}: ${coord.label} - Interest ${currencyFormatter.format(coord.value)}`}
               </title>
             </circle>
           ))}
@@ -324,7 +329,7 @@ export function InterestVsSavedChart({ points }: InterestVsSavedChartProps) {
               fill={loan.savedColor}
             >
               <title>
-                {`Loan ${currencyFormatter.format(coord.loanAmount)}: ${coord.label} - Total saved ${currencyFormatter.format(coord.value)}`}
+                {`${lineLabels?.[loan.loanId] ?? `Loan ${currencyFormatter.format(coord.loanAmount)}`}: ${coord.label} - Total saved ${currencyFormatter.format(coord.value)}`}
               </title>
             </circle>
           ))}
@@ -0,0 +1,216 @@
+import { useId, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+import type { ApiErrorShape } from "@/lib/viewModels/loans";
+import type {
+  StressTestCommand,
+  StressTestModel,
+  StressTestResultDto,
+} from "@/types";
+
+const INPUT_CLASS_NAME =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm shadow-xs outline-none transition focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20";
+
+interface StressTestPanelProps {
+  readonly result: StressTestResultDto | null;
+  readonly isLoading: boolean;
+  readonly error?: ApiErrorShape | null;
+  readonly disabled?: boolean;
+  readonly onRun: (command: StressTestCommand) => void;
+}
+
+const formatMonth = (value: string | null) => {
+  if (!value) {
+    return "Not reached";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) {
+    return value;
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const parsePercent = (value: string): number | undefined => {
+  const parsed = Number.parseFloat(value);
+  return Number.isFinite(parsed) ? parsed / 100 : undefined;
+};
+
+export function StressTestPanel({
+  result,
+  isLoading,
+  error,
+  disabled = false,
+  onRun,
+}: StressTestPanelProps) {
+  const fieldId = useId();
+  const [model, setModel] = useState<StressTestModel>("random_walk");
+  const [drift, setDrift] = useState("0");
+  const [volatility, setVolatility] = useState("1");
+
+  const handleRun = () => {
+    onRun(
+      model === "historical"
+        ? { model }
+        : {
+            model,
+            drift: parsePercent(drift),
+            volatility: parsePercent(volatility),
+          },
+    );
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-xl border border-border bg-background p-6 shadow-sm">
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h3 className="text-base font-semibold text-foreground">
+            Rate stress test
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            Replays your plan under randomized index paths for variable-rate
+            loans and shows the P10–P90 range on the balance chart.
+          </p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={disabled || isLoading}
+          onClick={handleRun}
+        >
+          {isLoading ? "Running…" : result ? "Run again" : "Run"}
+        </Button>
+      </header>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor={`${fieldId}-model`}
+            className="text-xs font-medium text-foreground"
+          >
+            Scenario model
+          </label>
+          <select
+            id={`${fieldId}-model`}
+            className={INPUT_CLASS_NAME}
+            value={model}
+            onChange={(event) =>
+              setModel(event.target.value as StressTestModel)
+            }
+          >
+            <option value="random_walk">Random walk</option>
+            <option value="historical">Historical replay</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor={`${fieldId}-drift`}
+            className="text-xs font-medium text-foreground"
+          >
+            Yearly drift (pp)
+          </label>
+          <input
+            id={`${fieldId}-drift`}
+            type="number"
+            inputMode="decimal"
+            step="0.25"
+            min="-10"
+            max="10"
+            className={INPUT_CLASS_NAME}
+            value={drift}
+            disabled={model === "historical"}
+            onChange={(event) => setDrift(event.target.value)}
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <label
+            htmlFor={`${fieldId}-volatility`}
+            className="text-xs font-medium text-foreground"
+          >
+            Yearly volatility (pp)
+          </label>
+          <input
+            id={`${fieldId}-volatility`}
+            type="number"
+            inputMode="decimal"
+            step="0.25"
+            min="0"
+            max="20"
+            className={INPUT_CLASS_NAME}
+            value={volatility}
+            disabled={model === "historical"}
+            onChange={(event) => setVolatility(event.target.value)}
+          />
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive" role="alert">
+          {error.message ?? "Unable to run the stress test."}
+        </p>
+      ) : null}
+
+      {result ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <caption className="sr-only">
+              Stress test percentiles for payoff and total interest
+            </caption>
+            <thead className="text-xs text-muted-foreground">
+              <tr>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  <span className="sr-only">Measure</span>
+                </th>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  P10
+                </th>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  P50
+                </th>
+                <th scope="col" className="py-2 font-medium">
+                  P90
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-t border-border text-foreground">
+                <th scope="row" className="py-2 pr-3 font-medium">
+                  Payoff
+                </th>
+                <td className="py-2 pr-3">
+                  {formatMonth(result.payoffMonth.p10)}
+                </td>
+                <td className="py-2 pr-3">
+                  {formatMonth(result.payoffMonth.p50)}
+                </td>
+                <td className="py-2">{formatMonth(result.payoffMonth.p90)}</td>
+              </tr>
+              <tr className="border-t border-border text-foreground">
+                <th scope="row" className="py-2 pr-3 font-medium">
+                  Total interest
+                </th>
+                <td className="py-2 pr-3">
+                  {formatCurrency(result.totalInterest.p10)}
+                </td>
+                <td className="py-2 pr-3">
+                  {formatCurrency(result.totalInterest.p50)}
+                </td>
+                <td className="py-2">
+                  {formatCurrency(result.totalInterest.p90)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {`${result.runs} runs · seed ${result.seed}`}
+          </p>
+        </div>
+      ) : null}
+    </section>
+  );
+}
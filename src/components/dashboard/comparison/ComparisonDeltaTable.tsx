@@ -0,0 +1,124 @@
+import { formatCurrency } from "@/lib/formatters";
+import type { SimulationComparisonItem } from "@/types";
+
+interface ComparisonDeltaTableProps {
+  readonly simulations: SimulationComparisonItem[];
+  readonly labels: Readonly<Record<string, string>>;
+}
+
+const formatMonth = (value: string | null) => {
+  if (!value) {
+    return "--";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) {
+    return value;
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+const formatSigned = (
+  value: number | null | undefined,
+  format: (value: number) => string,
+) => {
+  if (typeof value !== "number") {
+    return null;
+  }
+  if (value === 0) {
+    return "±0";
+  }
+  return value > 0 ? `+${format(value)}` : `−${format(Math.abs(value))}`;
+};
+
+const formatMonths = (value: number) => `${value} mo`;
+
+function Delta({ value }: { readonly value: string | null }) {
+  if (!value) {
+    return null;
+  }
+  return <span className="ml-2 text-xs text-muted-foreground">({value})</span>;
+}
+
+/**
+ * Payoff, interest saved and monthly payment of each compared simulation, with the
+ * difference against the first (reference) simulation in brackets.
+ */
+export function ComparisonDeltaTable({
+  simulations,
+  labels,
+}: ComparisonDeltaTableProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-left text-sm">
+        <caption className="sr-only">
+          Payoff month, interest saved and monthly payment per simulation,
+          compared with the first simulation
+        </caption>
+        <thead className="text-xs text-muted-foreground">
+          <tr>
+            <th scope="col" className="py-2 pr-3 font-medium">
+              Simulation
+            </th>
+            <th scope="col" className="py-2 pr-3 font-medium">
+              Payoff
+            </th>
+            <th scope="col" className="py-2 pr-3 font-medium">
+              Interest saved
+            </th>
+            <th scope="col" className="py-2 font-medium">
+              Monthly payment
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {simulations.map((simulation, index) => (
+            <tr
+              key={simulation.simulationId}
+              className="border-t border-border text-foreground"
+            >
+              <th scope="row" className="py-2 pr-3 font-medium">
+                {labels[simulation.simulationId]}
+                {index === 0 ? (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    reference
+                  </span>
+                ) : null}
+              </th>
+              <td className="py-2 pr-3">
+                {formatMonth(simulation.projectedPayoffMonth)}
+                <Delta
+                  value={formatSigned(
+                    simulation.delta?.monthsToPayoff,
+                    formatMonths,
+                  )}
+                />
+              </td>
+              <td className="py-2 pr-3">
+                {formatCurrency(simulation.totalInterestSaved)}
+                <Delta
+                  value={formatSigned(
+                    simulation.delta?.totalInterestSaved,
+                    formatCurrency,
+                  )}
+                />
+              </td>
+              <td className="py-2">
+                {formatCurrency(simulation.monthlyPaymentTotal)}
+                <Delta
+                  value={formatSigned(
+                    simulation.delta?.monthlyPaymentTotal,
+                    formatCurrency,
+                  )}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+import { formatCurrency } from "@/lib/formatters";
+import type { SimulationComparisonSeries } from "@/types";
+
+interface ComparisonSeriesTableProps {
+  readonly months: string[];
+  readonly series: SimulationComparisonSeries[];
+  readonly labels: Readonly<Record<string, string>>;
+  readonly metric: "balance" | "interest";
+}
+
+const formatMonth = (value: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) {
+    return value;
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+export function ComparisonSeriesTable({
+  months,
+  series,
+  labels,
+  metric,
+}: ComparisonSeriesTableProps) {
+  if (months.length === 0) {
+    return null;
+  }
+
+  return (
+    <table className="min-w-full border-separate border-spacing-y-2 text-sm">
+      <caption className="text-left text-sm font-medium text-muted-foreground">
+        {metric === "balance"
+          ? "Remaining balance by month per simulation"
+          : "Interest charged and saved by month per simulation"}
+      </caption>
+      <thead className="text-xs uppercase tracking-wide text-muted-foreground">
+        <tr>
+          <th scope="col" className="text-left font-medium">
+            Month
+          </th>
+          {series.map((entry) => (
+            <th
+              key={entry.simulationId}
+              scope="col"
+              className="text-left font-medium"
+            >
+              {labels[entry.simulationId]}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {months.map((month, index) => (
+          <tr key={month} className="rounded border border-transparent">
+            <td className="py-1 pr-6 font-medium text-foreground">
+              {formatMonth(month)}
+            </td>
+            {series.map((entry) => {
+              const point = entry.points[index];
+              return (
+                <td
+                  key={entry.simulationId}
+                  className="py-1 pr-6 text-muted-foreground"
+                >
+                  {metric === "balance"
+                    ? formatCurrency(point?.totalRemaining)
+                    : `${formatCurrency(point?.interest)} (${formatCurrency(point?.interestSaved)} saved)`}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,324 @@
+import { useEffect, useMemo, useState } from "react";
+
+import { AppShell } from "@/components/layout/AppShell";
+import { Button } from "@/components/ui/button";
+import { useSimulationComparison } from "@/lib/hooks/useSimulationComparison";
+import type { SimulationComparisonDto, SimulationDto } from "@/types";
+import type {
+  ChartBalancePointVM,
+  ChartInterestPointVM,
+} from "@/types/dashboard";
+import { BalancesChart, LOAN_COLORS } from "../charts/BalancesChart";
+import { ChartCard } from "../charts/ChartCard";
+import {
+  INTEREST_COLORS,
+  InterestVsSavedChart,
+  SAVED_COLORS,
+} from "../charts/InterestVsSavedChart";
+import { ComparisonDeltaTable } from "./ComparisonDeltaTable";
+import { ComparisonSeriesTable } from "./ComparisonSeriesTable";
+
+const MIN_SELECTED = 2;
+const MAX_SELECTED = 5;
+
+const formatCreatedAt = (value: string) =>
+  new Date(value).toLocaleDateString("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+
+const simulationLabel = (
+  simulation: Pick<SimulationDto, "strategy" | "createdAt" | "isActive">,
+) =>
+  `${simulation.strategy} · ${formatCreatedAt(simulation.createdAt)}${
+    simulation.isActive ? " (active)" : ""
+  }`;
+
+/**
+ * Turns each compared simulation into one line of the existing charts: the charts
+ * draw a line per `loanId`, so the simulation id takes that place. Months before a
+ * schedule starts are left out so its line begins at its first month.
+ */
+const toChartPoints = (comparison: SimulationComparisonDto) => {
+  const balances: ChartBalancePointVM[] = comparison.months.map(
+    (month, index) => ({
+      month,
+      totalRemaining: 0,
+      loans: comparison.series.flatMap(({ simulationId, points }) => {
+        const remaining = points[index]?.totalRemaining;
+        return typeof remaining === "number"
+          ? [{ loanId: simulationId, loanAmount: 0, remaining }]
+          : [];
+      }),
+    }),
+  );
+
+  const interest: ChartInterestPointVM[] = comparison.months.map(
+    (month, index) => ({
+      month,
+      interest: 0,
+      interestSaved: 0,
+      loans: comparison.series.flatMap(({ simulationId, points }) => {
+        const point = points[index];
+        return point &&
+          typeof point.interest === "number" &&
+          typeof point.interestSaved === "number"
+          ? [
+              {
+                loanId: simulationId,
+                loanAmount: 0,
+                interest: point.interest,
+                interestSaved: point.interestSaved,
+              },
+            ]
+          : [];
+      }),
+    }),
+  );
+
+  // The charts colour lines in the order they first appear
+  const lineOrder = [
+    ...new Set(balances.flatMap((point) => point.loans.map((l) => l.loanId))),
+  ];
+
+  return { balances, interest, lineOrder };
+};
+
+function SimulationComparisonContent() {
+  const {
+    candidates,
+    isLoadingCandidates,
+    comparison,
+    isLoading,
+    error,
+    compare,
+  } = useSimulationComparison();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  // Start with the active simulation against the newest other one
+  useEffect(() => {
+    if (candidates.length < MIN_SELECTED) {
+      return;
+    }
+    const active = candidates.find((simulation) => simulation.isActive);
+    const ordered = active
+      ? [active, ...candidates.filter((simulation) => simulation !== active)]
+      : candidates;
+    setSelectedIds(
+      ordered.slice(0, MIN_SELECTED).map((simulation) => simulation.id),
+    );
+  }, [candidates]);
+
+  const labels = useMemo(
+    () =>
+      Object.fromEntries(
+        candidates.map((simulation) => [
+          simulation.id,
+          simulationLabel(simulation),
+        ]),
+      ),
+    [candidates],
+  );
+
+  const chartData = useMemo(
+    () => (comparison ? toChartPoints(comparison) : null),
+    [comparison],
+  );
+
+  const toggleSelected = (simulationId: string) => {
+    setSelectedIds((current) =>
+      current.includes(simulationId)
+        ? current.filter((id) => id !== simulationId)
+        : current.length < MAX_SELECTED
+          ? [...current, simulationId]
+          : current,
+    );
+  };
+
+  const hasSeries = Boolean(chartData && chartData.lineOrder.length > 0);
+  const canCompare =
+    selectedIds.length >= MIN_SELECTED && selectedIds.length <= MAX_SELECTED;
+
+  return (
+    <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-4 pb-16 pt-8">
+      <header className="space-y-2">
+        <h1 className="text-3xl font-semibold tracking-tight text-foreground">
+          Compare simulations
+        </h1>
+        <p className="text-sm text-muted-foreground">
+          Pick two to five simulations. The first one picked is the reference
+          the others are measured against.
+        </p>
+      </header>
+
+      <section className="flex flex-col gap-4 rounded-xl border border-border bg-background p-6 shadow-sm">
+        {isLoadingCandidates ? (
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            Loading simulations…
+          </p>
+        ) : candidates.length < MIN_SELECTED ? (
+          <p className="text-sm text-muted-foreground">
+            Run at least two simulations to compare them.
+          </p>
+        ) : (
+          <fieldset className="flex flex-col gap-2">
+            <legend className="mb-2 text-base font-semibold text-foreground">
+              Simulations
+            </legend>
+            {candidates.map((simulation) => {
+              const position = selectedIds.indexOf(simulation.id);
+              return (
+                <label
+                  key={simulation.id}
+                  className="flex items-center gap-3 text-sm text-foreground"
+                >
+                  <input
+                    type="checkbox"
+                    checked={position >= 0}
+                    disabled={
+                      position < 0 && selectedIds.length >= MAX_SELECTED
+                    }
+                    onChange={() => toggleSelected(simulation.id)}
+                    className="h-4 w-4 accent-primary disabled:opacity-70"
+                  />
+                  <span>{labels[simulation.id]}</span>
+                  {position === 0 ? (
+                    <span className="text-xs text-muted-foreground">
+                      reference
+                    </span>
+                  ) : null}
+                </label>
+              );
+            })}
+          </fieldset>
+        )}
+
+        <div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={!canCompare || isLoading}
+            onClick={() => void compare(selectedIds)}
+          >
+            {isLoading ? "Comparing…" : "Compare"}
+          </Button>
+        </div>
+
+        {error ? (
+          <p className="text-xs text-destructive" role="alert">
+            {error.message ?? "Unable to compare the simulations."}
+          </p>
+        ) : null}
+      </section>
+
+      {comparison && chartData ? (
+        <div className="space-y-8">
+          <section className="flex flex-col gap-4 rounded-xl border border-border bg-background p-6 shadow-sm">
+            <h3 className="text-base font-semibold text-foreground">
+              Differences
+            </h3>
+            <ComparisonDeltaTable
+              simulations={comparison.simulations}
+              labels={labels}
+            />
+          </section>
+
+          <ChartCard
+            title="Remaining balance"
+            description="Total remaining balance of each simulation by month."
+            hasData={hasSeries}
+            chart={
+              <BalancesChart points={chartData.balances} lineLabels={labels} />
+            }
+            table={
+              <ComparisonSeriesTable
+                months={comparison.months}
+                series={comparison.series}
+                labels={labels}
+                metric="balance"
+              />
+            }
+            emptyMessage="These simulations have no stored schedules. Re-run them to compare their balances."
+            legend={
+              <div className="flex flex-wrap items-center gap-4">
+                {chartData.lineOrder.map((simulationId, index) => (
+                  <LegendSwatch
+                    key={simulationId}
+                    color={LOAN_COLORS[index % LOAN_COLORS.length]}
+                    label={labels[simulationId]}
+                  />
+                ))}
+              </div>
+            }
+            isLoading={isLoading}
+          />
+
+          <ChartCard
+            title="Interest vs interest saved"
+            description="Monthly interest (solid) and interest saved (dashed) of each simulation."
+            hasData={hasSeries}
+            chart={
+              <InterestVsSavedChart
+                points={chartData.interest}
+                lineLabels={labels}
+              />
+            }
+            table={
+              <ComparisonSeriesTable
+                months={comparison.months}
+                series={comparison.series}
+                labels={labels}
+                metric="interest"
+              />
+            }
+            emptyMessage="These simulations have no stored schedules. Re-run them to compare their interest."
+            legend={
+              <div className="flex flex-wrap items-center gap-4">
+                {chartData.lineOrder.map((simulationId, index) => (
+                  <span key={simulationId} className="flex items-center gap-2">
+                    <LegendSwatch
+                      color={INTEREST_COLORS[index % INTEREST_COLORS.length]}
+                      label=""
+                    />
+                    <LegendSwatch
+                      color={SAVED_COLORS[index % SAVED_COLORS.length]}
+                      label={labels[simulationId]}
+                    />
+                  </span>
+                ))}
+              </div>
+            }
+            isLoading={isLoading}
+          />
+        </div>
+      ) : null}
+    </main>
+  );
+}
+
+interface LegendSwatchProps {
+  readonly color: string;
+  readonly label: string;
+}
+
+function LegendSwatch({ color, label }: LegendSwatchProps) {
+  return (
+    <span className="flex items-center gap-2">
+      <span
+        className="h-2 w-2 rounded-full"
+        style={{ backgroundColor: color }}
+      />
+      {label ? <span>{label}</span> : null}
+    </span>
+  );
+}
+
+export function SimulationComparisonPage() {
+  return (
+    <AppShell activeNav="compare" title="Compare simulations">
+      <SimulationComparisonContent />
+    </AppShell>
+  );
+}
@@ -1,5 +1,11 @@
 import type { ReactNode } from "react";
-import { Lightbulb, PieChart, PiggyBank, TrendingUp } from "lucide-react";
+import {
+  Lightbulb,
+  PieChart,
+  PiggyBank,
+  TrendingUp,
+  Wallet,
+} from "lucide-react";
 
 import { useDashboardData } from "@/lib/hooks/useDashboardData";
 import { OverviewCard } from "./OverviewCard";
@@ -9,6 +15,7 @@ const ICONS: Record<string, ReactNode> = {
   Goal: <Lightbulb className="size-5" aria-hidden />,
   "Projected payoff": <PieChart className="size-5" aria-hidden />,
   "Total interest saved": <PiggyBank className="size-5" aria-hidden />,
+  "Budget this month": <Wallet className="size-5" aria-hidden />,
 };
 
 export function OverviewCards() {
@@ -0,0 +1,52 @@
+import { useDashboardData } from "@/lib/hooks/useDashboardData";
+import { cn } from "@/lib/utils";
+
+export function StrategyPhasesPanel() {
+  const { strategyPhases } = useDashboardData();
+
+  if (strategyPhases.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="dashboard-phases-heading" className="space-y-4">
+      <div>
+        <h2
+          id="dashboard-phases-heading"
+          className="text-xl font-semibold text-foreground"
+        >
+          Strategy phases
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Your plan switches strategy as each phase&apos;s trigger is reached.
+        </p>
+      </div>
+
+      <ol className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+        {strategyPhases.map((phase) => (
+          <li
+            key={phase.index}
+            aria-current={phase.isActive ? "step" : undefined}
+            className={cn(
+              "space-y-1 rounded-xl border p-4",
+              phase.isActive
+                ? "border-primary/60 bg-primary/5"
+                : "border-muted/50 bg-muted/10",
+              phase.isCompleted && "opacity-60",
+            )}
+          >
+            <p className="text-xs font-medium text-muted-foreground">
+              Phase {phase.index + 1}
+              {phase.isActive ? " · Active" : null}
+              {phase.isCompleted ? " · Done" : null}
+            </p>
+            <p className="text-sm font-semibold text-foreground">
+              {phase.strategyLabel}
+            </p>
+            <p className="text-xs text-muted-foreground">{phase.startsWhen}</p>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -7,6 +7,7 @@ import { cn } from "@/lib/utils";
 
 const NAV_ITEMS = [
   { key: "dashboard", label: "Dashboard", href: "/dashboard" },
+  { key: "compare", label: "Compare", href: "/dashboard/compare" },
   { key: "loans", label: "Loans", href: "/loans" },
   { key: "settings", label: "Settings", href: "/settings" },
 ] as const;
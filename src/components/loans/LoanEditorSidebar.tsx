@@ -4,13 +4,14 @@ import {
   useCallback,
   useEffect,
   useMemo,
+  useRef,
   useState,
 } from "react";
 import { z } from "zod";
 import { X } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
-import { useApiFetch } from "@/lib/hooks/useApiFetch";
+import { createIdempotencyKey, useApiFetch } from "@/lib/hooks/useApiFetch";
 import type { ApiFetchMeta } from "@/lib/hooks/useApiFetch";
 import type {
   LoanFormErrors,
@@ -18,7 +19,13 @@ import type {
   LoanListItemVM,
   StaleTrigger,
 } from "@/lib/viewModels/loans";
-import type { CreateLoanCommand, LoanDto, UpdateLoanCommand } from "@/types";
+import type {
+  CreateLoanChangeEventCommand,
+  CreateLoanCommand,
+  LoanChangeEventDto,
+  LoanDto,
+  UpdateLoanCommand,
+} from "@/types";
 
 interface LoanEditorSidebarProps {
   readonly open: boolean;
@@ -51,6 +58,78 @@ const MONTH_OPTIONS: { value: string; label: string }[] = [
   { value: "12", label: "December" },
 ];
 
+const AMORTIZATION_TYPE_OPTIONS: {
+  value: LoanFormValues["amortizationType"];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "annuity",
+    label: "Equal installments",
+    description: "Every installment is the same; the interest part shrinks.",
+  },
+  {
+    value: "decreasing",
+    label: "Decreasing installments",
+    description:
+      "The principal part is constant, so installments fall every month.",
+  },
+];
+
+const INTEREST_ACCRUAL_OPTIONS: {
+  value: LoanFormValues["interestAccrual"];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "thirty_360",
+    label: "30/360",
+    description: "Every month accrues a twelfth of the yearly rate.",
+  },
+  {
+    value: "actual_365",
+    label: "Actual/365",
+    description:
+      "Interest accrues daily between payment dates, as most Polish banks charge it.",
+  },
+];
+
+const OVERPAYMENT_EFFECT_OPTIONS: {
+  value: LoanFormValues["overpaymentEffect"];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "shorten_term",
+    label: "Shorten the term",
+    description: "The installment stays the same and the loan ends sooner.",
+  },
+  {
+    value: "lower_installment",
+    label: "Lower the installment",
+    description:
+      "The end date stays the same and the installment is recalculated.",
+  },
+];
+
+const RATE_TYPE_OPTIONS: {
+  value: LoanFormValues["rateType"];
+  label: string;
+}[] = [
+  { value: "fixed", label: "Fixed rate" },
+  { value: "variable", label: "Variable (index + margin)" },
+];
+
+const MONEY_ROUNDING_OPTIONS: {
+  value: LoanFormValues["interestRounding"];
+  label: string;
+}[] = [
+  { value: "half_up", label: "To nearest grosz (half up)" },
+  { value: "half_even", label: "To nearest grosz (half to even)" },
+  { value: "down", label: "Always down" },
+  { value: "up", label: "Always up" },
+];
+
 const CURRENT_YEAR = new Date().getFullYear();
 const YEAR_WINDOW_PAST = 60;
 const YEAR_WINDOW_FUTURE = 40;
@@ -123,7 +202,64 @@ const formSchema = z
     startMonth: z
       .string({ required_error: "Select a start month." })
       .regex(MONTH_PATTERN, "Select a valid month."),
-    rateChangeEffective: z.enum(["current", "next"]),
+    amortizationType: z.enum(["annuity", "decreasing"], {
+      errorMap: () => ({ message: "Select an installment type." }),
+    }),
+    interestAccrual: z.enum(["thirty_360", "actual_365"], {
+      errorMap: () => ({ message: "Select how interest accrues." }),
+    }),
+    paymentDay: z
+      .number({ invalid_type_error: "Enter a valid day." })
+      .int("Day must be a whole number.")
+      .min(1, "Day must be between 1 and 31.")
+      .max(31, "Day must be between 1 and 31.")
+      .optional(),
+    interestRounding: z.enum(["half_up", "half_even", "down", "up"], {
+      errorMap: () => ({ message: "Select how interest is rounded." }),
+    }),
+    installmentRounding: z.enum(["half_up", "half_even", "down", "up"], {
+      errorMap: () => ({ message: "Select how installments are rounded." }),
+    }),
+    overpaymentEffect: z.enum(["shorten_term", "lower_installment"], {
+      errorMap: () => ({ message: "Select how overpayments are applied." }),
+    }),
+    rateType: z.enum(["fixed", "variable"], {
+      errorMap: () => ({ message: "Select a rate type." }),
+    }),
+    rateIndexId: z
+      .string()
+      .trim()
+      .max(32, "Index name must be at most 32 characters.")
+      .optional(),
+    rateMarginPercent: z
+      .number({ invalid_type_error: "Enter a valid margin." })
+      .finite("Enter a valid margin.")
+      .min(0, "Margin cannot be negative.")
+      .lt(100, "Margin must be less than 100%.")
+      .optional(),
+    prepaymentFeePercent: z
+      .number({ invalid_type_error: "Enter a valid fee." })
+      .finite("Enter a valid fee.")
+      .min(0, "Fee cannot be negative.")
+      .lt(100, "Fee must be less than 100%.")
+      .optional(),
+    prepaymentFeeMonths: z
+      .number({ invalid_type_error: "Enter a valid number of months." })
+      .int("Months must be a whole number.")
+      .gt(0, "Months must be greater than 0.")
+      .optional(),
+    prepaymentFreeAllowance: z
+      .number({ invalid_type_error: "Enter a valid allowance." })
+      .finite("Enter a valid allowance.")
+      .min(0, "Allowance cannot be negative.")
+      .optional(),
+    minOverpayment: z
+      .number({ invalid_type_error: "Enter a valid minimum." })
+      .finite("Enter a valid minimum.")
+      .min(0, "Minimum cannot be negative.")
+      .optional(),
+    changeEffective: z.enum(["current", "scheduled"]),
+    effectiveMonth: z.string().regex(MONTH_PATTERN, "Select a valid month."),
   })
   .superRefine((data, ctx) => {
     if (
@@ -144,6 +280,40 @@ const formSchema = z
         message: "Original term should be greater than or equal to term.",
       });
     }
+
+    if (data.rateType === "variable") {
+      if (!data.rateIndexId) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rateIndexId"],
+          message: "Enter the reference index, e.g. WIBOR3M.",
+        });
+      }
+      if (data.rateMarginPercent === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["rateMarginPercent"],
+          message: "Enter the bank margin.",
+        });
+      }
+    }
+
+    if (data.prepaymentFeePercent === undefined) {
+      if (data.prepaymentFeeMonths !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["prepaymentFeeMonths"],
+          message: "Enter the fee this period applies to.",
+        });
+      }
+      if (data.prepaymentFreeAllowance !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["prepaymentFreeAllowance"],
+          message: "Enter the fee charged above this allowance.",
+        });
+      }
+    }
   });
 
 const toIsoMonth = (value: string): string => {
@@ -160,6 +330,86 @@ const getCurrentMonth = (): string => {
   return `${now.getFullYear()}-${month}-01`;
 };
 
+const getNextMonth = (): string => {
+  const now = new Date();
+  const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  const month = String(next.getMonth() + 1).padStart(2, "0");
+  return `${next.getFullYear()}-${month}-01`;
+};
+
+const VALUE_TOLERANCE = 0.000001;
+
+const differs = (next: number, previous: number | null | undefined) =>
+  typeof previous !== "number" || Math.abs(next - previous) > VALUE_TOLERANCE;
+
+/**
+ * Turns the edited rate, term, balance and principal into future-dated change events.
+ * Returns null when a field that cannot be scheduled was edited as well.
+ */
+const buildScheduledChanges = (
+  loan: LoanListItemVM,
+  command: CreateLoanCommand,
+  effectiveMonth: string,
+): CreateLoanChangeEventCommand[] | null => {
+  const unschedulableChanged =
+    command.startMonth !== loan.startMonth ||
+    command.originalTermMonths !== loan.originalTermMonths ||
+    command.amortizationType !== loan.amortizationType ||
+    command.interestAccrual !== loan.interestAccrual ||
+    (command.paymentDay ?? null) !== (loan.paymentDay ?? null) ||
+    command.interestRounding !== loan.interestRounding ||
+    command.installmentRounding !== loan.installmentRounding ||
+    command.overpaymentEffect !== loan.overpaymentEffect ||
+    command.rateType !== loan.rateType ||
+    (command.rateIndexId ?? null) !== (loan.rateIndexId ?? null) ||
+    (command.rateMargin ?? null) !== (loan.rateMargin ?? null) ||
+    differs(command.prepaymentFeeRate ?? 0, loan.prepaymentFeeRate ?? 0) ||
+    (command.prepaymentFeeMonths ?? null) !==
+      (loan.prepaymentFeeMonths ?? null) ||
+    differs(
+      command.prepaymentFreeAllowance ?? 0,
+      loan.prepaymentFreeAllowance ?? 0,
+    ) ||
+    differs(command.minOverpayment ?? 0, loan.minOverpayment ?? 0);
+  if (unschedulableChanged) {
+    return null;
+  }
+
+  const events: CreateLoanChangeEventCommand[] = [];
+  const base = { loanId: loan.id, effectiveMonth };
+
+  if (differs(command.annualRate, loan.annualRate)) {
+    events.push({
+      ...base,
+      changeType: "rate_change",
+      newAnnualRate: command.annualRate,
+    });
+  }
+  if (command.termMonths !== loan.termMonths) {
+    events.push({
+      ...base,
+      changeType: "term_adjustment",
+      newTermMonths: command.termMonths,
+    });
+  }
+  if (differs(command.remainingBalance, loan.remainingBalance)) {
+    events.push({
+      ...base,
+      changeType: "balance_adjustment",
+      newRemainingBalance: command.remainingBalance,
+    });
+  }
+  if (differs(command.principal, loan.principal)) {
+    events.push({
+      ...base,
+      changeType: "principal_correction",
+      newPrincipal: command.principal,
+    });
+  }
+
+  return events;
+};
+
 const buildDefaultValues = (): LoanFormValues => {
   return {
     principal: "",
@@ -168,7 +418,21 @@ const buildDefaultValues = (): LoanFormValues => {
     termMonths: "",
     originalTermMonths: "",
     startMonth: getCurrentMonth(),
-    rateChangeEffective: "current",
+    amortizationType: "annuity",
+    interestAccrual: "thirty_360",
+    paymentDay: "",
+    interestRounding: "half_up",
+    installmentRounding: "half_up",
+    overpaymentEffect: "shorten_term",
+    rateType: "fixed",
+    rateIndexId: "",
+    rateMargin: "",
+    prepaymentFeeRate: "",
+    prepaymentFeeMonths: "",
+    prepaymentFreeAllowance: "",
+    minOverpayment: "",
+    changeEffective: "current",
+    effectiveMonth: getNextMonth(),
   };
 };
 
@@ -180,7 +444,27 @@ const mapLoanToValues = (loan: LoanListItemVM): LoanFormValues => {
     termMonths: Number(loan.termMonths ?? 0),
     originalTermMonths: Number(loan.originalTermMonths ?? 0),
     startMonth: loan.startMonth ?? getCurrentMonth(),
-    rateChangeEffective: "current",
+    amortizationType: loan.amortizationType ?? "annuity",
+    interestAccrual: loan.interestAccrual ?? "thirty_360",
+    paymentDay: loan.paymentDay ?? "",
+    interestRounding: loan.interestRounding ?? "half_up",
+    installmentRounding: loan.installmentRounding ?? "half_up",
+    overpaymentEffect: loan.overpaymentEffect ?? "shorten_term",
+    rateType: loan.rateType ?? "fixed",
+    rateIndexId: loan.rateIndexId ?? "",
+    rateMargin:
+      loan.rateMargin === null || loan.rateMargin === undefined
+        ? ""
+        : Number(loan.rateMargin * 100),
+    prepaymentFeeRate:
+      loan.prepaymentFeeRate === null || loan.prepaymentFeeRate === undefined
+        ? ""
+        : Number(loan.prepaymentFeeRate * 100),
+    prepaymentFeeMonths: loan.prepaymentFeeMonths ?? "",
+    prepaymentFreeAllowance: loan.prepaymentFreeAllowance ?? "",
+    minOverpayment: loan.minOverpayment ?? "",
+    changeEffective: "current",
+    effectiveMonth: getNextMonth(),
   };
 };
 
@@ -215,6 +499,13 @@ export const LoanEditorSidebar = ({
   const [effectiveEtag, setEffectiveEtag] = useState<string | undefined>(
     etag ?? undefined,
   );
+  const submissionKeyRef = useRef<string | undefined>(undefined);
+
+  // Resubmitting unchanged values reuses the key, so a save that reached the
+  // server before failing is not applied twice
+  useEffect(() => {
+    submissionKeyRef.current = undefined;
+  }, [values, loan?.id, mode]);
 
   useEffect(() => {
     if (!open) {
@@ -290,7 +581,7 @@ export const LoanEditorSidebar = ({
         ...current,
         [field]: undefined,
       }));
-      if (field !== "rateChangeEffective") {
+      if (field !== "changeEffective" && field !== "effectiveMonth") {
         setNonFieldError(null);
       }
     },
@@ -306,6 +597,12 @@ export const LoanEditorSidebar = ({
         | "annualRate"
         | "termMonths"
         | "originalTermMonths"
+        | "rateMargin"
+        | "paymentDay"
+        | "prepaymentFeeRate"
+        | "prepaymentFeeMonths"
+        | "prepaymentFreeAllowance"
+        | "minOverpayment"
       >,
     ) =>
       (event: ChangeEvent<HTMLInputElement>) => {
@@ -344,11 +641,96 @@ export const LoanEditorSidebar = ({
     [startMonthParts.month, updateField],
   );
 
-  const handleRateEffectiveChange = useCallback(
+  const effectiveMonthParts = useMemo(
+    () => parseIsoMonthParts(values.effectiveMonth),
+    [values.effectiveMonth],
+  );
+
+  const effectiveYearOptions = useMemo(
+    () => buildYearOptions(effectiveMonthParts.year),
+    [effectiveMonthParts.year],
+  );
+
+  const handleEffectiveMonthMonthChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      updateField(
+        "effectiveMonth",
+        buildIsoMonth(effectiveMonthParts.year, event.target.value),
+      );
+    },
+    [effectiveMonthParts.year, updateField],
+  );
+
+  const handleEffectiveMonthYearChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      updateField(
+        "effectiveMonth",
+        buildIsoMonth(event.target.value, effectiveMonthParts.month),
+      );
+    },
+    [effectiveMonthParts.month, updateField],
+  );
+
+  const handleAmortizationTypeChange = useCallback(
     (event: ChangeEvent<HTMLInputElement>) => {
       updateField(
-        "rateChangeEffective",
-        event.target.value as LoanFormValues["rateChangeEffective"],
+        "amortizationType",
+        event.target.value as LoanFormValues["amortizationType"],
+      );
+    },
+    [updateField],
+  );
+
+  const handleInterestAccrualChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      updateField(
+        "interestAccrual",
+        event.target.value as LoanFormValues["interestAccrual"],
+      );
+    },
+    [updateField],
+  );
+
+  const handleRoundingChange = useCallback(
+    (field: "interestRounding" | "installmentRounding") =>
+      (event: ChangeEvent<HTMLSelectElement>) => {
+        updateField(
+          field,
+          event.target.value as LoanFormValues["interestRounding"],
+        );
+      },
+    [updateField],
+  );
+
+  const handleOverpaymentEffectChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      updateField(
+        "overpaymentEffect",
+        event.target.value as LoanFormValues["overpaymentEffect"],
+      );
+    },
+    [updateField],
+  );
+
+  const handleRateTypeChange = useCallback(
+    (event: ChangeEvent<HTMLSelectElement>) => {
+      updateField("rateType", event.target.value as LoanFormValues["rateType"]);
+    },
+    [updateField],
+  );
+
+  const handleRateIndexIdChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      updateField("rateIndexId", event.target.value);
+    },
+    [updateField],
+  );
+
+  const handleChangeEffectiveChange = useCallback(
+    (event: ChangeEvent<HTMLInputElement>) => {
+      updateField(
+        "changeEffective",
+        event.target.value as LoanFormValues["changeEffective"],
       );
     },
     [updateField],
@@ -373,6 +755,29 @@ export const LoanEditorSidebar = ({
         termMonths: formData.termMonths,
         originalTermMonths: formData.originalTermMonths,
         startMonth: formData.startMonth,
+        amortizationType: formData.amortizationType,
+        interestAccrual: formData.interestAccrual,
+        paymentDay: formData.paymentDay ?? null,
+        interestRounding: formData.interestRounding,
+        installmentRounding: formData.installmentRounding,
+        overpaymentEffect: formData.overpaymentEffect,
+        rateType: formData.rateType,
+        rateIndexId:
+          formData.rateType === "variable"
+            ? (formData.rateIndexId ?? "").toUpperCase()
+            : null,
+        rateMargin:
+          formData.rateType === "variable" &&
+          formData.rateMarginPercent !== undefined
+            ? formData.rateMarginPercent / 100
+            : null,
+        prepaymentFeeRate:
+          formData.prepaymentFeePercent !== undefined
+            ? formData.prepaymentFeePercent / 100
+            : null,
+        prepaymentFeeMonths: formData.prepaymentFeeMonths ?? null,
+        prepaymentFreeAllowance: formData.prepaymentFreeAllowance ?? null,
+        minOverpayment: formData.minOverpayment ?? null,
       };
 
       if (mode === "create") {
@@ -386,17 +791,12 @@ export const LoanEditorSidebar = ({
         ...base,
       };
 
-      const originalRate = loan?.annualRate ?? null;
-      const rateChanged =
-        typeof originalRate === "number" &&
-        Math.abs(annualRateDecimal - originalRate) > 0.000001;
-
-      const trigger: StaleTrigger =
-        rateChanged && formData.rateChangeEffective === "next"
-          ? "rate_change"
-          : "edit";
+      const rateChanged = differs(annualRateDecimal, loan?.annualRate);
 
-      return { command: updated, trigger };
+      return {
+        command: updated,
+        trigger: rateChanged ? "rate_change" : "edit",
+      };
     },
     [loan, mode],
   );
@@ -431,8 +831,52 @@ export const LoanEditorSidebar = ({
       case "startMonth":
         target.startMonth = message;
         break;
-      case "rateChangeEffective":
-        target.rateChangeEffective = message;
+      case "amortizationType":
+        target.amortizationType = message;
+        break;
+      case "interestAccrual":
+        target.interestAccrual = message;
+        break;
+      case "paymentDay":
+        target.paymentDay = message;
+        break;
+      case "interestRounding":
+        target.interestRounding = message;
+        break;
+      case "installmentRounding":
+        target.installmentRounding = message;
+        break;
+      case "overpaymentEffect":
+        target.overpaymentEffect = message;
+        break;
+      case "rateType":
+        target.rateType = message;
+        break;
+      case "rateIndexId":
+        target.rateIndexId = message;
+        break;
+      case "rateMargin":
+      case "rateMarginPercent":
+        target.rateMargin = message;
+        break;
+      case "prepaymentFeeRate":
+      case "prepaymentFeePercent":
+        target.prepaymentFeeRate = message;
+        break;
+      case "prepaymentFeeMonths":
+        target.prepaymentFeeMonths = message;
+        break;
+      case "prepaymentFreeAllowance":
+        target.prepaymentFreeAllowance = message;
+        break;
+      case "minOverpayment":
+        target.minOverpayment = message;
+        break;
+      case "changeEffective":
+        target.changeEffective = message;
+        break;
+      case "effectiveMonth":
+        target.effectiveMonth = message;
         break;
       default:
         target.nonFieldError = message;
@@ -472,7 +916,35 @@ export const LoanEditorSidebar = ({
         termMonths,
         originalTermMonths,
         startMonth: normalizedMonth,
-        rateChangeEffective: values.rateChangeEffective,
+        amortizationType: values.amortizationType,
+        interestAccrual: values.interestAccrual,
+        paymentDay:
+          values.paymentDay === "" ? undefined : Number(values.paymentDay),
+        interestRounding: values.interestRounding,
+        installmentRounding: values.installmentRounding,
+        overpaymentEffect: values.overpaymentEffect,
+        rateType: values.rateType,
+        rateIndexId: values.rateIndexId || undefined,
+        rateMarginPercent:
+          values.rateMargin === "" ? undefined : Number(values.rateMargin),
+        prepaymentFeePercent:
+          values.prepaymentFeeRate === ""
+            ? undefined
+            : Number(values.prepaymentFeeRate),
+        prepaymentFeeMonths:
+          values.prepaymentFeeMonths === ""
+            ? undefined
+            : Number(values.prepaymentFeeMonths),
+        prepaymentFreeAllowance:
+          values.prepaymentFreeAllowance === ""
+            ? undefined
+            : Number(values.prepaymentFreeAllowance),
+        minOverpayment:
+          values.minOverpayment === ""
+            ? undefined
+            : Number(values.minOverpayment),
+        changeEffective: values.changeEffective,
+        effectiveMonth: values.effectiveMonth,
       });
 
       if (!parsed.success) {
@@ -491,10 +963,79 @@ export const LoanEditorSidebar = ({
         return;
       }
 
+      const { command, trigger } = buildCommandPayload(parsed.data);
+
+      if (
+        mode === "edit" &&
+        loan &&
+        parsed.data.changeEffective === "scheduled"
+      ) {
+        if (parsed.data.effectiveMonth <= getCurrentMonth()) {
+          setErrors({
+            effectiveMonth: "Choose a month after the current one.",
+          });
+          return;
+        }
+
+        const scheduled = buildScheduledChanges(
+          loan,
+          command,
+          parsed.data.effectiveMonth,
+        );
+        if (!scheduled) {
+          setNonFieldError(
+            "Only the rate, term, balance and principal can be scheduled. Save other changes for the current month first.",
+          );
+          return;
+        }
+        if (scheduled.length === 0) {
+          setNonFieldError("Change the rate, term or balance to schedule it.");
+          return;
+        }
+
+        clearErrors();
+        setIsSubmitting(true);
+        const submissionKey =
+          submissionKeyRef.current ?? createIdempotencyKey();
+        submissionKeyRef.current = submissionKey;
+
+        let meta: ApiFetchMeta | null = null;
+        for (const [index, event] of scheduled.entries()) {
+          const result = await apiFetch<
+            LoanChangeEventDto,
+            CreateLoanChangeEventCommand
+          >({
+            path: "/api/loan-change-events",
+            method: "POST",
+            body: event,
+            idempotencyKey: `${submissionKey}:${index}`,
+          });
+
+          if (!result.ok) {
+            resetSubmittingState();
+            setNonFieldError(result.error.message);
+            return;
+          }
+          meta = result.meta;
+        }
+
+        submissionKeyRef.current = undefined;
+        onSaved({
+          loan,
+          etag: effectiveEtag ?? null,
+          trigger: "scheduled_change",
+          meta,
+        });
+
+        resetSubmittingState();
+        return;
+      }
+
       clearErrors();
       setIsSubmitting(true);
+      const submissionKey = submissionKeyRef.current ?? createIdempotencyKey();
+      submissionKeyRef.current = submissionKey;
 
-      const { command, trigger } = buildCommandPayload(parsed.data);
       let path = "/api/loans";
       let method: "POST" | "PUT" = "POST";
       const headers: Record<string, string> = {};
@@ -515,6 +1056,7 @@ export const LoanEditorSidebar = ({
         method,
         body: command,
         headers,
+        idempotencyKey: submissionKey,
       });
 
       if (!result.ok || !result.data) {
@@ -545,6 +1087,7 @@ export const LoanEditorSidebar = ({
         etag: result.meta?.etag ?? undefined,
       };
 
+      submissionKeyRef.current = undefined;
       setEffectiveEtag(result.meta?.etag ?? undefined);
 
       onSaved({
@@ -685,6 +1228,86 @@ export const LoanEditorSidebar = ({
               ) : null}
             </div>
 
+            <div>
+              <label
+                className="block text-sm font-medium text-slate-700"
+                htmlFor="loan-rate-type"
+              >
+                Rate type
+              </label>
+              <select
+                id="loan-rate-type"
+                className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                value={values.rateType}
+                onChange={handleRateTypeChange}
+              >
+                {RATE_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+              {errors.rateType ? (
+                <p className="mt-1 text-xs text-red-600">{errors.rateType}</p>
+              ) : null}
+            </div>
+
+            {values.rateType === "variable" ? (
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-rate-index-id"
+                  >
+                    Reference index
+                  </label>
+                  <input
+                    id="loan-rate-index-id"
+                    type="text"
+                    maxLength={32}
+                    placeholder="WIBOR3M"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm uppercase focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={values.rateIndexId}
+                    onChange={handleRateIndexIdChange}
+                  />
+                  {errors.rateIndexId ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.rateIndexId}
+                    </p>
+                  ) : null}
+                </div>
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-rate-margin"
+                  >
+                    Bank margin (%)
+                  </label>
+                  <input
+                    id="loan-rate-margin"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    max="99.99"
+                    step="0.01"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={inputDisplay(values.rateMargin)}
+                    onChange={handleNumberChange("rateMargin")}
+                  />
+                  {errors.rateMargin ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.rateMargin}
+                    </p>
+                  ) : null}
+                </div>
+                <p className="text-xs text-slate-500 sm:col-span-2">
+                  Projections use the imported index value for each month plus
+                  this margin. The annual rate above applies until index values
+                  are available.
+                </p>
+              </div>
+            ) : null}
+
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div>
                 <label
@@ -787,41 +1410,383 @@ export const LoanEditorSidebar = ({
 
             <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
               <legend className="px-1 text-sm font-medium text-slate-700">
-                Interest rate effective date
+                Installment type
               </legend>
               <p className="text-xs text-slate-500">
-                Choose when the new rate should take effect. Selecting next
-                month will mark simulations as stale.
+                Check your loan agreement for how installments are calculated.
               </p>
               <div className="mt-2 flex flex-col gap-2">
-                <label className="inline-flex items-center gap-2 text-sm text-slate-700">
-                  <input
-                    type="radio"
-                    name="rate-effective"
-                    value="current"
-                    checked={values.rateChangeEffective === "current"}
-                    onChange={handleRateEffectiveChange}
-                  />
-                  Current month
-                </label>
-                <label className="inline-flex items-center gap-2 text-sm text-slate-700">
-                  <input
-                    type="radio"
-                    name="rate-effective"
-                    value="next"
-                    checked={values.rateChangeEffective === "next"}
-                    onChange={handleRateEffectiveChange}
-                  />
-                  Next month
+                {AMORTIZATION_TYPE_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="inline-flex items-start gap-2 text-sm text-slate-700"
+                  >
+                    <input
+                      type="radio"
+                      name="amortization-type"
+                      className="mt-1"
+                      value={option.value}
+                      checked={values.amortizationType === option.value}
+                      onChange={handleAmortizationTypeChange}
+                    />
+                    <span>
+                      {option.label}
+                      <span className="block text-xs text-slate-500">
+                        {option.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {errors.amortizationType ? (
+                <p className="mt-1 text-xs text-red-600">
+                  {errors.amortizationType}
+                </p>
+              ) : null}
+            </fieldset>
+
+            <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
+              <legend className="px-1 text-sm font-medium text-slate-700">
+                Interest accrual
+              </legend>
+              <p className="text-xs text-slate-500">
+                Match your bank statement. Overpayments made before the payment
+                day stop accruing interest from the day they are paid.
+              </p>
+              <div className="mt-2 flex flex-col gap-2">
+                {INTEREST_ACCRUAL_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="inline-flex items-start gap-2 text-sm text-slate-700"
+                  >
+                    <input
+                      type="radio"
+                      name="interest-accrual"
+                      className="mt-1"
+                      value={option.value}
+                      checked={values.interestAccrual === option.value}
+                      onChange={handleInterestAccrualChange}
+                    />
+                    <span>
+                      {option.label}
+                      <span className="block text-xs text-slate-500">
+                        {option.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+              {errors.interestAccrual ? (
+                <p className="mt-1 text-xs text-red-600">
+                  {errors.interestAccrual}
+                </p>
+              ) : null}
+              <div className="mt-2">
+                <label
+                  className="block text-sm font-medium text-slate-700"
+                  htmlFor="loan-payment-day"
+                >
+                  Payment day of month
                 </label>
+                <input
+                  id="loan-payment-day"
+                  type="number"
+                  inputMode="numeric"
+                  min="1"
+                  max="31"
+                  step="1"
+                  placeholder="1"
+                  className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                  value={inputDisplay(values.paymentDay)}
+                  onChange={handleNumberChange("paymentDay")}
+                />
+                {errors.paymentDay ? (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.paymentDay}
+                  </p>
+                ) : null}
+              </div>
+            </fieldset>
+
+            <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
+              <legend className="px-1 text-sm font-medium text-slate-700">
+                Rounding
+              </legend>
+              <p className="text-xs text-slate-500">
+                How your bank rounds amounts to whole grosze. The last
+                installment settles any difference.
+              </p>
+              <div className="mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                {(
+                  [
+                    ["interestRounding", "Interest", "loan-interest-rounding"],
+                    [
+                      "installmentRounding",
+                      "Installment",
+                      "loan-installment-rounding",
+                    ],
+                  ] as const
+                ).map(([field, label, id]) => (
+                  <div key={field}>
+                    <label
+                      className="block text-sm font-medium text-slate-700"
+                      htmlFor={id}
+                    >
+                      {label}
+                    </label>
+                    <select
+                      id={id}
+                      className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                      value={values[field]}
+                      onChange={handleRoundingChange(field)}
+                    >
+                      {MONEY_ROUNDING_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {errors[field] ? (
+                      <p className="mt-1 text-xs text-red-600">
+                        {errors[field]}
+                      </p>
+                    ) : null}
+                  </div>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
+              <legend className="px-1 text-sm font-medium text-slate-700">
+                Overpayment effect
+              </legend>
+              <p className="text-xs text-slate-500">
+                Choose what your bank does when you overpay this loan.
+              </p>
+              <div className="mt-2 flex flex-col gap-2">
+                {OVERPAYMENT_EFFECT_OPTIONS.map((option) => (
+                  <label
+                    key={option.value}
+                    className="inline-flex items-start gap-2 text-sm text-slate-700"
+                  >
+                    <input
+                      type="radio"
+                      name="overpayment-effect"
+                      className="mt-1"
+                      value={option.value}
+                      checked={values.overpaymentEffect === option.value}
+                      onChange={handleOverpaymentEffectChange}
+                    />
+                    <span>
+                      {option.label}
+                      <span className="block text-xs text-slate-500">
+                        {option.description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
               </div>
-              {errors.rateChangeEffective ? (
+              {errors.overpaymentEffect ? (
                 <p className="mt-1 text-xs text-red-600">
-                  {errors.rateChangeEffective}
+                  {errors.overpaymentEffect}
                 </p>
               ) : null}
             </fieldset>
 
+            <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
+              <legend className="px-1 text-sm font-medium text-slate-700">
+                Prepayment fees
+              </legend>
+              <p className="text-xs text-slate-500">
+                Leave empty if your bank does not charge for overpayments.
+                Without a period the fee applies for the whole term; the free
+                allowance resets every calendar year.
+              </p>
+              <div className="mt-2 grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-prepayment-fee-rate"
+                  >
+                    Fee (%)
+                  </label>
+                  <input
+                    id="loan-prepayment-fee-rate"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.01"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={inputDisplay(values.prepaymentFeeRate)}
+                    onChange={handleNumberChange("prepaymentFeeRate")}
+                  />
+                  {errors.prepaymentFeeRate ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.prepaymentFeeRate}
+                    </p>
+                  ) : null}
+                </div>
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-prepayment-fee-months"
+                  >
+                    Charged for the first (months)
+                  </label>
+                  <input
+                    id="loan-prepayment-fee-months"
+                    type="number"
+                    inputMode="numeric"
+                    min="0"
+                    step="1"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={inputDisplay(values.prepaymentFeeMonths)}
+                    onChange={handleNumberChange("prepaymentFeeMonths")}
+                  />
+                  {errors.prepaymentFeeMonths ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.prepaymentFeeMonths}
+                    </p>
+                  ) : null}
+                </div>
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-prepayment-free-allowance"
+                  >
+                    Free allowance per year
+                  </label>
+                  <input
+                    id="loan-prepayment-free-allowance"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.01"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={inputDisplay(values.prepaymentFreeAllowance)}
+                    onChange={handleNumberChange("prepaymentFreeAllowance")}
+                  />
+                  {errors.prepaymentFreeAllowance ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.prepaymentFreeAllowance}
+                    </p>
+                  ) : null}
+                </div>
+                <div>
+                  <label
+                    className="block text-sm font-medium text-slate-700"
+                    htmlFor="loan-min-overpayment"
+                  >
+                    Minimum overpayment
+                  </label>
+                  <input
+                    id="loan-min-overpayment"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.01"
+                    className="mt-1 w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                    value={inputDisplay(values.minOverpayment)}
+                    onChange={handleNumberChange("minOverpayment")}
+                  />
+                  {errors.minOverpayment ? (
+                    <p className="mt-1 text-xs text-red-600">
+                      {errors.minOverpayment}
+                    </p>
+                  ) : null}
+                </div>
+              </div>
+            </fieldset>
+
+            {mode === "edit" ? (
+              <fieldset className="space-y-1 rounded-md border border-slate-200 px-3 py-2">
+                <legend className="px-1 text-sm font-medium text-slate-700">
+                  Changes take effect
+                </legend>
+                <p className="text-xs text-slate-500">
+                  Apply the changes now, or schedule rate, term and balance
+                  changes for a future month. Scheduled changes keep the loan as
+                  it is today and are replayed in projections from that month.
+                </p>
+                <div className="mt-2 flex flex-col gap-2">
+                  <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="radio"
+                      name="change-effective"
+                      value="current"
+                      checked={values.changeEffective === "current"}
+                      onChange={handleChangeEffectiveChange}
+                    />
+                    Current month
+                  </label>
+                  <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                    <input
+                      type="radio"
+                      name="change-effective"
+                      value="scheduled"
+                      checked={values.changeEffective === "scheduled"}
+                      onChange={handleChangeEffectiveChange}
+                    />
+                    Scheduled for a future month
+                  </label>
+                </div>
+                {values.changeEffective === "scheduled" ? (
+                  <div className="mt-2 flex flex-col gap-2 sm:flex-row">
+                    <div className="flex-1">
+                      <label
+                        className="sr-only"
+                        htmlFor="loan-effective-month-month"
+                      >
+                        Effective month (month)
+                      </label>
+                      <select
+                        id="loan-effective-month-month"
+                        className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                        value={effectiveMonthParts.month}
+                        onChange={handleEffectiveMonthMonthChange}
+                      >
+                        {MONTH_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex-1">
+                      <label
+                        className="sr-only"
+                        htmlFor="loan-effective-month-year"
+                      >
+                        Effective month (year)
+                      </label>
+                      <select
+                        id="loan-effective-month-year"
+                        className="w-full rounded-md border border-slate-300 px-3 py-2 text-sm focus:outline-none focus-visible:ring-2 focus-visible:ring-slate-500"
+                        value={effectiveMonthParts.year}
+                        onChange={handleEffectiveMonthYearChange}
+                      >
+                        {effectiveYearOptions.map((year) => (
+                          <option key={year} value={year}>
+                            {year}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ) : null}
+                {errors.changeEffective ? (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.changeEffective}
+                  </p>
+                ) : null}
+                {errors.effectiveMonth ? (
+                  <p className="mt-1 text-xs text-red-600">
+                    {errors.effectiveMonth}
+                  </p>
+                ) : null}
+              </fieldset>
+            ) : null}
+
             {nonFieldError ? (
               <p className="text-sm text-red-600">{nonFieldError}</p>
             ) : null}
@@ -24,6 +24,7 @@ const STALE_TRIGGER_LABELS: Record<StaleTrigger, string> = {
   delete: "a deleted loan",
   balance_adjust: "a balance adjustment",
   rate_change: "an interest rate change",
+  scheduled_change: "a scheduled loan change",
 };
 
 export const LoansPage: FC = () => {
@@ -0,0 +1,134 @@
+import type { FC } from "react";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import type { BudgetStepFormValue } from "@/lib/viewModels/settings";
+
+const INPUT_CLASS_NAME =
+  "w-full rounded-md border border-slate-300 bg-white px-3 py-2 text-sm outline-none ring-0 transition focus:border-slate-400 disabled:cursor-not-allowed disabled:opacity-70";
+
+interface Props {
+  readonly steps: readonly BudgetStepFormValue[];
+  readonly growthPercent: string;
+  readonly error?: string;
+  readonly disabled?: boolean;
+  readonly onAddStep: () => void;
+  readonly onChangeStep: (
+    key: string,
+    patch: Partial<Omit<BudgetStepFormValue, "key">>,
+  ) => void;
+  readonly onRemoveStep: (key: string) => void;
+  readonly onChangeGrowth: (value: string) => void;
+}
+
+export const OverpaymentBudgetScheduleField: FC<Props> = ({
+  steps,
+  growthPercent,
+  error,
+  disabled,
+  onAddStep,
+  onChangeStep,
+  onRemoveStep,
+  onChangeGrowth,
+}) => {
+  return (
+    <fieldset className="space-y-3" disabled={disabled}>
+      <legend className="block text-sm font-medium">
+        Budget schedule (optional)
+      </legend>
+      <p className="text-xs text-slate-500">
+        Change your overpayment budget over time, e.g. 800 PLN until June 2027
+        and 1500 PLN from July 2027. The monthly limit above applies until the
+        first step.
+      </p>
+
+      {steps.map((step, index) => (
+        <div key={step.key} className="flex items-end gap-3">
+          <div className="flex-1 space-y-1">
+            <label
+              htmlFor={`${step.key}-fromMonth`}
+              className="block text-xs font-medium text-slate-600"
+            >
+              From month
+            </label>
+            <input
+              id={`${step.key}-fromMonth`}
+              type="month"
+              value={step.fromMonth}
+              onChange={(e) =>
+                onChangeStep(step.key, { fromMonth: e.target.value })
+              }
+              className={INPUT_CLASS_NAME}
+            />
+          </div>
+          <div className="flex-1 space-y-1">
+            <label
+              htmlFor={`${step.key}-amount`}
+              className="block text-xs font-medium text-slate-600"
+            >
+              Monthly budget (PLN)
+            </label>
+            <input
+              id={`${step.key}-amount`}
+              type="text"
+              inputMode="decimal"
+              value={step.amount}
+              onChange={(e) =>
+                onChangeStep(step.key, { amount: e.target.value })
+              }
+              className={INPUT_CLASS_NAME}
+              placeholder="e.g. 1500.00"
+            />
+          </div>
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            aria-label={`Remove budget step ${index + 1}`}
+            onClick={() => onRemoveStep(step.key)}
+          >
+            <Trash2 className="size-4" aria-hidden="true" />
+          </Button>
+        </div>
+      ))}
+
+      <Button type="button" size="sm" variant="outline" onClick={onAddStep}>
+        <Plus className="size-4" aria-hidden="true" />
+        Add budget step
+      </Button>
+
+      {steps.length > 0 ? (
+        <div className="space-y-1">
+          <label
+            htmlFor="budgetGrowthPercent"
+            className="block text-xs font-medium text-slate-600"
+          >
+            Yearly growth (%)
+          </label>
+          <input
+            id="budgetGrowthPercent"
+            name="budgetGrowthPercent"
+            type="text"
+            inputMode="decimal"
+            value={growthPercent}
+            onChange={(e) => onChangeGrowth(e.target.value)}
+            className={INPUT_CLASS_NAME}
+            placeholder="e.g. 3"
+          />
+          <p className="text-xs text-slate-500">
+            Each step&apos;s budget grows by this rate every 12 months.
+          </p>
+        </div>
+      ) : null}
+
+      {error ? (
+        <p
+          id="overpaymentBudgetSchedule-error"
+          className="text-sm text-red-600"
+        >
+          {error}
+        </p>
+      ) : null}
+    </fieldset>
+  );
+};
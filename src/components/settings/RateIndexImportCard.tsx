@@ -0,0 +1,111 @@
+import type { ChangeEvent, FC } from "react";
+import { useCallback, useState } from "react";
+
+import { ErrorAlert } from "@/components/settings/ErrorAlert";
+import { useApiFetch } from "@/lib/hooks/useApiFetch";
+import type { RateIndexImportResult } from "@/types";
+
+interface Props {
+  readonly onStaleSimulation: () => void;
+}
+
+export const RateIndexImportCard: FC<Props> = ({ onStaleSimulation }) => {
+  const { apiFetch } = useApiFetch();
+  const [isImporting, setIsImporting] = useState(false);
+  const [result, setResult] = useState<RateIndexImportResult | null>(null);
+  const [error, setError] = useState<{ code?: string; message: string } | null>(
+    null,
+  );
+
+  const handleFileChange = useCallback(
+    async (event: ChangeEvent<HTMLInputElement>) => {
+      const input = event.target;
+      const file = input.files?.[0];
+      if (!file) {
+        return;
+      }
+
+      setIsImporting(true);
+      setError(null);
+      setResult(null);
+
+      const text = await file.text();
+      const response = await apiFetch<RateIndexImportResult, string>({
+        path: "/api/rate-index-values",
+        method: "POST",
+        body: text,
+        headers: { "Content-Type": "text/csv" },
+      });
+
+      input.value = "";
+      setIsImporting(false);
+
+      if (!response.ok) {
+        const firstIssue = response.error.issues?.[0]?.message;
+        setError({
+          code: response.error.code,
+          message: firstIssue
+            ? `${response.error.message}: ${firstIssue}`
+            : response.error.message,
+        });
+        return;
+      }
+
+      setResult(response.data);
+      if (response.data?.staleSimulation || response.meta.simulationStale) {
+        onStaleSimulation();
+      }
+    },
+    [apiFetch, onStaleSimulation],
+  );
+
+  const handleDismissError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return (
+    <section className="space-y-4 rounded-lg border border-slate-200 bg-white p-6 shadow-sm">
+      <header className="space-y-1">
+        <h2 className="text-lg font-semibold text-slate-900">
+          Reference index values
+        </h2>
+        <p className="text-sm text-slate-600">
+          Import monthly values (e.g. WIBOR3M or WIRON) used to price
+          variable-rate loans. The CSV needs an <code>index,month,rate</code>{" "}
+          header with months as YYYY-MM and rates in percent.
+        </p>
+      </header>
+
+      <ErrorAlert error={error} onDismiss={handleDismissError} />
+
+      <div>
+        <label
+          className="block text-sm font-medium text-slate-700"
+          htmlFor="rate-index-csv"
+        >
+          CSV file
+        </label>
+        <input
+          id="rate-index-csv"
+          type="file"
+          accept=".csv,text/csv"
+          className="mt-1 block w-full text-sm text-slate-700"
+          onChange={(event) => void handleFileChange(event)}
+          disabled={isImporting}
+        />
+      </div>
+
+      {isImporting ? (
+        <p className="text-sm text-slate-600">Importing values…</p>
+      ) : null}
+
+      {result ? (
+        <p className="text-sm text-slate-700" role="status">
+          Imported {result.imported} values for {result.indexIds.join(", ")}
+          {"; "}
+          {result.changed} new or changed.
+        </p>
+      ) : null}
+    </section>
+  );
+};
@@ -10,6 +10,7 @@ import { SuccessToast } from "@/components/settings/SuccessToast";
 import { StaleSimulationBanner } from "@/components/settings/StaleSimulationBanner";
 import { LastUpdatedDisplay } from "@/components/settings/LastUpdatedDisplay";
 import { ErrorAlert } from "@/components/settings/ErrorAlert";
+import { RateIndexImportCard } from "@/components/settings/RateIndexImportCard";
 
 export const SettingsApp: FC = () => {
   const { dto, eTag, isInitialized, isLoading, error, refetch } =
@@ -21,6 +22,10 @@ export const SettingsApp: FC = () => {
     isDirty,
     setMonthlyLimit,
     setReinvest,
+    addBudgetStep,
+    updateBudgetStep,
+    removeBudgetStep,
+    setBudgetGrowth,
     blurMonthlyLimit,
     validate,
     reset,
@@ -46,7 +51,7 @@ export const SettingsApp: FC = () => {
   }, [refetch]);
 
   const headerSubtitle = useMemo(() => {
-    return "Configure your default monthly overpayment limit and reinvest behavior.";
+    return "Configure your default monthly overpayment limit, budget schedule and reinvest behavior.";
   }, []);
 
   const formattedPreview = useMemo(() => {
@@ -145,6 +150,10 @@ export const SettingsApp: FC = () => {
     setStaleVisible(false);
   }, []);
 
+  const handleRateIndexStale = useCallback(() => {
+    setStaleVisible(true);
+  }, []);
+
   return (
     <AppShell activeNav="settings">
       <section className="mx-auto w-full max-w-3xl space-y-6 py-6">
@@ -191,6 +200,10 @@ export const SettingsApp: FC = () => {
                 previewText={formattedPreview}
                 onChangeMonthlyLimit={setMonthlyLimit}
                 onBlurMonthlyLimit={blurMonthlyLimit}
+                onAddBudgetStep={addBudgetStep}
+                onChangeBudgetStep={updateBudgetStep}
+                onRemoveBudgetStep={removeBudgetStep}
+                onChangeBudgetGrowth={setBudgetGrowth}
                 onChangeReinvest={setReinvest}
                 onSubmit={handleSubmit}
                 onCancel={handleCancel}
@@ -198,6 +211,7 @@ export const SettingsApp: FC = () => {
             </>
           )}
         </section>
+        <RateIndexImportCard onStaleSimulation={handleRateIndexStale} />
         {toastVariant ? (
           <SuccessToast variant={toastVariant} onDismiss={handleDismissToast} />
         ) : null}
@@ -1,10 +1,12 @@
 import type { FC, FormEvent } from "react";
 
 import type {
+  BudgetStepFormValue,
   SettingsFormErrors,
   SettingsFormValues,
 } from "@/lib/viewModels/settings";
 import { MonthlyOverpaymentLimitField } from "@/components/settings/MonthlyOverpaymentLimitField";
+import { OverpaymentBudgetScheduleField } from "@/components/settings/OverpaymentBudgetScheduleField";
 import { ReinvestToggle } from "@/components/settings/ReinvestToggle";
 import { FormActions } from "@/components/settings/FormActions";
 
@@ -17,6 +19,13 @@ interface Props {
   readonly previewText?: string;
   readonly onChangeMonthlyLimit: (value: string) => void;
   readonly onBlurMonthlyLimit: () => void;
+  readonly onAddBudgetStep: () => void;
+  readonly onChangeBudgetStep: (
+    key: string,
+    patch: Partial<Omit<BudgetStepFormValue, "key">>,
+  ) => void;
+  readonly onRemoveBudgetStep: (key: string) => void;
+  readonly onChangeBudgetGrowth: (value: string) => void;
   readonly onChangeReinvest: (checked: boolean) => void;
   readonly onSubmit: () => void;
   readonly onCancel: () => void;
@@ -31,12 +40,18 @@ export const SettingsForm: FC<Props> = ({
   previewText,
   onChangeMonthlyLimit,
   onBlurMonthlyLimit,
+  onAddBudgetStep,
+  onChangeBudgetStep,
+  onRemoveBudgetStep,
+  onChangeBudgetGrowth,
   onChangeReinvest,
   onSubmit,
   onCancel,
 }) => {
   const hasErrors = Boolean(
-    errors.monthlyOverpaymentLimit || errors.nonFieldError,
+    errors.monthlyOverpaymentLimit ||
+      errors.overpaymentBudgetSchedule ||
+      errors.nonFieldError,
   );
 
   const handleFormSubmit = (event: FormEvent) => {
@@ -59,6 +74,16 @@ export const SettingsForm: FC<Props> = ({
         onBlur={onBlurMonthlyLimit}
         previewText={previewText}
       />
+      <OverpaymentBudgetScheduleField
+        steps={values.budgetSteps}
+        growthPercent={values.budgetGrowthPercent}
+        error={errors.overpaymentBudgetSchedule}
+        disabled={disabled || saving}
+        onAddStep={onAddBudgetStep}
+        onChangeStep={onChangeBudgetStep}
+        onRemoveStep={onRemoveBudgetStep}
+        onChangeGrowth={onChangeBudgetGrowth}
+      />
       <ReinvestToggle
         checked={values.reinvestReducedPayments}
         disabled={disabled || saving}
@@ -0,0 +1,238 @@
+import { useId, useMemo, type ChangeEvent } from "react";
+
+import { formatCurrency } from "@/lib/formatters";
+import {
+  deriveInstallment,
+  normalizeAnnualRate,
+} from "@/lib/services/simulationSharedService";
+import {
+  allocateByWeights,
+  resolveLoanWeights,
+  type CustomWeightsParams,
+} from "@/lib/strategies/customWeightsStrategy";
+import type { AllocationLoan } from "@/lib/strategies/types";
+import type {
+  CustomWeightsDraftVM,
+  LoanPreviewVM,
+} from "@/lib/viewModels/wizardSimulation";
+
+const INPUT_CLASS_NAME =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm shadow-xs outline-none transition focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20";
+
+const FORMULA_FIELDS: {
+  field: "rateWeight" | "balanceWeight" | "installmentWeight";
+  label: string;
+}[] = [
+  { field: "rateWeight", label: "Interest rate" },
+  { field: "balanceWeight", label: "Balance" },
+  { field: "installmentWeight", label: "Installment" },
+];
+
+interface CustomWeightsEditorProps {
+  readonly draft: CustomWeightsDraftVM;
+  /** Validated weights; null while the draft is incomplete. */
+  readonly params: CustomWeightsParams | null;
+  readonly loans: readonly LoanPreviewVM[];
+  readonly monthlyBudget: number | null;
+  readonly onChange: (draft: CustomWeightsDraftVM) => void;
+  readonly error?: string | null;
+}
+
+const loanLabel = (loan: LoanPreviewVM): string =>
+  `${loan.id.slice(0, 8)} · ${formatCurrency(loan.remainingBalance ?? 0)}`;
+
+/** Current state of a loan in the shape the strategy allocates against. */
+const toAllocationLoan = (loan: LoanPreviewVM): AllocationLoan => {
+  const balance = loan.remainingBalance ?? 0;
+  const annualRate = normalizeAnnualRate(loan.annualRate);
+
+  return {
+    id: loan.id,
+    balance,
+    annualRate,
+    monthlyInterest: balance * (annualRate / 12),
+    installment:
+      balance > 0 && loan.remainingTermMonths > 0
+        ? deriveInstallment(
+            balance,
+            annualRate,
+            loan.remainingTermMonths,
+            loan.amortizationType,
+          )
+        : 0,
+  };
+};
+
+export function CustomWeightsEditor({
+  draft,
+  params,
+  loans,
+  monthlyBudget,
+  onChange,
+  error,
+}: CustomWeightsEditorProps) {
+  const baseId = useId();
+
+  const preview = useMemo(() => {
+    if (!params || !monthlyBudget || monthlyBudget <= 0) {
+      return null;
+    }
+
+    const allocationLoans = loans.map(toAllocationLoan);
+    return allocateByWeights(
+      allocationLoans,
+      monthlyBudget,
+      resolveLoanWeights(allocationLoans, params),
+    );
+  }, [loans, monthlyBudget, params]);
+
+  const percentTotal = useMemo(
+    () =>
+      loans.reduce(
+        (sum, loan) => sum + (Number(draft.percentages[loan.id]) || 0),
+        0,
+      ),
+    [draft.percentages, loans],
+  );
+
+  const handleModeChange = (event: ChangeEvent<HTMLSelectElement>) => {
+    onChange({
+      ...draft,
+      mode: event.target.value === "formula" ? "formula" : "percentages",
+    });
+  };
+
+  const handlePercentChange =
+    (loanId: string) => (event: ChangeEvent<HTMLInputElement>) => {
+      onChange({
+        ...draft,
+        percentages: { ...draft.percentages, [loanId]: event.target.value },
+      });
+    };
+
+  const handleFormulaChange =
+    (field: (typeof FORMULA_FIELDS)[number]["field"]) =>
+    (event: ChangeEvent<HTMLInputElement>) => {
+      onChange({ ...draft, [field]: event.target.value });
+    };
+
+  return (
+    <div className="flex flex-col gap-4 rounded-lg border border-border bg-background/60 p-4">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-foreground">Custom weights</p>
+        <p className="text-xs text-muted-foreground">
+          Give each loan a share of the monthly budget, or weigh loans by their
+          rate, balance and installment. When a loan is repaid, its share is
+          split across the others in the same proportions.
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <label
+          htmlFor={`${baseId}-mode`}
+          className="text-xs font-medium text-foreground"
+        >
+          Weighting
+        </label>
+        <select
+          id={`${baseId}-mode`}
+          className={INPUT_CLASS_NAME}
+          value={draft.mode}
+          onChange={handleModeChange}
+        >
+          <option value="percentages">Percentage per loan</option>
+          <option value="formula">
+            Formula over rate, balance, installment
+          </option>
+        </select>
+      </div>
+
+      {draft.mode === "percentages" ? (
+        <div className="flex flex-col gap-2">
+          {loans.map((loan) => (
+            <div
+              key={loan.id}
+              className="flex items-center justify-between gap-3"
+            >
+              <label
+                htmlFor={`${baseId}-${loan.id}`}
+                className="text-xs text-muted-foreground"
+              >
+                {loanLabel(loan)}
+              </label>
+              <input
+                id={`${baseId}-${loan.id}`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                max="100"
+                step="5"
+                className={`${INPUT_CLASS_NAME} max-w-28`}
+                value={draft.percentages[loan.id] ?? ""}
+                onChange={handlePercentChange(loan.id)}
+                aria-describedby={`${baseId}-total`}
+              />
+            </div>
+          ))}
+          <p id={`${baseId}-total`} className="text-xs text-muted-foreground">
+            Total: {Math.round(percentTotal * 100) / 100}% of 100%
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-3 sm:grid-cols-3">
+          {FORMULA_FIELDS.map(({ field, label }) => (
+            <div key={field} className="flex flex-col gap-1">
+              <label
+                htmlFor={`${baseId}-${field}`}
+                className="text-xs font-medium text-foreground"
+              >
+                {label} weight
+              </label>
+              <input
+                id={`${baseId}-${field}`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                max="100"
+                step="1"
+                className={INPUT_CLASS_NAME}
+                value={draft[field]}
+                onChange={handleFormulaChange(field)}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-foreground">
+          Split of this month&apos;s budget
+          {monthlyBudget ? ` (${formatCurrency(monthlyBudget)})` : ""}
+        </p>
+        {preview ? (
+          <ul className="space-y-1 text-xs">
+            {loans.map((loan, index) => (
+              <li
+                key={loan.id}
+                className="flex items-center justify-between gap-3"
+              >
+                <span className="text-muted-foreground">{loanLabel(loan)}</span>
+                <span className="font-medium text-foreground">
+                  {formatCurrency(preview[index])}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            {monthlyBudget
+              ? "Complete the weights to preview the split."
+              : "Set a monthly overpayment budget in settings to preview the split."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
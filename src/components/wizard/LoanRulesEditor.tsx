@@ -0,0 +1,163 @@
+import { useId, type ChangeEvent } from "react";
+
+import { formatCurrency } from "@/lib/formatters";
+import type {
+  LoanPreviewVM,
+  LoanRuleDraftVM,
+  LoanRuleModeVM,
+} from "@/lib/viewModels/wizardSimulation";
+
+const INPUT_CLASS_NAME =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm shadow-xs outline-none transition focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20 disabled:cursor-not-allowed disabled:opacity-50";
+
+const MODE_OPTIONS: { value: LoanRuleModeVM; label: string }[] = [
+  { value: "default", label: "Strategy decides" },
+  { value: "pinned", label: "Pin as first priority" },
+  { value: "excluded", label: "Never overpay" },
+];
+
+interface LoanRulesEditorProps {
+  readonly rules: readonly LoanRuleDraftVM[];
+  readonly loans: readonly LoanPreviewVM[];
+  readonly onChange: (rules: LoanRuleDraftVM[]) => void;
+  readonly error?: string | null;
+  readonly disabled?: boolean;
+}
+
+const emptyDraft = (loanId: string): LoanRuleDraftVM => ({
+  loanId,
+  mode: "default",
+  monthlyCap: "",
+  monthlyFloor: "",
+});
+
+export function LoanRulesEditor({
+  rules,
+  loans,
+  onChange,
+  error,
+  disabled = false,
+}: LoanRulesEditorProps) {
+  const baseId = useId();
+
+  const updateDraft = (
+    loanId: string,
+    field: keyof Omit<LoanRuleDraftVM, "loanId">,
+    value: string,
+  ) => {
+    const current =
+      rules.find((draft) => draft.loanId === loanId) ?? emptyDraft(loanId);
+    let next: LoanRuleDraftVM = { ...current, [field]: value };
+    // Excluded loans receive nothing, so their amounts no longer apply
+    if (next.mode === "excluded") {
+      next = { ...next, monthlyCap: "", monthlyFloor: "" };
+    }
+
+    onChange([...rules.filter((draft) => draft.loanId !== loanId), next]);
+  };
+
+  const handleFieldChange =
+    (loanId: string, field: keyof Omit<LoanRuleDraftVM, "loanId">) =>
+    (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      updateDraft(loanId, field, event.target.value);
+    };
+
+  if (loans.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-foreground">Loan rules</p>
+        <p className="text-xs text-muted-foreground">
+          Pin a loan to overpay it first, exclude one that should never be
+          overpaid, or limit how much a loan receives each month. Every strategy
+          follows these rules.
+        </p>
+      </div>
+
+      {loans.map((loan) => {
+        const draft =
+          rules.find((item) => item.loanId === loan.id) ?? emptyDraft(loan.id);
+        const rowId = `${baseId}-${loan.id}`;
+        const loanLabel = `${loan.id.slice(0, 8)} · ${formatCurrency(
+          loan.remainingBalance ?? 0,
+        )}`;
+        const excluded = draft.mode === "excluded";
+
+        return (
+          <fieldset
+            key={loan.id}
+            className="grid gap-3 rounded-lg border border-border bg-background/60 p-3 sm:grid-cols-3"
+            disabled={disabled}
+          >
+            <legend className="px-1 text-xs font-medium text-foreground">
+              {loanLabel}
+            </legend>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-mode`}
+                className="text-xs font-medium text-foreground"
+              >
+                Priority
+              </label>
+              <select
+                id={`${rowId}-mode`}
+                className={INPUT_CLASS_NAME}
+                value={draft.mode}
+                onChange={handleFieldChange(loan.id, "mode")}
+              >
+                {MODE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-floor`}
+                className="text-xs font-medium text-foreground"
+              >
+                Monthly floor (PLN)
+              </label>
+              <input
+                id={`${rowId}-floor`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="50"
+                className={INPUT_CLASS_NAME}
+                value={draft.monthlyFloor}
+                disabled={excluded}
+                onChange={handleFieldChange(loan.id, "monthlyFloor")}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-cap`}
+                className="text-xs font-medium text-foreground"
+              >
+                Monthly cap (PLN)
+              </label>
+              <input
+                id={`${rowId}-cap`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="50"
+                className={INPUT_CLASS_NAME}
+                value={draft.monthlyCap}
+                disabled={excluded}
+                onChange={handleFieldChange(loan.id, "monthlyCap")}
+              />
+            </div>
+          </fieldset>
+        );
+      })}
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useId, type ChangeEvent } from "react";
+import { Plus, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+import type {
+  LoanPreviewVM,
+  LumpSumDraftVM,
+} from "@/lib/viewModels/wizardSimulation";
+
+const INPUT_CLASS_NAME =
+  "h-10 w-full rounded-md border border-input bg-background px-3 text-sm shadow-xs outline-none transition focus-visible:border-primary focus-visible:ring-2 focus-visible:ring-primary/20";
+
+interface LumpSumsEditorProps {
+  readonly lumpSums: readonly LumpSumDraftVM[];
+  readonly loans: readonly LoanPreviewVM[];
+  readonly onChange: (lumpSums: LumpSumDraftVM[]) => void;
+  readonly error?: string | null;
+  readonly disabled?: boolean;
+}
+
+let draftCounter = 0;
+
+const createDraft = (): LumpSumDraftVM => {
+  draftCounter += 1;
+  return {
+    key: `lump-sum-${draftCounter}`,
+    month: "",
+    amount: "",
+    loanId: "",
+    label: "",
+  };
+};
+
+export function LumpSumsEditor({
+  lumpSums,
+  loans,
+  onChange,
+  error,
+  disabled = false,
+}: LumpSumsEditorProps) {
+  const baseId = useId();
+
+  const updateDraft = (
+    key: string,
+    field: keyof Omit<LumpSumDraftVM, "key">,
+    value: string,
+  ) => {
+    onChange(
+      lumpSums.map((draft) =>
+        draft.key === key ? { ...draft, [field]: value } : draft,
+      ),
+    );
+  };
+
+  const handleFieldChange =
+    (key: string, field: keyof Omit<LumpSumDraftVM, "key">) =>
+    (event: ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      updateDraft(key, field, event.target.value);
+    };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-foreground">Planned lump sums</p>
+        <p className="text-xs text-muted-foreground">
+          Add one-off overpayments such as a bonus or a 13th salary. Leave the
+          loan empty to let the strategy decide where the money goes.
+        </p>
+      </div>
+
+      {lumpSums.map((draft, index) => {
+        const rowId = `${baseId}-${draft.key}`;
+        return (
+          <fieldset
+            key={draft.key}
+            className="grid gap-3 rounded-lg border border-border bg-background/60 p-3 sm:grid-cols-2"
+            disabled={disabled}
+          >
+            <legend className="sr-only">Lump sum {index + 1}</legend>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-month`}
+                className="text-xs font-medium text-foreground"
+              >
+                Month
+              </label>
+              <input
+                id={`${rowId}-month`}
+                type="month"
+                className={INPUT_CLASS_NAME}
+                value={draft.month}
+                onChange={handleFieldChange(draft.key, "month")}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-amount`}
+                className="text-xs font-medium text-foreground"
+              >
+                Amount (PLN)
+              </label>
+              <input
+                id={`${rowId}-amount`}
+                type="number"
+                inputMode="decimal"
+                min="0"
+                step="100"
+                className={INPUT_CLASS_NAME}
+                value={draft.amount}
+                onChange={handleFieldChange(draft.key, "amount")}
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-loan`}
+                className="text-xs font-medium text-foreground"
+              >
+                Loan
+              </label>
+              <select
+                id={`${rowId}-loan`}
+                className={INPUT_CLASS_NAME}
+                value={draft.loanId}
+                onChange={handleFieldChange(draft.key, "loanId")}
+              >
+                <option value="">Any loan (strategy decides)</option>
+                {loans.map((loan) => (
+                  <option key={loan.id} value={loan.id}>
+                    {`${loan.id.slice(0, 8)} · ${formatCurrency(
+                      loan.remainingBalance ?? 0,
+                    )}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex flex-col gap-1">
+              <label
+                htmlFor={`${rowId}-label`}
+                className="text-xs font-medium text-foreground"
+              >
+                Label (optional)
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id={`${rowId}-label`}
+                  type="text"
+                  maxLength={100}
+                  className={INPUT_CLASS_NAME}
+                  value={draft.label}
+                  onChange={handleFieldChange(draft.key, "label")}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  aria-label={`Remove lump sum ${index + 1}`}
+                  onClick={() =>
+                    onChange(lumpSums.filter((item) => item.key !== draft.key))
+                  }
+                >
+                  <Trash2 className="size-4" aria-hidden="true" />
+                </Button>
+              </div>
+            </div>
+          </fieldset>
+        );
+      })}
+
+      <div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={disabled}
+          onClick={() => onChange([...lumpSums, createDraft()])}
+        >
+          <Plus className="size-4" aria-hidden="true" />
+          Add lump sum
+        </Button>
+      </div>
+
+      {error ? <p className="text-xs text-destructive">{error}</p> : null}
+    </div>
+  );
+}
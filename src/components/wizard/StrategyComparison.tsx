@@ -0,0 +1,156 @@
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+import type { ApiErrorShape } from "@/lib/viewModels/loans";
+import type { StrategyRecommendationResponse } from "@/types";
+
+interface StrategyComparisonProps {
+  readonly result: StrategyRecommendationResponse | null;
+  readonly isLoading: boolean;
+  readonly error?: ApiErrorShape | null;
+  readonly selectedStrategyId?: string;
+  readonly disabled?: boolean;
+  readonly onCompare: () => void;
+  readonly onSelect: (strategyId: string) => void;
+}
+
+const formatMonth = (value: string | null) => {
+  if (!value) {
+    return "Not reached";
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.valueOf())) {
+    return value;
+  }
+  return date.toLocaleDateString("en-US", {
+    month: "short",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+};
+
+export function StrategyComparison({
+  result,
+  isLoading,
+  error,
+  selectedStrategyId,
+  disabled = false,
+  onCompare,
+  onSelect,
+}: StrategyComparisonProps) {
+  const showTargetColumn = result?.goal === "payment_reduction";
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border border-border bg-background/60 p-4">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h3 className="text-sm font-semibold text-foreground">
+            Compare strategies
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Runs every strategy against your current loans, settings and planned
+            lump sums, ranked for the selected goal.
+          </p>
+        </div>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          disabled={disabled || isLoading}
+          onClick={onCompare}
+        >
+          {isLoading ? "Comparing…" : result ? "Refresh" : "Compare"}
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-xs text-destructive" role="alert">
+          {error.message ?? "Unable to compare strategies."}
+        </p>
+      ) : null}
+
+      {result ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <caption className="sr-only">
+              Strategy comparison ranked for the selected goal
+            </caption>
+            <thead className="text-xs text-muted-foreground">
+              <tr>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  #
+                </th>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  Strategy
+                </th>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  Payoff
+                </th>
+                <th scope="col" className="py-2 pr-3 font-medium">
+                  Interest saved
+                </th>
+                {showTargetColumn ? (
+                  <th scope="col" className="py-2 pr-3 font-medium">
+                    Target reached
+                  </th>
+                ) : null}
+                <th scope="col" className="py-2 font-medium">
+                  <span className="sr-only">Action</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.items.map((item) => {
+                const isSelected = item.strategyId === selectedStrategyId;
+                return (
+                  <tr
+                    key={item.strategyId}
+                    className="border-t border-border text-foreground"
+                  >
+                    <td className="py-2 pr-3">{item.rank}</td>
+                    <td className="py-2 pr-3 font-medium">
+                      {item.strategyName}
+                      {item.strategyId === result.recommendedStrategyId ? (
+                        <span className="ml-2 rounded-full bg-primary/10 px-2 py-0.5 text-xs text-primary">
+                          Recommended
+                        </span>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {`${item.monthsToPayoff} mo · ${formatMonth(
+                        item.projectedPayoffMonth,
+                      )}`}
+                    </td>
+                    <td className="py-2 pr-3">
+                      {formatCurrency(item.totalInterestSaved)}
+                    </td>
+                    {showTargetColumn ? (
+                      <td className="py-2 pr-3">
+                        {formatMonth(item.paymentReductionTargetMonth)}
+                      </td>
+                    ) : null}
+                    <td className="py-2 text-right">
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={isSelected ? "secondary" : "ghost"}
+                        disabled={isSelected}
+                        onClick={() => onSelect(item.strategyId)}
+                      >
+                        {isSelected ? "Selected" : "Use"}
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {`Without overpayments: ${result.baselineMonthsToPayoff} months, ${formatCurrency(
+              result.baselineInterest,
+            )} interest.`}
+          </p>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -7,9 +7,13 @@ import {
 } from "react";
 
 import { AppShell } from "@/components/layout/AppShell";
+import { CustomWeightsEditor } from "@/components/wizard/CustomWeightsEditor";
 import { GoalSelector } from "@/components/wizard/GoalSelector";
+import { LoanRulesEditor } from "@/components/wizard/LoanRulesEditor";
 import { LoansPreview } from "@/components/wizard/LoansPreview";
+import { LumpSumsEditor } from "@/components/wizard/LumpSumsEditor";
 import { SettingsSummary } from "@/components/wizard/SettingsSummary";
+import { StrategyComparison } from "@/components/wizard/StrategyComparison";
 import { StrategyList } from "@/components/wizard/StrategyList";
 import { StatusBanner } from "@/components/wizard/StatusBanner";
 import { SubmitControls } from "@/components/wizard/SubmitControls";
@@ -22,13 +26,23 @@ import {
 } from "@/lib/hooks/useSimulationSubmission";
 import { useSimulationWizard } from "@/lib/hooks/useSimulationWizard";
 import { useStrategies } from "@/lib/hooks/useStrategies";
+import { useStrategyRecommendations } from "@/lib/hooks/useStrategyRecommendations";
 import { useUserSettings } from "@/lib/hooks/useUserSettings";
 import { formatCurrency } from "@/lib/formatters";
+import {
+  CUSTOM_WEIGHTS_STRATEGY_ID,
+  customWeightsParamsSchema,
+  type CustomWeightsParams,
+} from "@/lib/strategies/customWeightsStrategy";
 import {
   WIZARD_STEP_DETAILS,
+  type CustomWeightsDraftVM,
+  type LoanPreviewVM,
+  type LoanRuleDraftVM,
+  type LumpSumDraftVM,
   type WizardStep,
 } from "@/lib/viewModels/wizardSimulation";
-import type { GoalType } from "@/types";
+import type { GoalType, SimulationLoanRule, SimulationLumpSum } from "@/types";
 
 interface SectionCardProps {
   readonly title: string;
@@ -54,6 +68,172 @@ function SectionCard({ title, description, children, role }: SectionCardProps) {
   );
 }
 
+/**
+ * Converts lump sum rows into the API shape. Untouched rows are ignored; a partially
+ * filled row yields an error instead of being dropped silently.
+ */
+const toLumpSums = (
+  drafts: readonly LumpSumDraftVM[],
+): { lumpSums: SimulationLumpSum[]; error: string | null } => {
+  const lumpSums: SimulationLumpSum[] = [];
+
+  for (const draft of drafts) {
+    if (!draft.month && !draft.amount && !draft.loanId && !draft.label) {
+      continue;
+    }
+
+    const amount = Number(draft.amount);
+    if (!/^\d{4}-\d{2}$/u.test(draft.month) || !(amount > 0)) {
+      return {
+        lumpSums: [],
+        error: "Each lump sum needs a month and an amount greater than 0.",
+      };
+    }
+
+    lumpSums.push({
+      month: `${draft.month}-01`,
+      amount,
+      loanId: draft.loanId || null,
+      label: draft.label.trim() || null,
+    });
+  }
+
+  return { lumpSums, error: null };
+};
+
+/**
+ * Converts loan rule rows into the API shape. Rows left on the defaults are ignored;
+ * amounts that are not positive numbers, or a floor above the cap, yield an error.
+ */
+const toLoanRules = (
+  drafts: readonly LoanRuleDraftVM[],
+): { loanRules: SimulationLoanRule[]; error: string | null } => {
+  const loanRules: SimulationLoanRule[] = [];
+
+  for (const draft of drafts) {
+    const excluded = draft.mode === "excluded";
+    const capInput = excluded ? "" : draft.monthlyCap.trim();
+    const floorInput = excluded ? "" : draft.monthlyFloor.trim();
+    if (draft.mode === "default" && !capInput && !floorInput) {
+      continue;
+    }
+
+    const monthlyCap = capInput ? Number(capInput) : null;
+    const monthlyFloor = floorInput ? Number(floorInput) : null;
+    if (
+      (monthlyCap !== null && !(monthlyCap > 0)) ||
+      (monthlyFloor !== null && !(monthlyFloor > 0))
+    ) {
+      return {
+        loanRules: [],
+        error: "Monthly caps and floors must be greater than 0.",
+      };
+    }
+    if (
+      monthlyCap !== null &&
+      monthlyFloor !== null &&
+      monthlyFloor > monthlyCap
+    ) {
+      return {
+        loanRules: [],
+        error: "A loan's monthly floor cannot exceed its monthly cap.",
+      };
+    }
+
+    loanRules.push({
+      loanId: draft.loanId,
+      pinned: draft.mode === "pinned",
+      excluded,
+      monthlyCap,
+      monthlyFloor,
+    });
+  }
+
+  return { loanRules, error: null };
+};
+
+const EMPTY_CUSTOM_WEIGHTS: CustomWeightsDraftVM = {
+  mode: "percentages",
+  percentages: {},
+  rateWeight: "1",
+  balanceWeight: "0",
+  installmentWeight: "0",
+};
+
+/**
+ * Converts the custom weights form into strategy parameters, with the first problem
+ * the strategy schema reports as the error. Empty inputs count as 0.
+ */
+const toCustomWeightsParams = (
+  draft: CustomWeightsDraftVM,
+  loans: readonly LoanPreviewVM[],
+): { params: CustomWeightsParams | null; error: string | null } => {
+  const toNumber = (value: string | undefined) =>
+    value?.trim() ? Number(value) : 0;
+  const parsed = customWeightsParamsSchema.safeParse(
+    draft.mode === "percentages"
+      ? {
+          mode: "percentages",
+          percentages: loans.map((loan) => ({
+            loanId: loan.id,
+            percent: toNumber(draft.percentages[loan.id]),
+          })),
+        }
+      : {
+          mode: "formula",
+          rateWeight: toNumber(draft.rateWeight),
+          balanceWeight: toNumber(draft.balanceWeight),
+          installmentWeight: toNumber(draft.installmentWeight),
+        },
+  );
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      params: null,
+      error:
+        issue?.code === "custom"
+          ? issue.message
+          : "Weights must be numbers between 0 and 100.",
+    };
+  }
+
+  return { params: parsed.data, error: null };
+};
+
+const describeCustomWeights = (params: CustomWeightsParams): string => {
+  if (params.mode === "formula") {
+    return `Rate ${params.rateWeight} · Balance ${params.balanceWeight} · Installment ${params.installmentWeight}`;
+  }
+
+  return params.percentages
+    .filter((entry) => entry.percent > 0)
+    .map((entry) => `${entry.loanId.slice(0, 8)} ${entry.percent}%`)
+    .join(" · ");
+};
+
+const describeLoanRules = (
+  loanRules: readonly SimulationLoanRule[],
+): string => {
+  if (loanRules.length === 0) {
+    return "None";
+  }
+
+  const pinned = loanRules.filter((rule) => rule.pinned).length;
+  const excluded = loanRules.filter((rule) => rule.excluded).length;
+  const limited = loanRules.filter(
+    (rule) => rule.monthlyCap != null || rule.monthlyFloor != null,
+  ).length;
+
+  return [
+    pinned > 0 ? `${pinned} pinned` : null,
+    excluded > 0 ? `${excluded} excluded` : null,
+    limited > 0 ? `${limited} with limits` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+};
+
 function StepSection({
   step,
   children,
@@ -106,6 +286,52 @@ export function WizardPage() {
   const [thresholdServerError, setThresholdServerError] = useState<
     string | null
   >(null);
+  const [lumpSumDrafts, setLumpSumDrafts] = useState<LumpSumDraftVM[]>([]);
+  const [lumpSumServerError, setLumpSumServerError] = useState<string | null>(
+    null,
+  );
+  const lumpSumsResult = useMemo(
+    () => toLumpSums(lumpSumDrafts),
+    [lumpSumDrafts],
+  );
+  const lumpSumError = lumpSumServerError ?? lumpSumsResult.error;
+  const [loanRuleDrafts, setLoanRuleDrafts] = useState<LoanRuleDraftVM[]>([]);
+  const [loanRuleServerError, setLoanRuleServerError] = useState<string | null>(
+    null,
+  );
+  const loanRulesResult = useMemo(
+    () => toLoanRules(loanRuleDrafts),
+    [loanRuleDrafts],
+  );
+  const loanRuleError = loanRuleServerError ?? loanRulesResult.error;
+  const [customWeightsDraft, setCustomWeightsDraft] =
+    useState<CustomWeightsDraftVM>(EMPTY_CUSTOM_WEIGHTS);
+  const [strategyParamsServerError, setStrategyParamsServerError] = useState<
+    string | null
+  >(null);
+  const usesCustomWeights =
+    wizardState.selectedStrategyId === CUSTOM_WEIGHTS_STRATEGY_ID;
+  const customWeightsResult = useMemo(
+    () => toCustomWeightsParams(customWeightsDraft, loansPreview.loans),
+    [customWeightsDraft, loansPreview.loans],
+  );
+  const strategyParamsError = usesCustomWeights
+    ? (strategyParamsServerError ?? customWeightsResult.error)
+    : null;
+  const inputError = strategyParamsError ?? lumpSumError ?? loanRuleError;
+  const recommendations = useStrategyRecommendations();
+  const { reset: resetRecommendations } = recommendations;
+
+  // A comparison only describes the inputs it was run with.
+  useEffect(() => {
+    resetRecommendations();
+  }, [
+    loanRulesResult.loanRules,
+    lumpSumsResult.lumpSums,
+    resetRecommendations,
+    wizardState.goal,
+    wizardState.threshold,
+  ]);
 
   const thresholdError =
     thresholdServerError ??
@@ -133,10 +359,92 @@ export function WizardPage() {
     [updateThresholdInternal],
   );
 
+  const handleLumpSumsChange = useCallback((drafts: LumpSumDraftVM[]) => {
+    setLumpSumServerError(null);
+    setLumpSumDrafts(drafts);
+  }, []);
+
+  const handleCustomWeightsChange = useCallback(
+    (draft: CustomWeightsDraftVM) => {
+      setStrategyParamsServerError(null);
+      setCustomWeightsDraft(draft);
+    },
+    [],
+  );
+
+  const handleLoanRulesChange = useCallback((drafts: LoanRuleDraftVM[]) => {
+    setLoanRuleServerError(null);
+    setLoanRuleDrafts(drafts);
+  }, []);
+
+  const handleCompareStrategies = useCallback(() => {
+    if (!wizardState.goal) {
+      return;
+    }
+
+    void recommendations.compare({
+      goal: wizardState.goal,
+      paymentReductionTarget:
+        wizardState.goal === "payment_reduction"
+          ? (wizardState.threshold ?? undefined)
+          : undefined,
+      lumpSums:
+        lumpSumsResult.lumpSums.length > 0
+          ? lumpSumsResult.lumpSums
+          : undefined,
+      loanRules:
+        loanRulesResult.loanRules.length > 0
+          ? loanRulesResult.loanRules
+          : undefined,
+    });
+  }, [
+    loanRulesResult.loanRules,
+    lumpSumsResult.lumpSums,
+    recommendations,
+    wizardState.goal,
+    wizardState.threshold,
+  ]);
+
   const processSubmitResult = useCallback(
     (result: SimulationSubmitResult) => {
       if (result.ok) {
         setThresholdServerError(null);
+        setLumpSumServerError(null);
+        setLoanRuleServerError(null);
+        setStrategyParamsServerError(null);
+        return;
+      }
+
+      if (
+        result.error.code === "STRATEGY_WEIGHT_LOAN_NOT_FOUND" ||
+        result.error.issues?.some((issue) =>
+          issue.path?.toLowerCase().includes("strategyparams"),
+        )
+      ) {
+        setStrategyParamsServerError(result.error.message);
+        goToStep("strategy");
+        return;
+      }
+
+      if (
+        result.error.code === "LUMP_SUM_LOAN_NOT_FOUND" ||
+        result.error.issues?.some((issue) =>
+          issue.path?.toLowerCase().includes("lumpsums"),
+        )
+      ) {
+        setLumpSumServerError(result.error.message);
+        goToStep("goal");
+        return;
+      }
+
+      if (
+        result.error.code === "LOAN_RULE_LOAN_NOT_FOUND" ||
+        result.error.issues?.some((issue) =>
+          issue.path?.toLowerCase().includes("loanrules"),
+        )
+      ) {
+        setLoanRuleServerError(result.error.message);
+        goToStep("goal");
         return;
       }
 
@@ -181,6 +489,9 @@ export function WizardPage() {
 
     const result = await submission.submit({
       strategyId: wizardState.selectedStrategyId,
+      strategyParams: usesCustomWeights
+        ? (customWeightsResult.params ?? undefined)
+        : undefined,
       goal: wizardState.goal,
       reinvestReducedPayments: reinvestSetting ?? false,
       monthlyOverpaymentLimit:
@@ -189,14 +500,26 @@ export function WizardPage() {
         wizardState.goal === "payment_reduction"
           ? (wizardState.threshold ?? undefined)
           : undefined,
+      lumpSums:
+        lumpSumsResult.lumpSums.length > 0
+          ? lumpSumsResult.lumpSums
+          : undefined,
+      loanRules:
+        loanRulesResult.loanRules.length > 0
+          ? loanRulesResult.loanRules
+          : undefined,
     });
 
     processSubmitResult(result);
   }, [
+    customWeightsResult.params,
     goToStep,
+    loanRulesResult.loanRules,
+    lumpSumsResult.lumpSums,
     processSubmitResult,
     reinvestSetting,
     submission,
+    usesCustomWeights,
     userSettings.settings,
     wizardState.goal,
     wizardState.selectedStrategyId,
@@ -213,7 +536,7 @@ export function WizardPage() {
   }, [submission]);
 
   const canSubmit = useMemo(() => {
-    if (!wizardState.canSubmit) {
+    if (!wizardState.canSubmit || inputError) {
       return false;
     }
 
@@ -235,6 +558,7 @@ export function WizardPage() {
 
     return true;
   }, [
+    inputError,
     loansPreview.isLoading,
     strategiesState.isLoading,
     submissionBusy,
@@ -258,6 +582,10 @@ export function WizardPage() {
       );
     }
 
+    if (inputError) {
+      return inputError;
+    }
+
     if (strategiesState.isLoading) {
       return "Strategies are still loading.";
     }
@@ -280,6 +608,7 @@ export function WizardPage() {
 
     return null;
   }, [
+    inputError,
     loansPreview.hasLoans,
     loansPreview.isLoading,
     strategiesState.isLoading,
@@ -303,6 +632,11 @@ export function WizardPage() {
       return;
     }
 
+    // Strategies with parameters stay on this step until the user moves on
+    if (selectedStrategy?.acceptsParams) {
+      return;
+    }
+
     if (wizardErrors.loans) {
       return;
     }
@@ -316,6 +650,7 @@ export function WizardPage() {
     canGoToStep,
     currentStep,
     goToStep,
+    selectedStrategy?.acceptsParams,
     wizardErrors.loans,
     wizardState.selectedStrategyId,
   ]);
@@ -371,6 +706,16 @@ export function WizardPage() {
               onRetry={strategiesState.refetch}
               onSelect={selectStrategy}
             />
+            {usesCustomWeights ? (
+              <CustomWeightsEditor
+                draft={customWeightsDraft}
+                params={customWeightsResult.params}
+                loans={loansPreview.loans}
+                monthlyBudget={userSettings.settings?.overpaymentLimit ?? null}
+                onChange={handleCustomWeightsChange}
+                error={strategyParamsError}
+              />
+            ) : null}
             {wizardErrors.strategy ? (
               <p className="text-xs text-destructive">
                 {wizardErrors.strategy}
@@ -404,6 +749,18 @@ export function WizardPage() {
                 {wizardErrors.threshold}
               </p>
             ) : null}
+            <LumpSumsEditor
+              lumpSums={lumpSumDrafts}
+              loans={loansPreview.loans}
+              onChange={handleLumpSumsChange}
+              error={lumpSumError}
+            />
+            <LoanRulesEditor
+              rules={loanRuleDrafts}
+              loans={loansPreview.loans}
+              onChange={handleLoanRulesChange}
+              error={loanRuleError}
+            />
           </div>
         );
       case "review":
@@ -426,6 +783,11 @@ export function WizardPage() {
                   <p className="text-sm text-muted-foreground">
                     {selectedStrategy.description}
                   </p>
+                  {usesCustomWeights && customWeightsResult.params ? (
+                    <p className="text-xs text-muted-foreground">
+                      {describeCustomWeights(customWeightsResult.params)}
+                    </p>
+                  ) : null}
                 </div>
               ) : (
                 <p className="mt-2 text-xs text-destructive">
@@ -458,6 +820,25 @@ export function WizardPage() {
                     </dd>
                   </div>
                 ) : null}
+                <div className="flex items-center justify-between gap-3">
+                  <dt className="text-muted-foreground">Planned lump sums</dt>
+                  <dd className="font-medium text-foreground">
+                    {lumpSumsResult.lumpSums.length > 0
+                      ? `${lumpSumsResult.lumpSums.length} · ${formatCurrency(
+                          lumpSumsResult.lumpSums.reduce(
+                            (sum, lumpSum) => sum + lumpSum.amount,
+                            0,
+                          ),
+                        )}`
+                      : "None"}
+                  </dd>
+                </div>
+                <div className="flex items-center justify-between gap-3">
+                  <dt className="text-muted-foreground">Loan rules</dt>
+                  <dd className="font-medium text-foreground">
+                    {describeLoanRules(loanRulesResult.loanRules)}
+                  </dd>
+                </div>
                 <div className="flex items-center justify-between gap-3">
                   <dt className="text-muted-foreground">
                     Reinvest reduced payments
@@ -479,6 +860,21 @@ export function WizardPage() {
                 </p>
               ) : null}
             </div>
+
+            <StrategyComparison
+              result={recommendations.result}
+              isLoading={recommendations.isLoading}
+              error={recommendations.error}
+              selectedStrategyId={wizardState.selectedStrategyId}
+              disabled={
+                !wizardState.goal ||
+                Boolean(wizardErrors.threshold) ||
+                Boolean(inputError) ||
+                submissionBusy
+              }
+              onCompare={handleCompareStrategies}
+              onSelect={selectStrategy}
+            />
           </div>
         );
       default:
@@ -53,6 +53,54 @@ export interface Database {
         };
         Relationships: [];
       };
+      idempotency_keys: {
+        Row: {
+          completed_at: string | null;
+          created_at: string;
+          expires_at: string;
+          id: string;
+          key: string;
+          request_hash: string;
+          request_method: string;
+          request_path: string;
+          response_body: string | null;
+          response_headers: Json | null;
+          response_status: number | null;
+          status: Database["public"]["Enums"]["idempotency_key_status"];
+          user_id: string;
+        };
+        Insert: {
+          completed_at?: string | null;
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          key: string;
+          request_hash: string;
+          request_method: string;
+          request_path: string;
+          response_body?: string | null;
+          response_headers?: Json | null;
+          response_status?: number | null;
+          status?: Database["public"]["Enums"]["idempotency_key_status"];
+          user_id: string;
+        };
+        Update: {
+          completed_at?: string | null;
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          key?: string;
+          request_hash?: string;
+          request_method?: string;
+          request_path?: string;
+          response_body?: string | null;
+          response_headers?: Json | null;
+          response_status?: number | null;
+          status?: Database["public"]["Enums"]["idempotency_key_status"];
+          user_id?: string;
+        };
+        Relationships: [];
+      };
       loan_change_events: {
         Row: {
           change_type: Database["public"]["Enums"]["loan_change_type"];
@@ -117,39 +165,78 @@ export interface Database {
       };
       loans: {
         Row: {
+          amortization_type: Database["public"]["Enums"]["amortization_type"];
           annual_rate: number;
           closed_month: string | null;
           created_at: string;
           id: string;
+          installment_rounding: Database["public"]["Enums"]["money_rounding"];
+          interest_accrual: Database["public"]["Enums"]["interest_accrual"];
+          interest_rounding: Database["public"]["Enums"]["money_rounding"];
           is_closed: boolean;
+          min_overpayment: number | null;
           original_term_months: number;
+          overpayment_effect: Database["public"]["Enums"]["overpayment_effect"];
+          payment_day: number | null;
+          prepayment_fee_months: number | null;
+          prepayment_fee_rate: number | null;
+          prepayment_free_allowance: number | null;
           principal: number;
+          rate_index_id: string | null;
+          rate_margin: number | null;
+          rate_type: Database["public"]["Enums"]["loan_rate_type"];
           remaining_balance: number;
           start_month: string;
           term_months: number;
           user_id: string;
         };
         Insert: {
+          amortization_type?: Database["public"]["Enums"]["amortization_type"];
           annual_rate: number;
           closed_month?: string | null;
           created_at?: string;
           id?: string;
+          installment_rounding?: Database["public"]["Enums"]["money_rounding"];
+          interest_accrual?: Database["public"]["Enums"]["interest_accrual"];
+          interest_rounding?: Database["public"]["Enums"]["money_rounding"];
           is_closed?: boolean;
+          min_overpayment?: number | null;
           original_term_months: number;
+          overpayment_effect?: Database["public"]["Enums"]["overpayment_effect"];
+          payment_day?: number | null;
+          prepayment_fee_months?: number | null;
+          prepayment_fee_rate?: number | null;
+          prepayment_free_allowance?: number | null;
           principal: number;
+          rate_index_id?: string | null;
+          rate_margin?: number | null;
+          rate_type?: Database["public"]["Enums"]["loan_rate_type"];
           remaining_balance: number;
           start_month?: string;
           term_months: number;
           user_id: string;
         };
         Update: {
+          amortization_type?: Database["public"]["Enums"]["amortization_type"];
           annual_rate?: number;
           closed_month?: string | null;
           created_at?: string;
           id?: string;
+          installment_rounding?: Database["public"]["Enums"]["money_rounding"];
+          interest_accrual?: Database["public"]["Enums"]["interest_accrual"];
+          interest_rounding?: Database["public"]["Enums"]["money_rounding"];
           is_closed?: boolean;
+          min_overpayment?: number | null;
           original_term_months?: number;
+          overpayment_effect?: Database["public"]["Enums"]["overpayment_effect"];
+          payment_day?: number | null;
+          prepayment_fee_months?: number | null;
+          prepayment_fee_rate?: number | null;
+          prepayment_free_allowance?: number | null;
           principal?: number;
+          rate_index_id?: string | null;
+          rate_margin?: number | null;
+          rate_type?: Database["public"]["Enums"]["loan_rate_type"];
           remaining_balance?: number;
           start_month?: string;
           term_months?: number;
@@ -219,6 +306,36 @@ export interface Database {
           },
         ];
       };
+      rate_index_values: {
+        Row: {
+          created_at: string;
+          id: string;
+          index_id: string;
+          month: string;
+          updated_at: string;
+          user_id: string;
+          value: number;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          index_id: string;
+          month: string;
+          updated_at?: string;
+          user_id: string;
+          value: number;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          index_id?: string;
+          month?: string;
+          updated_at?: string;
+          user_id?: string;
+          value?: number;
+        };
+        Relationships: [];
+      };
       simulation_history_metrics: {
         Row: {
           baseline_interest: number | null;
@@ -269,6 +386,65 @@ export interface Database {
           },
         ];
       };
+      simulation_jobs: {
+        Row: {
+          attempts: number;
+          completed_at: string | null;
+          created_at: string;
+          id: string;
+          last_error: string | null;
+          locked_by: string | null;
+          locked_until: string | null;
+          max_attempts: number;
+          request_id: string | null;
+          run_after: string;
+          simulation_id: string;
+          status: Database["public"]["Enums"]["simulation_job_status"];
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          attempts?: number;
+          completed_at?: string | null;
+          created_at?: string;
+          id?: string;
+          last_error?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          max_attempts?: number;
+          request_id?: string | null;
+          run_after?: string;
+          simulation_id: string;
+          status?: Database["public"]["Enums"]["simulation_job_status"];
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          attempts?: number;
+          completed_at?: string | null;
+          created_at?: string;
+          id?: string;
+          last_error?: string | null;
+          locked_by?: string | null;
+          locked_until?: string | null;
+          max_attempts?: number;
+          request_id?: string | null;
+          run_after?: string;
+          simulation_id?: string;
+          status?: Database["public"]["Enums"]["simulation_job_status"];
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "simulation_jobs_simulation_id_fkey";
+            columns: ["simulation_id"];
+            isOneToOne: false;
+            referencedRelation: "simulations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       simulation_loan_snapshots: {
         Row: {
           id: string;
@@ -278,6 +454,7 @@ export interface Database {
           starting_balance: number;
           starting_month: string;
           starting_rate: number;
+          target_monthly_payment: number | null;
           user_id: string;
         };
         Insert: {
@@ -288,6 +465,7 @@ export interface Database {
           starting_balance: number;
           starting_month: string;
           starting_rate: number;
+          target_monthly_payment?: number | null;
           user_id: string;
         };
         Update: {
@@ -298,6 +476,7 @@ export interface Database {
           starting_balance?: number;
           starting_month?: string;
           starting_rate?: number;
+          target_monthly_payment?: number | null;
           user_id?: string;
         };
         Relationships: [
@@ -317,18 +496,89 @@ export interface Database {
           },
         ];
       };
+      simulation_schedule_entries: {
+        Row: {
+          balance: number;
+          baseline_interest: number;
+          created_at: string;
+          id: string;
+          interest: number;
+          loan_id: string;
+          month: string;
+          overpayment: number;
+          payment: number;
+          prepayment_fee: number;
+          principal: number;
+          simulation_id: string;
+          user_id: string;
+        };
+        Insert: {
+          balance: number;
+          baseline_interest?: number;
+          created_at?: string;
+          id?: string;
+          interest: number;
+          loan_id: string;
+          month: string;
+          overpayment?: number;
+          payment: number;
+          prepayment_fee?: number;
+          principal: number;
+          simulation_id: string;
+          user_id: string;
+        };
+        Update: {
+          balance?: number;
+          baseline_interest?: number;
+          created_at?: string;
+          id?: string;
+          interest?: number;
+          loan_id?: string;
+          month?: string;
+          overpayment?: number;
+          payment?: number;
+          prepayment_fee?: number;
+          principal?: number;
+          simulation_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "simulation_schedule_entries_loan_id_fkey";
+            columns: ["loan_id"];
+            isOneToOne: false;
+            referencedRelation: "loans";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "simulation_schedule_entries_simulation_id_fkey";
+            columns: ["simulation_id"];
+            isOneToOne: false;
+            referencedRelation: "simulations";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       simulations: {
         Row: {
           baseline_interest: number | null;
           cancelled_at: string | null;
           completed_at: string | null;
           created_at: string;
+          engine_version: string | null;
           goal: Database["public"]["Enums"]["goal_type"];
           id: string;
+          input_fingerprint: string | null;
+          input_snapshot: Json | null;
           is_active: boolean;
+          loan_rules: Json;
+          lump_sums: Json;
           monthly_overpayment_limit: number;
           notes: string | null;
+          optimality_report: Json | null;
+          overpayment_budget_schedule: Json | null;
           payment_reduction_target: number | null;
+          payment_reduction_target_month: string | null;
           projected_months_to_payoff: number | null;
           projected_payoff_month: string | null;
           reinvest_reduced_payments: boolean;
@@ -336,6 +586,8 @@ export interface Database {
           started_at: string | null;
           status: Database["public"]["Enums"]["simulation_status"];
           strategy: string;
+          strategy_params: Json | null;
+          strategy_phases: Json;
           total_interest_saved: number | null;
           user_id: string;
         };
@@ -344,12 +596,20 @@ export interface Database {
           cancelled_at?: string | null;
           completed_at?: string | null;
           created_at?: string;
+          engine_version?: string | null;
           goal: Database["public"]["Enums"]["goal_type"];
           id?: string;
+          input_fingerprint?: string | null;
+          input_snapshot?: Json | null;
           is_active?: boolean;
+          loan_rules?: Json;
+          lump_sums?: Json;
           monthly_overpayment_limit: number;
           notes?: string | null;
+          optimality_report?: Json | null;
+          overpayment_budget_schedule?: Json | null;
           payment_reduction_target?: number | null;
+          payment_reduction_target_month?: string | null;
           projected_months_to_payoff?: number | null;
           projected_payoff_month?: string | null;
           reinvest_reduced_payments?: boolean;
@@ -357,6 +617,8 @@ export interface Database {
           started_at?: string | null;
           status?: Database["public"]["Enums"]["simulation_status"];
           strategy: string;
+          strategy_params?: Json | null;
+          strategy_phases?: Json;
           total_interest_saved?: number | null;
           user_id: string;
         };
@@ -365,12 +627,20 @@ export interface Database {
           cancelled_at?: string | null;
           completed_at?: string | null;
           created_at?: string;
+          engine_version?: string | null;
           goal?: Database["public"]["Enums"]["goal_type"];
           id?: string;
+          input_fingerprint?: string | null;
+          input_snapshot?: Json | null;
           is_active?: boolean;
+          loan_rules?: Json;
+          lump_sums?: Json;
           monthly_overpayment_limit?: number;
           notes?: string | null;
+          optimality_report?: Json | null;
+          overpayment_budget_schedule?: Json | null;
           payment_reduction_target?: number | null;
+          payment_reduction_target_month?: string | null;
           projected_months_to_payoff?: number | null;
           projected_payoff_month?: string | null;
           reinvest_reduced_payments?: boolean;
@@ -378,6 +648,8 @@ export interface Database {
           started_at?: string | null;
           status?: Database["public"]["Enums"]["simulation_status"];
           strategy?: string;
+          strategy_params?: Json | null;
+          strategy_phases?: Json;
           total_interest_saved?: number | null;
           user_id?: string;
         };
@@ -386,18 +658,21 @@ export interface Database {
       user_settings: {
         Row: {
           monthly_overpayment_limit: number;
+          overpayment_budget_schedule: Json | null;
           reinvest_reduced_payments: boolean;
           updated_at: string;
           user_id: string;
         };
         Insert: {
           monthly_overpayment_limit?: number;
+          overpayment_budget_schedule?: Json | null;
           reinvest_reduced_payments?: boolean;
           updated_at?: string;
           user_id: string;
         };
         Update: {
           monthly_overpayment_limit?: number;
+          overpayment_budget_schedule?: Json | null;
           reinvest_reduced_payments?: boolean;
           updated_at?: string;
           user_id?: string;
@@ -406,16 +681,28 @@ export interface Database {
       };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      claim_simulation_job: {
+        Args: { p_lease_seconds: number; p_worker_id: string };
+        Returns: Database["public"]["Tables"]["simulation_jobs"]["Row"][];
+      };
+    };
     Enums: {
+      amortization_type: "annuity" | "decreasing";
       goal_type: "fastest_payoff" | "payment_reduction";
+      idempotency_key_status: "in_progress" | "completed";
+      interest_accrual: "thirty_360" | "actual_365";
       loan_change_type:
         | "rate_change"
         | "balance_adjustment"
         | "term_adjustment"
         | "principal_correction";
+      loan_rate_type: "fixed" | "variable";
+      money_rounding: "half_up" | "half_even" | "down" | "up";
+      overpayment_effect: "shorten_term" | "lower_installment";
       overpayment_status: "scheduled" | "executed" | "skipped" | "backfilled";
       payment_status: "pending" | "paid" | "backfilled";
+      simulation_job_status: "pending" | "running" | "completed" | "failed";
       simulation_status:
         | "running"
         | "active"
@@ -554,15 +841,22 @@ export const Constants = {
   },
   public: {
     Enums: {
+      amortization_type: ["annuity", "decreasing"],
       goal_type: ["fastest_payoff", "payment_reduction"],
+      idempotency_key_status: ["in_progress", "completed"],
+      interest_accrual: ["thirty_360", "actual_365"],
       loan_change_type: [
         "rate_change",
         "balance_adjustment",
         "term_adjustment",
         "principal_correction",
       ],
+      loan_rate_type: ["fixed", "variable"],
+      money_rounding: ["half_up", "half_even", "down", "up"],
+      overpayment_effect: ["shorten_term", "lower_installment"],
       overpayment_status: ["scheduled", "executed", "skipped", "backfilled"],
       payment_status: ["pending", "paid", "backfilled"],
+      simulation_job_status: ["pending", "running", "completed", "failed"],
       simulation_status: [
         "running",
         "active",
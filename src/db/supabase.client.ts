@@ -4,6 +4,7 @@ import type { Database } from "../db/database.types.ts";
 
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
+const supabaseServiceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
 
 export const createSupabaseClient = (
   accessToken?: string,
@@ -18,3 +19,18 @@ export const createSupabaseClient = (
 };
 
 export const supabaseClient = createSupabaseClient();
+
+/**
+ * Client that bypasses row level security, for background work done on behalf of
+ * every user. Null when no service role key is configured.
+ */
+export const createSupabaseServiceClient =
+  (): SupabaseClient<Database> | null => {
+    if (!supabaseServiceRoleKey) {
+      return null;
+    }
+
+    return createClient<Database>(supabaseUrl, supabaseServiceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  };
@@ -0,0 +1,44 @@
+import { EventEmitter } from "node:events";
+
+import type { UserEvent, UserEventPayloads, UserEventType } from "../types.ts";
+import { logger } from "./logger.ts";
+
+/**
+ * In-process bus behind the `/api/events` stream. Events only reach streams served by
+ * the process that published them, which holds while the app and the simulation
+ * worker run as one server.
+ */
+const emitter = new EventEmitter();
+// Every open stream is a listener; the default cap of 10 would only warn
+emitter.setMaxListeners(0);
+
+export type UserEventListener = (event: UserEvent) => void;
+
+export const publishUserEvent = <T extends UserEventType>(
+  userId: string,
+  type: T,
+  data: UserEventPayloads[T],
+): void => {
+  const event = { type, data, occurredAt: new Date().toISOString() };
+
+  try {
+    emitter.emit(userId, event);
+  } catch (error) {
+    // A broken stream must not fail the change that was published
+    logger.warn("events.publish.failed", "Failed to deliver user event", {
+      type,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/** Registers a listener for one user's events; the returned function removes it. */
+export const subscribeToUserEvents = (
+  userId: string,
+  listener: UserEventListener,
+): (() => void) => {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+};
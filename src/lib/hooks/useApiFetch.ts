@@ -5,6 +5,13 @@ import type { ApiErrorShape, ApiErrorIssue } from "@/lib/viewModels/loans";
 
 const JSON_CONTENT_TYPE = "application/json";
 const DEFAULT_CREDENTIALS: RequestCredentials = "same-origin";
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const MUTATION_METHODS = new Set<HttpMethod>([
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+]);
 
 export type HttpMethod =
   | "GET"
@@ -22,6 +29,11 @@ export interface ApiFetchRequest<TBody = unknown> {
   readonly signal?: AbortSignal;
   readonly credentials?: RequestCredentials;
   readonly skipJsonEncoding?: boolean;
+  /**
+   * Reuse the same key when resending one logical request; mutations without a
+   * key get a fresh one.
+   */
+  readonly idempotencyKey?: string;
 }
 
 export interface ApiFetchMeta {
@@ -150,6 +162,18 @@ const buildMeta = (headers: Headers): ApiFetchMeta => {
   };
 };
 
+export const createIdempotencyKey = (): string => {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+
+  // randomUUID is missing outside secure contexts, e.g. plain-http LAN hosts
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
 const encodeBody = (body: unknown): BodyInit | undefined => {
   if (body === undefined || body === null) {
     return undefined;
@@ -185,6 +209,7 @@ export function useApiFetch() {
         signal,
         credentials = DEFAULT_CREDENTIALS,
         skipJsonEncoding,
+        idempotencyKey,
       } = request;
 
       const headers = new Headers(customHeaders);
@@ -199,6 +224,16 @@ export function useApiFetch() {
         headers.set("Content-Type", JSON_CONTENT_TYPE);
       }
 
+      if (
+        MUTATION_METHODS.has(method) &&
+        !headers.has(IDEMPOTENCY_KEY_HEADER)
+      ) {
+        headers.set(
+          IDEMPOTENCY_KEY_HEADER,
+          idempotencyKey ?? createIdempotencyKey(),
+        );
+      }
+
       const accessToken = getAccessToken();
       if (accessToken && !headers.has("Authorization")) {
         headers.set("Authorization", `Bearer ${accessToken}`);
@@ -1,11 +1,12 @@
 import { useMemo } from "react";
 
 import { useDashboardContext } from "@/components/dashboard/DashboardDataProvider";
-import type { DashboardOverviewDto } from "@/types";
+import type { DashboardOverviewDto, StrategyPhaseTrigger } from "@/types";
 import type {
   CurrentMonthEntryVM,
   DashboardLoanVM,
   OverviewCardVM,
+  StrategyPhaseVM,
 } from "@/types/dashboard";
 import {
   createLoanLookup,
@@ -29,6 +30,7 @@ interface DashboardDataResult {
   readonly graphs: DashboardOverviewDto["graphs"] | undefined;
   readonly isSimulationRunning: boolean;
   readonly overviewCards: OverviewCardVM[];
+  readonly strategyPhases: StrategyPhaseVM[];
 }
 
 const buildCurrentMonthView = (
@@ -69,6 +71,7 @@ const mapLoans = (
 const strategyLabels: Record<string, string> = {
   snowball: "Snowball",
   avalanche: "Avalanche",
+  optimal: "Optimal",
   custom: "Custom",
 };
 
@@ -123,6 +126,53 @@ const formatMonthYear = (value: string | Date | null | undefined) => {
   return monthFormatter.format(parsed);
 };
 
+const formatLoanIds = (loanIds: readonly string[]) =>
+  loanIds.map((loanId) => loanId.slice(0, 8)).join(", ");
+
+const describeTrigger = (trigger: StrategyPhaseTrigger): string => {
+  switch (trigger.type) {
+    case "loan_closed":
+      return trigger.loanIds.length === 1
+        ? `Once loan ${formatLoanIds(trigger.loanIds)} is repaid`
+        : `Once loans ${formatLoanIds(trigger.loanIds)} are repaid`;
+    case "date":
+      return `From ${formatMonthYear(trigger.month)}`;
+    case "balance_threshold":
+      return trigger.loanId
+        ? `Once loan ${formatLoanIds([trigger.loanId])} falls to ${formatCurrency(trigger.amount)}`
+        : `Once total debt falls to ${formatCurrency(trigger.amount)}`;
+    case "payment_target_met":
+      return "Once the target payment is reached";
+  }
+};
+
+const buildStrategyPhases = (
+  overview: DashboardOverviewDto | undefined,
+  activeSimulation: DashboardDataResult["activeSimulation"],
+): StrategyPhaseVM[] => {
+  const simulation = overview?.activeSimulation ?? activeSimulation;
+  if (!simulation || simulation.strategyPhases.length === 0) {
+    return [];
+  }
+
+  const activePhase = simulation.activeStrategyPhase;
+  const phases = [
+    { strategy: simulation.strategy, startsWhen: "From the start" },
+    ...simulation.strategyPhases.map((phase) => ({
+      strategy: phase.strategy,
+      startsWhen: describeTrigger(phase.startsWhen),
+    })),
+  ];
+
+  return phases.map((phase, index) => ({
+    index,
+    strategyLabel: formatLabel(phase.strategy, strategyLabels, "--"),
+    startsWhen: phase.startsWhen,
+    isActive: activePhase === index,
+    isCompleted: activePhase !== undefined && index < activePhase,
+  }));
+};
+
 const buildOverviewCards = (
   overview: DashboardOverviewDto | undefined,
   activeSimulation: DashboardDataResult["activeSimulation"],
@@ -144,10 +194,49 @@ const buildOverviewCards = (
 
   const totalInterestSaved = formatCurrency(simulation.totalInterestSaved ?? 0);
 
+  const paymentReductionCards: OverviewCardVM[] =
+    simulation.goal === "payment_reduction"
+      ? [
+          {
+            title: "Target payment reached",
+            value: simulation.paymentReductionTargetMonth
+              ? formatMonthYear(simulation.paymentReductionTargetMonth)
+              : "--",
+            status: isRunning ? "loading" : "ok",
+          },
+        ]
+      : [];
+
+  const budgetCards: OverviewCardVM[] =
+    simulation.currentMonthlyBudget !== undefined
+      ? [
+          {
+            title: "Budget this month",
+            value: formatCurrency(simulation.currentMonthlyBudget),
+            tooltip: simulation.overpaymentBudgetSchedule
+              ? "Follows your overpayment budget schedule."
+              : undefined,
+            status: "ok",
+          },
+        ]
+      : [];
+
+  const phaseCount = simulation.strategyPhases.length + 1;
+  const activePhase = simulation.activeStrategyPhase;
+  const activeStrategy =
+    activePhase !== undefined && activePhase > 0
+      ? (simulation.strategyPhases[activePhase - 1]?.strategy ??
+        simulation.strategy)
+      : simulation.strategy;
+
   return [
     {
       title: "Strategy",
-      value: formatLabel(simulation.strategy, strategyLabels, "--"),
+      value: formatLabel(activeStrategy, strategyLabels, "--"),
+      tooltip:
+        activePhase !== undefined && phaseCount > 1
+          ? `Phase ${activePhase + 1} of ${phaseCount}`
+          : undefined,
       status: "ok",
     },
     {
@@ -165,6 +254,8 @@ const buildOverviewCards = (
       value: totalInterestSaved,
       status: isRunning ? "loading" : "ok",
     },
+    ...budgetCards,
+    ...paymentReductionCards,
   ];
 };
 
@@ -181,6 +272,10 @@ export function useDashboardData(): DashboardDataResult {
     return buildOverviewCards(context.overview, context.activeSimulation);
   }, [context.activeSimulation, context.overview]);
 
+  const strategyPhases = useMemo(() => {
+    return buildStrategyPhases(context.overview, context.activeSimulation);
+  }, [context.activeSimulation, context.overview]);
+
   const showEmptyState = useMemo(() => {
     if (context.isLoading) {
       return false;
@@ -208,5 +303,6 @@ export function useDashboardData(): DashboardDataResult {
     graphs: context.overview?.graphs,
     isSimulationRunning: simulationRunning,
     overviewCards,
+    strategyPhases,
   };
 }
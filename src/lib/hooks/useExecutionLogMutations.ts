@@ -18,6 +18,7 @@ import type {
   PatchMonthlyExecutionLogCommand,
 } from "@/types";
 import type { CurrentMonthEntryVM, MutationResult } from "@/types/dashboard";
+import { createIdempotencyKey } from "./useApiFetch";
 
 const JSON_HEADERS = {
   "Content-Type": "application/json",
@@ -103,7 +104,7 @@ const patchMonthlyExecutionLog = async (
 ): Promise<MonthlyExecutionLogDto | null> => {
   const response = await fetch(`/api/monthly-execution-logs/${logId}`, {
     method: "PATCH",
-    headers: JSON_HEADERS,
+    headers: { ...JSON_HEADERS, "Idempotency-Key": createIdempotencyKey() },
     credentials: "same-origin",
     body: JSON.stringify(payload),
   });
@@ -1,7 +1,12 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-import type { UpdateUserSettingsCommand, UserSettingsDto } from "@/types";
 import type {
+  OverpaymentBudgetSchedule,
+  UpdateUserSettingsCommand,
+  UserSettingsDto,
+} from "@/types";
+import type {
+  BudgetStepFormValue,
   SettingsFormErrors,
   SettingsFormValues,
 } from "@/lib/viewModels/settings";
@@ -21,6 +26,83 @@ const parseLimit = (raw: string): number | null => {
   return value;
 };
 
+let budgetStepCounter = 0;
+
+const createBudgetStep = (fromMonth = "", amount = ""): BudgetStepFormValue => {
+  budgetStepCounter += 1;
+  return { key: `budget-step-${budgetStepCounter}`, fromMonth, amount };
+};
+
+const toFormValues = (dto?: UserSettingsDto): SettingsFormValues => {
+  const schedule = dto?.overpaymentBudgetSchedule ?? null;
+  return {
+    monthlyOverpaymentLimit:
+      dto && typeof dto.monthlyOverpaymentLimit === "number"
+        ? String(dto.monthlyOverpaymentLimit)
+        : "",
+    budgetSteps: (schedule?.steps ?? []).map((step) =>
+      createBudgetStep(step.fromMonth.slice(0, 7), String(step.amount)),
+    ),
+    budgetGrowthPercent: schedule?.yearlyGrowthRate
+      ? String(Math.round(schedule.yearlyGrowthRate * 100_000) / 1000)
+      : "",
+    reinvestReducedPayments: dto?.reinvestReducedPayments ?? false,
+  };
+};
+
+/**
+ * Converts the budget schedule fields to the API shape; no steps means no schedule.
+ */
+const parseBudgetSchedule = (
+  values: SettingsFormValues,
+): { schedule: OverpaymentBudgetSchedule | null; error?: string } => {
+  if (values.budgetSteps.length === 0) {
+    return { schedule: null };
+  }
+
+  const steps: OverpaymentBudgetSchedule["steps"] = [];
+  for (const step of values.budgetSteps) {
+    const amount = parseLimit(step.amount);
+    if (!/^\d{4}-\d{2}$/u.test(step.fromMonth) || amount === null) {
+      return {
+        schedule: null,
+        error: "Each budget step needs a month and a non-negative amount",
+      };
+    }
+    steps.push({ fromMonth: `${step.fromMonth}-01`, amount });
+  }
+  steps.sort((a, b) => a.fromMonth.localeCompare(b.fromMonth));
+
+  if (
+    steps.some((step, i) => i > 0 && steps[i - 1].fromMonth === step.fromMonth)
+  ) {
+    return {
+      schedule: null,
+      error: "Budget steps must start in different months",
+    };
+  }
+
+  const growthRaw = values.budgetGrowthPercent.replace(",", ".").trim();
+  const growthPercent = growthRaw === "" ? 0 : Number(growthRaw);
+  if (
+    !Number.isFinite(growthPercent) ||
+    growthPercent < 0 ||
+    growthPercent > 100
+  ) {
+    return {
+      schedule: null,
+      error: "Enter a yearly growth between 0 and 100%",
+    };
+  }
+
+  return {
+    schedule: {
+      steps,
+      yearlyGrowthRate: Math.round(growthPercent * 1000) / 100_000,
+    },
+  };
+};
+
 export interface UseSettingsFormResult {
   readonly values: SettingsFormValues;
   readonly errors: SettingsFormErrors;
@@ -28,6 +110,13 @@ export interface UseSettingsFormResult {
   readonly hasErrors: boolean;
   readonly setMonthlyLimit: (value: string) => void;
   readonly setReinvest: (checked: boolean) => void;
+  readonly addBudgetStep: () => void;
+  readonly updateBudgetStep: (
+    key: string,
+    patch: Partial<Omit<BudgetStepFormValue, "key">>,
+  ) => void;
+  readonly removeBudgetStep: (key: string) => void;
+  readonly setBudgetGrowth: (value: string) => void;
   readonly blurMonthlyLimit: () => void;
   readonly validate: () => boolean;
   readonly reset: (nextDto?: UserSettingsDto) => void;
@@ -42,25 +131,15 @@ export function useSettingsForm(
   const [snapshot, setSnapshot] = useState<UserSettingsDto | undefined>(
     initialDto,
   );
-  const [values, setValues] = useState<SettingsFormValues>(() => ({
-    monthlyOverpaymentLimit:
-      initialDto && typeof initialDto.monthlyOverpaymentLimit === "number"
-        ? String(initialDto.monthlyOverpaymentLimit)
-        : "",
-    reinvestReducedPayments: initialDto?.reinvestReducedPayments ?? false,
-  }));
+  const [values, setValues] = useState<SettingsFormValues>(() =>
+    toFormValues(initialDto),
+  );
   const [errors, setErrors] = useState<SettingsFormErrors>({});
 
   useEffect(() => {
     if (initialDto?.updatedAt !== snapshot?.updatedAt) {
       setSnapshot(initialDto);
-      setValues({
-        monthlyOverpaymentLimit:
-          initialDto && typeof initialDto.monthlyOverpaymentLimit === "number"
-            ? String(initialDto.monthlyOverpaymentLimit)
-            : "",
-        reinvestReducedPayments: initialDto?.reinvestReducedPayments ?? false,
-      });
+      setValues(toFormValues(initialDto));
       setErrors({});
     }
   }, [initialDto, snapshot?.updatedAt]);
@@ -75,6 +154,48 @@ export function useSettingsForm(
     setValues((current) => ({ ...current, reinvestReducedPayments: checked }));
   }, []);
 
+  const addBudgetStep = useCallback(() => {
+    setValues((current) => ({
+      ...current,
+      budgetSteps: [...current.budgetSteps, createBudgetStep()],
+    }));
+  }, []);
+
+  const updateBudgetStep = useCallback(
+    (key: string, patch: Partial<Omit<BudgetStepFormValue, "key">>) => {
+      setValues((current) => ({
+        ...current,
+        budgetSteps: current.budgetSteps.map((step) =>
+          step.key === key ? { ...step, ...patch } : step,
+        ),
+      }));
+      setErrors((current) => ({
+        ...current,
+        overpaymentBudgetSchedule: undefined,
+      }));
+    },
+    [],
+  );
+
+  const removeBudgetStep = useCallback((key: string) => {
+    setValues((current) => ({
+      ...current,
+      budgetSteps: current.budgetSteps.filter((step) => step.key !== key),
+    }));
+    setErrors((current) => ({
+      ...current,
+      overpaymentBudgetSchedule: undefined,
+    }));
+  }, []);
+
+  const setBudgetGrowth = useCallback((value: string) => {
+    setValues((current) => ({ ...current, budgetGrowthPercent: value }));
+    setErrors((current) => ({
+      ...current,
+      overpaymentBudgetSchedule: undefined,
+    }));
+  }, []);
+
   const blurMonthlyLimit = useCallback(() => {
     const normalized = values.monthlyOverpaymentLimit.replace(",", ".").trim();
     const parsed = parseLimit(normalized);
@@ -100,9 +221,13 @@ export function useSettingsForm(
     if (values.monthlyOverpaymentLimit !== "" && parsed === null) {
       nextErrors.monthlyOverpaymentLimit = "Enter a valid non-negative number";
     }
+    const budget = parseBudgetSchedule(values);
+    if (budget.error) {
+      nextErrors.overpaymentBudgetSchedule = budget.error;
+    }
     setErrors(nextErrors);
     return Object.keys(nextErrors).length === 0;
-  }, [values.monthlyOverpaymentLimit]);
+  }, [values]);
 
   const buildCommand = useCallback((): UpdateUserSettingsCommand | null => {
     const ok = validate();
@@ -113,25 +238,16 @@ export function useSettingsForm(
     const monthlyLimit = parsed === null ? 0 : parsed;
     return {
       monthlyOverpaymentLimit: monthlyLimit,
+      overpaymentBudgetSchedule: parseBudgetSchedule(values).schedule,
       reinvestReducedPayments: values.reinvestReducedPayments,
     };
-  }, [
-    validate,
-    values.monthlyOverpaymentLimit,
-    values.reinvestReducedPayments,
-  ]);
+  }, [validate, values]);
 
   const reset = useCallback(
     (nextDto?: UserSettingsDto) => {
       const base = nextDto ?? snapshot;
       setSnapshot(base);
-      setValues({
-        monthlyOverpaymentLimit:
-          base && typeof base.monthlyOverpaymentLimit === "number"
-            ? String(base.monthlyOverpaymentLimit)
-            : "",
-        reinvestReducedPayments: base?.reinvestReducedPayments ?? false,
-      });
+      setValues(toFormValues(base));
       setErrors({});
     },
     [snapshot],
@@ -174,12 +290,14 @@ export function useSettingsForm(
       (snapshot?.reinvestReducedPayments ?? false) !==
       values.reinvestReducedPayments;
 
-    return limitChanged || reinvestChanged;
-  }, [
-    snapshot,
-    values.monthlyOverpaymentLimit,
-    values.reinvestReducedPayments,
-  ]);
+    const budget = parseBudgetSchedule(values);
+    const budgetChanged =
+      Boolean(budget.error) ||
+      JSON.stringify(budget.schedule) !==
+        JSON.stringify(snapshot?.overpaymentBudgetSchedule ?? null);
+
+    return limitChanged || reinvestChanged || budgetChanged;
+  }, [snapshot, values]);
 
   return {
     values,
@@ -188,6 +306,10 @@ export function useSettingsForm(
     hasErrors,
     setMonthlyLimit,
     setReinvest,
+    addBudgetStep,
+    updateBudgetStep,
+    removeBudgetStep,
+    setBudgetGrowth,
     blurMonthlyLimit,
     validate,
     reset,
@@ -0,0 +1,121 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type {
+  SimulationComparisonDto,
+  SimulationDto,
+  SimulationListResponse,
+} from "@/types";
+import type { ApiErrorShape } from "@/lib/viewModels/loans";
+import { useApiFetch } from "./useApiFetch";
+
+const COMPARABLE_STATUSES: SimulationDto["status"][] = [
+  "completed",
+  "active",
+  "stale",
+];
+
+const CANDIDATES_PAGE_SIZE = 50;
+
+interface UseSimulationComparisonResult {
+  /** Recent simulations with results, newest first. */
+  readonly candidates: SimulationDto[];
+  readonly isLoadingCandidates: boolean;
+  readonly comparison: SimulationComparisonDto | null;
+  readonly isLoading: boolean;
+  readonly error: ApiErrorShape | null;
+  readonly compare: (simulationIds: string[]) => Promise<void>;
+}
+
+/**
+ * Lists the simulations that can be compared and fetches the comparison of a
+ * selection. Only the latest comparison request updates the result.
+ */
+export function useSimulationComparison(): UseSimulationComparisonResult {
+  const { apiFetch } = useApiFetch();
+
+  const isMountedRef = useRef(true);
+  const requestCounterRef = useRef(0);
+  const [candidates, setCandidates] = useState<SimulationDto[]>([]);
+  const [isLoadingCandidates, setIsLoadingCandidates] = useState(true);
+  const [comparison, setComparison] = useState<SimulationComparisonDto | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ApiErrorShape | null>(null);
+
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const loadCandidates = async () => {
+      const response = await apiFetch<SimulationListResponse>({
+        path: `/api/simulations?pageSize=${CANDIDATES_PAGE_SIZE}&sort=created_at&order=desc`,
+        method: "GET",
+      });
+
+      if (!isMountedRef.current) {
+        return;
+      }
+
+      setIsLoadingCandidates(false);
+
+      if (!response.ok) {
+        setError(response.error);
+        return;
+      }
+
+      setCandidates(
+        (response.data?.items ?? []).filter((simulation) =>
+          COMPARABLE_STATUSES.includes(simulation.status),
+        ),
+      );
+    };
+
+    void loadCandidates();
+  }, [apiFetch]);
+
+  const compare = useCallback(
+    async (simulationIds: string[]) => {
+      requestCounterRef.current += 1;
+      const requestId = requestCounterRef.current;
+
+      setIsLoading(true);
+      setError(null);
+
+      const response = await apiFetch<SimulationComparisonDto>({
+        path: `/api/simulations/compare?ids=${simulationIds.map(encodeURIComponent).join(",")}`,
+        method: "GET",
+      });
+
+      if (!isMountedRef.current || requestId !== requestCounterRef.current) {
+        return;
+      }
+
+      setIsLoading(false);
+
+      if (!response.ok) {
+        setComparison(null);
+        setError(response.error);
+        return;
+      }
+
+      setComparison(response.data ?? null);
+    },
+    [apiFetch],
+  );
+
+  return useMemo(
+    () => ({
+      candidates,
+      isLoadingCandidates,
+      comparison,
+      isLoading,
+      error,
+      compare,
+    }),
+    [candidates, comparison, compare, error, isLoading, isLoadingCandidates],
+  );
+}
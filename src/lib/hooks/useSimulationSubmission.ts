@@ -4,6 +4,8 @@ import type {
   CreateSimulationCommand,
   SimulationCancelResponse,
   SimulationDto,
+  SimulationLoanRule,
+  SimulationLumpSum,
   SimulationQueuedResponse,
 } from "@/types";
 import type {
@@ -11,18 +13,28 @@ import type {
   SimulationStatusVM,
 } from "@/lib/viewModels/wizardSimulation";
 import type { ApiErrorShape } from "@/lib/viewModels/loans";
-import { useApiFetch } from "./useApiFetch";
+import { createIdempotencyKey, useApiFetch } from "./useApiFetch";
+import {
+  userEventsAvailable,
+  useUserEvents,
+  useUserEventsOpen,
+} from "./useUserEvents";
 import type { GoalType } from "@/types";
 
-const POLL_INTERVAL_INITIAL = 1500;
-const POLL_INTERVAL_MAX = 5000;
+/** Status checks while a job is pending, in case its event never arrives. */
+const FALLBACK_POLL_INTERVAL = 15_000;
+/** Status checks when the browser cannot stream events at all. */
+const POLL_INTERVAL = 5_000;
 
 export interface SimulationSubmitPayload {
   readonly strategyId: string;
+  readonly strategyParams?: CreateSimulationCommand["strategyParams"];
   readonly goal: GoalType;
   readonly reinvestReducedPayments: boolean;
   readonly monthlyOverpaymentLimit?: number;
   readonly paymentReductionTarget?: number;
+  readonly lumpSums?: SimulationLumpSum[];
+  readonly loanRules?: SimulationLoanRule[];
   readonly notes?: string;
 }
 
@@ -113,28 +125,16 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
   const [lastError, setLastError] = useState<ApiErrorShape | null>(null);
 
   const activeSimulationIdRef = useRef<string | undefined>(undefined);
-  const pollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  const pollDelayRef = useRef<number>(POLL_INTERVAL_INITIAL);
   const lastPayloadRef = useRef<SimulationSubmitPayload | null>(null);
+  const idempotencyKeyRef = useRef<string | undefined>(undefined);
   const isMountedRef = useRef(true);
 
   useEffect(() => {
     return () => {
       isMountedRef.current = false;
-      if (pollTimeoutRef.current) {
-        clearTimeout(pollTimeoutRef.current);
-      }
     };
   }, []);
 
-  const stopPolling = useCallback(() => {
-    if (pollTimeoutRef.current) {
-      clearTimeout(pollTimeoutRef.current);
-      pollTimeoutRef.current = null;
-    }
-    pollDelayRef.current = POLL_INTERVAL_INITIAL;
-  }, []);
-
   const updateStatus = useCallback(
     (next: Partial<SimulationStatusVM> & { phase: SimulationPhase }) => {
       setStatus((current) => {
@@ -154,7 +154,7 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
     [],
   );
 
-  const pollSimulation = useCallback(async () => {
+  const refreshSimulation = useCallback(async () => {
     const simulationId = activeSimulationIdRef.current;
     if (!simulationId || !isMountedRef.current) {
       return;
@@ -170,7 +170,6 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
     }
 
     if (!result.ok) {
-      stopPolling();
       setLastError(result.error);
       updateStatus({
         phase: "error",
@@ -183,7 +182,6 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
 
     const simulation = result.data;
     if (!simulation) {
-      stopPolling();
       updateStatus({
         phase: "error",
         simulationId,
@@ -201,21 +199,42 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
       completedAt: simulation.completedAt ?? undefined,
       message: DEFAULT_MESSAGES[phase],
     });
+  }, [apiFetch, updateStatus]);
+
+  // The server pushes the outcome; re-read the simulation for its timestamps
+  useUserEvents(
+    (event) => {
+      if (
+        "simulationId" in event.data &&
+        event.data.simulationId === activeSimulationIdRef.current
+      ) {
+        void refreshSimulation();
+      }
+    },
+    ["simulation.completed", "simulation.failed"],
+  );
+
+  // Events sent while the stream was down are lost, so re-read on every (re)connect
+  useUserEventsOpen(() => {
+    void refreshSimulation();
+  });
+
+  const pending = status.phase === "queued" || status.phase === "running";
 
-    if (phase === "completed" || phase === "cancelled" || phase === "error") {
-      stopPolling();
+  useEffect(() => {
+    if (!pending) {
       return;
     }
 
-    pollDelayRef.current = Math.min(
-      pollDelayRef.current + 500,
-      POLL_INTERVAL_MAX,
+    const timer = setInterval(
+      () => {
+        void refreshSimulation();
+      },
+      userEventsAvailable() ? FALLBACK_POLL_INTERVAL : POLL_INTERVAL,
     );
 
-    pollTimeoutRef.current = setTimeout(() => {
-      void pollSimulation();
-    }, pollDelayRef.current);
-  }, [apiFetch, stopPolling, updateStatus]);
+    return () => clearInterval(timer);
+  }, [pending, refreshSimulation]);
 
   const submit = useCallback(
     async (
@@ -235,14 +254,22 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
 
       setSubmitting(true);
       setLastError(null);
+      // A retry resends the same payload under its original key, so a request
+      // that reached the server before failing is not queued twice
+      if (payload !== lastPayloadRef.current || !idempotencyKeyRef.current) {
+        idempotencyKeyRef.current = createIdempotencyKey();
+      }
       lastPayloadRef.current = payload;
 
       const command: CreateSimulationCommand = {
         strategy: payload.strategyId,
+        strategyParams: payload.strategyParams,
         goal: payload.goal,
         reinvestReducedPayments: payload.reinvestReducedPayments,
         monthlyOverpaymentLimit: payload.monthlyOverpaymentLimit,
         paymentReductionTarget: payload.paymentReductionTarget,
+        lumpSums: payload.lumpSums,
+        loanRules: payload.loanRules,
         notes: payload.notes,
       };
 
@@ -253,6 +280,7 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
         path: "/api/simulations",
         method: "POST",
         body: command,
+        idempotencyKey: idempotencyKeyRef.current,
       });
 
       if (!isMountedRef.current) {
@@ -344,18 +372,15 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
             : DEFAULT_MESSAGES.queued,
       });
 
-      stopPolling();
-      pollDelayRef.current = POLL_INTERVAL_INITIAL;
-      pollTimeoutRef.current = setTimeout(() => {
-        void pollSimulation();
-      }, pollDelayRef.current);
+      // Covers a computation that finished before its event could be matched
+      void refreshSimulation();
 
       return {
         ok: true,
         simulationId,
       } satisfies SimulationSubmitResult;
     },
-    [apiFetch, pollSimulation, stopPolling, submitting, updateStatus],
+    [apiFetch, refreshSimulation, submitting, updateStatus],
   );
 
   const retry = useCallback(async (): Promise<SimulationSubmitResult> => {
@@ -403,22 +428,21 @@ export function useSimulationSubmission(): UseSimulationSubmissionResult {
       return;
     }
 
-    stopPolling();
     updateStatus({
       phase: "cancelled",
       simulationId,
       completedAt: new Date().toISOString(),
       message: DEFAULT_MESSAGES.cancelled,
     });
-  }, [apiFetch, stopPolling, updateStatus]);
+  }, [apiFetch, updateStatus]);
 
   const reset = useCallback(() => {
-    stopPolling();
     activeSimulationIdRef.current = undefined;
     lastPayloadRef.current = null;
+    idempotencyKeyRef.current = undefined;
     setLastError(null);
     setStatus(INITIAL_STATUS);
-  }, [stopPolling]);
+  }, []);
 
   return useMemo(
     () => ({
@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type {
+  RecommendStrategiesCommand,
+  StrategyRecommendationResponse,
+} from "@/types";
+import type { ApiErrorShape } from "@/lib/viewModels/loans";
+import { useApiFetch } from "./useApiFetch";
+
+interface UseStrategyRecommendationsResult {
+  readonly result: StrategyRecommendationResponse | null;
+  readonly isLoading: boolean;
+  readonly error: ApiErrorShape | null;
+  readonly compare: (command: RecommendStrategiesCommand) => Promise<void>;
+  readonly reset: () => void;
+}
+
+/**
+ * Requests a ranked comparison of every strategy for the wizard's current goal. Results
+ * are kept until the inputs change and the caller resets them.
+ */
+export function useStrategyRecommendations(): UseStrategyRecommendationsResult {
+  const { apiFetch } = useApiFetch();
+
+  const isMountedRef = useRef(true);
+  const requestCounterRef = useRef(0);
+  const [result, setResult] = useState<StrategyRecommendationResponse | null>(
+    null,
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ApiErrorShape | null>(null);
+
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const compare = useCallback(
+    async (command: RecommendStrategiesCommand) => {
+      requestCounterRef.current += 1;
+      const requestId = requestCounterRef.current;
+
+      setIsLoading(true);
+      setError(null);
+
+      const response = await apiFetch<
+        StrategyRecommendationResponse,
+        RecommendStrategiesCommand
+      >({
+        path: "/api/simulations/recommend",
+        method: "POST",
+        body: command,
+      });
+
+      if (!isMountedRef.current || requestId !== requestCounterRef.current) {
+        return;
+      }
+
+      setIsLoading(false);
+
+      if (!response.ok) {
+        setResult(null);
+        setError(response.error);
+        return;
+      }
+
+      setResult(response.data ?? null);
+    },
+    [apiFetch],
+  );
+
+  const reset = useCallback(() => {
+    requestCounterRef.current += 1;
+    setResult(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return useMemo(
+    () => ({ result, isLoading, error, compare, reset }),
+    [compare, error, isLoading, reset, result],
+  );
+}
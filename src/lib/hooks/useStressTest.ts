@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import type { StressTestCommand, StressTestResultDto } from "@/types";
+import type { ApiErrorShape } from "@/lib/viewModels/loans";
+import { useApiFetch } from "./useApiFetch";
+
+interface UseStressTestResult {
+  readonly result: StressTestResultDto | null;
+  readonly isLoading: boolean;
+  readonly error: ApiErrorShape | null;
+  readonly run: (
+    simulationId: string,
+    command: StressTestCommand,
+  ) => Promise<void>;
+  readonly reset: () => void;
+}
+
+/**
+ * Runs a rate stress test for a simulation. The latest result is kept until the
+ * caller resets it, e.g. when the active simulation changes.
+ */
+export function useStressTest(): UseStressTestResult {
+  const { apiFetch } = useApiFetch();
+
+  const isMountedRef = useRef(true);
+  const requestCounterRef = useRef(0);
+  const [result, setResult] = useState<StressTestResultDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<ApiErrorShape | null>(null);
+
+  useEffect(() => {
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
+
+  const run = useCallback(
+    async (simulationId: string, command: StressTestCommand) => {
+      requestCounterRef.current += 1;
+      const requestId = requestCounterRef.current;
+
+      setIsLoading(true);
+      setError(null);
+
+      const response = await apiFetch<StressTestResultDto, StressTestCommand>({
+        path: `/api/simulations/${simulationId}/stress-test`,
+        method: "POST",
+        body: command,
+      });
+
+      if (!isMountedRef.current || requestId !== requestCounterRef.current) {
+        return;
+      }
+
+      setIsLoading(false);
+
+      if (!response.ok) {
+        setResult(null);
+        setError(response.error);
+        return;
+      }
+
+      setResult(response.data ?? null);
+    },
+    [apiFetch],
+  );
+
+  const reset = useCallback(() => {
+    requestCounterRef.current += 1;
+    setResult(null);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return useMemo(
+    () => ({ result, isLoading, error, run, reset }),
+    [error, isLoading, reset, result, run],
+  );
+}
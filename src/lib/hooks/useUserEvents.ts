@@ -0,0 +1,146 @@
+import { useEffect, useRef } from "react";
+
+import type { UserEvent, UserEventType } from "@/types";
+
+const EVENTS_PATH = "/api/events";
+
+const USER_EVENT_TYPES: readonly UserEventType[] = [
+  "simulation.completed",
+  "simulation.failed",
+  "simulation.stale",
+  "loan.changed",
+  "executionLog.changed",
+];
+
+/** Wait before reopening a stream the browser gave up on, e.g. after a failed response. */
+const REOPEN_DELAY_MS = 30_000;
+
+type UserEventListener = (event: UserEvent) => void;
+type OpenListener = () => void;
+
+const listeners = new Set<UserEventListener>();
+const openListeners = new Set<OpenListener>();
+let source: EventSource | null = null;
+let reopenTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Whether this browser can stream events; without it callers have to poll. */
+export const userEventsAvailable = (): boolean =>
+  typeof EventSource !== "undefined";
+
+const hasSubscribers = () => listeners.size > 0 || openListeners.size > 0;
+
+const dispatch = (message: MessageEvent<string>) => {
+  let event: UserEvent;
+  try {
+    event = JSON.parse(message.data) as UserEvent;
+  } catch {
+    return;
+  }
+
+  listeners.forEach((listener) => listener(event));
+};
+
+const dispatchOpen = () => {
+  openListeners.forEach((listener) => listener());
+};
+
+const openSource = () => {
+  if (source || reopenTimer || !userEventsAvailable()) {
+    return;
+  }
+
+  const next = new EventSource(EVENTS_PATH, { withCredentials: true });
+  USER_EVENT_TYPES.forEach((type) => {
+    next.addEventListener(type, dispatch);
+  });
+  // Fires on the first connection and after every reconnect
+  next.addEventListener("open", dispatchOpen);
+  next.addEventListener("error", () => {
+    // The browser retries dropped connections itself, but not failed responses
+    if (next.readyState !== EventSource.CLOSED || source !== next) {
+      return;
+    }
+
+    source = null;
+    reopenTimer = setTimeout(() => {
+      reopenTimer = null;
+      if (hasSubscribers()) {
+        openSource();
+      }
+    }, REOPEN_DELAY_MS);
+  });
+  source = next;
+};
+
+const closeSource = () => {
+  if (hasSubscribers()) {
+    return;
+  }
+
+  if (reopenTimer) {
+    clearTimeout(reopenTimer);
+    reopenTimer = null;
+  }
+  source?.close();
+  source = null;
+};
+
+/**
+ * Subscribes to the signed-in user's server events. All components share one
+ * `EventSource`, opened with the first subscriber and closed with the last; the
+ * browser reconnects on its own when the stream drops. Events sent while it is
+ * disconnected are lost, see `useUserEventsOpen`.
+ */
+export function useUserEvents(
+  handler: (event: UserEvent) => void,
+  types?: readonly UserEventType[],
+): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  const typesKey = types ? types.join(",") : "";
+
+  useEffect(() => {
+    const accepted = typesKey ? new Set(typesKey.split(",")) : null;
+    const listener: UserEventListener = (event) => {
+      if (!accepted || accepted.has(event.type)) {
+        handlerRef.current(event);
+      }
+    };
+
+    listeners.add(listener);
+    openSource();
+
+    return () => {
+      listeners.delete(listener);
+      closeSource();
+    };
+  }, [typesKey]);
+}
+
+/**
+ * Calls the handler each time the shared event stream connects, including every
+ * reconnect, so a subscriber can re-read state whose events it may have missed.
+ */
+export function useUserEventsOpen(handler: () => void): void {
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    const listener: OpenListener = () => handlerRef.current();
+
+    openListeners.add(listener);
+    openSource();
+
+    return () => {
+      openListeners.delete(listener);
+      closeSource();
+    };
+  }, []);
+}
@@ -3,6 +3,7 @@ import type {
   DashboardOverviewLoanItem,
   DashboardOverviewAdherence,
 } from "../../types.ts";
+import { deriveInstallment } from "./simulationSharedService.ts";
 
 /**
  * Service for dashboard-related calculations that are pure functions,
@@ -24,11 +25,21 @@ export const computeLoanMetrics = (
   const termMonths = loan.term_months;
   const originalTermMonths = loan.original_term_months;
 
-  // Calculate monthly payment using amortization formula
+  const isDecreasing = loan.amortization_type === "decreasing";
+
+  // Calculate this month's installment: decreasing installments repay a constant
+  // principal part plus interest on the balance, annuities use the amortization formula
   let monthlyPayment = 0;
   if (!loan.is_closed && remainingBalance > 0) {
     const monthlyRate = annualRate / 12;
-    if (monthlyRate > 0) {
+    if (isDecreasing) {
+      monthlyPayment = deriveInstallment(
+        remainingBalance,
+        annualRate,
+        termMonths,
+        loan.amortization_type,
+      );
+    } else if (monthlyRate > 0) {
       monthlyPayment =
         (monthlyRate * remainingBalance) /
         (1 - Math.pow(1 + monthlyRate, -termMonths));
@@ -39,10 +50,13 @@ export const computeLoanMetrics = (
   let monthsRemaining = 0;
   if (!loan.is_closed && remainingBalance > 0 && monthlyPayment > 0) {
     const monthlyRate = annualRate / 12;
-    monthsRemaining = Math.ceil(
-      -Math.log(1 - (remainingBalance * monthlyRate) / monthlyPayment) /
-        Math.log(1 + monthlyRate),
-    );
+    // A constant principal part repays the balance in exactly the remaining term
+    monthsRemaining = isDecreasing
+      ? termMonths
+      : Math.ceil(
+          -Math.log(1 - (remainingBalance * monthlyRate) / monthlyPayment) /
+            Math.log(1 + monthlyRate),
+        );
     monthsRemaining = Math.max(
       0,
       Math.min(
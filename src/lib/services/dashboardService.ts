@@ -15,7 +15,19 @@ import {
   buildAdherenceMetrics,
 } from "./dashboardCalculationsService.ts";
 import { buildMonthlyProjectionSeries } from "./simulationProjectionService";
+import {
+  isEngineOutdated,
+  isoMonthString,
+  resolveMonthlyBudget,
+  resolveStrategyPhase,
+} from "./simulationSharedService.ts";
 import type { DashboardIncludeOptions } from "../validation/dashboard.ts";
+import {
+  parseStoredLoanRules,
+  parseStoredLumpSums,
+  parseStoredStrategyPhases,
+} from "../validation/simulation.ts";
+import { parseStoredBudgetSchedule } from "../validation/userSettings.ts";
 
 const CACHE_TTL_MS = 300_000; // 5 minutes
 
@@ -71,14 +83,15 @@ const assertUserId = (userId: string | undefined): string => {
   return userId;
 };
 
-const fetchActiveSimulation = async (
+export const fetchActiveSimulation = async (
   supabase: SupabaseClient<Database>,
   userId: string,
+  now = new Date(),
 ): Promise<ActiveSimulationSummary | null> => {
   const { data, error } = await supabase
     .from("simulations")
     .select(
-      "id, strategy, goal, projected_payoff_month, total_interest_saved, status, stale, payment_reduction_target",
+      "id, strategy, strategy_params, strategy_phases, goal, projected_payoff_month, total_interest_saved, status, stale, payment_reduction_target, payment_reduction_target_month, lump_sums, loan_rules, monthly_overpayment_limit, overpayment_budget_schedule, engine_version",
     )
     .eq("user_id", userId)
     .eq("is_active", true)
@@ -94,15 +107,33 @@ const fetchActiveSimulation = async (
     });
   }
 
+  const overpaymentBudgetSchedule = parseStoredBudgetSchedule(
+    data.overpayment_budget_schedule,
+  );
+
   return {
     id: data.id,
     strategy: data.strategy,
+    strategyParams: data.strategy_params,
+    strategyPhases: parseStoredStrategyPhases(data.strategy_phases),
     goal: data.goal,
     projectedPayoffMonth: data.projected_payoff_month,
     totalInterestSaved: data.total_interest_saved || 0,
     status: data.status,
     stale: data.stale ?? false,
     paymentReductionTarget: data.payment_reduction_target,
+    paymentReductionTargetMonth: data.payment_reduction_target_month,
+    lumpSums: parseStoredLumpSums(data.lump_sums),
+    loanRules: parseStoredLoanRules(data.loan_rules),
+    monthlyOverpaymentLimit: data.monthly_overpayment_limit,
+    overpaymentBudgetSchedule,
+    engineVersion: data.engine_version,
+    engineOutdated: isEngineOutdated(data.engine_version),
+    currentMonthlyBudget: resolveMonthlyBudget(
+      data.monthly_overpayment_limit,
+      isoMonthString(now.getFullYear(), now.getMonth()),
+      overpaymentBudgetSchedule,
+    ),
   };
 };
 
@@ -122,6 +153,34 @@ const fetchLoans = async (
   return data || [];
 };
 
+/**
+ * Index of the strategy phase in effect given the loans' current state; 0 while the
+ * simulation's own strategy still applies. Undefined when the simulation has no phases.
+ */
+const resolveActiveStrategyPhase = (
+  simulation: ActiveSimulationSummary,
+  loans: Database["public"]["Tables"]["loans"]["Row"][],
+  now: Date = new Date(),
+): number | undefined => {
+  if (simulation.strategyPhases.length === 0) {
+    return undefined;
+  }
+
+  const month = isoMonthString(now.getFullYear(), now.getMonth());
+  return resolveStrategyPhase(simulation.strategyPhases, 0, {
+    month,
+    balances: new Map(
+      loans.map((loan) => [
+        loan.id,
+        loan.is_closed ? 0 : loan.remaining_balance,
+      ]),
+    ),
+    paymentTargetMet:
+      simulation.paymentReductionTargetMonth !== null &&
+      simulation.paymentReductionTargetMonth <= month,
+  });
+};
+
 const fetchCurrentMonthSchedule = async (
   supabase: SupabaseClient<Database>,
   userId: string,
@@ -241,12 +300,18 @@ export const getDashboardOverview = async (
   const activeSimulation = await fetchActiveSimulation(
     validatedSupabase,
     validatedUserId,
+    options?.now,
   );
   if (!activeSimulation) {
     throw new ActiveSimulationNotFoundError();
   }
 
   const loans = await fetchLoans(validatedSupabase, validatedUserId);
+  const activeStrategyPhase = resolveActiveStrategyPhase(
+    activeSimulation,
+    loans,
+    options?.now,
+  );
   const loanMetrics = loans.map((loan) => computeLoanMetrics(loan));
 
   const currentMonth = await fetchCurrentMonthSchedule(
@@ -279,7 +344,10 @@ export const getDashboardOverview = async (
     : undefined;
 
   const dto: DashboardOverviewDto = {
-    activeSimulation,
+    activeSimulation:
+      activeStrategyPhase === undefined
+        ? activeSimulation
+        : { ...activeSimulation, activeStrategyPhase },
     loans: loanMetrics,
     currentMonth,
     ...(graphs ? { graphs } : {}),
@@ -0,0 +1,266 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "node:crypto";
+
+import type { Database, Json } from "../../db/database.types.ts";
+import { conflictError, internalError, validationError } from "../errors.ts";
+import { logger } from "../logger.ts";
+
+type IdempotencyKeyRow =
+  Database["public"]["Tables"]["idempotency_keys"]["Row"];
+
+type Supabase = SupabaseClient<Database>;
+
+type SupabaseErrorPayload = { code?: string; message: string } | null;
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const REPLAYED_HEADER = "Idempotent-Replayed";
+const MAX_KEY_LENGTH = 255;
+/** A claim this old is treated as left behind by a request that never finished. */
+const IN_PROGRESS_TIMEOUT_MS = 2 * 60_000;
+const UNIQUE_VIOLATION = "23505";
+/** Headers of the first response that a replay carries over. */
+const STORED_HEADERS = [
+  "Content-Type",
+  "Location",
+  "ETag",
+  "Cache-Control",
+  "X-Simulation-Stale",
+];
+
+export interface IdempotencyOptions {
+  readonly requestId?: string;
+}
+
+type ClaimResult =
+  | { readonly claimedId: string }
+  | { readonly existing: IdempotencyKeyRow };
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const readIdempotencyKey = (request: Request): string | null => {
+  const value = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+  if (value === null) {
+    return null;
+  }
+
+  const key = value.trim();
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    throw validationError(
+      "INVALID_IDEMPOTENCY_KEY",
+      `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`,
+    );
+  }
+
+  return key;
+};
+
+const requestPath = (request: Request): string => {
+  const url = new URL(request.url);
+  return `${url.pathname}${url.search}`;
+};
+
+const hashRequest = (request: Request, body: string): string =>
+  createHash("sha256")
+    .update(`${request.method}\n${requestPath(request)}\n`)
+    .update(body)
+    .digest("hex");
+
+const isAbandoned = (row: IdempotencyKeyRow, now: number): boolean => {
+  if (Date.parse(row.expires_at) <= now) {
+    return true;
+  }
+
+  return (
+    row.status === "in_progress" &&
+    Date.parse(row.created_at) + IN_PROGRESS_TIMEOUT_MS <= now
+  );
+};
+
+const claimKey = async (
+  supabase: Supabase,
+  userId: string,
+  key: string,
+  request: Request,
+  requestHash: string,
+): Promise<ClaimResult> => {
+  const { data, error } = await supabase
+    .from("idempotency_keys")
+    .insert({
+      user_id: userId,
+      key,
+      request_method: request.method,
+      request_path: requestPath(request),
+      request_hash: requestHash,
+    })
+    .select("id")
+    .single();
+
+  if (!error && data) {
+    return { claimedId: data.id };
+  }
+
+  if (error?.code !== UNIQUE_VIOLATION) {
+    throw internalError(
+      "IDEMPOTENCY_CLAIM_FAILED",
+      "Failed to record the idempotency key",
+      { cause: error, details: withSupabaseError(error) },
+    );
+  }
+
+  const { data: existing, error: selectError } = await supabase
+    .from("idempotency_keys")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("key", key)
+    .maybeSingle();
+
+  if (selectError || !existing) {
+    throw internalError(
+      "IDEMPOTENCY_LOOKUP_FAILED",
+      "Failed to read the idempotency key",
+      { cause: selectError, details: withSupabaseError(selectError) },
+    );
+  }
+
+  return { existing };
+};
+
+const releaseKey = async (supabase: Supabase, id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .delete()
+    .eq("id", id);
+
+  if (error) {
+    logger.warn("idempotency.release.failed", "Failed to release key", {
+      idempotencyKeyId: id,
+      ...withSupabaseError(error),
+    });
+  }
+};
+
+const storeResponse = async (
+  supabase: Supabase,
+  id: string,
+  response: Response,
+): Promise<void> => {
+  const headers: Record<string, string> = {};
+  STORED_HEADERS.forEach((name) => {
+    const value = response.headers.get(name);
+    if (value !== null) {
+      headers[name] = value;
+    }
+  });
+
+  const { error } = await supabase
+    .from("idempotency_keys")
+    .update({
+      status: "completed",
+      response_status: response.status,
+      response_headers: headers as Json,
+      response_body: await response.clone().text(),
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+
+  // The claim stays in progress, so retries are refused rather than run twice
+  if (error) {
+    logger.error("idempotency.store.failed", "Failed to store response", {
+      idempotencyKeyId: id,
+      ...withSupabaseError(error),
+    });
+  }
+};
+
+const replayResponse = (
+  row: IdempotencyKeyRow,
+  requestId: string | undefined,
+): Response => {
+  const headers = new Headers(
+    (row.response_headers ?? {}) as Record<string, string>,
+  );
+  headers.set(REPLAYED_HEADER, "true");
+  if (requestId) {
+    headers.set("X-Request-Id", requestId);
+  }
+
+  return new Response(row.response_body, {
+    status: row.response_status ?? 200,
+    headers,
+  });
+};
+
+/**
+ * Runs a creating request at most once per `Idempotency-Key`. The first successful
+ * response is stored for the user and key and returned again for retries with the
+ * same method, path and body; the same key with a different request is a conflict.
+ * Requests without the header, and failed responses, pass through unchanged.
+ */
+export const withIdempotency = async (
+  supabase: Supabase,
+  userId: string,
+  request: Request,
+  execute: () => Promise<Response>,
+  options: IdempotencyOptions = {},
+): Promise<Response> => {
+  const key = readIdempotencyKey(request);
+  if (!key) {
+    return execute();
+  }
+
+  const requestHash = hashRequest(request, await request.clone().text());
+
+  let claim = await claimKey(supabase, userId, key, request, requestHash);
+  if ("existing" in claim && isAbandoned(claim.existing, Date.now())) {
+    await releaseKey(supabase, claim.existing.id);
+    claim = await claimKey(supabase, userId, key, request, requestHash);
+  }
+
+  if ("existing" in claim) {
+    const { existing } = claim;
+
+    if (existing.request_hash !== requestHash) {
+      throw conflictError(
+        "IDEMPOTENCY_KEY_REUSED",
+        "Idempotency-Key was already used for a different request",
+      );
+    }
+
+    if (existing.status === "in_progress") {
+      throw conflictError(
+        "IDEMPOTENCY_REQUEST_IN_PROGRESS",
+        "A request with this Idempotency-Key is still being processed",
+      );
+    }
+
+    logger.info("idempotency.replay", "Replaying stored response", {
+      requestId: options.requestId,
+      path: existing.request_path,
+      responseStatus: existing.response_status,
+    });
+
+    return replayResponse(existing, options.requestId);
+  }
+
+  let response: Response;
+  try {
+    response = await execute();
+  } catch (error) {
+    await releaseKey(supabase, claim.claimedId);
+    throw error;
+  }
+
+  if (response.ok) {
+    await storeResponse(supabase, claim.claimedId, response);
+  } else {
+    await releaseKey(supabase, claim.claimedId);
+  }
+
+  return response;
+};
@@ -0,0 +1,393 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  CreateLoanChangeEventCommand,
+  LoanChangeEventDto,
+  LoanChangeEventListQuery,
+  LoanChangeEventListResponse,
+} from "../../types.ts";
+import {
+  conflictError,
+  internalError,
+  notFoundError,
+  validationError,
+} from "../errors.ts";
+import { publishUserEvent } from "../events.ts";
+import { invalidateDashboardCache } from "./dashboardService.ts";
+import type { ScheduledLoanChange } from "./simulationSharedService.ts";
+import { markActiveSimulationStale } from "./simulationService.ts";
+
+type LoanRow = Database["public"]["Tables"]["loans"]["Row"];
+type LoanChangeEventRow =
+  Database["public"]["Tables"]["loan_change_events"]["Row"];
+type LoanChangeEventInsert =
+  Database["public"]["Tables"]["loan_change_events"]["Insert"];
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const assertSupabaseClient = (
+  supabase: SupabaseClient<Database> | undefined,
+): SupabaseClient<Database> => {
+  if (!supabase) {
+    throw internalError(
+      "SUPABASE_CLIENT_MISSING",
+      "Supabase client is not available",
+    );
+  }
+
+  return supabase;
+};
+
+const assertUserId = (userId: string | undefined): string => {
+  if (!userId) {
+    throw internalError(
+      "USER_IDENTIFIER_MISSING",
+      "User identifier is required to manage loan change events",
+    );
+  }
+
+  return userId;
+};
+
+const toLoanChangeEventDto = (row: LoanChangeEventRow): LoanChangeEventDto => ({
+  id: row.id,
+  loanId: row.loan_id,
+  changeType: row.change_type,
+  createdAt: row.created_at,
+  effectiveMonth: row.effective_month,
+  oldAnnualRate: row.old_annual_rate,
+  newAnnualRate: row.new_annual_rate,
+  oldPrincipal: row.old_principal,
+  newPrincipal: row.new_principal,
+  oldRemainingBalance: row.old_remaining_balance,
+  newRemainingBalance: row.new_remaining_balance,
+  oldTermMonths: row.old_term_months,
+  newTermMonths: row.new_term_months,
+  notes: row.notes,
+});
+
+const currentMonthStart = (now = new Date()): string => {
+  const monthStart = new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1),
+  );
+  return monthStart.toISOString().slice(0, 10);
+};
+
+/**
+ * Events recorded by loan edits take effect in the month they were created and are
+ * already reflected on the loan row. Only events dated after their creation month
+ * still need to be replayed by projections.
+ */
+const isScheduledEvent = (
+  row: Pick<LoanChangeEventRow, "created_at" | "effective_month">,
+): boolean => {
+  return row.effective_month > currentMonthStart(new Date(row.created_at));
+};
+
+const toScheduledLoanChange = (
+  row: LoanChangeEventRow,
+): ScheduledLoanChange => {
+  const change: ScheduledLoanChange = {
+    loanId: row.loan_id,
+    month: row.effective_month,
+  };
+
+  switch (row.change_type) {
+    case "rate_change":
+      if (row.new_annual_rate !== null) {
+        change.annualRate = row.new_annual_rate;
+      }
+      break;
+    case "term_adjustment":
+      if (row.new_term_months !== null) {
+        change.termMonths = row.new_term_months;
+      }
+      break;
+    case "balance_adjustment":
+      if (row.new_remaining_balance !== null) {
+        change.remainingBalance = row.new_remaining_balance;
+      }
+      break;
+    case "principal_correction":
+      if (row.new_principal !== null) {
+        change.principal = row.new_principal;
+      }
+      break;
+  }
+
+  return change;
+};
+
+const fetchLoanRow = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  loanId: string,
+): Promise<LoanRow> => {
+  let result;
+  try {
+    result = await supabase
+      .from("loans")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("id", loanId)
+      .maybeSingle();
+  } catch (cause) {
+    throw internalError("SUPABASE_UNAVAILABLE", "Unable to load loan", {
+      cause,
+    });
+  }
+
+  const { data, error } = result;
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to load loan", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  if (!data) {
+    throw notFoundError("LOAN_NOT_FOUND", "Loan not found");
+  }
+
+  return data;
+};
+
+export interface LoanChangeEventMutationResult {
+  event: LoanChangeEventDto;
+  staleSimulation: boolean;
+}
+
+export const listLoanChangeEvents = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  query: LoanChangeEventListQuery,
+): Promise<LoanChangeEventListResponse> => {
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+
+  const page = query.page ?? 1;
+  const pageSize = query.pageSize ?? 20;
+  const from = (page - 1) * pageSize;
+
+  let request = supabase
+    .from("loan_change_events")
+    .select("*", { count: "exact" })
+    .eq("user_id", resolvedUserId)
+    .eq("loan_id", query.loanId);
+
+  if (query.changeType) {
+    request = request.eq("change_type", query.changeType);
+  }
+  if (query.effectiveMonthFrom) {
+    request = request.gte("effective_month", query.effectiveMonthFrom);
+  }
+  if (query.effectiveMonthTo) {
+    request = request.lte("effective_month", query.effectiveMonthTo);
+  }
+
+  let response;
+  try {
+    response = await request
+      .order("effective_month", { ascending: false })
+      .order("created_at", { ascending: false })
+      .range(from, from + pageSize - 1);
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to list loan change events",
+      { cause },
+    );
+  }
+
+  const { data, error, count } = response;
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to list loan change events", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  const rows = data ?? [];
+  const totalItems = count ?? rows.length;
+
+  return {
+    items: rows.map(toLoanChangeEventDto),
+    page,
+    pageSize,
+    totalItems,
+    totalPages: totalItems > 0 ? Math.ceil(totalItems / pageSize) : 0,
+  };
+};
+
+/**
+ * Schedules a loan change for a future month. The loan row itself is left untouched;
+ * projections replay the event once they reach its effective month.
+ */
+export const createLoanChangeEvent = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  command: CreateLoanChangeEventCommand,
+  now = new Date(),
+): Promise<LoanChangeEventMutationResult> => {
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+
+  if (command.effectiveMonth <= currentMonthStart(now)) {
+    throw validationError(
+      "EFFECTIVE_MONTH_NOT_IN_FUTURE",
+      "effectiveMonth must be after the current month; edit the loan to apply a change now",
+    );
+  }
+
+  const loan = await fetchLoanRow(supabase, resolvedUserId, command.loanId);
+  if (loan.is_closed) {
+    throw conflictError(
+      "LOAN_CLOSED",
+      "Changes cannot be scheduled for a closed loan",
+    );
+  }
+
+  const insertPayload: LoanChangeEventInsert = {
+    user_id: resolvedUserId,
+    loan_id: loan.id,
+    change_type: command.changeType,
+    effective_month: command.effectiveMonth,
+    notes: command.notes ?? null,
+    old_annual_rate: command.oldAnnualRate ?? loan.annual_rate,
+    new_annual_rate: command.newAnnualRate ?? null,
+    old_principal: command.oldPrincipal ?? loan.principal,
+    new_principal: command.newPrincipal ?? null,
+    old_remaining_balance:
+      command.oldRemainingBalance ?? loan.remaining_balance,
+    new_remaining_balance: command.newRemainingBalance ?? null,
+    old_term_months: command.oldTermMonths ?? loan.term_months,
+    new_term_months: command.newTermMonths ?? null,
+  };
+
+  let result;
+  try {
+    result = await supabase
+      .from("loan_change_events")
+      .insert(insertPayload)
+      .select("*")
+      .single();
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to create loan change event",
+      { cause },
+    );
+  }
+
+  const { data, error } = result;
+
+  if (error || !data) {
+    throw internalError(
+      "SUPABASE_ERROR",
+      "Failed to create loan change event",
+      {
+        cause: error,
+        details: withSupabaseError(error),
+      },
+    );
+  }
+
+  const staleSimulation = await markActiveSimulationStale(
+    supabase,
+    resolvedUserId,
+  );
+  invalidateDashboardCache(resolvedUserId);
+  publishUserEvent(resolvedUserId, "loan.changed", {
+    loanId: loan.id,
+    change: "updated",
+  });
+
+  return {
+    event: toLoanChangeEventDto(data),
+    staleSimulation,
+  };
+};
+
+/**
+ * A scheduled change stops applying once the loan is edited directly in or after its
+ * effective month: the loan row then already holds the newer value.
+ */
+const isSupersededByEdit = (
+  row: LoanChangeEventRow,
+  rows: readonly LoanChangeEventRow[],
+): boolean =>
+  rows.some(
+    (other) =>
+      !isScheduledEvent(other) &&
+      other.loan_id === row.loan_id &&
+      other.change_type === row.change_type &&
+      other.effective_month >= row.effective_month,
+  );
+
+/**
+ * Loads future-dated change events for the given loans in the shape the projection
+ * engine replays, including those that have fallen due since they were scheduled (the
+ * engine folds those into the starting state). Events recorded by immediate loan edits
+ * are skipped, as are scheduled changes a later edit has superseded.
+ */
+export const fetchScheduledLoanChanges = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  loans: Pick<LoanRow, "id">[],
+): Promise<ScheduledLoanChange[]> => {
+  if (loans.length === 0) {
+    return [];
+  }
+
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+
+  let result;
+  try {
+    result = await supabase
+      .from("loan_change_events")
+      .select("*")
+      .eq("user_id", resolvedUserId)
+      .in(
+        "loan_id",
+        loans.map((loan) => loan.id),
+      )
+      .order("effective_month", { ascending: true })
+      .order("created_at", { ascending: true });
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to load scheduled loan changes",
+      { cause },
+    );
+  }
+
+  const { data, error } = result;
+
+  if (error) {
+    throw internalError(
+      "SUPABASE_ERROR",
+      "Failed to load scheduled loan changes",
+      {
+        cause: error,
+        details: withSupabaseError(error),
+      },
+    );
+  }
+
+  const rows = data ?? [];
+  return rows
+    .filter((row) => isScheduledEvent(row) && !isSupersededByEdit(row, rows))
+    .map(toScheduledLoanChange);
+};
@@ -18,6 +18,7 @@ import {
   preconditionError,
   validationError,
 } from "../errors.ts";
+import { publishUserEvent } from "../events.ts";
 import { invalidateDashboardCache } from "./dashboardService.ts";
 import { markActiveSimulationStale } from "./simulationService";
 
@@ -80,6 +81,19 @@ const toLoanDto = (row: LoanRow): LoanDto => ({
   termMonths: row.term_months,
   originalTermMonths: row.original_term_months,
   startMonth: row.start_month,
+  overpaymentEffect: row.overpayment_effect,
+  amortizationType: row.amortization_type,
+  interestAccrual: row.interest_accrual,
+  paymentDay: row.payment_day,
+  interestRounding: row.interest_rounding,
+  installmentRounding: row.installment_rounding,
+  rateType: row.rate_type,
+  rateIndexId: row.rate_index_id,
+  rateMargin: row.rate_margin,
+  prepaymentFeeRate: row.prepayment_fee_rate,
+  prepaymentFeeMonths: row.prepayment_fee_months,
+  prepaymentFreeAllowance: row.prepayment_free_allowance,
+  minOverpayment: row.min_overpayment,
   isClosed: row.is_closed,
   closedMonth: row.closed_month,
   createdAt: row.created_at,
@@ -97,6 +111,19 @@ const computeLoanETag = (row: LoanRow): string => {
         row.term_months.toString(),
         row.original_term_months.toString(),
         row.start_month,
+        row.overpayment_effect,
+        row.amortization_type,
+        row.interest_accrual,
+        row.payment_day?.toString() ?? "",
+        row.interest_rounding,
+        row.installment_rounding,
+        row.rate_type,
+        row.rate_index_id ?? "",
+        row.rate_margin?.toString() ?? "",
+        row.prepayment_fee_rate?.toString() ?? "",
+        row.prepayment_fee_months?.toString() ?? "",
+        row.prepayment_free_allowance?.toString() ?? "",
+        row.min_overpayment?.toString() ?? "",
         row.is_closed ? "1" : "0",
         row.closed_month ?? "",
       ].join("|"),
@@ -117,6 +144,19 @@ const hasSimulationRelevantChange = (
     previous.term_months !== next.term_months ||
     previous.original_term_months !== next.original_term_months ||
     previous.start_month !== next.start_month ||
+    previous.overpayment_effect !== next.overpayment_effect ||
+    previous.amortization_type !== next.amortization_type ||
+    previous.interest_accrual !== next.interest_accrual ||
+    previous.payment_day !== next.payment_day ||
+    previous.interest_rounding !== next.interest_rounding ||
+    previous.installment_rounding !== next.installment_rounding ||
+    previous.rate_type !== next.rate_type ||
+    previous.rate_index_id !== next.rate_index_id ||
+    previous.rate_margin !== next.rate_margin ||
+    previous.prepayment_fee_rate !== next.prepayment_fee_rate ||
+    previous.prepayment_fee_months !== next.prepayment_fee_months ||
+    previous.prepayment_free_allowance !== next.prepayment_free_allowance ||
+    previous.min_overpayment !== next.min_overpayment ||
     previous.is_closed !== next.is_closed ||
     previous.closed_month !== next.closed_month
   );
@@ -453,6 +493,19 @@ export async function createLoan(
     term_months: command.termMonths,
     original_term_months: command.originalTermMonths,
     start_month: command.startMonth,
+    overpayment_effect: command.overpaymentEffect ?? "shorten_term",
+    amortization_type: command.amortizationType ?? "annuity",
+    interest_accrual: command.interestAccrual ?? "thirty_360",
+    payment_day: command.paymentDay ?? null,
+    interest_rounding: command.interestRounding ?? "half_up",
+    installment_rounding: command.installmentRounding ?? "half_up",
+    rate_type: command.rateType ?? "fixed",
+    rate_index_id: command.rateIndexId ?? null,
+    rate_margin: command.rateMargin ?? null,
+    prepayment_fee_rate: command.prepaymentFeeRate ?? null,
+    prepayment_fee_months: command.prepaymentFeeMonths ?? null,
+    prepayment_free_allowance: command.prepaymentFreeAllowance ?? null,
+    min_overpayment: command.minOverpayment ?? null,
     is_closed: false,
     closed_month: null,
   };
@@ -507,6 +560,10 @@ export async function createLoan(
 
   // Invalidate dashboard cache since loan data changed
   invalidateDashboardCache(resolvedUserId);
+  publishUserEvent(resolvedUserId, "loan.changed", {
+    loanId: data.id,
+    change: "created",
+  });
 
   return {
     loan: dto,
@@ -567,6 +624,9 @@ export async function updateLoan(
     );
   }
 
+  const rateType = command.rateType ?? existing.rate_type;
+  const keepsExistingRate = command.rateType === undefined;
+
   const updatePayload: LoanUpdate = {
     principal: command.principal,
     remaining_balance: command.remainingBalance,
@@ -574,6 +634,40 @@ export async function updateLoan(
     term_months: command.termMonths,
     original_term_months: command.originalTermMonths,
     start_month: command.startMonth,
+    overpayment_effect:
+      command.overpaymentEffect ?? existing.overpayment_effect,
+    amortization_type: command.amortizationType ?? existing.amortization_type,
+    interest_accrual: command.interestAccrual ?? existing.interest_accrual,
+    payment_day:
+      command.paymentDay !== undefined
+        ? command.paymentDay
+        : existing.payment_day,
+    interest_rounding: command.interestRounding ?? existing.interest_rounding,
+    installment_rounding:
+      command.installmentRounding ?? existing.installment_rounding,
+    rate_type: rateType,
+    rate_index_id: keepsExistingRate
+      ? existing.rate_index_id
+      : (command.rateIndexId ?? null),
+    rate_margin: keepsExistingRate
+      ? existing.rate_margin
+      : (command.rateMargin ?? null),
+    prepayment_fee_rate:
+      command.prepaymentFeeRate !== undefined
+        ? command.prepaymentFeeRate
+        : existing.prepayment_fee_rate,
+    prepayment_fee_months:
+      command.prepaymentFeeMonths !== undefined
+        ? command.prepaymentFeeMonths
+        : existing.prepayment_fee_months,
+    prepayment_free_allowance:
+      command.prepaymentFreeAllowance !== undefined
+        ? command.prepaymentFreeAllowance
+        : existing.prepayment_free_allowance,
+    min_overpayment:
+      command.minOverpayment !== undefined
+        ? command.minOverpayment
+        : existing.min_overpayment,
     is_closed: command.isClosed ?? false,
     closed_month: command.closedMonth ?? null,
   };
@@ -621,6 +715,10 @@ export async function updateLoan(
 
   // Invalidate dashboard cache since loan data changed
   invalidateDashboardCache(resolvedUserId);
+  publishUserEvent(resolvedUserId, "loan.changed", {
+    loanId: data.id,
+    change: "updated",
+  });
 
   return {
     loan: dto,
@@ -681,6 +779,45 @@ export async function patchLoan(
   if (command.startMonth !== undefined) {
     updatePayload.start_month = command.startMonth;
   }
+  if (command.overpaymentEffect !== undefined) {
+    updatePayload.overpayment_effect = command.overpaymentEffect;
+  }
+  if (command.amortizationType !== undefined) {
+    updatePayload.amortization_type = command.amortizationType;
+  }
+  if (command.interestAccrual !== undefined) {
+    updatePayload.interest_accrual = command.interestAccrual;
+  }
+  if (command.paymentDay !== undefined) {
+    updatePayload.payment_day = command.paymentDay;
+  }
+  if (command.interestRounding !== undefined) {
+    updatePayload.interest_rounding = command.interestRounding;
+  }
+  if (command.installmentRounding !== undefined) {
+    updatePayload.installment_rounding = command.installmentRounding;
+  }
+  if (command.rateType !== undefined) {
+    updatePayload.rate_type = command.rateType;
+  }
+  if (command.rateIndexId !== undefined) {
+    updatePayload.rate_index_id = command.rateIndexId;
+  }
+  if (command.rateMargin !== undefined) {
+    updatePayload.rate_margin = command.rateMargin;
+  }
+  if (command.prepaymentFeeRate !== undefined) {
+    updatePayload.prepayment_fee_rate = command.prepaymentFeeRate;
+  }
+  if (command.prepaymentFeeMonths !== undefined) {
+    updatePayload.prepayment_fee_months = command.prepaymentFeeMonths;
+  }
+  if (command.prepaymentFreeAllowance !== undefined) {
+    updatePayload.prepayment_free_allowance = command.prepaymentFreeAllowance;
+  }
+  if (command.minOverpayment !== undefined) {
+    updatePayload.min_overpayment = command.minOverpayment;
+  }
   if (command.isClosed !== undefined) {
     updatePayload.is_closed = command.isClosed;
   }
@@ -739,6 +876,10 @@ export async function patchLoan(
 
   // Invalidate dashboard cache since loan data changed
   invalidateDashboardCache(resolvedUserId);
+  publishUserEvent(resolvedUserId, "loan.changed", {
+    loanId: data.id,
+    change: "updated",
+  });
 
   return {
     loan: dto,
@@ -787,6 +928,10 @@ export async function deleteLoan(
 
   // Invalidate dashboard cache since loan data changed
   invalidateDashboardCache(resolvedUserId);
+  publishUserEvent(resolvedUserId, "loan.changed", {
+    loanId,
+    change: "deleted",
+  });
 
   return { staleSimulation };
 }
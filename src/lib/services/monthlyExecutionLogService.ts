@@ -14,8 +14,18 @@ import {
   notFoundError,
   validationError,
 } from "../errors";
+import { publishUserEvent } from "../events";
 import { logger } from "../logger";
 import { invalidateDashboardCache } from "./dashboardService";
+import { fetchScheduleEntries } from "./simulationScheduleService";
+import { fetchScheduledLoanChanges } from "./loanChangeEventService";
+import { fetchRateIndexTimeline } from "./rateIndexService";
+import {
+  parseStoredLoanRules,
+  parseStoredLumpSums,
+  parseStoredStrategyPhases,
+} from "../validation/simulation";
+import { parseStoredBudgetSchedule } from "../validation/userSettings";
 
 type MonthlyExecutionLogRow =
   Database["public"]["Tables"]["monthly_execution_logs"]["Row"];
@@ -124,12 +134,13 @@ const markActiveSimulationStale = async (
   userId: string,
   supabase: SupabaseClient<Database>,
 ): Promise<void> => {
-  const { error } = await supabase
+  const { data, error } = await supabase
     .from("simulations")
     .update({ stale: true })
     .eq("user_id", userId)
     .eq("is_active", true)
-    .neq("stale", true);
+    .neq("stale", true)
+    .select("id");
 
   if (error) {
     logger.error(
@@ -139,6 +150,12 @@ const markActiveSimulationStale = async (
     );
     throw internalError("ERR_INTERNAL", "Failed to update simulations");
   }
+
+  if (data && data.length > 0) {
+    publishUserEvent(userId, "simulation.stale", {
+      simulationIds: data.map((simulation) => simulation.id),
+    });
+  }
 };
 
 export const listLogs = async (
@@ -296,6 +313,11 @@ export const createLog = async (
 
   // Invalidate dashboard cache since execution log data changed
   invalidateDashboardCache(userId);
+  publishUserEvent(userId, "executionLog.changed", {
+    logId: data.id,
+    loanId: data.loan_id,
+    monthStart: data.month_start,
+  });
 
   return toDto(data);
 };
@@ -440,6 +462,11 @@ export const patchLog = async (
 
   // Invalidate dashboard cache since execution log data changed
   invalidateDashboardCache(userId);
+  publishUserEvent(userId, "executionLog.changed", {
+    logId: data.id,
+    loanId: data.loan_id,
+    monthStart: data.month_start,
+  });
 
   const dto = toDto(data);
   dto.staleSimulation = staleSimulation;
@@ -464,7 +491,9 @@ export const ensureMonthlyExecutionLogs = async (
   // 1. Fetch active simulation
   const { data: activeSim, error: simError } = await supabase
     .from("simulations")
-    .select("id, created_at, started_at, strategy, reinvest_reduced_payments, monthly_overpayment_limit")
+    .select(
+      "id, created_at, started_at, strategy, strategy_params, strategy_phases, goal, payment_reduction_target, reinvest_reduced_payments, monthly_overpayment_limit, overpayment_budget_schedule, lump_sums, loan_rules",
+    )
     .eq("user_id", userId)
     .eq("is_active", true)
     .single();
@@ -498,7 +527,9 @@ export const ensureMonthlyExecutionLogs = async (
   // 3. Fetch all active (not closed) loans for this user with full details
   const { data: loans, error: loansError } = await supabase
     .from("loans")
-    .select("id, principal, remaining_balance, annual_rate")
+    .select(
+      "id, principal, remaining_balance, annual_rate, start_month, overpayment_effect, amortization_type, interest_accrual, payment_day, interest_rounding, installment_rounding, rate_type, rate_index_id, rate_margin, prepayment_fee_rate, prepayment_fee_months, prepayment_free_allowance, min_overpayment",
+    )
     .eq("user_id", userId)
     .eq("is_closed", false);
 
@@ -520,168 +551,168 @@ export const ensureMonthlyExecutionLogs = async (
     return { created: 0, months: [] };
   }
 
-  // 4. Fetch simulation loan snapshots - these are the initial states
-  const { data: snapshots, error: snapshotsError } = await supabase
-    .from("simulation_loan_snapshots")
-    .select("loan_id, starting_balance, starting_rate, remaining_term_months, starting_month")
-    .eq("simulation_id", activeSim.id)
-    .eq("user_id", userId);
+  // 4. Read strategy-allocated overpayments from the stored schedule, including
+  // planned lump sums due that month
+  const scheduleEntries = await fetchScheduleEntries(
+    supabase,
+    userId,
+    activeSim.id,
+    { toMonth: currentMonthStr },
+  );
+  const overpaymentByMonthAndLoan = new Map<string, number>(
+    scheduleEntries.map((entry) => [
+      `${entry.month}:${entry.loanId}`,
+      entry.overpayment,
+    ]),
+  );
 
-  if (snapshotsError) {
-    throw internalError("DB_ERROR", "Failed to fetch simulation snapshots", {
-      cause: snapshotsError,
-    });
-  }
+  // 5. Simulations computed before schedules were stored are projected again
+  if (scheduleEntries.length === 0) {
+    // Fetch simulation loan snapshots - these are the initial states
+    const { data: snapshots, error: snapshotsError } = await supabase
+      .from("simulation_loan_snapshots")
+      .select(
+        "loan_id, starting_balance, starting_rate, remaining_term_months, starting_month",
+      )
+      .eq("simulation_id", activeSim.id)
+      .eq("user_id", userId);
+
+    if (snapshotsError) {
+      throw internalError("DB_ERROR", "Failed to fetch simulation snapshots", {
+        cause: snapshotsError,
+      });
+    }
 
-  if (!snapshots || snapshots.length === 0) {
-    logger.warn(
-      "ensure_monthly_logs",
-      "No simulation snapshots found, cannot create logs accurately",
-      {
-        userId,
-        simulationId: activeSim.id,
-        ...(options?.requestId ? { requestId: options.requestId } : {}),
-      },
-    );
-    return { created: 0, months: [] };
-  }
+    if (!snapshots || snapshots.length === 0) {
+      logger.warn(
+        "ensure_monthly_logs",
+        "No simulation snapshots found, cannot create logs accurately",
+        {
+          userId,
+          simulationId: activeSim.id,
+          ...(options?.requestId ? { requestId: options.requestId } : {}),
+        },
+      );
+      return { created: 0, months: [] };
+    }
 
-  // 5. Get simulation parameters
-  const strategy = activeSim.strategy || "equal";
-  const baseOverpayment = activeSim.monthly_overpayment_limit || 0;
-  const reinvestEnabled = activeSim.reinvest_reduced_payments || false;
-
-  // 6. Run projection from simulation start to current month
-  // This gives us accurate overpayment allocations for each month
-  const { generateStrategyProjection } = await import("./simulationSharedService.ts");
-  
-  // Convert snapshots to projection loans
-  const projectionLoans = snapshots.map((snapshot) => ({
-    id: snapshot.loan_id,
-    principal: snapshot.starting_balance, // Use starting balance as "principal" for projection
-    remaining_balance: snapshot.starting_balance,
-    annual_rate: snapshot.starting_rate,
-    term_months: snapshot.remaining_term_months,
-    monthly_payment: 0, // Will be calculated
-  }));
-
-  // Run projection from simulation start
-  const startYear = simStartMonth.getFullYear();
-  const startMonth = simStartMonth.getMonth();
-  const monthsToProject = Math.ceil(
-    (currentMonthStart.getTime() - simStartMonth.getTime()) / (1000 * 60 * 60 * 24 * 30.44)
-  ) + 1; // +1 to include current month
-
-  const projection = generateStrategyProjection(
-    projectionLoans,
-    strategy,
-    null, // fastest payoff goal
-    baseOverpayment,
-    reinvestEnabled,
-    startYear,
-    startMonth,
-    monthsToProject,
-  );
+    // Get simulation parameters
+    const strategy = activeSim.strategy || "equal";
+    const baseOverpayment = activeSim.monthly_overpayment_limit || 0;
+    const reinvestEnabled = activeSim.reinvest_reduced_payments || false;
+
+    // Run projection from simulation start to current month
+    // This gives us accurate overpayment allocations for each month
+    const { generateStrategyProjection } = await import(
+      "./simulationSharedService.ts"
+    );
 
-  logger.info(
-    "ensure_monthly_logs",
-    "Generated projection for overpayment allocation",
-    {
+    // Convert snapshots to projection loans
+    const projectionLoans = snapshots.map((snapshot) => {
+      const loan = loans.find((candidate) => candidate.id === snapshot.loan_id);
+      return {
+        id: snapshot.loan_id,
+        principal: snapshot.starting_balance, // Use starting balance as "principal" for projection
+        remaining_balance: snapshot.starting_balance,
+        annual_rate: snapshot.starting_rate,
+        term_months: snapshot.remaining_term_months,
+        overpayment_effect: loan?.overpayment_effect,
+        amortization_type: loan?.amortization_type,
+        interest_accrual: loan?.interest_accrual,
+        payment_day: loan?.payment_day,
+        interest_rounding: loan?.interest_rounding,
+        installment_rounding: loan?.installment_rounding,
+        rate_type: loan?.rate_type,
+        rate_index_id: loan?.rate_index_id,
+        rate_margin: loan?.rate_margin,
+        start_month: loan?.start_month,
+        prepayment_fee_rate: loan?.prepayment_fee_rate,
+        prepayment_fee_months: loan?.prepayment_fee_months,
+        prepayment_free_allowance: loan?.prepayment_free_allowance,
+        min_overpayment: loan?.min_overpayment,
+        monthly_payment: 0, // Will be calculated
+      };
+    });
+    const rateIndexTimeline = await fetchRateIndexTimeline(
+      supabase,
+      userId,
+      loans,
+    );
+    const loanChanges = await fetchScheduledLoanChanges(
+      supabase,
       userId,
-      simulationId: activeSim.id,
+      loans,
+    );
+
+    // Run projection from simulation start
+    const startYear = simStartMonth.getFullYear();
+    const startMonth = simStartMonth.getMonth();
+    const monthsToProject =
+      Math.ceil(
+        (currentMonthStart.getTime() - simStartMonth.getTime()) /
+          (1000 * 60 * 60 * 24 * 30.44),
+      ) + 1; // +1 to include current month
+
+    const projection = generateStrategyProjection(
+      projectionLoans,
       strategy,
+      activeSim.goal === "payment_reduction"
+        ? activeSim.payment_reduction_target
+        : null,
       baseOverpayment,
       reinvestEnabled,
-      monthsProjected: projection.length,
-      ...(options?.requestId ? { requestId: options.requestId } : {}),
-    },
-  );
-
-  // 7. Build overpayment map from projection
-  // For each month in the projection, calculate overpayment per loan
-  // by re-running the allocation algorithm with the correct budget
-  const { allocateOverpayment, deriveStandardMonthlyPayment } = await import("./simulationSharedService.ts");
-  
-  // Track loan balances and payments as we iterate through projection
-  const loanBalances = new Map<string, number>();
-  const loanTerms = new Map<string, number>();
-  snapshots.forEach(s => {
-    loanBalances.set(s.loan_id, s.starting_balance);
-    loanTerms.set(s.loan_id, s.remaining_term_months);
-  });
-
-  // Calculate initial standard payments
-  let previousStandardPaymentTotal = 0;
-  snapshots.forEach(s => {
-    previousStandardPaymentTotal += deriveStandardMonthlyPayment(
-      s.starting_balance,
-      s.starting_rate,
-      s.remaining_term_months
+      startYear,
+      startMonth,
+      monthsToProject,
+      {
+        strategyParams: activeSim.strategy_params,
+        strategyPhases: parseStoredStrategyPhases(activeSim.strategy_phases),
+        budgetSchedule: parseStoredBudgetSchedule(
+          activeSim.overpayment_budget_schedule,
+        ),
+        lumpSums: parseStoredLumpSums(activeSim.lump_sums),
+        loanRules: parseStoredLoanRules(activeSim.loan_rules),
+        rateIndexTimeline,
+        loanChanges,
+      },
     );
-  });
-
-  // Create map: "YYYY-MM-DD:loanId" -> overpaymentAmount
-  const overpaymentByMonthAndLoan = new Map<string, number>();
 
-  projection.forEach((monthData, monthIndex) => {
-    // Update balances from this month's data
-    monthData.loanData.forEach(loanData => {
-      loanBalances.set(loanData.loanId, loanData.remaining);
-      const currentTerm = loanTerms.get(loanData.loanId) || 1;
-      loanTerms.set(loanData.loanId, Math.max(1, currentTerm - 1));
-    });
+    logger.info(
+      "ensure_monthly_logs",
+      "Generated projection for overpayment allocation",
+      {
+        userId,
+        simulationId: activeSim.id,
+        strategy,
+        baseOverpayment,
+        reinvestEnabled,
+        monthsProjected: projection.length,
+        ...(options?.requestId ? { requestId: options.requestId } : {}),
+      },
+    );
 
-    // Calculate current standard payment total
-    let currentStandardPaymentTotal = 0;
-    monthData.loanData.forEach(loanData => {
-      const balance = loanBalances.get(loanData.loanId) || 0;
-      const rate = snapshots.find(s => s.loan_id === loanData.loanId)?.starting_rate || 0;
-      const term = loanTerms.get(loanData.loanId) || 1;
-      if (balance > 0.01) {
-        currentStandardPaymentTotal += deriveStandardMonthlyPayment(balance, rate, term);
+    // Build overpayment map from projection
+    // The projection already records what the strategy allocated to each loan,
+    // including planned lump sums due that month
+    for (const monthData of projection) {
+      for (const loanData of monthData.loanData) {
+        overpaymentByMonthAndLoan.set(
+          `${monthData.month}:${loanData.loanId}`,
+          loanData.overpayment,
+        );
       }
-    });
-
-    // Calculate available overpayment budget for this month
-    const paymentReduction = reinvestEnabled 
-      ? Math.max(0, previousStandardPaymentTotal - currentStandardPaymentTotal)
-      : 0;
-    const monthOverpaymentBudget = baseOverpayment + paymentReduction;
-
-    // Build projection loans for allocation
-    const monthLoans = monthData.loanData
-      .filter(ld => ld.remaining > 0.01)
-      .map(loanData => ({
-        id: loanData.loanId,
-        principal: loanData.loanAmount,
-        remaining_balance: loanData.remaining,
-        annual_rate: snapshots.find(s => s.loan_id === loanData.loanId)?.starting_rate || 0,
-        term_months: loanTerms.get(loanData.loanId) || 1,
-        monthly_payment: 0,
-      }));
-
-    // Allocate overpayment for this month
-    if (monthLoans.length > 0) {
-      const allocations = allocateOverpayment(monthLoans, strategy, monthOverpaymentBudget);
-      monthLoans.forEach((loan, idx) => {
-        const key = `${monthData.month}:${loan.id}`;
-        overpaymentByMonthAndLoan.set(key, allocations[idx] || 0);
-      });
     }
+  }
 
-    // Update previous payment total for next iteration
-    previousStandardPaymentTotal = currentStandardPaymentTotal;
-  });
-
-  // 8. Generate list of months from simulation start to current month
+  // 6. Generate list of months from simulation start to current month
   const monthsToEnsure: Date[] = [];
-  let iterMonth = new Date(simStartMonth);
+  const iterMonth = new Date(simStartMonth);
   while (iterMonth <= currentMonthStart) {
     monthsToEnsure.push(new Date(iterMonth));
     iterMonth.setMonth(iterMonth.getMonth() + 1);
   }
 
-  // 6. For each month and loan, check if log exists, create if missing
+  // 7. For each month and loan, check if log exists, create if missing
   const logsToInsert: MonthlyExecutionLogInsert[] = [];
 
   for (const month of monthsToEnsure) {
@@ -699,17 +730,13 @@ export const ensureMonthlyExecutionLogs = async (
         .maybeSingle();
 
       if (checkError) {
-        logger.warn(
-          "ensure_monthly_logs",
-          "Error checking existing log",
-          {
-            userId,
-            loanId: loan.id,
-            monthStart: monthStr,
-            error: checkError.message,
-            ...(options?.requestId ? { requestId: options.requestId } : {}),
-          },
-        );
+        logger.warn("ensure_monthly_logs", "Error checking existing log", {
+          userId,
+          loanId: loan.id,
+          monthStart: monthStr,
+          error: checkError.message,
+          ...(options?.requestId ? { requestId: options.requestId } : {}),
+        });
         continue;
       }
 
@@ -720,7 +747,8 @@ export const ensureMonthlyExecutionLogs = async (
 
       // Get strategy-allocated overpayment for this loan and month from projection
       const overpaymentKey = `${monthStr}:${loan.id}`;
-      const loanOverpayment = overpaymentByMonthAndLoan.get(overpaymentKey) || 0;
+      const loanOverpayment =
+        overpaymentByMonthAndLoan.get(overpaymentKey) || 0;
 
       // Create log entry
       if (isPastMonth) {
@@ -769,21 +797,21 @@ export const ensureMonthlyExecutionLogs = async (
           ...(options?.requestId ? { requestId: options.requestId } : {}),
         },
       );
-      throw internalError("DB_ERROR", "Failed to create monthly execution logs", {
-        cause: insertError,
-      });
+      throw internalError(
+        "DB_ERROR",
+        "Failed to create monthly execution logs",
+        {
+          cause: insertError,
+        },
+      );
     }
 
-    logger.info(
-      "ensure_monthly_logs",
-      "Created monthly execution logs",
-      {
-        userId,
-        created: logsToInsert.length,
-        months: monthsToEnsure.map((m) => m.toISOString().split("T")[0]),
-        ...(options?.requestId ? { requestId: options.requestId } : {}),
-      },
-    );
+    logger.info("ensure_monthly_logs", "Created monthly execution logs", {
+      userId,
+      created: logsToInsert.length,
+      months: monthsToEnsure.map((m) => m.toISOString().split("T")[0]),
+      ...(options?.requestId ? { requestId: options.requestId } : {}),
+    });
   }
 
   return {
@@ -791,4 +819,3 @@ export const ensureMonthlyExecutionLogs = async (
     months: monthsToEnsure.map((m) => m.toISOString().split("T")[0]),
   };
 };
-
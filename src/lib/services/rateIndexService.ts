@@ -0,0 +1,281 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  RateIndexImportResult,
+  RateIndexValueDto,
+  RateIndexValueInput,
+  RateIndexValueListQuery,
+} from "../../types.ts";
+import { internalError } from "../errors.ts";
+import { invalidateDashboardCache } from "./dashboardService.ts";
+import type { RateIndexTimeline } from "./simulationSharedService.ts";
+import { markActiveSimulationStale } from "./simulationService.ts";
+
+type LoanRow = Database["public"]["Tables"]["loans"]["Row"];
+type RateIndexValueRow =
+  Database["public"]["Tables"]["rate_index_values"]["Row"];
+type RateIndexValueInsert =
+  Database["public"]["Tables"]["rate_index_values"]["Insert"];
+
+const SELECT_COLUMNS = "id, index_id, month, value, updated_at";
+
+const withSupabaseError = (error: { code: string; message: string } | null) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const assertSupabaseClient = (
+  supabase: SupabaseClient<Database> | undefined,
+): SupabaseClient<Database> => {
+  if (!supabase) {
+    throw internalError(
+      "SUPABASE_CLIENT_MISSING",
+      "Supabase client is not available",
+    );
+  }
+
+  return supabase;
+};
+
+const assertUserId = (userId: string | undefined): string => {
+  if (!userId) {
+    throw internalError(
+      "USER_IDENTIFIER_MISSING",
+      "User identifier is required to manage rate index values",
+    );
+  }
+
+  return userId;
+};
+
+const toDto = (
+  row: Pick<
+    RateIndexValueRow,
+    "id" | "index_id" | "month" | "value" | "updated_at"
+  >,
+): RateIndexValueDto => ({
+  id: row.id,
+  indexId: row.index_id,
+  month: row.month,
+  value: row.value,
+  updatedAt: row.updated_at,
+});
+
+const fetchValues = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  indexIds?: string[],
+): Promise<RateIndexValueDto[]> => {
+  let query = supabase
+    .from("rate_index_values")
+    .select(SELECT_COLUMNS)
+    .eq("user_id", userId);
+
+  if (indexIds) {
+    query = query.in("index_id", indexIds);
+  }
+
+  let result;
+  try {
+    result = await query
+      .order("index_id", { ascending: true })
+      .order("month", { ascending: true });
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to load rate index values",
+      { cause },
+    );
+  }
+
+  const { data, error } = result;
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to load rate index values", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  return (data ?? []).map(toDto);
+};
+
+export const listRateIndexValues = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  query: RateIndexValueListQuery,
+): Promise<RateIndexValueDto[]> => {
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+
+  return fetchValues(
+    supabase,
+    resolvedUserId,
+    query.indexId ? [query.indexId] : undefined,
+  );
+};
+
+/**
+ * Loads the index values referenced by variable-rate loans, grouped into the timeline
+ * shape the projection engine expects. Returns an empty timeline for fixed-rate portfolios.
+ */
+export const fetchRateIndexTimeline = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  loans: Pick<LoanRow, "rate_type" | "rate_index_id">[],
+): Promise<RateIndexTimeline> => {
+  const timeline: RateIndexTimeline = new Map();
+  const uniqueIds = Array.from(
+    new Set(
+      loans.flatMap((loan) =>
+        loan.rate_type === "variable" && loan.rate_index_id
+          ? [loan.rate_index_id]
+          : [],
+      ),
+    ),
+  );
+  if (uniqueIds.length === 0) {
+    return timeline;
+  }
+
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+  const values = await fetchValues(supabase, resolvedUserId, uniqueIds);
+
+  for (const value of values) {
+    const points = timeline.get(value.indexId) ?? [];
+    points.push({ month: value.month, value: value.value });
+    timeline.set(value.indexId, points);
+  }
+
+  return timeline;
+};
+
+const fetchVariableRateIndexIds = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+): Promise<Set<string>> => {
+  let result;
+  try {
+    result = await supabase
+      .from("loans")
+      .select("rate_index_id")
+      .eq("user_id", userId)
+      .eq("is_closed", false)
+      .eq("rate_type", "variable");
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to load variable rate loans",
+      { cause },
+    );
+  }
+
+  const { data, error } = result;
+
+  if (error) {
+    throw internalError(
+      "SUPABASE_ERROR",
+      "Failed to load variable rate loans",
+      {
+        cause: error,
+        details: withSupabaseError(error),
+      },
+    );
+  }
+
+  return new Set(
+    (data ?? [])
+      .map((row) => row.rate_index_id)
+      .filter((indexId): indexId is string => indexId !== null),
+  );
+};
+
+/**
+ * Upserts index values parsed from a CSV import. The active simulation is only marked
+ * stale when a new or changed value belongs to an index used by an open variable-rate loan.
+ */
+export const importRateIndexValues = async (
+  supabaseClient: SupabaseClient<Database> | undefined,
+  userId: string | undefined,
+  values: RateIndexValueInput[],
+): Promise<RateIndexImportResult> => {
+  const supabase = assertSupabaseClient(supabaseClient);
+  const resolvedUserId = assertUserId(userId);
+
+  const indexIds = Array.from(new Set(values.map((value) => value.indexId)));
+  const existing = await fetchValues(supabase, resolvedUserId, indexIds);
+  const existingByKey = new Map(
+    existing.map((value) => [`${value.indexId}|${value.month}`, value.value]),
+  );
+
+  const changedIndexIds = new Set<string>();
+  let changed = 0;
+  for (const value of values) {
+    const previous = existingByKey.get(`${value.indexId}|${value.month}`);
+    if (previous === undefined || previous !== value.value) {
+      changed += 1;
+      changedIndexIds.add(value.indexId);
+    }
+  }
+
+  const payload: RateIndexValueInsert[] = values.map((value) => ({
+    user_id: resolvedUserId,
+    index_id: value.indexId,
+    month: value.month,
+    value: value.value,
+  }));
+
+  let result;
+  try {
+    result = await supabase
+      .from("rate_index_values")
+      .upsert(payload, { onConflict: "user_id,index_id,month" });
+  } catch (cause) {
+    throw internalError(
+      "SUPABASE_UNAVAILABLE",
+      "Unable to import rate index values",
+      { cause },
+    );
+  }
+
+  if (result.error) {
+    throw internalError(
+      "SUPABASE_ERROR",
+      "Failed to import rate index values",
+      {
+        cause: result.error,
+        details: withSupabaseError(result.error),
+      },
+    );
+  }
+
+  let staleSimulation = false;
+  if (changedIndexIds.size > 0) {
+    const usedIndexIds = await fetchVariableRateIndexIds(
+      supabase,
+      resolvedUserId,
+    );
+    const affectsActivePlan = Array.from(changedIndexIds).some((indexId) =>
+      usedIndexIds.has(indexId),
+    );
+    if (affectsActivePlan) {
+      staleSimulation = await markActiveSimulationStale(
+        supabase,
+        resolvedUserId,
+      );
+      invalidateDashboardCache(resolvedUserId);
+    }
+  }
+
+  return {
+    imported: values.length,
+    changed,
+    indexIds,
+    staleSimulation,
+  };
+};
@@ -1,13 +1,45 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
+import { createHash } from "node:crypto";
 
 import type { Database } from "../../db/database.types.ts";
-import type { SimulationStatus } from "../../types.ts";
+import type {
+  SimulationOptimalityReport,
+  SimulationStatus,
+} from "../../types.ts";
+import { publishUserEvent } from "../events.ts";
 import { logger } from "../logger.ts";
+import { OPTIMAL_STRATEGY_ID } from "../strategies/optimalStrategy.ts";
+import {
+  getStrategy,
+  listHeuristicStrategies,
+} from "../strategies/registry.ts";
+import type { RegisteredStrategy } from "../strategies/types.ts";
+import {
+  parseStoredLoanRules,
+  parseStoredLumpSums,
+  parseStoredStrategyPhases,
+  serializeInputSnapshot,
+  serializeOptimalityReport,
+  type SimulationInputSnapshot,
+} from "../validation/simulation.ts";
+import { parseStoredBudgetSchedule } from "../validation/userSettings.ts";
+import { fetchScheduledLoanChanges } from "./loanChangeEventService.ts";
+import { fetchRateIndexTimeline } from "./rateIndexService.ts";
 import {
   computeProjectedPayoffMonth as sharedComputeProjectedPayoffMonth,
-  deriveStandardMonthlyPayment,
   generateBaselineProjection,
+  findPaymentReductionMilestone,
   generateStrategyProjection,
+  isoMonthString,
+  monthsBetween,
+  resolveMonthlyBudget,
+  SIMULATION_ENGINE_VERSION,
+  sumMoney,
+} from "./simulationSharedService.ts";
+import type {
+  PaymentReductionMilestone,
+  RateIndexTimeline,
+  ScheduledLoanChange,
 } from "./simulationSharedService.ts";
 
 type SimulationRow = Database["public"]["Tables"]["simulations"]["Row"];
@@ -18,14 +50,40 @@ type Supabase = SupabaseClient<Database>;
 
 export interface SimulationComputeOptions {
   requestId?: string;
+  /**
+   * Cancels the computation. It is checked between phases and before each write, not
+   * inside a projection, which always runs to its end.
+   */
+  signal?: AbortSignal;
 }
 
 export interface SimulationComputationContext {
   simulation: SimulationRow;
   loans: LoanRow[];
   userSettings: UserSettingsRow | null;
+  rateIndexTimeline: RateIndexTimeline;
+  loanChanges: ScheduledLoanChange[];
 }
 
+/**
+ * Simulation fields a metrics computation reads, so unsaved drafts can be evaluated too.
+ */
+export type SimulationMetricsInput = Pick<
+  SimulationRow,
+  | "strategy"
+  | "strategy_params"
+  | "strategy_phases"
+  | "goal"
+  | "payment_reduction_target"
+  | "monthly_overpayment_limit"
+  | "reinvest_reduced_payments"
+  | "overpayment_budget_schedule"
+  | "lump_sums"
+  | "loan_rules"
+  | "started_at"
+  | "created_at"
+>;
+
 export interface BaselineSchedule {
   monthsToPayoff: number;
   monthlyPaymentTotal: number;
@@ -39,6 +97,8 @@ export interface StrategyComputationResult {
   totalInterestSaved: number;
   projectedPayoffMonth: string;
   reductionFactor: number;
+  /** Set for payment reduction goals once the target installment is reached. */
+  paymentReduction: PaymentReductionMilestone | null;
 }
 
 export interface SimulationMetrics {
@@ -47,6 +107,37 @@ export interface SimulationMetrics {
   projectedMonthsToPayoff: number;
   projectedPayoffMonth: string;
   monthlyPaymentTotal: number;
+  paymentReductionTargetMonth: string | null;
+}
+
+/**
+ * Headline outcome of one strategy run against a simulation's inputs.
+ */
+export interface StrategyOutcome {
+  strategyId: string;
+  strategyName: string;
+  monthsToPayoff: number;
+  projectedPayoffMonth: string;
+  totalInterestSaved: number;
+  paymentReductionTargetMonth: string | null;
+}
+
+/** Schedules a metrics computation projected, kept for persisting month by month. */
+export interface SimulationProjection {
+  baseline: ReturnType<typeof generateBaselineProjection>;
+  strategy: ReturnType<typeof generateStrategyProjection>;
+}
+
+export interface ScheduleEntryDraft {
+  loanId: string;
+  month: string;
+  payment: number;
+  overpayment: number;
+  prepaymentFee: number;
+  interest: number;
+  principal: number;
+  balance: number;
+  baselineInterest: number;
 }
 
 export interface LoanSnapshotDraft {
@@ -57,9 +148,22 @@ export interface LoanSnapshotDraft {
   startingBalance: number;
   startingMonth: string;
   startingRate: number;
+  targetMonthlyPayment: number | null;
+}
+
+/** Engine and inputs a simulation's results were computed from. */
+export interface SimulationProvenance {
+  engineVersion: string;
+  inputFingerprint: string;
+  /** The inputs the fingerprint was taken from, so replays can recompute from them. */
+  inputSnapshot: SimulationInputSnapshot;
 }
 
 const MIN_MONTHS = 1;
+/** Schedule rows written per insert, to keep request bodies small. */
+const SCHEDULE_INSERT_BATCH_SIZE = 500;
+/** Bookkeeping columns left out of the input fingerprint. */
+const FINGERPRINT_IGNORED_KEYS = new Set(["created_at", "updated_at"]);
 
 const withLogContext = (
   base: Record<string, unknown>,
@@ -86,96 +190,8 @@ const captureErrorDetails = (
 };
 
 // Date and month utilities are now imported from simulationSharedService
-// deriveStandardMonthlyPayment is now imported from simulationSharedService
 // computeProjectedPayoffMonth is now imported from simulationSharedService
 
-export const scheduleSimulationComputation = (
-  supabase: Supabase,
-  simulationId: string,
-  userId: string,
-  options?: SimulationComputeOptions,
-): void => {
-  queueMicrotask(() => {
-    void computeAndPersist(supabase, simulationId, userId, options).catch(
-      (error) => {
-        const details = captureErrorDetails(error);
-        logger.error(
-          "simulation_compute_unhandled",
-          "Unhandled error during simulation compute",
-          withLogContext({ ...details, simulationId, userId }, options),
-        );
-      },
-    );
-  });
-};
-
-export const retrySimulationIfErrored = async (
-  supabase: Supabase,
-  simulation: SimulationRow,
-  options?: SimulationComputeOptions,
-): Promise<boolean> => {
-  if (simulation.status !== "error") {
-    return false;
-  }
-
-  const { data, error } = await supabase
-    .from("simulations")
-    .update({
-      status: "running",
-      started_at: new Date().toISOString(),
-    })
-    .eq("id", simulation.id)
-    .eq("user_id", simulation.user_id)
-    .eq("status", "error")
-    .select("id")
-    .maybeSingle();
-
-  if (error) {
-    logger.error(
-      "simulation_compute_retry_failed",
-      "Failed to reset simulation status for retry",
-      withLogContext(
-        {
-          simulationId: simulation.id,
-          userId: simulation.user_id,
-          ...captureErrorDetails(error),
-        },
-        options,
-      ),
-    );
-    return false;
-  }
-
-  if (!data) {
-    logger.debug(
-      "simulation_compute_retry_skipped",
-      "Skip retry because status update did not match any rows",
-      withLogContext(
-        { simulationId: simulation.id, userId: simulation.user_id },
-        options,
-      ),
-    );
-    return false;
-  }
-
-  logger.info(
-    "simulation_compute_retry",
-    "Retrying simulation computation",
-    withLogContext(
-      { simulationId: simulation.id, userId: simulation.user_id },
-      options,
-    ),
-  );
-
-  scheduleSimulationComputation(
-    supabase,
-    simulation.id,
-    simulation.user_id,
-    options,
-  );
-  return true;
-};
-
 export const loadSimulationContext = async (
   supabase: Supabase,
   simulationId: string,
@@ -199,9 +215,25 @@ export const loadSimulationContext = async (
       simulation,
       loans: [],
       userSettings: null,
+      rateIndexTimeline: new Map(),
+      loanChanges: [],
     };
   }
 
+  return loadSimulationInputs(supabase, simulation, userId);
+};
+
+/**
+ * Loads the user's current loans, settings and timelines for a simulation, whatever
+ * its status. Replays fall back to it for simulations stored without their inputs.
+ */
+export const loadSimulationInputs = async (
+  supabase: Supabase,
+  simulation: SimulationRow,
+  userId: string,
+): Promise<SimulationComputationContext> => {
+  const simulationId = simulation.id;
+
   const { data: loans, error: loanError } = await supabase
     .from("loans")
     .select("*")
@@ -226,16 +258,95 @@ export const loadSimulationContext = async (
     );
   }
 
+  const rateIndexTimeline = await fetchRateIndexTimeline(
+    supabase,
+    userId,
+    loans ?? [],
+  );
+  const loanChanges = await fetchScheduledLoanChanges(
+    supabase,
+    userId,
+    loans ?? [],
+  );
+
   return {
     simulation,
     loans: loans ?? [],
     userSettings: userSettings ?? null,
+    rateIndexTimeline,
+    loanChanges,
   };
 };
 
-export const computeSimulationMetrics = (
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => !FINGERPRINT_IGNORED_KEYS.has(key))
+        .sort()
+        .map((key) => [
+          key,
+          canonicalize((value as Record<string, unknown>)[key]),
+        ]),
+    );
+  }
+
+  return value;
+};
+
+/**
+ * Hashes everything a computation reads: simulation parameters, loans, settings, rate
+ * index values and scheduled loan changes. Keys and rows are put in a fixed order, so
+ * the same inputs always give the same fingerprint.
+ */
+export const buildInputFingerprint = (
   context: SimulationComputationContext,
-): { baseline: BaselineSchedule; strategy: StrategyComputationResult } => {
+): string => {
+  const { simulation } = context;
+  const inputs = {
+    simulation: {
+      strategy: simulation.strategy,
+      strategy_params: simulation.strategy_params,
+      goal: simulation.goal,
+      payment_reduction_target: simulation.payment_reduction_target,
+      monthly_overpayment_limit: simulation.monthly_overpayment_limit,
+      reinvest_reduced_payments: simulation.reinvest_reduced_payments,
+      overpayment_budget_schedule: simulation.overpayment_budget_schedule,
+      lump_sums: simulation.lump_sums,
+      loan_rules: simulation.loan_rules,
+      strategy_phases: simulation.strategy_phases,
+      start: simulation.started_at ?? simulation.created_at,
+    },
+    loans: [...context.loans].sort((a, b) => a.id.localeCompare(b.id)),
+    userSettings: context.userSettings,
+    rateIndexTimeline: [...context.rateIndexTimeline.entries()].sort(
+      ([a], [b]) => a.localeCompare(b),
+    ),
+    loanChanges: [...context.loanChanges].sort(
+      (a, b) =>
+        a.loanId.localeCompare(b.loanId) || a.month.localeCompare(b.month),
+    ),
+  };
+
+  return createHash("sha256")
+    .update(JSON.stringify(canonicalize(inputs)))
+    .digest("hex");
+};
+
+export const computeSimulationMetrics = (
+  context: Pick<
+    SimulationComputationContext,
+    "loans" | "rateIndexTimeline" | "loanChanges"
+  > & { simulation: SimulationMetricsInput },
+): {
+  baseline: BaselineSchedule;
+  strategy: StrategyComputationResult;
+  projection: SimulationProjection;
+} => {
   if (context.loans.length === 0) {
     const projectedPayoffMonth = sharedComputeProjectedPayoffMonth(
       context.simulation.started_at ?? context.simulation.created_at,
@@ -255,9 +366,14 @@ export const computeSimulationMetrics = (
       totalInterestSaved: 0,
       projectedPayoffMonth,
       reductionFactor: 0,
+      paymentReduction: null,
     };
 
-    return { baseline: emptyBaseline, strategy: emptyStrategy };
+    return {
+      baseline: emptyBaseline,
+      strategy: emptyStrategy,
+      projection: { baseline: [], strategy: [] },
+    };
   }
 
   // Calculate baseline and strategy projections
@@ -272,39 +388,61 @@ export const computeSimulationMetrics = (
     startYear,
     startMonth,
     600, // max 50 years
+    0,
+    {
+      rateIndexTimeline: context.rateIndexTimeline,
+      loanChanges: context.loanChanges,
+    },
+  );
+
+  const paymentReductionTarget =
+    context.simulation.goal === "payment_reduction"
+      ? context.simulation.payment_reduction_target
+      : null;
+  const budgetSchedule = parseStoredBudgetSchedule(
+    context.simulation.overpayment_budget_schedule,
   );
 
   const strategySchedule = generateStrategyProjection(
     context.loans,
     context.simulation.strategy,
-    null, // null = fastest payoff (not payment reduction)
+    paymentReductionTarget,
     context.simulation.monthly_overpayment_limit,
     context.simulation.reinvest_reduced_payments, // Use simulation's stored setting
     startYear,
     startMonth,
+    undefined,
+    {
+      strategyParams: context.simulation.strategy_params,
+      strategyPhases: parseStoredStrategyPhases(
+        context.simulation.strategy_phases,
+      ),
+      budgetSchedule,
+      lumpSums: parseStoredLumpSums(context.simulation.lump_sums),
+      loanRules: parseStoredLoanRules(context.simulation.loan_rules),
+      rateIndexTimeline: context.rateIndexTimeline,
+      loanChanges: context.loanChanges,
+    },
   );
 
-  // Aggregate baseline metrics
-  const totalPrincipal = context.loans.reduce(
-    (sum, loan) => sum + loan.remaining_balance,
-    0,
+  // Aggregate baseline metrics; totals are summed in grosze so they match the rows
+  const totalPrincipal = sumMoney(
+    context.loans.map((loan) => loan.remaining_balance),
   );
 
-  const monthlyPaymentTotal = context.loans.reduce(
-    (sum, loan) =>
-      sum +
-      deriveStandardMonthlyPayment(
-        loan.remaining_balance,
-        loan.annual_rate,
-        loan.term_months,
-      ),
-    0,
+  // Scheduled payments of the first projected month, with the engine's rounding and
+  // index-based rates, so the headline matches the first month of the stored schedule
+  const monthlyPaymentTotal = sumMoney(
+    (strategySchedule[0]?.loanData ?? []).flatMap((loan) => [
+      loan.interest,
+      loan.principal,
+      -loan.overpayment,
+    ]),
   );
 
   const baselineMonths = baselineSchedule.length;
-  const baselineTotalInterest = baselineSchedule.reduce(
-    (sum, entry) => sum + entry.interest,
-    0,
+  const baselineTotalInterest = sumMoney(
+    baselineSchedule.map((entry) => entry.interest),
   );
 
   const baseline: BaselineSchedule = {
@@ -316,13 +454,20 @@ export const computeSimulationMetrics = (
 
   // Aggregate strategy metrics
   const strategyMonths = strategySchedule.length;
-  const totalInterestWithStrategy = strategySchedule.reduce(
-    (sum, entry) => sum + entry.interest,
-    0,
+  const totalInterestWithStrategy = sumMoney(
+    strategySchedule.map((entry) => entry.interest),
   );
+  const totalPrepaymentFees = sumMoney(
+    strategySchedule.map((entry) => entry.fees),
+  );
+  // Commissions paid to overpay early eat into the savings
   const totalInterestSaved = Math.max(
     0,
-    baselineTotalInterest - totalInterestWithStrategy,
+    sumMoney([
+      baselineTotalInterest,
+      -totalInterestWithStrategy,
+      -totalPrepaymentFees,
+    ]),
   );
 
   const projectedPayoffMonth = sharedComputeProjectedPayoffMonth(
@@ -335,14 +480,129 @@ export const computeSimulationMetrics = (
 
   const strategy: StrategyComputationResult = {
     monthsToPayoff: strategyMonths,
-    monthlyPaymentTotal:
-      monthlyPaymentTotal + context.simulation.monthly_overpayment_limit,
+    monthlyPaymentTotal: sumMoney([
+      monthlyPaymentTotal,
+      resolveMonthlyBudget(
+        context.simulation.monthly_overpayment_limit,
+        isoMonthString(startYear, startMonth),
+        budgetSchedule,
+      ),
+    ]),
     totalInterestSaved,
     projectedPayoffMonth,
     reductionFactor,
+    paymentReduction:
+      paymentReductionTarget !== null
+        ? findPaymentReductionMilestone(
+            strategySchedule,
+            paymentReductionTarget,
+          )
+        : null,
+  };
+
+  return {
+    baseline,
+    strategy,
+    projection: { baseline: baselineSchedule, strategy: strategySchedule },
   };
+};
+
+/**
+ * Runs each strategy with its default parameters against the same inputs. Callers pass
+ * only strategies that accept running without parameters.
+ */
+export const compareStrategies = (
+  context: Pick<
+    SimulationComputationContext,
+    "loans" | "rateIndexTimeline" | "loanChanges"
+  > & {
+    simulation: Omit<
+      SimulationMetricsInput,
+      "strategy" | "strategy_params" | "strategy_phases"
+    >;
+  },
+  strategies: readonly RegisteredStrategy[],
+): { baseline: BaselineSchedule | null; outcomes: StrategyOutcome[] } => {
+  let baseline: BaselineSchedule | null = null;
+
+  const outcomes = strategies.map((strategy) => {
+    const metrics = computeSimulationMetrics({
+      ...context,
+      simulation: {
+        ...context.simulation,
+        strategy: strategy.id,
+        strategy_params: null,
+        strategy_phases: [],
+      },
+    });
+
+    baseline ??= metrics.baseline;
+    return {
+      strategyId: strategy.id,
+      strategyName: strategy.name,
+      monthsToPayoff: metrics.strategy.monthsToPayoff,
+      projectedPayoffMonth: metrics.strategy.projectedPayoffMonth,
+      totalInterestSaved: metrics.strategy.totalInterestSaved,
+      paymentReductionTargetMonth:
+        metrics.strategy.paymentReduction?.month ?? null,
+    };
+  });
+
+  return { baseline, outcomes };
+};
 
-  return { baseline, strategy };
+/**
+ * Benchmarks every parameter-free heuristic against the optimizer on the simulation's
+ * inputs. Each one is a full projection, so the report is only built for simulations
+ * that chose the optimal strategy; null for the rest and when there is nothing to
+ * compare.
+ */
+export const buildOptimalityReport = (
+  context: SimulationComputationContext,
+): SimulationOptimalityReport | null => {
+  const optimal = getStrategy(OPTIMAL_STRATEGY_ID);
+  if (
+    !optimal ||
+    context.simulation.strategy !== OPTIMAL_STRATEGY_ID ||
+    context.loans.length === 0
+  ) {
+    return null;
+  }
+
+  const heuristics = listHeuristicStrategies().filter(
+    (strategy) => strategy.parseParams(null).success,
+  );
+  const {
+    outcomes: [optimum, ...rest],
+  } = compareStrategies(context, [optimal, ...heuristics]);
+
+  return {
+    optimum: {
+      monthsToPayoff: optimum.monthsToPayoff,
+      totalInterestSaved: optimum.totalInterestSaved,
+      paymentReductionTargetMonth: optimum.paymentReductionTargetMonth,
+    },
+    heuristics: rest.map((outcome) => ({
+      strategyId: outcome.strategyId,
+      strategyName: outcome.strategyName,
+      monthsToPayoff: outcome.monthsToPayoff,
+      totalInterestSaved: outcome.totalInterestSaved,
+      paymentReductionTargetMonth: outcome.paymentReductionTargetMonth,
+      interestShortfall: sumMoney([
+        optimum.totalInterestSaved,
+        -outcome.totalInterestSaved,
+      ]),
+      monthsShortfall: outcome.monthsToPayoff - optimum.monthsToPayoff,
+      targetMonthsShortfall:
+        optimum.paymentReductionTargetMonth &&
+        outcome.paymentReductionTargetMonth
+          ? monthsBetween(
+              optimum.paymentReductionTargetMonth,
+              outcome.paymentReductionTargetMonth,
+            )
+          : null,
+    })),
+  };
 };
 
 export const aggregateMetrics = (
@@ -355,12 +615,18 @@ export const aggregateMetrics = (
     projectedMonthsToPayoff: strategyResult.monthsToPayoff,
     projectedPayoffMonth: strategyResult.projectedPayoffMonth,
     monthlyPaymentTotal: strategyResult.monthlyPaymentTotal,
+    paymentReductionTargetMonth: strategyResult.paymentReduction?.month ?? null,
   };
 };
 
+/**
+ * Snapshots of each loan as the simulation starts. The remaining term is the number of
+ * months the loan still owes a payment in the strategy projection.
+ */
 export const buildLoanSnapshots = (
   context: SimulationComputationContext,
   strategyResult: StrategyComputationResult,
+  projection: SimulationProjection,
 ): LoanSnapshotDraft[] => {
   if (context.loans.length === 0) {
     return [];
@@ -371,24 +637,127 @@ export const buildLoanSnapshots = (
     0,
   );
 
-  return context.loans.map((loan) => {
-    const reducedTerm = Math.max(
-      MIN_MONTHS,
-      Math.round(loan.term_months * (1 - strategyResult.reductionFactor)),
-    );
+  const targetInstallments = new Map(
+    (strategyResult.paymentReduction?.installments ?? []).map((entry) => [
+      entry.loanId,
+      entry.installment,
+    ]),
+  );
 
+  // Months with a row for the loan, i.e. months it starts with a positive balance
+  const projectedTerms = new Map<string, number>();
+  for (const entry of projection.strategy) {
+    for (const loan of entry.loanData) {
+      projectedTerms.set(
+        loan.loanId,
+        (projectedTerms.get(loan.loanId) ?? 0) + 1,
+      );
+    }
+  }
+
+  return context.loans.map((loan) => {
     return {
       loanId: loan.id,
       simulationId: context.simulation.id,
       userId: context.simulation.user_id,
-      remainingTermMonths: reducedTerm,
+      remainingTermMonths: Math.max(
+        MIN_MONTHS,
+        projectedTerms.get(loan.id) ?? 0,
+      ),
       startingBalance: loan.remaining_balance,
       startingMonth: loan.start_month ?? fallbackStartMonth,
       startingRate: loan.annual_rate,
+      targetMonthlyPayment: strategyResult.paymentReduction
+        ? (targetInstallments.get(loan.id) ?? 0)
+        : null,
     };
   });
 };
 
+/**
+ * Flattens the strategy schedule into one row per loan per month, with the interest
+ * the same loan-month costs in the baseline alongside.
+ */
+export const buildScheduleEntries = (
+  projection: SimulationProjection,
+): ScheduleEntryDraft[] => {
+  const baselineInterest = new Map<string, number>();
+  for (const entry of projection.baseline) {
+    for (const loan of entry.loanData) {
+      baselineInterest.set(`${entry.month}|${loan.loanId}`, loan.interest);
+    }
+  }
+
+  return projection.strategy.flatMap((entry) =>
+    entry.loanData.map((loan) => ({
+      loanId: loan.loanId,
+      month: entry.month,
+      payment: sumMoney([loan.interest, loan.principal, -loan.overpayment]),
+      overpayment: loan.overpayment,
+      prepaymentFee: loan.prepaymentFee,
+      interest: loan.interest,
+      principal: loan.principal,
+      balance: loan.remaining,
+      baselineInterest:
+        baselineInterest.get(`${entry.month}|${loan.loanId}`) ?? 0,
+    })),
+  );
+};
+
+export const persistScheduleEntries = async (
+  supabase: Supabase,
+  simulationId: string,
+  userId: string,
+  entries: ScheduleEntryDraft[],
+  signal?: AbortSignal,
+): Promise<void> => {
+  signal?.throwIfAborted();
+  const { error: deleteError } = await supabase
+    .from("simulation_schedule_entries")
+    .delete()
+    .eq("simulation_id", simulationId)
+    .eq("user_id", userId);
+
+  if (deleteError) {
+    throw new Error(
+      `Failed to clear existing schedule entries: ${deleteError.message}`,
+    );
+  }
+
+  for (
+    let offset = 0;
+    offset < entries.length;
+    offset += SCHEDULE_INSERT_BATCH_SIZE
+  ) {
+    signal?.throwIfAborted();
+    const payload = entries
+      .slice(offset, offset + SCHEDULE_INSERT_BATCH_SIZE)
+      .map((entry) => ({
+        simulation_id: simulationId,
+        user_id: userId,
+        loan_id: entry.loanId,
+        month: entry.month,
+        payment: entry.payment,
+        overpayment: entry.overpayment,
+        prepayment_fee: entry.prepaymentFee,
+        interest: entry.interest,
+        principal: entry.principal,
+        balance: entry.balance,
+        baseline_interest: entry.baselineInterest,
+      }));
+
+    const { error: insertError } = await supabase
+      .from("simulation_schedule_entries")
+      .insert(payload);
+
+    if (insertError) {
+      throw new Error(
+        `Failed to persist schedule entries: ${insertError.message}`,
+      );
+    }
+  }
+};
+
 export const persistSnapshots = async (
   supabase: Supabase,
   simulationId: string,
@@ -419,6 +788,7 @@ export const persistSnapshots = async (
     starting_balance: snapshot.startingBalance,
     starting_month: snapshot.startingMonth,
     starting_rate: snapshot.startingRate,
+    target_monthly_payment: snapshot.targetMonthlyPayment,
   }));
 
   const { error: insertError } = await supabase
@@ -474,6 +844,8 @@ export const finalizeSuccess = async (
   supabase: Supabase,
   simulationId: string,
   metrics: SimulationMetrics,
+  optimalityReport: SimulationOptimalityReport | null,
+  provenance: SimulationProvenance,
 ): Promise<SimulationStatus | null> => {
   const nowIso = new Date().toISOString();
   const { data, error } = await supabase
@@ -485,6 +857,11 @@ export const finalizeSuccess = async (
       total_interest_saved: metrics.totalInterestSaved,
       projected_months_to_payoff: metrics.projectedMonthsToPayoff,
       projected_payoff_month: metrics.projectedPayoffMonth,
+      payment_reduction_target_month: metrics.paymentReductionTargetMonth,
+      optimality_report: serializeOptimalityReport(optimalityReport),
+      engine_version: provenance.engineVersion,
+      input_fingerprint: provenance.inputFingerprint,
+      input_snapshot: serializeInputSnapshot(provenance.inputSnapshot),
     })
     .eq("id", simulationId)
     .eq("status", "running")
@@ -531,6 +908,11 @@ export const finalizeError = async (
   return data?.status ?? null;
 };
 
+/**
+ * Computes a running simulation and stores its results; anything else is skipped.
+ * Failures are logged and rethrown so the job worker can retry or give up. An aborted
+ * `options.signal` stops it before its next write.
+ */
 export const computeAndPersist = async (
   supabase: Supabase,
   simulationId: string,
@@ -562,14 +944,45 @@ export const computeAndPersist = async (
       return;
     }
 
-    const { baseline, strategy: strategyResult } =
-      computeSimulationMetrics(context);
+    const signal = options?.signal;
+    signal?.throwIfAborted();
+    const {
+      baseline,
+      strategy: strategyResult,
+      projection,
+    } = computeSimulationMetrics(context);
+    signal?.throwIfAborted();
     const metrics = aggregateMetrics(baseline, strategyResult);
-    const snapshots = buildLoanSnapshots(context, strategyResult);
+    const snapshots = buildLoanSnapshots(context, strategyResult, projection);
+    const scheduleEntries = buildScheduleEntries(projection);
+    const optimalityReport = buildOptimalityReport(context);
 
+    signal?.throwIfAborted();
     await persistSnapshots(supabase, simulationId, userId, snapshots);
+    await persistScheduleEntries(
+      supabase,
+      simulationId,
+      userId,
+      scheduleEntries,
+      signal,
+    );
+    signal?.throwIfAborted();
     await persistHistoryMetric(supabase, context, metrics);
-    await finalizeSuccess(supabase, simulationId, metrics);
+    signal?.throwIfAborted();
+    const finalStatus = await finalizeSuccess(
+      supabase,
+      simulationId,
+      metrics,
+      optimalityReport,
+      {
+        engineVersion: SIMULATION_ENGINE_VERSION,
+        inputFingerprint: buildInputFingerprint(context),
+        inputSnapshot: context,
+      },
+    );
+    if (finalStatus === "completed") {
+      publishUserEvent(userId, "simulation.completed", { simulationId });
+    }
 
     logger.info(
       "simulation_compute_success",
@@ -583,16 +996,6 @@ export const computeAndPersist = async (
       "Simulation computation failed",
       withLogContext({ simulationId, userId, ...details }, options),
     );
-
-    try {
-      await finalizeError(supabase, simulationId, error);
-    } catch (finalizeErrorCause) {
-      const finalizeDetails = captureErrorDetails(finalizeErrorCause);
-      logger.error(
-        "simulation_finalize_error_failed",
-        "Failed to mark simulation as error",
-        withLogContext({ simulationId, userId, ...finalizeDetails }, options),
-      );
-    }
+    throw error;
   }
 };
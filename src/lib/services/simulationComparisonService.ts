@@ -0,0 +1,248 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  SimulationComparisonDelta,
+  SimulationComparisonDto,
+  SimulationComparisonItem,
+  SimulationComparisonPoint,
+  SimulationScheduleEntryDto,
+} from "../../types.ts";
+import { conflictError, internalError, notFoundError } from "../errors.ts";
+import { fetchScheduleEntries } from "./simulationScheduleService.ts";
+import { sumMoney } from "./simulationSharedService.ts";
+
+type SimulationRow = Database["public"]["Tables"]["simulations"]["Row"];
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const COMPARABLE_STATUSES: SimulationRow["status"][] = [
+  "completed",
+  "active",
+  "stale",
+];
+
+interface MonthTotals {
+  totalRemaining: number;
+  interest: number;
+  interestSaved: number;
+}
+
+const fetchSimulations = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  ids: string[],
+): Promise<SimulationRow[]> => {
+  const { data, error } = await supabase
+    .from("simulations")
+    .select("*")
+    .eq("user_id", userId)
+    .in("id", ids);
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to fetch simulations", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  const byId = new Map((data ?? []).map((row) => [row.id, row]));
+  const missing = ids.filter((id) => !byId.has(id));
+  if (missing.length > 0) {
+    throw notFoundError("SIMULATION_NOT_FOUND", "Simulation not found", {
+      simulationIds: missing,
+    });
+  }
+
+  return ids.map((id) => byId.get(id) as SimulationRow);
+};
+
+/** Latest captured monthly payment total per simulation. */
+const fetchMonthlyPaymentTotals = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  ids: string[],
+): Promise<Map<string, number | null>> => {
+  const { data, error } = await supabase
+    .from("simulation_history_metrics")
+    .select("simulation_id, monthly_payment_total")
+    .eq("user_id", userId)
+    .in("simulation_id", ids)
+    .order("captured_at", { ascending: false });
+
+  if (error) {
+    throw internalError(
+      "SUPABASE_ERROR",
+      "Failed to fetch simulation history metrics",
+      {
+        cause: error,
+        details: withSupabaseError(error),
+      },
+    );
+  }
+
+  const totals = new Map<string, number | null>();
+  for (const row of data ?? []) {
+    if (!totals.has(row.simulation_id)) {
+      totals.set(row.simulation_id, row.monthly_payment_total);
+    }
+  }
+  return totals;
+};
+
+const totalsByMonth = (
+  entries: readonly SimulationScheduleEntryDto[],
+): Map<string, MonthTotals> => {
+  const grouped = new Map<string, SimulationScheduleEntryDto[]>();
+  for (const entry of entries) {
+    const monthEntries = grouped.get(entry.month) ?? [];
+    monthEntries.push(entry);
+    grouped.set(entry.month, monthEntries);
+  }
+
+  const totals = new Map<string, MonthTotals>();
+  for (const [month, monthEntries] of grouped) {
+    totals.set(month, {
+      totalRemaining: sumMoney(monthEntries.map((entry) => entry.balance)),
+      interest: sumMoney(monthEntries.map((entry) => entry.interest)),
+      interestSaved: sumMoney(
+        monthEntries.flatMap((entry) => [
+          entry.baselineInterest,
+          -entry.interest,
+          -entry.prepaymentFee,
+        ]),
+      ),
+    });
+  }
+  return totals;
+};
+
+/**
+ * Lines a schedule up on the union of all compared months. Months before the schedule
+ * starts are unknown; months after it ends are repaid.
+ */
+const alignSeries = (
+  months: readonly string[],
+  totals: Map<string, MonthTotals>,
+): SimulationComparisonPoint[] => {
+  if (totals.size === 0) {
+    return [];
+  }
+
+  const storedMonths = [...totals.keys()].sort();
+  const firstMonth = storedMonths[0];
+
+  return months.map((month) => {
+    const monthTotals = totals.get(month);
+    if (monthTotals) {
+      return { month, ...monthTotals };
+    }
+    if (month < firstMonth) {
+      return {
+        month,
+        totalRemaining: null,
+        interest: null,
+        interestSaved: null,
+      };
+    }
+    return { month, totalRemaining: 0, interest: 0, interestSaved: 0 };
+  });
+};
+
+const difference = (
+  value: number | null,
+  reference: number | null,
+): number | null =>
+  value === null || reference === null ? null : sumMoney([value, -reference]);
+
+const computeDelta = (
+  item: SimulationComparisonItem,
+  reference: SimulationComparisonItem,
+): SimulationComparisonDelta => ({
+  monthsToPayoff:
+    item.projectedMonthsToPayoff === null ||
+    reference.projectedMonthsToPayoff === null
+      ? null
+      : item.projectedMonthsToPayoff - reference.projectedMonthsToPayoff,
+  totalInterestSaved: difference(
+    item.totalInterestSaved,
+    reference.totalInterestSaved,
+  ),
+  monthlyPaymentTotal: difference(
+    item.monthlyPaymentTotal,
+    reference.monthlyPaymentTotal,
+  ),
+});
+
+/**
+ * Compares completed simulations side by side: their stored metrics, with differences
+ * against the first one, and their stored schedules aggregated per month. Simulations
+ * computed before schedules were stored come back without series points.
+ */
+export const compareSimulations = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  ids: string[],
+): Promise<SimulationComparisonDto> => {
+  const simulations = await fetchSimulations(supabase, userId, ids);
+
+  const notComparable = simulations.filter(
+    (simulation) => !COMPARABLE_STATUSES.includes(simulation.status),
+  );
+  if (notComparable.length > 0) {
+    throw conflictError(
+      "SIMULATION_NOT_COMPLETED",
+      "Only completed simulations can be compared",
+      { simulationIds: notComparable.map((simulation) => simulation.id) },
+    );
+  }
+
+  const paymentTotals = await fetchMonthlyPaymentTotals(supabase, userId, ids);
+
+  const totalsPerSimulation: Map<string, MonthTotals>[] = [];
+  for (const simulation of simulations) {
+    const entries = await fetchScheduleEntries(supabase, userId, simulation.id);
+    totalsPerSimulation.push(totalsByMonth(entries));
+  }
+
+  const months = [
+    ...new Set(totalsPerSimulation.flatMap((totals) => [...totals.keys()])),
+  ].sort();
+
+  const items: SimulationComparisonItem[] = simulations.map((simulation) => ({
+    simulationId: simulation.id,
+    strategy: simulation.strategy,
+    goal: simulation.goal,
+    status: simulation.status,
+    isActive: simulation.is_active,
+    createdAt: simulation.created_at,
+    projectedPayoffMonth: simulation.projected_payoff_month,
+    projectedMonthsToPayoff: simulation.projected_months_to_payoff,
+    baselineInterest: simulation.baseline_interest,
+    totalInterestSaved: simulation.total_interest_saved,
+    monthlyPaymentTotal: paymentTotals.get(simulation.id) ?? null,
+    delta: null,
+  }));
+
+  const [reference] = items;
+  for (const item of items.slice(1)) {
+    item.delta = computeDelta(item, reference);
+  }
+
+  return {
+    months,
+    simulations: items,
+    series: simulations.map((simulation, i) => ({
+      simulationId: simulation.id,
+      points: alignSeries(months, totalsPerSimulation[i]),
+    })),
+  };
+};
@@ -0,0 +1,563 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+
+import type { Database } from "../../db/database.types.ts";
+import { publishUserEvent } from "../events.ts";
+import { logger } from "../logger.ts";
+import {
+  computeAndPersist,
+  finalizeError,
+  type SimulationComputeOptions,
+} from "./simulationCalculationService.ts";
+
+type SimulationRow = Database["public"]["Tables"]["simulations"]["Row"];
+type SimulationJobRow = Database["public"]["Tables"]["simulation_jobs"]["Row"];
+
+type Supabase = SupabaseClient<Database>;
+
+/** How long a claimed job belongs to its worker before the watchdog may take it back. */
+const JOB_LEASE_SECONDS = 300;
+/**
+ * A computation running longer than this counts as a failed attempt. It stays below
+ * the lease so a live worker always settles its job before the lease runs out.
+ */
+const JOB_TIMEOUT_MS = 120_000;
+const RETRY_BASE_DELAY_MS = 30_000;
+const RETRY_MAX_DELAY_MS = 15 * 60_000;
+const WORKER_POLL_INTERVAL_MS = 2_000;
+const WATCHDOG_INTERVAL_MS = 60_000;
+/** A running simulation without an open job for this long is re-queued. */
+const ORPHAN_GRACE_MS = 5 * 60_000;
+const WATCHDOG_BATCH_SIZE = 100;
+const UNIQUE_VIOLATION = "23505";
+
+interface SimulationWorker {
+  supabase: Supabase;
+  workerId: string;
+  pollTimer: ReturnType<typeof setInterval>;
+  watchdogTimer: ReturnType<typeof setInterval>;
+  draining: boolean;
+}
+
+let worker: SimulationWorker | null = null;
+
+const withLogContext = (
+  base: Record<string, unknown>,
+  options?: SimulationComputeOptions,
+): Record<string, unknown> => {
+  if (!options?.requestId) {
+    return base;
+  }
+
+  return { ...base, requestId: options.requestId };
+};
+
+const captureErrorDetails = (
+  error: unknown,
+): { errorName: string; errorMessage: string } => {
+  if (error instanceof Error) {
+    return { errorName: error.name, errorMessage: error.message };
+  }
+
+  return {
+    errorName: "UnknownError",
+    errorMessage: typeof error === "string" ? error : JSON.stringify(error),
+  };
+};
+
+/** Delay before the next attempt: doubles per failed attempt, up to a cap. */
+export const retryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+
+/**
+ * Computes a simulation, aborting it once the timeout passes. The signal is only
+ * checked between phases and before each write: a projection already running finishes
+ * first, so the timeout bounds when an attempt stops writing results, not its CPU time.
+ */
+const computeWithTimeout = async (
+  supabase: Supabase,
+  simulationId: string,
+  userId: string,
+  options: SimulationComputeOptions,
+  timeoutMs: number,
+): Promise<void> => {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(
+        new Error(`Simulation job timed out after ${timeoutMs} ms`),
+      ),
+    timeoutMs,
+  );
+
+  try {
+    await computeAndPersist(supabase, simulationId, userId, {
+      ...options,
+      signal: controller.signal,
+    });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Queues a computation of a running simulation. A simulation has at most one open job,
+ * so queueing one that is already waiting or running is a no-op.
+ */
+export const enqueueSimulationJob = async (
+  supabase: Supabase,
+  simulationId: string,
+  userId: string,
+  options?: SimulationComputeOptions,
+): Promise<void> => {
+  const { error } = await supabase.from("simulation_jobs").insert({
+    simulation_id: simulationId,
+    user_id: userId,
+    request_id: options?.requestId ?? null,
+  });
+
+  if (error && error.code !== UNIQUE_VIOLATION) {
+    throw new Error(
+      `Failed to queue simulation ${simulationId}: ${error.message}`,
+    );
+  }
+
+  logger.info(
+    "simulation_job_enqueued",
+    error ? "Simulation job already queued" : "Simulation job queued",
+    withLogContext({ simulationId, userId }, options),
+  );
+
+  wakeSimulationWorker();
+};
+
+export const scheduleSimulationComputation = async (
+  supabase: Supabase,
+  simulationId: string,
+  userId: string,
+  options?: SimulationComputeOptions,
+): Promise<void> => {
+  await enqueueSimulationJob(supabase, simulationId, userId, options);
+};
+
+export const retrySimulationIfErrored = async (
+  supabase: Supabase,
+  simulation: SimulationRow,
+  options?: SimulationComputeOptions,
+): Promise<boolean> => {
+  if (simulation.status !== "error") {
+    return false;
+  }
+
+  const { data, error } = await supabase
+    .from("simulations")
+    .update({
+      status: "running",
+      started_at: new Date().toISOString(),
+    })
+    .eq("id", simulation.id)
+    .eq("user_id", simulation.user_id)
+    .eq("status", "error")
+    .select("id")
+    .maybeSingle();
+
+  if (error) {
+    logger.error(
+      "simulation_compute_retry_failed",
+      "Failed to reset simulation status for retry",
+      withLogContext(
+        {
+          simulationId: simulation.id,
+          userId: simulation.user_id,
+          ...captureErrorDetails(error),
+        },
+        options,
+      ),
+    );
+    return false;
+  }
+
+  if (!data) {
+    logger.debug(
+      "simulation_compute_retry_skipped",
+      "Skip retry because status update did not match any rows",
+      withLogContext(
+        { simulationId: simulation.id, userId: simulation.user_id },
+        options,
+      ),
+    );
+    return false;
+  }
+
+  logger.info(
+    "simulation_compute_retry",
+    "Retrying simulation computation",
+    withLogContext(
+      { simulationId: simulation.id, userId: simulation.user_id },
+      options,
+    ),
+  );
+
+  try {
+    await scheduleSimulationComputation(
+      supabase,
+      simulation.id,
+      simulation.user_id,
+      options,
+    );
+  } catch (scheduleError) {
+    // The watchdog re-queues the simulation once it has been running long enough
+    logger.error(
+      "simulation_compute_retry_failed",
+      "Failed to queue simulation retry",
+      withLogContext(
+        {
+          simulationId: simulation.id,
+          userId: simulation.user_id,
+          ...captureErrorDetails(scheduleError),
+        },
+        options,
+      ),
+    );
+  }
+  return true;
+};
+
+/** Claims the oldest due job for a worker, counting the attempt; null when none is due. */
+export const claimSimulationJob = async (
+  supabase: Supabase,
+  workerId: string,
+): Promise<SimulationJobRow | null> => {
+  const { data, error } = await supabase.rpc("claim_simulation_job", {
+    p_worker_id: workerId,
+    p_lease_seconds: JOB_LEASE_SECONDS,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim simulation job: ${error.message}`);
+  }
+
+  return data?.[0] ?? null;
+};
+
+/**
+ * Settles a failed attempt: the job goes back to pending after the backoff delay, or
+ * fails together with its simulation when it has used all its attempts. Only the
+ * worker holding the lease (or the watchdog, for an expired lease) may settle it.
+ */
+const settleFailedAttempt = async (
+  supabase: Supabase,
+  job: SimulationJobRow,
+  cause: unknown,
+  now: Date,
+): Promise<void> => {
+  const { errorMessage } = captureErrorDetails(cause);
+  const exhausted = job.attempts >= job.max_attempts;
+
+  let update = supabase
+    .from("simulation_jobs")
+    .update(
+      exhausted
+        ? {
+            status: "failed" as const,
+            locked_by: null,
+            locked_until: null,
+            last_error: errorMessage,
+            completed_at: now.toISOString(),
+            updated_at: now.toISOString(),
+          }
+        : {
+            status: "pending" as const,
+            locked_by: null,
+            locked_until: null,
+            last_error: errorMessage,
+            run_after: new Date(
+              now.getTime() + retryDelayMs(job.attempts),
+            ).toISOString(),
+            updated_at: now.toISOString(),
+          },
+    )
+    .eq("id", job.id)
+    .eq("status", "running");
+
+  if (job.locked_until) {
+    update = update.eq("locked_until", job.locked_until);
+  }
+
+  const { data, error } = await update.select("id").maybeSingle();
+
+  if (error) {
+    throw new Error(
+      `Failed to settle simulation job ${job.id}: ${error.message}`,
+    );
+  }
+
+  if (!data) {
+    return;
+  }
+
+  if (!exhausted) {
+    logger.warn("simulation_job_retry_scheduled", "Simulation job will retry", {
+      jobId: job.id,
+      simulationId: job.simulation_id,
+      attempts: job.attempts,
+      maxAttempts: job.max_attempts,
+      errorMessage,
+    });
+    return;
+  }
+
+  logger.error("simulation_job_failed", "Simulation job gave up", {
+    jobId: job.id,
+    simulationId: job.simulation_id,
+    attempts: job.attempts,
+    errorMessage,
+  });
+  const finalStatus = await finalizeError(supabase, job.simulation_id, cause);
+  if (finalStatus === "error") {
+    publishUserEvent(job.user_id, "simulation.failed", {
+      simulationId: job.simulation_id,
+    });
+  }
+};
+
+/**
+ * Runs one claimed job. A computation that outlives the timeout is aborted at its next
+ * phase boundary, before it writes again, and the attempt only settles once it has
+ * stopped.
+ */
+export const runSimulationJob = async (
+  supabase: Supabase,
+  job: SimulationJobRow,
+): Promise<void> => {
+  const options = { requestId: job.request_id ?? undefined };
+
+  try {
+    await computeWithTimeout(
+      supabase,
+      job.simulation_id,
+      job.user_id,
+      options,
+      JOB_TIMEOUT_MS,
+    );
+  } catch (error) {
+    await settleFailedAttempt(supabase, job, error, new Date());
+    return;
+  }
+
+  const nowIso = new Date().toISOString();
+  let update = supabase
+    .from("simulation_jobs")
+    .update({
+      status: "completed",
+      locked_by: null,
+      locked_until: null,
+      completed_at: nowIso,
+      updated_at: nowIso,
+    })
+    .eq("id", job.id)
+    .eq("status", "running");
+
+  if (job.locked_until) {
+    update = update.eq("locked_until", job.locked_until);
+  }
+
+  const { error } = await update;
+
+  if (error) {
+    throw new Error(
+      `Failed to complete simulation job ${job.id}: ${error.message}`,
+    );
+  }
+};
+
+/** Settles running jobs whose lease ran out, e.g. because their worker crashed. */
+const reclaimExpiredJobs = async (
+  supabase: Supabase,
+  now: Date,
+): Promise<number> => {
+  const { data, error } = await supabase
+    .from("simulation_jobs")
+    .select("*")
+    .eq("status", "running")
+    .lt("locked_until", now.toISOString())
+    .limit(WATCHDOG_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load expired simulation jobs: ${error.message}`);
+  }
+
+  for (const job of data ?? []) {
+    await settleFailedAttempt(
+      supabase,
+      job,
+      new Error(`Lease of worker ${job.locked_by ?? "unknown"} expired`),
+      now,
+    );
+  }
+
+  return data?.length ?? 0;
+};
+
+/**
+ * Queues running simulations that have no open job, such as ones started before jobs
+ * were stored or whose job could not be queued.
+ */
+const requeueOrphanedSimulations = async (
+  supabase: Supabase,
+  now: Date,
+): Promise<number> => {
+  const cutoff = new Date(now.getTime() - ORPHAN_GRACE_MS).toISOString();
+  const { data: simulations, error } = await supabase
+    .from("simulations")
+    .select("id, user_id")
+    .eq("status", "running")
+    .lt("started_at", cutoff)
+    .limit(WATCHDOG_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load running simulations: ${error.message}`);
+  }
+
+  if (!simulations || simulations.length === 0) {
+    return 0;
+  }
+
+  const { data: openJobs, error: jobsError } = await supabase
+    .from("simulation_jobs")
+    .select("simulation_id")
+    .in("status", ["pending", "running"])
+    .in(
+      "simulation_id",
+      simulations.map((simulation) => simulation.id),
+    );
+
+  if (jobsError) {
+    throw new Error(
+      `Failed to load open simulation jobs: ${jobsError.message}`,
+    );
+  }
+
+  const withOpenJob = new Set((openJobs ?? []).map((job) => job.simulation_id));
+  const orphaned = simulations.filter(
+    (simulation) => !withOpenJob.has(simulation.id),
+  );
+
+  for (const simulation of orphaned) {
+    logger.warn(
+      "simulation_watchdog_requeue",
+      "Re-queueing running simulation without a job",
+      { simulationId: simulation.id, userId: simulation.user_id },
+    );
+    await enqueueSimulationJob(supabase, simulation.id, simulation.user_id);
+  }
+
+  return orphaned.length;
+};
+
+export const runSimulationWatchdog = async (
+  supabase: Supabase,
+  now = new Date(),
+): Promise<{ reclaimedJobs: number; requeuedSimulations: number }> => {
+  const reclaimedJobs = await reclaimExpiredJobs(supabase, now);
+  const requeuedSimulations = await requeueOrphanedSimulations(supabase, now);
+  return { reclaimedJobs, requeuedSimulations };
+};
+
+const drainSimulationJobs = async (state: SimulationWorker): Promise<void> => {
+  if (state.draining) {
+    return;
+  }
+
+  state.draining = true;
+  try {
+    for (;;) {
+      const job = await claimSimulationJob(state.supabase, state.workerId);
+      if (!job) {
+        return;
+      }
+      await runSimulationJob(state.supabase, job);
+    }
+  } catch (error) {
+    logger.error(
+      "simulation_worker_poll_failed",
+      "Simulation worker failed to process jobs",
+      { workerId: state.workerId, ...captureErrorDetails(error) },
+    );
+  } finally {
+    state.draining = false;
+  }
+};
+
+const watch = async (state: SimulationWorker): Promise<void> => {
+  try {
+    const result = await runSimulationWatchdog(state.supabase);
+    if (result.reclaimedJobs > 0 || result.requeuedSimulations > 0) {
+      logger.info(
+        "simulation_watchdog_run",
+        "Simulation watchdog recovered work",
+        {
+          workerId: state.workerId,
+          ...result,
+        },
+      );
+    }
+  } catch (error) {
+    logger.error("simulation_watchdog_failed", "Simulation watchdog failed", {
+      workerId: state.workerId,
+      ...captureErrorDetails(error),
+    });
+  }
+};
+
+/**
+ * Starts the in-process worker loop: it polls for due jobs one at a time and runs the
+ * watchdog periodically. The client must bypass row level security, as jobs belong
+ * to every user. Starting it twice is a no-op.
+ */
+export const startSimulationWorker = (supabase: Supabase): void => {
+  if (worker) {
+    return;
+  }
+
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  const state: SimulationWorker = {
+    supabase,
+    workerId,
+    pollTimer: setInterval(() => {
+      void drainSimulationJobs(state);
+    }, WORKER_POLL_INTERVAL_MS),
+    watchdogTimer: setInterval(() => {
+      void watch(state);
+    }, WATCHDOG_INTERVAL_MS),
+    draining: false,
+  };
+  // Background timers must not keep the process alive on shutdown
+  state.pollTimer.unref?.();
+  state.watchdogTimer.unref?.();
+  worker = state;
+
+  logger.info("simulation_worker_started", "Simulation worker started", {
+    workerId,
+  });
+
+  void watch(state).then(() => drainSimulationJobs(state));
+};
+
+export const stopSimulationWorker = (): void => {
+  if (!worker) {
+    return;
+  }
+
+  clearInterval(worker.pollTimer);
+  clearInterval(worker.watchdogTimer);
+  worker = null;
+};
+
+/** Lets the worker pick up a new job right away instead of at its next poll. */
+export const wakeSimulationWorker = (): void => {
+  if (worker) {
+    void drainSimulationJobs(worker);
+  }
+};
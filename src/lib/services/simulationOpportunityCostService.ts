@@ -0,0 +1,225 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  OpportunityCostAnalysisDto,
+  OpportunityCostPoint,
+} from "../../types.ts";
+import { ActiveSimulationNotFoundError, validationError } from "../errors.ts";
+import type { OpportunityCostQueryParsed } from "../validation/simulation.ts";
+import { fetchActiveSimulation } from "./dashboardService.ts";
+import {
+  buildProjectionSchedules,
+  type ProjectionSchedules,
+} from "./simulationProjectionService.ts";
+import { resolveMonthlyBudget } from "./simulationSharedService.ts";
+
+/** Bounds of the break-even search, as yearly returns before tax. */
+const BREAK_EVEN_MIN_RETURN = 0;
+const BREAK_EVEN_MAX_RETURN = 0.5;
+const BREAK_EVEN_ITERATIONS = 50;
+
+interface CashFlowMonth {
+  month: string;
+  /** Cash both paths have this month: loan payments plus the overpayment budget. */
+  available: number;
+  baselinePayment: number;
+  baselineDebt: number;
+  projectedPayment: number;
+  projectedDebt: number;
+}
+
+interface WealthParameters {
+  annualReturn: number;
+  taxRate: number;
+  inflation: number;
+}
+
+/**
+ * Lines the two schedules up month by month until both are repaid. The budget of a
+ * month is the flat limit or its budget step plus any planned lump sums. When the
+ * strategy pays more than the baseline and the budget together (reinvested freed
+ * installments after a baseline loan ends), that amount is what both paths have.
+ */
+const buildCashFlows = (
+  schedules: ProjectionSchedules,
+  budgetFor: (month: string) => number,
+): CashFlowMonth[] => {
+  const { baselineSchedule, projectedSchedule } = schedules;
+  const longer =
+    baselineSchedule.length >= projectedSchedule.length
+      ? baselineSchedule
+      : projectedSchedule;
+
+  return longer.map(({ month }, i) => {
+    const baseline = baselineSchedule[i];
+    const projected = projectedSchedule[i];
+    const baselinePayment = baseline
+      ? baseline.interest + baseline.principal
+      : 0;
+    const projectedPayment = projected
+      ? projected.interest + projected.principal + projected.fees
+      : 0;
+
+    return {
+      month,
+      available: Math.max(baselinePayment + budgetFor(month), projectedPayment),
+      baselinePayment,
+      baselineDebt: baseline?.remaining ?? 0,
+      projectedPayment,
+      projectedDebt: projected?.remaining ?? 0,
+    };
+  });
+};
+
+/**
+ * Net wealth of both paths, month by month, in today's money. Whatever a path does not
+ * pay to the bank goes into the investment at the end of the month; wealth counts the
+ * portfolio as if sold that month (gains taxed) minus the debt still owed.
+ */
+const projectNetWealth = (
+  cashFlows: readonly CashFlowMonth[],
+  { annualReturn, taxRate, inflation }: WealthParameters,
+): OpportunityCostPoint[] => {
+  const monthlyReturn = (1 + annualReturn) ** (1 / 12) - 1;
+  const monthlyInflation = (1 + inflation) ** (1 / 12) - 1;
+  const portfolios = {
+    overpay: { value: 0, contributed: 0 },
+    invest: { value: 0, contributed: 0 },
+  };
+
+  const grow = (
+    portfolio: { value: number; contributed: number },
+    contribution: number,
+  ) => {
+    portfolio.value = portfolio.value * (1 + monthlyReturn) + contribution;
+    portfolio.contributed += contribution;
+  };
+
+  const afterTax = ({ value, contributed }: typeof portfolios.overpay) =>
+    value - taxRate * Math.max(0, value - contributed);
+
+  return cashFlows.map((flow, i) => {
+    grow(
+      portfolios.overpay,
+      Math.max(0, flow.available - flow.projectedPayment),
+    );
+    grow(portfolios.invest, Math.max(0, flow.available - flow.baselinePayment));
+
+    const deflator = (1 + monthlyInflation) ** (i + 1);
+    return {
+      month: flow.month,
+      overpayNetWealth:
+        (afterTax(portfolios.overpay) - flow.projectedDebt) / deflator,
+      investNetWealth:
+        (afterTax(portfolios.invest) - flow.baselineDebt) / deflator,
+    };
+  });
+};
+
+const finalGap = (
+  cashFlows: readonly CashFlowMonth[],
+  parameters: WealthParameters,
+): number => {
+  const last = projectNetWealth(cashFlows, parameters).at(-1);
+  return last ? last.investNetWealth - last.overpayNetWealth : 0;
+};
+
+/**
+ * Bisects the yearly return at which investing the budget ends level with overpaying.
+ * A higher return helps the investing path more, as it holds more invested for longer.
+ */
+const findBreakEvenReturn = (
+  cashFlows: readonly CashFlowMonth[],
+  parameters: Omit<WealthParameters, "annualReturn">,
+): number | null => {
+  let low = BREAK_EVEN_MIN_RETURN;
+  let high = BREAK_EVEN_MAX_RETURN;
+
+  if (finalGap(cashFlows, { ...parameters, annualReturn: low }) >= 0) {
+    return low;
+  }
+  if (finalGap(cashFlows, { ...parameters, annualReturn: high }) < 0) {
+    return null;
+  }
+
+  for (let i = 0; i < BREAK_EVEN_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (finalGap(cashFlows, { ...parameters, annualReturn: mid }) < 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return (low + high) / 2;
+};
+
+/**
+ * Compares the active simulation with investing its overpayment budget instead. Both
+ * paths start from the same projection series as the dashboard charts and spend the
+ * same cash each month; the counterfactual pays only the scheduled installments.
+ */
+export const analyzeOpportunityCost = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  query: OpportunityCostQueryParsed,
+  now = new Date(),
+): Promise<OpportunityCostAnalysisDto> => {
+  const simulation = await fetchActiveSimulation(supabase, userId, now);
+  if (!simulation) {
+    throw new ActiveSimulationNotFoundError();
+  }
+
+  const schedules = await buildProjectionSchedules(
+    supabase,
+    userId,
+    simulation,
+    { now },
+  );
+
+  if (schedules.baselineSchedule.length === 0) {
+    throw validationError(
+      "NO_OPEN_LOANS",
+      "There are no loans to compare against investing",
+    );
+  }
+
+  const lumpSumsByMonth = new Map<string, number>();
+  for (const lumpSum of simulation.lumpSums) {
+    lumpSumsByMonth.set(
+      lumpSum.month,
+      (lumpSumsByMonth.get(lumpSum.month) ?? 0) + lumpSum.amount,
+    );
+  }
+
+  const cashFlows = buildCashFlows(
+    schedules,
+    (month) =>
+      resolveMonthlyBudget(
+        schedules.monthlyOverpaymentLimit,
+        month,
+        simulation.overpaymentBudgetSchedule,
+      ) + (lumpSumsByMonth.get(month) ?? 0),
+  );
+
+  const points = projectNetWealth(cashFlows, query);
+  const last = points[points.length - 1];
+
+  return {
+    simulationId: simulation.id,
+    annualReturn: query.annualReturn,
+    taxRate: query.taxRate,
+    inflation: query.inflation,
+    monthlyOverpaymentLimit: schedules.monthlyOverpaymentLimit,
+    points,
+    finalOverpayNetWealth: last.overpayNetWealth,
+    finalInvestNetWealth: last.investNetWealth,
+    breakEvenReturn: findBreakEvenReturn(cashFlows, {
+      taxRate: query.taxRate,
+      inflation: query.inflation,
+    }),
+    betterPath:
+      last.investNetWealth > last.overpayNetWealth ? "invest" : "overpay",
+  };
+};
@@ -7,9 +7,14 @@ import type {
   ActiveSimulationSummary,
 } from "../../types.ts";
 import { internalError } from "../errors.ts";
+import { fetchScheduledLoanChanges } from "./loanChangeEventService.ts";
+import { fetchRateIndexTimeline } from "./rateIndexService.ts";
+import { fetchScheduleEntries } from "./simulationScheduleService.ts";
 import {
   generateBaselineProjection,
   generateStrategyProjection,
+  isoMonthString,
+  sumMoney,
 } from "./simulationSharedService.ts";
 
 type LoanRow = Database["public"]["Tables"]["loans"]["Row"];
@@ -73,26 +78,43 @@ const fetchUserSettings = async (
   return data;
 };
 
-export const buildMonthlyProjectionSeries = async (
+export interface ProjectionSchedules {
+  baselineSchedule: ReturnType<typeof generateBaselineProjection>;
+  projectedSchedule: ReturnType<typeof generateStrategyProjection>;
+  /** Flat monthly budget the projected schedule was built with. */
+  monthlyOverpaymentLimit: number;
+}
+
+/**
+ * Projects the user's loans without overpayments and under the simulation's strategy,
+ * both from the current month. Empty schedules when the user has no loans.
+ */
+export const buildProjectionSchedules = async (
   supabase: Supabase,
   userId: string,
   simulation: ActiveSimulationSummary,
   options?: ProjectionOptions,
-): Promise<{
-  monthlyBalances: DashboardOverviewGraphMonthlyBalancePoint[];
-  interestVsSaved: DashboardOverviewGraphInterestPoint[];
-}> => {
+): Promise<ProjectionSchedules> => {
   const now = options?.now || new Date();
   const startYear = now.getFullYear();
   const startMonth = now.getMonth();
 
   const loans = await fetchLoans(supabase, userId);
   const userSettings = await fetchUserSettings(supabase, userId);
+  const rateIndexTimeline = await fetchRateIndexTimeline(
+    supabase,
+    userId,
+    loans,
+  );
+  const loanChanges = await fetchScheduledLoanChanges(supabase, userId, loans);
+
+  const monthlyOverpaymentLimit = userSettings?.monthly_overpayment_limit || 0;
 
   if (loans.length === 0) {
     return {
-      monthlyBalances: [],
-      interestVsSaved: [],
+      baselineSchedule: [],
+      projectedSchedule: [],
+      monthlyOverpaymentLimit,
     };
   }
 
@@ -102,28 +124,156 @@ export const buildMonthlyProjectionSeries = async (
     startYear,
     startMonth,
     options?.maxMonths ?? DEFAULT_MAX_MONTHS,
+    0,
+    { rateIndexTimeline, loanChanges },
   );
   const projectedSchedule = generateStrategyProjection(
     loans,
     simulation.strategy,
-    simulation.paymentReductionTarget,
-    userSettings?.monthly_overpayment_limit || 0,
+    simulation.goal === "payment_reduction"
+      ? simulation.paymentReductionTarget
+      : null,
+    monthlyOverpaymentLimit,
     userSettings?.reinvest_reduced_payments || false,
     startYear,
     startMonth,
     options?.maxMonths ?? DEFAULT_MAX_MONTHS,
+    {
+      strategyParams: simulation.strategyParams,
+      strategyPhases: simulation.strategyPhases,
+      budgetSchedule: simulation.overpaymentBudgetSchedule,
+      lumpSums: simulation.lumpSums,
+      loanRules: simulation.loanRules,
+      rateIndexTimeline,
+      loanChanges,
+    },
   );
 
+  return { baselineSchedule, projectedSchedule, monthlyOverpaymentLimit };
+};
+
+/** Baseline values the dashboard series reads per month. */
+interface SeriesBaselineMonth {
+  month: string;
+  interest: number;
+  loanData: { loanId: string; interest: number }[];
+}
+
+/** Projected values the dashboard series reads per month. */
+interface SeriesProjectedMonth {
+  month: string;
+  remaining: number;
+  interest: number;
+  fees: number;
+  loanData: {
+    loanId: string;
+    loanAmount: number;
+    remaining: number;
+    interest: number;
+    prepaymentFee: number;
+  }[];
+}
+
+/**
+ * Reads the simulation's stored schedule from the current month on and regroups it by
+ * month. Null when nothing is stored (simulations computed before schedules were kept).
+ */
+const loadStoredSeriesSchedules = async (
+  supabase: Supabase,
+  userId: string,
+  simulation: ActiveSimulationSummary,
+  now: Date,
+): Promise<{
+  baselineSchedule: SeriesBaselineMonth[];
+  projectedSchedule: SeriesProjectedMonth[];
+} | null> => {
+  const entries = await fetchScheduleEntries(supabase, userId, simulation.id, {
+    fromMonth: isoMonthString(now.getFullYear(), now.getMonth()),
+  });
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const loans = await fetchLoans(supabase, userId);
+  const loanAmounts = new Map(loans.map((loan) => [loan.id, loan.principal]));
+  const baselineSchedule: SeriesBaselineMonth[] = [];
+  const projectedSchedule: SeriesProjectedMonth[] = [];
+
+  for (const entry of entries) {
+    let baseline = baselineSchedule.at(-1);
+    let projected = projectedSchedule.at(-1);
+    if (!baseline || !projected || projected.month !== entry.month) {
+      baseline = { month: entry.month, interest: 0, loanData: [] };
+      projected = {
+        month: entry.month,
+        remaining: 0,
+        interest: 0,
+        fees: 0,
+        loanData: [],
+      };
+      baselineSchedule.push(baseline);
+      projectedSchedule.push(projected);
+    }
+
+    baseline.interest = sumMoney([baseline.interest, entry.baselineInterest]);
+    baseline.loanData.push({
+      loanId: entry.loanId,
+      interest: entry.baselineInterest,
+    });
+
+    projected.remaining = sumMoney([projected.remaining, entry.balance]);
+    projected.interest = sumMoney([projected.interest, entry.interest]);
+    projected.fees = sumMoney([projected.fees, entry.prepaymentFee]);
+    projected.loanData.push({
+      loanId: entry.loanId,
+      loanAmount: loanAmounts.get(entry.loanId) ?? 0,
+      remaining: entry.balance,
+      interest: entry.interest,
+      prepaymentFee: entry.prepaymentFee,
+    });
+  }
+
+  return { baselineSchedule, projectedSchedule };
+};
+
+/**
+ * Chart series for the dashboard. Reads the active simulation's stored schedule and
+ * projects on the fly only when none is stored.
+ */
+export const buildMonthlyProjectionSeries = async (
+  supabase: Supabase,
+  userId: string,
+  simulation: ActiveSimulationSummary,
+  options?: ProjectionOptions,
+): Promise<{
+  monthlyBalances: DashboardOverviewGraphMonthlyBalancePoint[];
+  interestVsSaved: DashboardOverviewGraphInterestPoint[];
+}> => {
+  const { baselineSchedule, projectedSchedule } =
+    (await loadStoredSeriesSchedules(
+      supabase,
+      userId,
+      simulation,
+      options?.now || new Date(),
+    )) ??
+    (await buildProjectionSchedules(supabase, userId, simulation, options));
+
   // Aggregate per month with per-loan data
   const monthlyData: Record<
     string,
     {
       totalRemaining: number;
       interest: number;
+      fees: number;
       baselineInterest: number;
       projectedLoans: Map<
         string,
-        { loanAmount: number; remaining: number; interest: number }
+        {
+          loanAmount: number;
+          remaining: number;
+          interest: number;
+          prepaymentFee: number;
+        }
       >;
       baselineLoans: Map<string, { interest: number }>;
     }
@@ -135,6 +285,7 @@ export const buildMonthlyProjectionSeries = async (
       monthlyData[entry.month] = {
         totalRemaining: 0,
         interest: 0,
+        fees: 0,
         baselineInterest: 0,
         projectedLoans: new Map(),
         baselineLoans: new Map(),
@@ -156,6 +307,7 @@ export const buildMonthlyProjectionSeries = async (
       monthlyData[entry.month] = {
         totalRemaining: 0,
         interest: 0,
+        fees: 0,
         baselineInterest: 0,
         projectedLoans: new Map(),
         baselineLoans: new Map(),
@@ -163,6 +315,7 @@ export const buildMonthlyProjectionSeries = async (
     }
     monthlyData[entry.month].totalRemaining += entry.remaining;
     monthlyData[entry.month].interest += entry.interest;
+    monthlyData[entry.month].fees += entry.fees;
 
     // Store per-loan projected data
     for (const loanEntry of entry.loanData) {
@@ -170,6 +323,7 @@ export const buildMonthlyProjectionSeries = async (
         loanAmount: loanEntry.loanAmount,
         remaining: loanEntry.remaining,
         interest: loanEntry.interest,
+        prepaymentFee: loanEntry.prepaymentFee,
       });
     }
   }
@@ -212,7 +366,12 @@ export const buildMonthlyProjectionSeries = async (
         loanId,
         loanAmount: projectedData.loanAmount,
         interest: projectedData.interest,
-        interestSaved: Math.max(0, baselineInterest - projectedData.interest),
+        interestSaved: Math.max(
+          0,
+          baselineInterest -
+            projectedData.interest -
+            projectedData.prepaymentFee,
+        ),
       });
     });
 
@@ -224,7 +383,11 @@ export const buildMonthlyProjectionSeries = async (
     interestVsSaved.push({
       month,
       interest: data.interest,
-      interestSaved: Math.max(0, data.baselineInterest - data.interest),
+      // Saved interest is reported net of prepayment commissions
+      interestSaved: Math.max(
+        0,
+        data.baselineInterest - data.interest - data.fees,
+      ),
       loans: loanInterests,
     });
   }
@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  RecommendStrategiesCommand,
+  StrategyRecommendationDto,
+  StrategyRecommendationResponse,
+} from "../../types.ts";
+import { internalError, validationError } from "../errors.ts";
+import { listRegisteredStrategies } from "../strategies/registry.ts";
+import {
+  serializeLoanRules,
+  serializeLumpSums,
+} from "../validation/simulation.ts";
+import { fetchScheduledLoanChanges } from "./loanChangeEventService.ts";
+import { fetchRateIndexTimeline } from "./rateIndexService.ts";
+import {
+  compareStrategies,
+  type SimulationMetricsInput,
+} from "./simulationCalculationService.ts";
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+type RankedCandidate = Omit<StrategyRecommendationDto, "rank">;
+
+/**
+ * Orders candidates for the goal: payment reduction prefers the earliest month the
+ * target is reached, fastest payoff the fewest months. Ties go to the larger saving.
+ */
+const compareForGoal =
+  (goal: RecommendStrategiesCommand["goal"]) =>
+  (a: RankedCandidate, b: RankedCandidate): number => {
+    if (goal === "payment_reduction") {
+      const aMonth = a.paymentReductionTargetMonth ?? "9999-12-01";
+      const bMonth = b.paymentReductionTargetMonth ?? "9999-12-01";
+      if (aMonth !== bMonth) {
+        return aMonth.localeCompare(bMonth);
+      }
+    }
+
+    if (a.monthsToPayoff !== b.monthsToPayoff) {
+      return a.monthsToPayoff - b.monthsToPayoff;
+    }
+
+    return b.totalInterestSaved - a.totalInterestSaved;
+  };
+
+/**
+ * Runs every registered strategy against the user's open loans and current settings
+ * and ranks the outcomes for the requested goal. Nothing is persisted. Strategies that
+ * cannot run without parameters are left out.
+ */
+export const recommendStrategies = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  cmd: RecommendStrategiesCommand,
+  now = new Date(),
+): Promise<StrategyRecommendationResponse> => {
+  const { data: loans, error: loansError } = await supabase
+    .from("loans")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_closed", false);
+
+  if (loansError) {
+    throw internalError("SUPABASE_ERROR", "Failed to load loans", {
+      cause: loansError,
+      details: withSupabaseError(loansError),
+    });
+  }
+
+  if (!loans || loans.length === 0) {
+    throw validationError(
+      "NO_OPEN_LOANS",
+      "Add at least one open loan before comparing strategies",
+    );
+  }
+
+  const { data: userSettings, error: settingsError } = await supabase
+    .from("user_settings")
+    .select(
+      "monthly_overpayment_limit, overpayment_budget_schedule, reinvest_reduced_payments",
+    )
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (settingsError) {
+    throw internalError("SUPABASE_ERROR", "Failed to load user settings", {
+      cause: settingsError,
+      details: withSupabaseError(settingsError),
+    });
+  }
+
+  const rateIndexTimeline = await fetchRateIndexTimeline(
+    supabase,
+    userId,
+    loans,
+  );
+  const loanChanges = await fetchScheduledLoanChanges(supabase, userId, loans);
+
+  const nowIso = now.toISOString();
+  const draft: Omit<
+    SimulationMetricsInput,
+    "strategy" | "strategy_params" | "strategy_phases"
+  > = {
+    goal: cmd.goal,
+    payment_reduction_target:
+      cmd.goal === "payment_reduction"
+        ? (cmd.paymentReductionTarget ?? null)
+        : null,
+    monthly_overpayment_limit: userSettings?.monthly_overpayment_limit ?? 0,
+    reinvest_reduced_payments: userSettings?.reinvest_reduced_payments ?? false,
+    overpayment_budget_schedule:
+      userSettings?.overpayment_budget_schedule ?? null,
+    lump_sums: serializeLumpSums(cmd.lumpSums ?? []),
+    loan_rules: serializeLoanRules(cmd.loanRules ?? []),
+    started_at: nowIso,
+    created_at: nowIso,
+  };
+
+  const { baseline, outcomes } = compareStrategies(
+    { loans, rateIndexTimeline, loanChanges, simulation: draft },
+    listRegisteredStrategies().filter(
+      (strategy) => strategy.parseParams(null).success,
+    ),
+  );
+
+  const items = outcomes
+    .sort(compareForGoal(cmd.goal))
+    .map((outcome, index) => ({ ...outcome, rank: index + 1 }));
+
+  return {
+    goal: cmd.goal,
+    baselineMonthsToPayoff: baseline?.monthsToPayoff ?? 0,
+    baselineInterest: baseline?.totalInterest ?? 0,
+    recommendedStrategyId: items[0]?.strategyId ?? null,
+    items,
+  };
+};
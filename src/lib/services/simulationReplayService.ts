@@ -0,0 +1,245 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  SimulationReplayDifference,
+  SimulationReplayDto,
+  SimulationReplayScheduleSummary,
+  SimulationScheduleEntryDto,
+} from "../../types.ts";
+import { conflictError, internalError, notFoundError } from "../errors.ts";
+import { parseStoredInputSnapshot } from "../validation/simulation.ts";
+import {
+  aggregateMetrics,
+  buildInputFingerprint,
+  buildScheduleEntries,
+  computeSimulationMetrics,
+  loadSimulationInputs,
+  type ScheduleEntryDraft,
+  type SimulationComputationContext,
+  type SimulationMetrics,
+} from "./simulationCalculationService.ts";
+import { fetchScheduleEntries } from "./simulationScheduleService.ts";
+import { SIMULATION_ENGINE_VERSION } from "./simulationSharedService.ts";
+
+type SimulationRow = Database["public"]["Tables"]["simulations"]["Row"];
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const REPLAYABLE_STATUSES: SimulationRow["status"][] = [
+  "completed",
+  "active",
+  "stale",
+];
+
+/** Amounts of a schedule row compared between the stored run and the replay. */
+const SCHEDULE_AMOUNT_FIELDS = [
+  "payment",
+  "overpayment",
+  "prepaymentFee",
+  "interest",
+  "principal",
+  "balance",
+  "baselineInterest",
+] as const satisfies readonly (keyof ScheduleEntryDraft &
+  keyof SimulationScheduleEntryDto)[];
+
+const fetchSimulation = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+): Promise<SimulationRow> => {
+  const { data, error } = await supabase
+    .from("simulations")
+    .select("*")
+    .eq("id", simulationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to fetch simulation", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  if (!data) {
+    throw notFoundError("SIMULATION_NOT_FOUND", "Simulation not found");
+  }
+
+  return data;
+};
+
+const compareMetrics = (
+  simulation: SimulationRow,
+  replayed: SimulationMetrics,
+): SimulationReplayDifference[] => {
+  const pairs: SimulationReplayDifference[] = [
+    {
+      field: "baselineInterest",
+      stored: simulation.baseline_interest,
+      replayed: replayed.baselineInterest,
+    },
+    {
+      field: "totalInterestSaved",
+      stored: simulation.total_interest_saved,
+      replayed: replayed.totalInterestSaved,
+    },
+    {
+      field: "projectedMonthsToPayoff",
+      stored: simulation.projected_months_to_payoff,
+      replayed: replayed.projectedMonthsToPayoff,
+    },
+    {
+      field: "projectedPayoffMonth",
+      stored: simulation.projected_payoff_month,
+      replayed: replayed.projectedPayoffMonth,
+    },
+    {
+      field: "paymentReductionTargetMonth",
+      stored: simulation.payment_reduction_target_month,
+      replayed: replayed.paymentReductionTargetMonth,
+    },
+  ];
+
+  return pairs.filter((pair) => pair.stored !== pair.replayed);
+};
+
+const compareSchedules = (
+  stored: readonly SimulationScheduleEntryDto[],
+  replayed: readonly ScheduleEntryDraft[],
+): SimulationReplayScheduleSummary => {
+  const keyOf = (entry: { month: string; loanId: string }) =>
+    `${entry.month}|${entry.loanId}`;
+  const storedByKey = new Map(stored.map((entry) => [keyOf(entry), entry]));
+  const replayedKeys = new Set(replayed.map(keyOf));
+
+  const mismatchedMonths: string[] = [];
+  for (const entry of replayed) {
+    const match = storedByKey.get(keyOf(entry));
+    if (
+      !match ||
+      SCHEDULE_AMOUNT_FIELDS.some((field) => match[field] !== entry[field])
+    ) {
+      mismatchedMonths.push(entry.month);
+    }
+  }
+  for (const entry of stored) {
+    if (!replayedKeys.has(keyOf(entry))) {
+      mismatchedMonths.push(entry.month);
+    }
+  }
+
+  return {
+    storedEntries: stored.length,
+    replayedEntries: replayed.length,
+    mismatchedEntries: mismatchedMonths.length,
+    firstMismatchMonth:
+      mismatchedMonths.length > 0 ? mismatchedMonths.sort()[0] : null,
+  };
+};
+
+/**
+ * The inputs a simulation was computed from. Simulations stored without them fall back
+ * to the user's current inputs, which only stand in for them while the fingerprint
+ * still matches.
+ */
+const loadReplayInputs = async (
+  supabase: SupabaseClient<Database>,
+  simulation: SimulationRow,
+  userId: string,
+): Promise<SimulationComputationContext> => {
+  const snapshot = parseStoredInputSnapshot(simulation.input_snapshot);
+  if (snapshot) {
+    return { simulation, ...snapshot };
+  }
+
+  try {
+    return await loadSimulationInputs(supabase, simulation, userId);
+  } catch (error) {
+    throw internalError(
+      "SIMULATION_REPLAY_FAILED",
+      "Failed to load simulation inputs",
+      { cause: error },
+    );
+  }
+};
+
+/**
+ * Recomputes a finished simulation with the current engine from the inputs it was
+ * computed from, and reports how the result differs from what was stored. Nothing is
+ * saved. A replay whose inputs no longer match the stored fingerprint is refused, as
+ * its differences would not be the engine's.
+ */
+export const replaySimulation = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+): Promise<SimulationReplayDto> => {
+  const simulation = await fetchSimulation(supabase, userId, simulationId);
+
+  if (!REPLAYABLE_STATUSES.includes(simulation.status)) {
+    throw conflictError(
+      "SIMULATION_NOT_COMPLETED",
+      "Only completed simulations can be replayed",
+      { status: simulation.status },
+    );
+  }
+
+  const context = await loadReplayInputs(supabase, simulation, userId);
+  const inputFingerprint = buildInputFingerprint(context);
+  const inputsChanged =
+    simulation.input_fingerprint === null
+      ? null
+      : simulation.input_fingerprint !== inputFingerprint;
+
+  if (inputsChanged) {
+    throw conflictError(
+      "SIMULATION_INPUTS_CHANGED",
+      "The inputs this simulation was computed from are no longer available",
+      {
+        storedFingerprint: simulation.input_fingerprint,
+        currentFingerprint: inputFingerprint,
+      },
+    );
+  }
+
+  const { baseline, strategy, projection } = computeSimulationMetrics(context);
+  const metrics = aggregateMetrics(baseline, strategy);
+  const storedSchedule = await fetchScheduleEntries(
+    supabase,
+    userId,
+    simulationId,
+  );
+
+  const differences = compareMetrics(simulation, metrics);
+  const schedule = compareSchedules(
+    storedSchedule,
+    buildScheduleEntries(projection),
+  );
+
+  return {
+    simulationId,
+    stored: {
+      engineVersion: simulation.engine_version,
+      inputFingerprint: simulation.input_fingerprint,
+    },
+    replayed: {
+      engineVersion: SIMULATION_ENGINE_VERSION,
+      inputFingerprint,
+    },
+    engineChanged: simulation.engine_version !== SIMULATION_ENGINE_VERSION,
+    inputsChanged,
+    matches: differences.length === 0 && schedule.mismatchedEntries === 0,
+    differences,
+    schedule,
+  };
+};
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  SimulationScheduleEntryDto,
+  SimulationScheduleResponse,
+} from "../../types.ts";
+import { internalError, notFoundError } from "../errors.ts";
+import type { SimulationScheduleQueryParsed } from "../validation/simulation.ts";
+
+type ScheduleEntryRow =
+  Database["public"]["Tables"]["simulation_schedule_entries"]["Row"];
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+/** Rows read per request when a consumer needs a whole schedule (PostgREST caps responses). */
+const FETCH_BATCH_SIZE = 1000;
+
+const toDto = (row: ScheduleEntryRow): SimulationScheduleEntryDto => ({
+  loanId: row.loan_id,
+  month: row.month,
+  payment: row.payment,
+  overpayment: row.overpayment,
+  prepaymentFee: row.prepayment_fee,
+  interest: row.interest,
+  principal: row.principal,
+  balance: row.balance,
+  baselineInterest: row.baseline_interest,
+});
+
+const ensureSimulationExists = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+): Promise<void> => {
+  const { data, error } = await supabase
+    .from("simulations")
+    .select("id")
+    .eq("id", simulationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to fetch simulation", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  if (!data) {
+    throw notFoundError("SIMULATION_NOT_FOUND", "Simulation not found");
+  }
+};
+
+/**
+ * Pages through a simulation's stored schedule, ordered by month and loan. Simulations
+ * computed before schedules were stored return no entries.
+ */
+export const listSimulationSchedule = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+  query: SimulationScheduleQueryParsed,
+): Promise<SimulationScheduleResponse> => {
+  await ensureSimulationExists(supabase, userId, simulationId);
+
+  const { page, pageSize, fromMonth, toMonth, loanId } = query;
+
+  let selectQuery = supabase
+    .from("simulation_schedule_entries")
+    .select("*", { count: "exact" })
+    .eq("simulation_id", simulationId)
+    .eq("user_id", userId);
+
+  if (fromMonth) {
+    selectQuery = selectQuery.gte("month", fromMonth);
+  }
+  if (toMonth) {
+    selectQuery = selectQuery.lte("month", toMonth);
+  }
+  if (loanId) {
+    selectQuery = selectQuery.eq("loan_id", loanId);
+  }
+
+  const offset = (page - 1) * pageSize;
+  const { data, error, count } = await selectQuery
+    .order("month", { ascending: true })
+    .order("loan_id", { ascending: true })
+    .range(offset, offset + pageSize - 1);
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to fetch schedule", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  const totalItems = count ?? 0;
+
+  return {
+    items: (data ?? []).map(toDto),
+    page,
+    pageSize,
+    totalItems,
+    totalPages: Math.ceil(totalItems / pageSize),
+  };
+};
+
+/**
+ * Reads a simulation's whole stored schedule within an optional month range, ordered
+ * by month and loan. Empty when the simulation has no stored schedule.
+ */
+export const fetchScheduleEntries = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+  range: { fromMonth?: string; toMonth?: string } = {},
+): Promise<SimulationScheduleEntryDto[]> => {
+  const entries: SimulationScheduleEntryDto[] = [];
+
+  for (let offset = 0; ; offset += FETCH_BATCH_SIZE) {
+    let selectQuery = supabase
+      .from("simulation_schedule_entries")
+      .select("*")
+      .eq("simulation_id", simulationId)
+      .eq("user_id", userId);
+
+    if (range.fromMonth) {
+      selectQuery = selectQuery.gte("month", range.fromMonth);
+    }
+    if (range.toMonth) {
+      selectQuery = selectQuery.lte("month", range.toMonth);
+    }
+
+    const { data, error } = await selectQuery
+      .order("month", { ascending: true })
+      .order("loan_id", { ascending: true })
+      .range(offset, offset + FETCH_BATCH_SIZE - 1);
+
+    if (error) {
+      throw internalError("SUPABASE_ERROR", "Failed to fetch schedule", {
+        cause: error,
+        details: withSupabaseError(error),
+      });
+    }
+
+    entries.push(...(data ?? []).map(toDto));
+    if (!data || data.length < FETCH_BATCH_SIZE) {
+      return entries;
+    }
+  }
+};
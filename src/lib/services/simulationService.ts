@@ -20,11 +20,30 @@ import {
   validationError,
 } from "../errors.ts";
 import { invalidateDashboardCache } from "./dashboardService.ts";
+import { publishUserEvent } from "../events.ts";
 import { logger } from "../logger.ts";
+import {
+  CUSTOM_WEIGHTS_STRATEGY_ID,
+  listWeightedLoanIds,
+} from "../strategies/customWeightsStrategy.ts";
+import {
+  parseStoredLoanRules,
+  parseStoredLumpSums,
+  parseStoredOptimalityReport,
+  parseStoredStrategyPhases,
+  serializeLoanRules,
+  serializeLumpSums,
+  serializeStrategyPhases,
+} from "../validation/simulation.ts";
+import {
+  parseStoredBudgetSchedule,
+  serializeBudgetSchedule,
+} from "../validation/userSettings.ts";
 import {
   scheduleSimulationComputation,
   retrySimulationIfErrored,
-} from "./simulationCalculationService.ts";
+} from "./simulationJobService.ts";
+import { isEngineOutdated } from "./simulationSharedService.ts";
 
 interface SimulationServiceOptions {
   requestId?: string;
@@ -130,11 +149,14 @@ export const markActiveSimulationStale = async (
     );
   }
 
-  if (!data) {
+  if (!data || data.length === 0) {
     return false;
   }
 
-  return Array.isArray(data) ? data.length > 0 : true;
+  publishUserEvent(resolvedUserId, "simulation.stale", {
+    simulationIds: data.map((simulation) => simulation.id),
+  });
+  return true;
 };
 
 export const listSimulations = async (
@@ -195,13 +217,26 @@ export const listSimulations = async (
     id: row.id,
     userId: row.user_id,
     strategy: row.strategy,
+    strategyParams: row.strategy_params,
+    strategyPhases: parseStoredStrategyPhases(row.strategy_phases),
     goal: row.goal,
     status: row.status,
     isActive: row.is_active,
     stale: row.stale,
     monthlyOverpaymentLimit: row.monthly_overpayment_limit,
+    overpaymentBudgetSchedule: parseStoredBudgetSchedule(
+      row.overpayment_budget_schedule,
+    ),
     paymentReductionTarget: row.payment_reduction_target,
+    paymentReductionTargetMonth: row.payment_reduction_target_month,
     reinvestReducedPayments: row.reinvest_reduced_payments,
+    lumpSums: parseStoredLumpSums(row.lump_sums),
+    loanRules: parseStoredLoanRules(row.loan_rules),
+    optimalityReport: parseStoredOptimalityReport(row.optimality_report),
+    engineVersion: row.engine_version,
+    inputFingerprint: row.input_fingerprint,
+    engineOutdated:
+      row.completed_at !== null && isEngineOutdated(row.engine_version),
     baselineInterest: row.baseline_interest,
     totalInterestSaved: row.total_interest_saved,
     projectedMonthsToPayoff: row.projected_months_to_payoff,
@@ -222,12 +257,113 @@ export const listSimulations = async (
   };
 };
 
+/**
+ * Pinned lump sums, loan rules, custom strategy weights and phase triggers must refer
+ * to the user's open loans; an entry for a closed or foreign loan would never apply.
+ */
+const assertOpenLoansReferenced = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  loanIds: string[],
+  failure: { code: string; message: string },
+): Promise<void> => {
+  if (loanIds.length === 0) {
+    return;
+  }
+
+  const { data, error } = await supabase
+    .from("loans")
+    .select("id")
+    .eq("user_id", userId)
+    .eq("is_closed", false)
+    .in("id", loanIds);
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to verify referenced loans", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  const openLoanIds = new Set((data ?? []).map((loan) => loan.id));
+  const missingLoanIds = loanIds.filter((loanId) => !openLoanIds.has(loanId));
+
+  if (missingLoanIds.length > 0) {
+    throw validationError(failure.code, failure.message, {
+      loanIds: missingLoanIds,
+    });
+  }
+};
+
 export const queueSimulation = async (
   supabase: SupabaseClient<Database>,
   userId: string,
   cmd: CreateSimulationCommand,
   options?: SimulationServiceOptions,
 ): Promise<SimulationQueuedResponse> => {
+  const lumpSums = cmd.lumpSums ?? [];
+  await assertOpenLoansReferenced(
+    supabase,
+    userId,
+    Array.from(
+      new Set(
+        lumpSums
+          .map((lumpSum) => lumpSum.loanId)
+          .filter((loanId): loanId is string => Boolean(loanId)),
+      ),
+    ),
+    {
+      code: "LUMP_SUM_LOAN_NOT_FOUND",
+      message: "Lump sums can only be pinned to open loans",
+    },
+  );
+  const loanRules = cmd.loanRules ?? [];
+  await assertOpenLoansReferenced(
+    supabase,
+    userId,
+    loanRules.map((rule) => rule.loanId),
+    {
+      code: "LOAN_RULE_LOAN_NOT_FOUND",
+      message: "Loan rules can only target open loans",
+    },
+  );
+  const strategyPhases = cmd.strategyPhases ?? [];
+  const weightedLoanIds = [
+    { strategy: cmd.strategy, strategyParams: cmd.strategyParams },
+    ...strategyPhases,
+  ].flatMap((phase) =>
+    phase.strategy === CUSTOM_WEIGHTS_STRATEGY_ID
+      ? listWeightedLoanIds(phase.strategyParams)
+      : [],
+  );
+  await assertOpenLoansReferenced(
+    supabase,
+    userId,
+    Array.from(new Set(weightedLoanIds)),
+    {
+      code: "STRATEGY_WEIGHT_LOAN_NOT_FOUND",
+      message: "Strategy weights can only target open loans",
+    },
+  );
+  const triggerLoanIds = strategyPhases.flatMap(({ startsWhen }) => {
+    if (startsWhen.type === "loan_closed") {
+      return startsWhen.loanIds;
+    }
+    if (startsWhen.type === "balance_threshold" && startsWhen.loanId) {
+      return [startsWhen.loanId];
+    }
+    return [];
+  });
+  await assertOpenLoansReferenced(
+    supabase,
+    userId,
+    Array.from(new Set(triggerLoanIds)),
+    {
+      code: "STRATEGY_PHASE_LOAN_NOT_FOUND",
+      message: "Strategy phase triggers can only refer to open loans",
+    },
+  );
+
   // Check for existing running simulation and cancel it
   const { data: runningSimulations, error: fetchError } = await supabase
     .from("simulations")
@@ -331,12 +467,16 @@ export const queueSimulation = async (
     );
   }
 
-  // Load user settings if monthlyOverpaymentLimit not provided
+  // Load user settings if the overpayment limit or budget schedule is not provided
   let monthlyOverpaymentLimit = cmd.monthlyOverpaymentLimit;
-  if (monthlyOverpaymentLimit === undefined) {
+  let overpaymentBudgetSchedule = cmd.overpaymentBudgetSchedule;
+  if (
+    monthlyOverpaymentLimit === undefined ||
+    overpaymentBudgetSchedule === undefined
+  ) {
     const { data: userSettings, error: settingsError } = await supabase
       .from("user_settings")
-      .select("monthly_overpayment_limit")
+      .select("monthly_overpayment_limit, overpayment_budget_schedule")
       .eq("user_id", userId)
       .single();
 
@@ -347,7 +487,14 @@ export const queueSimulation = async (
       });
     }
 
-    monthlyOverpaymentLimit = userSettings.monthly_overpayment_limit;
+    if (monthlyOverpaymentLimit === undefined) {
+      monthlyOverpaymentLimit = userSettings.monthly_overpayment_limit;
+    }
+    if (overpaymentBudgetSchedule === undefined) {
+      overpaymentBudgetSchedule = parseStoredBudgetSchedule(
+        userSettings.overpayment_budget_schedule,
+      );
+    }
   }
 
   // Insert new simulation
@@ -355,10 +502,17 @@ export const queueSimulation = async (
   const insertData = {
     user_id: userId,
     strategy: cmd.strategy,
+    strategy_params: cmd.strategyParams ?? null,
+    strategy_phases: serializeStrategyPhases(strategyPhases),
     goal: cmd.goal,
     reinvest_reduced_payments: cmd.reinvestReducedPayments,
     monthly_overpayment_limit: monthlyOverpaymentLimit,
+    overpayment_budget_schedule: serializeBudgetSchedule(
+      overpaymentBudgetSchedule ?? null,
+    ),
     payment_reduction_target: cmd.paymentReductionTarget,
+    lump_sums: serializeLumpSums(lumpSums),
+    loan_rules: serializeLoanRules(loanRules),
     notes: cmd.notes,
     status: "running" as const,
     is_active: true,
@@ -391,7 +545,7 @@ export const queueSimulation = async (
   invalidateDashboardCache(userId);
 
   try {
-    scheduleSimulationComputation(supabase, newSimulation.id, userId, {
+    await scheduleSimulationComputation(supabase, newSimulation.id, userId, {
       requestId: options?.requestId,
     });
   } catch (scheduleError) {
@@ -455,13 +609,27 @@ export const getSimulationDetail = async (
     id: simulation.id,
     userId: simulation.user_id,
     strategy: simulation.strategy,
+    strategyParams: simulation.strategy_params,
+    strategyPhases: parseStoredStrategyPhases(simulation.strategy_phases),
     goal: simulation.goal,
     status: simulation.status,
     isActive: simulation.is_active,
     stale: simulation.stale,
     monthlyOverpaymentLimit: simulation.monthly_overpayment_limit,
+    overpaymentBudgetSchedule: parseStoredBudgetSchedule(
+      simulation.overpayment_budget_schedule,
+    ),
     paymentReductionTarget: simulation.payment_reduction_target,
+    paymentReductionTargetMonth: simulation.payment_reduction_target_month,
     reinvestReducedPayments: simulation.reinvest_reduced_payments,
+    lumpSums: parseStoredLumpSums(simulation.lump_sums),
+    loanRules: parseStoredLoanRules(simulation.loan_rules),
+    optimalityReport: parseStoredOptimalityReport(simulation.optimality_report),
+    engineVersion: simulation.engine_version,
+    inputFingerprint: simulation.input_fingerprint,
+    engineOutdated:
+      simulation.completed_at !== null &&
+      isEngineOutdated(simulation.engine_version),
     baselineInterest: simulation.baseline_interest,
     totalInterestSaved: simulation.total_interest_saved,
     projectedMonthsToPayoff: simulation.projected_months_to_payoff,
@@ -500,6 +668,7 @@ export const getSimulationDetail = async (
       startingBalance: s.starting_balance,
       startingMonth: s.starting_month,
       startingRate: s.starting_rate,
+      targetMonthlyPayment: s.target_monthly_payment,
       userId: s.user_id,
     }));
   }
@@ -3,6 +3,39 @@
  * Contains common functions for loan math, date manipulation, and rate normalization.
  */
 
+import { resolveStrategy } from "../strategies/registry.ts";
+import type { AllocationContext, AllocationLoan } from "../strategies/types.ts";
+import type {
+  AmortizationType,
+  InterestAccrual,
+  LoanRateType,
+  MoneyRounding,
+  OverpaymentBudgetSchedule,
+  OverpaymentEffect,
+  SimulationLoanRule,
+  SimulationLumpSum,
+  SimulationStrategyPhase,
+  StrategyPhaseTrigger,
+} from "../../types.ts";
+
+/**
+ * Version of the projection engine stored with every computed simulation.
+ * Bump it whenever a change here or in a strategy alters projected amounts, so
+ * simulations computed before the change are flagged as outdated.
+ */
+export const SIMULATION_ENGINE_VERSION = "1.1.0";
+
+/**
+ * Tells whether results were produced by an engine other than the running one.
+ * Results stored before versions were recorded have no version and count as outdated.
+ *
+ * @example
+ * isEngineOutdated(SIMULATION_ENGINE_VERSION) // returns false
+ * isEngineOutdated(null)                      // returns true
+ */
+export const isEngineOutdated = (engineVersion: string | null): boolean =>
+  engineVersion !== SIMULATION_ENGINE_VERSION;
+
 /**
  * Normalizes an annual interest rate to decimal form (0-1 range).
  * Handles both percentage (e.g., 5.5) and decimal (e.g., 0.055) inputs.
@@ -23,6 +56,74 @@ export const normalizeAnnualRate = (annualRate: number): number => {
   return annualRate > 1 ? annualRate / 100 : annualRate;
 };
 
+/**
+ * Rounds an amount in grosze (possibly fractional) to whole grosze by a bank's rule.
+ * Values within a millionth of a grosz of a whole or half grosz are snapped first, so
+ * floating-point noise never flips the result.
+ *
+ * @param grosze - Amount in grosze
+ * @param rounding - Rounding rule (defaults to half up)
+ * @returns Whole grosze
+ *
+ * @example
+ * roundGrosze(1234.5)              // returns 1235
+ * roundGrosze(1234.5, 'half_even') // returns 1234
+ * roundGrosze(1234.01, 'up')       // returns 1235
+ */
+export const roundGrosze = (
+  grosze: number,
+  rounding: MoneyRounding = "half_up",
+): number => {
+  const sign = grosze < 0 ? -1 : 1;
+  const magnitude = Math.round(Math.abs(grosze) * 1e6) / 1e6;
+  const whole = Math.floor(magnitude);
+  const fraction = magnitude - whole;
+
+  let rounded: number;
+  switch (rounding) {
+    case "down":
+      rounded = whole;
+      break;
+    case "up":
+      rounded = fraction > 0 ? whole + 1 : whole;
+      break;
+    case "half_even":
+      rounded =
+        fraction > 0.5 || (fraction === 0.5 && whole % 2 === 1)
+          ? whole + 1
+          : whole;
+      break;
+    default:
+      rounded = fraction >= 0.5 ? whole + 1 : whole;
+  }
+
+  return sign * rounded;
+};
+
+/**
+ * Converts złoty to whole grosze.
+ *
+ * @example
+ * toGrosze(1135.575) // returns 113558
+ */
+export const toGrosze = (
+  zloty: number,
+  rounding: MoneyRounding = "half_up",
+): number => roundGrosze(zloty * 100, rounding);
+
+/** Converts whole grosze back to złoty. */
+export const fromGrosze = (grosze: number): number => grosze / 100;
+
+/**
+ * Adds up złoty amounts in whole grosze, so a total always equals the sum of the rows
+ * it was built from, to the grosz.
+ *
+ * @example
+ * sumMoney([0.1, 0.2]) // returns 0.3 (plain addition gives 0.30000000000000004)
+ */
+export const sumMoney = (amounts: readonly number[]): number =>
+  fromGrosze(amounts.reduce((sum, amount) => sum + toGrosze(amount), 0));
+
 /**
  * Formats a year and month index into an ISO 8601 date string (YYYY-MM-01).
  * Always returns the first day of the month.
@@ -115,6 +216,35 @@ export const deriveStandardMonthlyPayment = (
   );
 };
 
+/**
+ * Calculates the installment due in the first month of a repayment schedule.
+ * Annuity loans pay the PMT installment every month. Decreasing-installment loans
+ * (raty malejące) repay a constant principal part plus interest on the balance, so
+ * their first installment is the highest.
+ *
+ * @param balance - Outstanding balance
+ * @param annualRate - Annual interest rate (can be percentage or decimal)
+ * @param termMonths - Months left on the schedule
+ * @param amortizationType - Loan amortization type (defaults to annuity)
+ * @returns Installment for the month
+ *
+ * @example
+ * deriveInstallment(120000, 0.06, 120, 'decreasing') // returns 1600 (1000 principal + 600 interest)
+ */
+export const deriveInstallment = (
+  balance: number,
+  annualRate: number,
+  termMonths: number,
+  amortizationType: AmortizationType = "annuity",
+): number => {
+  if (amortizationType !== "decreasing") {
+    return deriveStandardMonthlyPayment(balance, annualRate, termMonths);
+  }
+
+  const monthlyRate = normalizeAnnualRate(annualRate) / 12;
+  return balance / Math.max(1, termMonths) + balance * monthlyRate;
+};
+
 /**
  * Increments a year/month pair by one month, handling year rollover.
  *
@@ -178,11 +308,443 @@ export interface ProjectionLoan {
   remaining_balance: number;
   annual_rate: number;
   term_months: number;
+  /** How the bank applies overpayments; defaults to shortening the term. */
+  overpayment_effect?: OverpaymentEffect;
+  /** Equal (annuity) or decreasing installments; defaults to annuity. */
+  amortization_type?: AmortizationType;
+  /** First month of the loan (YYYY-MM-01); anchors the prepayment fee window. */
+  start_month?: string;
+  /** Commission on overpaid amounts (decimal); null or 0 for fee-free overpayments. */
+  prepayment_fee_rate?: number | null;
+  /** Months from start_month during which the commission applies; null for the whole term. */
+  prepayment_fee_months?: number | null;
+  /** Amount that can be overpaid each calendar year without the commission. */
+  prepayment_free_allowance?: number | null;
+  /** Smallest overpayment the bank accepts. */
+  min_overpayment?: number | null;
+  /** Variable-rate loans follow `rate_index_id` plus `rate_margin`; defaults to fixed. */
+  rate_type?: LoanRateType;
+  rate_index_id?: string | null;
+  rate_margin?: number | null;
+  /** Day-count convention for interest between payment dates; defaults to 30/360. */
+  interest_accrual?: InterestAccrual;
+  /** Day of month installments are due (clamped to short months); defaults to the 1st. */
+  payment_day?: number | null;
+  /** How the bank rounds each month's interest to whole grosze; defaults to half up. */
+  interest_rounding?: MoneyRounding;
+  /** How the bank rounds installments (or decreasing principal parts); defaults to half up. */
+  installment_rounding?: MoneyRounding;
 }
 
+/**
+ * Reference index values (decimal form) keyed by index id, sorted by month ascending.
+ */
+export type RateIndexTimeline = Map<string, { month: string; value: number }[]>;
+
+/**
+ * Loan change scheduled for a later month, replayed when the projection reaches it (or
+ * in the first month when it fell due before the projection starts).
+ * Only the fields that change are set; values are the new absolute values.
+ */
+export interface ScheduledLoanChange {
+  loanId: string;
+  /** First day of the month the change takes effect (YYYY-MM-01). */
+  month: string;
+  annualRate?: number;
+  termMonths?: number;
+  remainingBalance?: number;
+  principal?: number;
+}
+
+/**
+ * Time-varying inputs shared by baseline and strategy projections.
+ */
+export interface ProjectionTimelineOptions {
+  /** Index values used to price variable-rate loans month by month. */
+  rateIndexTimeline?: RateIndexTimeline;
+  /** Future-dated loan changes replayed at the start of their effective month. */
+  loanChanges?: ScheduledLoanChange[];
+}
+
+/**
+ * Resolves the annual rate a loan pays in the given month.
+ * Variable-rate loans use the latest index value published on or before the month
+ * plus their margin; fixed loans, and months before the first known index value,
+ * use the contract rate.
+ *
+ * @param loan - Loan being projected
+ * @param month - Projection month (YYYY-MM-01)
+ * @param timeline - Reference index values
+ * @param contractRate - Contract rate in force (defaults to the loan's own rate)
+ * @returns Annual rate in force for the month
+ *
+ * @example
+ * resolveAnnualRate(
+ *   { ...loan, rate_type: 'variable', rate_index_id: 'WIBOR3M', rate_margin: 0.02 },
+ *   '2025-03-01',
+ *   new Map([['WIBOR3M', [{ month: '2025-01-01', value: 0.0585 }]]]),
+ * ) // returns 0.0785
+ */
+export const resolveAnnualRate = (
+  loan: ProjectionLoan,
+  month: string,
+  timeline?: RateIndexTimeline,
+  contractRate = loan.annual_rate,
+): number => {
+  if (loan.rate_type !== "variable" || !loan.rate_index_id || !timeline) {
+    return contractRate;
+  }
+
+  let indexValue: number | undefined;
+  for (const point of timeline.get(loan.rate_index_id) ?? []) {
+    if (point.month > month) break;
+    indexValue = point.value;
+  }
+
+  if (indexValue === undefined) {
+    return contractRate;
+  }
+
+  return indexValue + (loan.rate_margin ?? 0);
+};
+
+/** Installments fall on the first of the month unless the loan says otherwise. */
+const DEFAULT_PAYMENT_DAY = 1;
+
+const daysInMonth = (month: string): number =>
+  new Date(
+    Date.UTC(Number(month.slice(0, 4)), Number(month.slice(5, 7)), 0),
+  ).getUTCDate();
+
+/**
+ * Year fraction between two days, each given as a month (YYYY-MM-01) and day of month.
+ * 30/360 counts every month as 30 days, so a whole cycle is exactly a twelfth of a
+ * year; actual/365 counts calendar days, with days past a short month's end clamped.
+ */
+export const accrualYearFraction = (
+  convention: InterestAccrual,
+  from: { month: string; day: number },
+  to: { month: string; day: number },
+): number => {
+  if (convention === "actual_365") {
+    const toTime = (point: { month: string; day: number }) =>
+      Date.UTC(
+        Number(point.month.slice(0, 4)),
+        Number(point.month.slice(5, 7)) - 1,
+        Math.min(point.day, daysInMonth(point.month)),
+      );
+    return (toTime(to) - toTime(from)) / 86_400_000 / 365;
+  }
+
+  const days =
+    30 * monthsBetween(from.month, to.month) +
+    Math.min(to.day, 30) -
+    Math.min(from.day, 30);
+  return days / 360;
+};
+
+/** Month (YYYY-MM-01) before the given one. */
+const previousMonth = (month: string): string => {
+  const year = Number(month.slice(0, 4));
+  const monthIndex = Number(month.slice(5, 7)) - 1;
+  return monthIndex === 0
+    ? isoMonthString(year - 1, 11)
+    : isoMonthString(year, monthIndex - 1);
+};
+
+/**
+ * Interest charged with the installment due in `month`: the balance accrues from the
+ * previous payment date to this one under the loan's day-count convention.
+ *
+ * @param loan - Loan being projected
+ * @param balance - Balance left after the previous installment and overpayments
+ * @param annualRate - Annual rate in decimal form
+ * @param month - Month of the installment (YYYY-MM-01)
+ * @returns Interest part of the installment
+ *
+ * @example
+ * // actual/365, installment on the 10th: 10 Feb to 10 Mar 2025 is 28 days
+ * accrueCycleInterest({ ...loan, interest_accrual: 'actual_365', payment_day: 10 }, 100000, 0.0584, '2025-03-01')
+ * // returns ~448.00 (30/360 would charge 486.67)
+ */
+export const accrueCycleInterest = (
+  loan: ProjectionLoan,
+  balance: number,
+  annualRate: number,
+  month: string,
+): number => {
+  const day = loan.payment_day ?? DEFAULT_PAYMENT_DAY;
+  return (
+    balance *
+    annualRate *
+    accrualYearFraction(
+      loan.interest_accrual ?? "thirty_360",
+      { month: previousMonth(month), day },
+      { month, day },
+    )
+  );
+};
+
+/**
+ * Interest an overpayment saves in the cycle it is made in. Overpayments are made on
+ * the first day of their month, so when the installment falls later in the month the
+ * overpaid amount no longer accrues for the rest of the cycle.
+ */
+export const midCycleInterestCredit = (
+  loan: ProjectionLoan,
+  amount: number,
+  annualRate: number,
+  month: string,
+): number =>
+  amount *
+  annualRate *
+  accrualYearFraction(
+    loan.interest_accrual ?? "thirty_360",
+    { month, day: 1 },
+    { month, day: loan.payment_day ?? DEFAULT_PAYMENT_DAY },
+  );
+
+/** Interest of a month in whole grosze, rounded by the loan's bank rule. */
+const roundInterest = (loan: ProjectionLoan, grosze: number): number =>
+  roundGrosze(grosze, loan.interest_rounding ?? "half_up");
+
+/** Installment (or decreasing principal part) in whole grosze, rounded by the loan's bank rule. */
+const roundInstallment = (loan: ProjectionLoan, grosze: number): number =>
+  roundGrosze(grosze, loan.installment_rounding ?? "half_up");
+
+/**
+ * Per-loan running values shared by the projection loops (same order as the loans).
+ * Every amount is held in whole grosze; the loops convert to złoty only for output.
+ */
+interface LoanProjectionState {
+  balances: number[];
+  /** Installment due this month (next month once the month's payments are applied). */
+  installments: number[];
+  /** Constant principal part of decreasing-installment loans (0 for annuity loans). */
+  principalParts: number[];
+  remainingTerms: number[];
+  /** Rate actually charged this month (index + margin for variable loans). */
+  rates: number[];
+  /** Contract rate, updated by scheduled rate changes. */
+  contractRates: number[];
+  loanAmounts: number[];
+}
+
+const createLoanProjectionState = (
+  loans: ProjectionLoan[],
+): LoanProjectionState => {
+  const state: LoanProjectionState = {
+    balances: loans.map((loan) => toGrosze(loan.remaining_balance)),
+    installments: new Array<number>(loans.length).fill(0),
+    principalParts: new Array<number>(loans.length).fill(0),
+    remainingTerms: loans.map((loan) => loan.term_months),
+    rates: loans.map((loan) => loan.annual_rate),
+    contractRates: loans.map((loan) => loan.annual_rate),
+    loanAmounts: loans.map((loan) => loan.principal),
+  };
+
+  loans.forEach((loan, i) => {
+    if (state.balances[i] > 0) {
+      rescheduleLoan(loan, i, state);
+    }
+    refreshInstallmentDue(loan, i, state);
+  });
+  return state;
+};
+
+/**
+ * Recomputes a loan's schedule over its remaining term, as banks do on a reset or a
+ * recast: a new annuity installment, or a new principal part for decreasing loans.
+ */
+const rescheduleLoan = (
+  loan: ProjectionLoan,
+  i: number,
+  state: LoanProjectionState,
+): void => {
+  const remainingTerm = Math.max(1, state.remainingTerms[i]);
+  if (loan.amortization_type === "decreasing") {
+    state.principalParts[i] = roundInstallment(
+      loan,
+      state.balances[i] / remainingTerm,
+    );
+  } else {
+    state.installments[i] = roundInstallment(
+      loan,
+      deriveStandardMonthlyPayment(
+        state.balances[i],
+        state.rates[i],
+        remainingTerm,
+      ),
+    );
+  }
+};
+
+/**
+ * Sets the installment a decreasing-installment loan owes on its current balance.
+ * Annuity installments only change when the loan is rescheduled.
+ */
+const refreshInstallmentDue = (
+  loan: ProjectionLoan,
+  i: number,
+  state: LoanProjectionState,
+): void => {
+  if (state.balances[i] <= 0) {
+    state.installments[i] = 0;
+    return;
+  }
+  if (loan.amortization_type !== "decreasing") {
+    return;
+  }
+
+  const monthlyRate = normalizeAnnualRate(state.rates[i]) / 12;
+  state.installments[i] =
+    Math.min(state.principalParts[i], state.balances[i]) +
+    roundInterest(loan, state.balances[i] * monthlyRate);
+};
+
+/**
+ * Interest and scheduled principal of the installment due this month. Annuity
+ * installments are fixed, so a longer accrual cycle leaves less for principal;
+ * decreasing installments repay their principal part with the interest on top.
+ * The last installment of the term repays the whole balance, settling the grosze
+ * that rounding left over.
+ */
+const accrueInstallment = (
+  loan: ProjectionLoan,
+  i: number,
+  state: LoanProjectionState,
+  month: string,
+): { annualRate: number; interest: number; scheduledPrincipal: number } => {
+  const annualRate = normalizeAnnualRate(state.rates[i]);
+  const balance = state.balances[i];
+  if (balance <= 0) {
+    return { annualRate, interest: 0, scheduledPrincipal: 0 };
+  }
+
+  const interest = roundInterest(
+    loan,
+    accrueCycleInterest(loan, balance, annualRate, month),
+  );
+  const finalInstallment = state.remainingTerms[i] <= 1;
+  if (loan.amortization_type === "decreasing") {
+    const scheduledPrincipal = finalInstallment
+      ? balance
+      : Math.min(state.principalParts[i], balance);
+    state.installments[i] = scheduledPrincipal + interest;
+    return { annualRate, interest, scheduledPrincipal };
+  }
+
+  return {
+    annualRate,
+    interest,
+    scheduledPrincipal: finalInstallment
+      ? balance
+      : Math.min(state.installments[i] - interest, balance),
+  };
+};
+
+/**
+ * Updates the schedule after an overpayment. Loans set to lower the installment keep
+ * their term and are rescheduled; loans that shorten the term keep their installment
+ * (or principal part).
+ */
+const applyOverpaymentEffect = (
+  loan: ProjectionLoan,
+  i: number,
+  state: LoanProjectionState,
+): void => {
+  if (
+    state.balances[i] > 0 &&
+    loan.overpayment_effect === "lower_installment"
+  ) {
+    rescheduleLoan(loan, i, state);
+  }
+  refreshInstallmentDue(loan, i, state);
+};
+
+/**
+ * Merges scheduled changes by loan and month so the loops can look them up directly.
+ * Changes that took effect before the projection starts are folded into its first
+ * month in order, so a change that fell due since it was scheduled still applies.
+ */
+const indexLoanChanges = (
+  changes: ScheduledLoanChange[] = [],
+  startMonth: string,
+): Map<string, ScheduledLoanChange> => {
+  const byLoanMonth = new Map<string, ScheduledLoanChange>();
+  const ordered = [...changes].sort((a, b) => a.month.localeCompare(b.month));
+  for (const change of ordered) {
+    const month = change.month < startMonth ? startMonth : change.month;
+    const key = `${change.loanId}|${month}`;
+    byLoanMonth.set(key, { ...byLoanMonth.get(key), ...change, month });
+  }
+  return byLoanMonth;
+};
+
+/**
+ * Applies scheduled loan changes and rate resets due at the start of a month.
+ * Whenever the rate, term or balance changes, annuity installments are recomputed over
+ * the remaining term as banks do on a reset. Decreasing-installment loans keep their
+ * principal part on a rate change and only reschedule when the term or balance changes.
+ */
+const applyMonthStartAdjustments = (
+  loans: ProjectionLoan[],
+  month: string,
+  rateIndexTimeline: RateIndexTimeline | undefined,
+  loanChanges: Map<string, ScheduledLoanChange>,
+  state: LoanProjectionState,
+): void => {
+  loans.forEach((loan, i) => {
+    let rescheduled = false;
+    const change = loanChanges.get(`${loan.id}|${month}`);
+    if (change) {
+      if (change.annualRate !== undefined) {
+        state.contractRates[i] = change.annualRate;
+      }
+      if (change.termMonths !== undefined) {
+        state.remainingTerms[i] = change.termMonths;
+        rescheduled = true;
+      }
+      if (change.remainingBalance !== undefined) {
+        state.balances[i] = toGrosze(change.remainingBalance);
+        rescheduled = true;
+      }
+      if (change.principal !== undefined) {
+        state.loanAmounts[i] = change.principal;
+      }
+    }
+
+    if (state.balances[i] <= 0) {
+      return;
+    }
+
+    const rate = resolveAnnualRate(
+      loan,
+      month,
+      rateIndexTimeline,
+      state.contractRates[i],
+    );
+    if (rate !== state.rates[i]) {
+      state.rates[i] = rate;
+      rescheduled ||= loan.amortization_type !== "decreasing";
+    }
+
+    if (rescheduled) {
+      rescheduleLoan(loan, i, state);
+    }
+    refreshInstallmentDue(loan, i, state);
+  });
+};
+
 /**
  * Generates a month-by-month baseline projection for multiple loans.
- * Uses standard amortization with no overpayments.
+ * Amortizes each loan by its type (annuity or decreasing installments) with no
+ * overpayments. When an additional payment is
+ * given, loans set to lower the installment are recast every month. Variable-rate
+ * loans are repriced over the remaining term whenever their rate changes, and
+ * scheduled loan changes are replayed in their effective month.
+ * Amounts are computed in whole grosze with each loan's rounding rules, so every
+ * monthly total is exactly the sum of its per-loan rows.
  * This is the authoritative projection logic used across services.
  *
  * @param loans - Array of loans to project
@@ -190,6 +752,7 @@ export interface ProjectionLoan {
  * @param startMonth - Starting month (0-indexed: 0 = January)
  * @param maxMonths - Maximum months to project (default: 600 / 50 years)
  * @param additionalPaymentPerLoan - Optional extra payment per loan per month
+ * @param options - Index values and scheduled loan changes
  * @returns Array of monthly projection data with totals and per-loan breakdowns
  *
  * @example
@@ -202,6 +765,7 @@ export const generateBaselineProjection = (
   startMonth: number,
   maxMonths = 600,
   additionalPaymentPerLoan = 0,
+  options: ProjectionTimelineOptions = {},
 ): {
   month: string;
   interest: number;
@@ -231,10 +795,16 @@ export const generateBaselineProjection = (
 
   let year = startYear;
   let month = startMonth;
-  const balances = loans.map((loan) => loan.remaining_balance);
+  const state = createLoanProjectionState(loans);
+  const { balances, remainingTerms, loanAmounts } = state;
+  const loanChanges = indexLoanChanges(
+    options.loanChanges,
+    isoMonthString(startYear, startMonth),
+  );
+  const additionalPayment = toGrosze(additionalPaymentPerLoan);
   let monthCount = 0;
 
-  while (balances.some((b) => b > 0.01) && monthCount < maxMonths) {
+  while (balances.some((b) => b > 0) && monthCount < maxMonths) {
     const monthStr = isoMonthString(year, month);
     let totalInterest = 0;
     let totalPrincipal = 0;
@@ -247,39 +817,54 @@ export const generateBaselineProjection = (
       remaining: number;
     }[] = [];
 
+    applyMonthStartAdjustments(
+      loans,
+      monthStr,
+      options.rateIndexTimeline,
+      loanChanges,
+      state,
+    );
+
     for (let i = 0; i < loans.length; i++) {
       if (balances[i] <= 0) continue;
 
       const loan = loans[i];
-      const monthlyRate = normalizeAnnualRate(loan.annual_rate) / 12;
-      const standardPayment = deriveStandardMonthlyPayment(
-        loan.remaining_balance,
-        loan.annual_rate,
-        loan.term_months,
+      const { interest, scheduledPrincipal } = accrueInstallment(
+        loan,
+        i,
+        state,
+        monthStr,
+      );
+      const principal = Math.min(
+        scheduledPrincipal + additionalPayment,
+        balances[i],
       );
-      const totalPayment = standardPayment + additionalPaymentPerLoan;
-      const interest = balances[i] * monthlyRate;
-      const principal = Math.min(totalPayment - interest, balances[i]);
 
       balances[i] -= principal;
+      remainingTerms[i] = Math.max(0, remainingTerms[i] - 1);
+      if (additionalPayment > 0) {
+        applyOverpaymentEffect(loan, i, state);
+      } else {
+        refreshInstallmentDue(loan, i, state);
+      }
       totalInterest += interest;
       totalPrincipal += principal;
       totalRemaining += Math.max(0, balances[i]);
 
       loanData.push({
         loanId: loan.id,
-        loanAmount: loan.principal,
-        interest,
-        principal,
-        remaining: Math.max(0, balances[i]),
+        loanAmount: loanAmounts[i],
+        interest: fromGrosze(interest),
+        principal: fromGrosze(principal),
+        remaining: fromGrosze(Math.max(0, balances[i])),
       });
     }
 
     schedule.push({
       month: monthStr,
-      interest: totalInterest,
-      principal: totalPrincipal,
-      remaining: totalRemaining,
+      interest: fromGrosze(totalInterest),
+      principal: fromGrosze(totalPrincipal),
+      remaining: fromGrosze(totalRemaining),
       loanData,
     });
 
@@ -292,80 +877,509 @@ export const generateBaselineProjection = (
   return schedule;
 };
 
+/** Plain projections and direct allocation calls minimize interest. */
+const DEFAULT_ALLOCATION_CONTEXT: AllocationContext = {
+  objective: "interest",
+  reinvestFreedPayments: false,
+};
+
+/**
+ * Maps projection loans to the shape strategies allocate against.
+ *
+ * @param loans - Loans participating in this month's allocation
+ * @returns Allocation inputs with normalized rates and monthly interest
+ */
+export const toAllocationLoans = (loans: ProjectionLoan[]): AllocationLoan[] =>
+  loans.map((loan) => {
+    const annualRate = normalizeAnnualRate(loan.annual_rate);
+    return {
+      id: loan.id,
+      balance: loan.remaining_balance,
+      annualRate,
+      monthlyInterest: loan.remaining_balance * (annualRate / 12),
+    };
+  });
+
+/**
+ * Distributes an overpayment budget with a registered strategy and caps every
+ * amount at the loan's outstanding balance. Closed loans always receive zero.
+ *
+ * @param loans - Allocation inputs for the month
+ * @param strategy - Registered strategy id
+ * @param overpayment - Total overpayment amount to distribute
+ * @param strategyParams - Validated strategy parameters (if the strategy accepts any)
+ * @param context - What the month's overpayments should achieve
+ * @returns Array of overpayment amounts per loan (same order as input)
+ */
+export const allocateAcrossLoans = (
+  loans: readonly AllocationLoan[],
+  strategy: string,
+  overpayment: number,
+  strategyParams?: unknown,
+  context: AllocationContext = DEFAULT_ALLOCATION_CONTEXT,
+): number[] => {
+  if (overpayment <= 0 || loans.length === 0) {
+    return new Array(loans.length).fill(0);
+  }
+
+  const allocation = resolveStrategy(strategy).allocate(
+    loans,
+    overpayment,
+    strategyParams,
+    context,
+  );
+
+  return loans.map((loan, index) =>
+    loan.balance > 0
+      ? Math.min(Math.max(0, allocation[index] ?? 0), loan.balance)
+      : 0,
+  );
+};
+
+/** Half a grosz; amounts within this count as equal (e.g. an installment total and its target). */
+const INSTALLMENT_TOLERANCE = 0.005;
+
+/**
+ * Prepayment fee rules of one loan as they apply in a given month.
+ */
+export interface PrepaymentTerms {
+  /** Commission charged on the fee-bearing part of an overpayment (0 when none applies). */
+  feeRate: number;
+  /** Amount that can still be overpaid this year without the commission. */
+  freeAllowance: number;
+  /** Smallest overpayment the bank accepts (0 for any amount). */
+  minOverpayment: number;
+}
+
+/** Whole months from `from` to `to` (both YYYY-MM-01). */
+export const monthsBetween = (from: string, to: string): number =>
+  (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 +
+  (Number(to.slice(5, 7)) - Number(from.slice(5, 7)));
+
+/**
+ * Resolves a loan's prepayment fee rules for a month. Outside the fee window the whole
+ * overpayment is free; inside it only the unused part of the yearly allowance is.
+ *
+ * @param loan - Loan being projected
+ * @param month - Projection month (YYYY-MM-01)
+ * @param overpaidThisYear - Amount already overpaid on the loan this calendar year
+ * @returns Fee rate, remaining free allowance and minimum overpayment
+ */
+export const resolvePrepaymentTerms = (
+  loan: ProjectionLoan,
+  month: string,
+  overpaidThisYear = 0,
+): PrepaymentTerms => {
+  const minOverpayment = loan.min_overpayment ?? 0;
+  const feeRate = loan.prepayment_fee_rate ?? 0;
+  const withinWindow =
+    loan.prepayment_fee_months === null ||
+    loan.prepayment_fee_months === undefined ||
+    !loan.start_month ||
+    monthsBetween(loan.start_month, month) < loan.prepayment_fee_months;
+
+  if (feeRate <= 0 || !withinWindow) {
+    return { feeRate: 0, freeAllowance: Infinity, minOverpayment };
+  }
+
+  return {
+    feeRate,
+    freeAllowance: Math.max(
+      0,
+      (loan.prepayment_free_allowance ?? 0) - overpaidThisYear,
+    ),
+    minOverpayment,
+  };
+};
+
+/**
+ * Overpayment split for one month: the principal each loan is repaid and the
+ * commission paid for it. Both come out of the month's budget.
+ */
+export interface PrepaymentAllocation {
+  overpayments: number[];
+  fees: number[];
+}
+
+const runPrepaymentPasses = (
+  loans: readonly AllocationLoan[],
+  strategy: string,
+  budget: number,
+  strategyParams: unknown,
+  terms: readonly PrepaymentTerms[],
+  excluded: ReadonlySet<number>,
+  context: AllocationContext,
+): PrepaymentAllocation => {
+  const overpayments = new Array<number>(loans.length).fill(0);
+  const fees = new Array<number>(loans.length).fill(0);
+
+  // Fee-free money first: loans outside their fee window or within their allowance
+  const free = allocateAcrossLoans(
+    loans.map((loan, i) => ({
+      ...loan,
+      balance: excluded.has(i)
+        ? 0
+        : terms[i].feeRate > 0
+          ? Math.min(loan.balance, terms[i].freeAllowance)
+          : loan.balance,
+      outstanding: loan.outstanding ?? loan.balance,
+    })),
+    strategy,
+    budget,
+    strategyParams,
+    context,
+  );
+  free.forEach((amount, i) => {
+    overpayments[i] = amount;
+  });
+
+  // Whatever is left goes to fee-bearing loans, with the commission paid from the budget
+  const remaining = budget - free.reduce((sum, amount) => sum + amount, 0);
+  if (remaining <= INSTALLMENT_TOLERANCE) {
+    return { overpayments, fees };
+  }
+
+  const charged = allocateAcrossLoans(
+    loans.map((loan, i) => ({
+      ...loan,
+      balance:
+        excluded.has(i) || terms[i].feeRate <= 0
+          ? 0
+          : (loan.balance - overpayments[i]) * (1 + terms[i].feeRate),
+      outstanding: (loan.outstanding ?? loan.balance) - overpayments[i],
+      feeRate: terms[i].feeRate,
+    })),
+    strategy,
+    remaining,
+    strategyParams,
+    context,
+  );
+  charged.forEach((amount, i) => {
+    if (amount <= 0) return;
+    const principal = amount / (1 + terms[i].feeRate);
+    overpayments[i] += principal;
+    fees[i] = amount - principal;
+  });
+
+  return { overpayments, fees };
+};
+
+/**
+ * Distributes an overpayment budget under each loan's prepayment fee rules. The budget
+ * goes to fee-free headroom first (loans without a fee, or within their yearly free
+ * allowance) and only then to fee-bearing loans, whose commission is paid out of the
+ * budget. Loans whose share would fall below their minimum overpayment are skipped and
+ * their share is redistributed; paying off the final balance is always accepted.
+ *
+ * @param loans - Allocation inputs for the month
+ * @param strategy - Registered strategy id
+ * @param budget - Total amount available for overpayments and fees
+ * @param strategyParams - Validated strategy parameters (if the strategy accepts any)
+ * @param terms - Prepayment terms per loan (same order as loans)
+ * @param context - What the month's overpayments should achieve
+ * @returns Principal overpaid and commission charged per loan
+ */
+export const allocateWithPrepaymentTerms = (
+  loans: readonly AllocationLoan[],
+  strategy: string,
+  budget: number,
+  strategyParams: unknown,
+  terms: readonly PrepaymentTerms[],
+  context: AllocationContext = DEFAULT_ALLOCATION_CONTEXT,
+): PrepaymentAllocation => {
+  const excluded = new Set<number>();
+
+  for (;;) {
+    const allocation = runPrepaymentPasses(
+      loans,
+      strategy,
+      budget,
+      strategyParams,
+      terms,
+      excluded,
+      context,
+    );
+    const belowMinimum = loans
+      .map((loan, i) => i)
+      .filter((i) => {
+        const amount = allocation.overpayments[i];
+        return (
+          amount > 0 &&
+          amount < terms[i].minOverpayment &&
+          amount < loans[i].balance - INSTALLMENT_TOLERANCE
+        );
+      });
+
+    if (belowMinimum.length === 0) {
+      return allocation;
+    }
+    belowMinimum.forEach((i) => excluded.add(i));
+  }
+};
+
 /**
- * Allocates overpayment across multiple loans based on selected strategy.
+ * Allocates overpayment across multiple loans using a registered strategy.
+ * Unknown strategy ids fall back to the registry default. When a month is given,
+ * each loan's prepayment fee rules apply and the returned amounts are the principal
+ * repaid after commissions.
  *
  * @param loans - Array of loans to allocate overpayment to
- * @param strategy - Payment strategy: 'avalanche', 'snowball', 'equal', 'ratio'
+ * @param strategy - Registered strategy id (e.g. 'avalanche', 'snowball', 'equal', 'ratio')
  * @param overpayment - Total overpayment amount to distribute
+ * @param strategyParams - Validated strategy parameters (if the strategy accepts any)
+ * @param month - Month of the overpayment (YYYY-MM-01), to apply prepayment fee rules
  * @returns Array of overpayment amounts per loan (same order as input)
  *
  * @example
  * const allocation = allocateOverpayment(loans, 'avalanche', 500);
- * // Returns [300, 200, 0] if first two loans have highest rates
+ * // Returns [500, 0, 0] when the highest-rate loan owes more than 500
  */
 export const allocateOverpayment = (
   loans: ProjectionLoan[],
   strategy: string,
   overpayment: number,
+  strategyParams?: unknown,
+  month?: string,
 ): number[] => {
-  if (overpayment <= 0) return new Array(loans.length).fill(0);
-
-  switch (strategy) {
-    case "avalanche":
-      // Sort by rate descending - pay highest interest first
-      const sortedAvalanche = loans
-        .map((loan, index) => ({ loan, index, rate: loan.annual_rate }))
-        .sort((a, b) => b.rate - a.rate);
-      const allocation = new Array(loans.length).fill(0);
-      let remaining = overpayment;
-      for (const item of sortedAvalanche) {
-        if (remaining <= 0) break;
-        allocation[item.index] = Math.min(
-          remaining,
-          overpayment / loans.length,
-        );
-        remaining -= allocation[item.index];
-      }
-      return allocation;
+  if (!month) {
+    return allocateAcrossLoans(
+      toAllocationLoans(loans),
+      strategy,
+      overpayment,
+      strategyParams,
+    );
+  }
 
-    case "snowball":
-      // Sort by balance ascending - pay smallest balance first
-      const sortedSnowball = loans
-        .map((loan, index) => ({
-          loan,
-          index,
-          balance: loan.remaining_balance,
-        }))
-        .sort((a, b) => a.balance - b.balance);
-      const allocationSnow = new Array(loans.length).fill(0);
-      let remainingSnow = overpayment;
-      for (const item of sortedSnowball) {
-        if (remainingSnow <= 0) break;
-        allocationSnow[item.index] = Math.min(
-          remainingSnow,
-          overpayment / loans.length,
-        );
-        remainingSnow -= allocationSnow[item.index];
-      }
-      return allocationSnow;
+  return allocateWithPrepaymentTerms(
+    toAllocationLoans(loans),
+    strategy,
+    overpayment,
+    strategyParams,
+    loans.map((loan) => resolvePrepaymentTerms(loan, month)),
+  ).overpayments;
+};
 
-    case "equal":
-    default:
-      // Split overpayment equally across all loans
-      return new Array(loans.length).fill(overpayment / loans.length);
-
-    case "ratio":
-      // Proportional to monthly interest - more interest = more overpayment
-      const interests = loans.map(
-        (loan) =>
-          loan.remaining_balance * (normalizeAnnualRate(loan.annual_rate) / 12),
-      );
-      const totalInterest = interests.reduce((sum, i) => sum + i, 0);
-      if (totalInterest === 0)
-        return new Array(loans.length).fill(overpayment / loans.length);
-      return interests.map((i) => (i / totalInterest) * overpayment);
+/**
+ * Point at which a payment reduction projection reaches its target installment.
+ */
+export interface PaymentReductionMilestone {
+  /** First month whose payments bring the combined installment to the target. */
+  month: string;
+  /** Installment each loan carries from that month on (0 for loans already repaid). */
+  installments: { loanId: string; installment: number }[];
+}
+
+/**
+ * Finds the month a strategy projection reaches the payment reduction target.
+ *
+ * @param schedule - Output of generateStrategyProjection
+ * @param paymentReductionTarget - Target combined monthly installment
+ * @returns Milestone, or null when the target is never reached within the projection
+ */
+export const findPaymentReductionMilestone = (
+  schedule: {
+    month: string;
+    loanData: { loanId: string; installment: number }[];
+  }[],
+  paymentReductionTarget: number,
+): PaymentReductionMilestone | null => {
+  const entry = schedule.find(
+    (month) =>
+      month.loanData.reduce((sum, loan) => sum + loan.installment, 0) <=
+      paymentReductionTarget + INSTALLMENT_TOLERANCE,
+  );
+
+  if (!entry) {
+    return null;
   }
+
+  return {
+    month: entry.month,
+    installments: entry.loanData.map((loan) => ({
+      loanId: loan.loanId,
+      installment: loan.installment,
+    })),
+  };
+};
+
+/**
+ * Resolves the overpayment budget in effect for a month. The latest step starting on or
+ * before the month applies, grown by the yearly rate for every full 12 months since the
+ * step began; before the first step the flat limit applies.
+ *
+ * @param monthlyOverpaymentLimit - Flat limit used before the schedule starts
+ * @param month - Projection month (YYYY-MM-01)
+ * @param schedule - Budget schedule (null or undefined for a flat budget)
+ * @returns Budget available for overpayments in the month
+ *
+ * @example
+ * resolveMonthlyBudget(800, '2028-09-01', {
+ *   steps: [{ fromMonth: '2027-07-01', amount: 1500 }],
+ *   yearlyGrowthRate: 0.05,
+ * }) // returns 1575
+ */
+export const resolveMonthlyBudget = (
+  monthlyOverpaymentLimit: number,
+  month: string,
+  schedule?: OverpaymentBudgetSchedule | null,
+): number => {
+  const step = schedule?.steps
+    .filter((candidate) => candidate.fromMonth <= month)
+    .at(-1);
+
+  if (!step) {
+    return monthlyOverpaymentLimit;
+  }
+
+  const years = Math.floor(monthsBetween(step.fromMonth, month) / 12);
+  return step.amount * (1 + (schedule?.yearlyGrowthRate ?? 0)) ** years;
+};
+
+/**
+ * Extra inputs for strategy projections.
+ */
+export interface StrategyProjectionOptions extends ProjectionTimelineOptions {
+  /** Stored strategy parameters; validated against the strategy schema before use. */
+  strategyParams?: unknown;
+  /** One-off overpayments added to the budget of their month. */
+  lumpSums?: SimulationLumpSum[];
+  /** Time-varying monthly budget; the flat limit applies before its first step. */
+  budgetSchedule?: OverpaymentBudgetSchedule | null;
+  /** Per-loan pinning, exclusion, caps and floors applied to the monthly budget. */
+  loanRules?: SimulationLoanRule[];
+  /** Strategies that take over from the initial one, in order, as their triggers fire. */
+  strategyPhases?: SimulationStrategyPhase[];
+}
+
+/**
+ * Loan state a strategy phase trigger is checked against at the start of a month.
+ */
+export interface StrategyPhaseState {
+  /** Month being started (YYYY-MM-01). */
+  month: string;
+  /** Remaining balance in złoty by loan id; repaid loans may be left out. */
+  balances: ReadonlyMap<string, number>;
+  /** Whether the combined installment has reached the payment reduction target. */
+  paymentTargetMet: boolean;
+}
+
+const isStrategyPhaseTriggered = (
+  trigger: StrategyPhaseTrigger,
+  state: StrategyPhaseState,
+): boolean => {
+  const balanceOf = (loanId: string) => state.balances.get(loanId) ?? 0;
+
+  switch (trigger.type) {
+    case "loan_closed":
+      return trigger.loanIds.every((loanId) => balanceOf(loanId) <= 0);
+    case "date":
+      return state.month >= trigger.month;
+    case "balance_threshold": {
+      const balance = trigger.loanId
+        ? balanceOf(trigger.loanId)
+        : sumMoney([...state.balances.values()]);
+      return balance <= trigger.amount;
+    }
+    case "payment_target_met":
+      return state.paymentTargetMet;
+  }
+};
+
+/**
+ * Advances through the strategy phases whose triggers fire in the given state, starting
+ * from the phase currently in effect. Phase 0 is the simulation's own strategy and
+ * phase n the n-th entry of `phases`, so a plan never returns to an earlier phase and
+ * several phases can start in the same month.
+ *
+ * @example
+ * // Snowball until both small loans are repaid, then avalanche
+ * resolveStrategyPhase(
+ *   [{ strategy: 'avalanche', startsWhen: { type: 'loan_closed', loanIds: [a, b] } }],
+ *   0,
+ *   { month: '2027-03-01', balances: new Map([[c, 52000]]), paymentTargetMet: false },
+ * ) // returns 1
+ */
+export const resolveStrategyPhase = (
+  phases: readonly SimulationStrategyPhase[],
+  current: number,
+  state: StrategyPhaseState,
+): number => {
+  let phase = current;
+  while (
+    phase < phases.length &&
+    isStrategyPhaseTriggered(phases[phase].startsWhen, state)
+  ) {
+    phase += 1;
+  }
+  return phase;
+};
+
+/**
+ * Groups lump sums by month so the strategy loop can look them up directly.
+ */
+const indexLumpSums = (
+  lumpSums: SimulationLumpSum[] = [],
+): Map<string, SimulationLumpSum[]> => {
+  const byMonth = new Map<string, SimulationLumpSum[]>();
+  for (const lumpSum of lumpSums) {
+    byMonth.set(lumpSum.month, [
+      ...(byMonth.get(lumpSum.month) ?? []),
+      lumpSum,
+    ]);
+  }
+  return byMonth;
+};
+
+/**
+ * Loan rules in grosze, aligned with the projection's loan order.
+ */
+interface LoanRuleLimits {
+  pinned: boolean[];
+  /** Largest overpayment per month; Infinity without a cap, 0 for excluded loans. */
+  caps: number[];
+  floors: number[];
+}
+
+/**
+ * Resolves loan rules against the projected loans. Rules for loans that are not
+ * projected (e.g. repaid since the simulation was queued) are ignored.
+ */
+const resolveLoanRuleLimits = (
+  loans: ProjectionLoan[],
+  loanRules: SimulationLoanRule[] = [],
+): LoanRuleLimits => {
+  const rulesByLoan = new Map(loanRules.map((rule) => [rule.loanId, rule]));
+  const rules = loans.map((loan) => rulesByLoan.get(loan.id));
+
+  return {
+    pinned: rules.map((rule) => Boolean(rule?.pinned)),
+    caps: rules.map((rule) => {
+      if (rule?.excluded) return 0;
+      return rule?.monthlyCap != null
+        ? toGrosze(rule.monthlyCap, "down")
+        : Infinity;
+    }),
+    floors: rules.map((rule) =>
+      rule?.excluded || rule?.monthlyFloor == null
+        ? 0
+        : toGrosze(rule.monthlyFloor, "down"),
+    ),
+  };
+};
+
+/**
+ * Resolves strategy parameters once per projection so allocation calls receive parsed values.
+ *
+ * @throws Error when stored parameters no longer satisfy the strategy schema
+ */
+const resolveStrategyParams = (strategy: string, raw: unknown): unknown => {
+  const parsed = resolveStrategy(strategy).parseParams(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid parameters for strategy ${strategy}: ${parsed.error.message}`,
+    );
+  }
+  return parsed.data;
 };
 
 /**
@@ -373,14 +1387,38 @@ export const allocateOverpayment = (
  * This is the advanced projection that applies payment strategies and can model
  * payment reduction goals or fastest payoff scenarios.
  *
+ * Each loan is amortized by its type (annuity or decreasing installments), and each
+ * overpayment follows the loan's overpayment effect: shorten the term or recast
+ * a lower installment over the remaining term. With a payment reduction target, every
+ * overpaid loan is recast until the combined installment drops to the target; after
+ * that the per-loan effect applies again. Freed installments
+ * (recast reductions and closed loans) join the overpayment budget only when
+ * reinvestment is enabled. The monthly budget follows the budget schedule when one is
+ * given. Prepayment fee rules steer the budget to fee-free headroom
+ * first; commissions are paid out of the budget and reported per month. Planned lump
+ * sums are paid in their month: a lump sum pinned to a loan goes to that loan, and
+ * anything it cannot absorb joins unpinned lump sums in that month's budget. With
+ * strategy phases, each month is allocated by the phase in effect once the triggers
+ * have been checked against the balances the month starts with.
+ * Loan rules then shape that budget whatever the strategy: each loan's floor is set
+ * aside first, pinned loans are overpaid next, and the strategy splits the rest;
+ * excluded loans get nothing and caps bound what a loan receives in a month (pinned
+ * lump sums are not subject to the rules).
+ * Variable-rate loans are repriced whenever their rate changes, and scheduled loan
+ * changes are replayed in their effective month. Like the baseline, amounts are
+ * computed in whole grosze: strategies split the budget in złoty, and each share is
+ * rounded down to the grosz (commissions half up) so a month never spends more than
+ * its budget.
+ *
  * @param loans - Array of loans to project
- * @param strategy - Payment strategy: 'avalanche', 'snowball', 'equal', 'ratio'
- * @param paymentReductionTarget - Target monthly payment (null for fastest payoff)
- * @param monthlyOverpaymentLimit - Maximum additional payment per month
+ * @param strategy - Registered strategy id (see strategies/registry)
+ * @param paymentReductionTarget - Target combined monthly installment (null for fastest payoff)
+ * @param monthlyOverpaymentLimit - Maximum additional payment per month (before any budget schedule step)
  * @param reinvestReducedPayments - Whether to reinvest saved payments
  * @param startYear - Starting year for projection
  * @param startMonth - Starting month (0-indexed)
  * @param maxMonths - Maximum months to project (default: 600)
+ * @param options - Strategy parameters and phases, budget schedule, lump sums, loan rules, index values and scheduled loan changes
  * @returns Array of monthly projection data with strategy applied
  *
  * @example
@@ -397,16 +1435,22 @@ export const generateStrategyProjection = (
   startYear: number,
   startMonth: number,
   maxMonths = 600,
+  options: StrategyProjectionOptions = {},
 ): {
   month: string;
   interest: number;
   principal: number;
   remaining: number;
+  /** Prepayment commissions paid this month. */
+  fees: number;
   loanData: {
     loanId: string;
     loanAmount: number;
     interest: number;
     principal: number;
+    overpayment: number;
+    prepaymentFee: number;
+    installment: number;
     remaining: number;
   }[];
 }[] => {
@@ -415,109 +1459,332 @@ export const generateStrategyProjection = (
     interest: number;
     principal: number;
     remaining: number;
+    fees: number;
     loanData: {
       loanId: string;
       loanAmount: number;
       interest: number;
       principal: number;
+      overpayment: number;
+      prepaymentFee: number;
+      installment: number;
       remaining: number;
     }[];
   }[] = [];
 
+  const strategyPhases = options.strategyPhases ?? [];
+  const phaseAllocators = [
+    { strategy, params: options.strategyParams },
+    ...strategyPhases.map((phase) => ({
+      strategy: phase.strategy,
+      params: phase.strategyParams,
+    })),
+  ].map((phase) => ({
+    strategy: phase.strategy,
+    strategyParams: resolveStrategyParams(phase.strategy, phase.params),
+  }));
+  let phase = 0;
   let year = startYear;
   let month = startMonth;
-  const balances = loans.map((loan) => loan.remaining_balance);
-  const firstMonthPayments = loans.map((loan) => {
-    return deriveStandardMonthlyPayment(
-      loan.remaining_balance,
-      loan.annual_rate,
-      loan.term_months,
-    );
-  });
+  const state = createLoanProjectionState(loans);
+  const { balances, installments, remainingTerms, loanAmounts } = state;
+  const loanChanges = indexLoanChanges(
+    options.loanChanges,
+    isoMonthString(startYear, startMonth),
+  );
+  const lumpSums = indexLumpSums(options.lumpSums);
+  const loanRules = resolveLoanRuleLimits(loans, options.loanRules);
+  const initialInstallmentTotal = installments.reduce(
+    (sum, installment) => sum + installment,
+    0,
+  );
+  const installmentTarget =
+    paymentReductionTarget !== null ? toGrosze(paymentReductionTarget) : null;
+  let reducingInstallments =
+    installmentTarget !== null && initialInstallmentTotal > installmentTarget;
   let monthCount = 0;
-  let monthlyReducedPaymentsTotal = 0;
+  // Installment no longer owed per loan: recast reductions and closed loans only, so
+  // the contractual decline of decreasing installments is never reinvested
+  const freedInstallments = new Array<number>(loans.length).fill(0);
+  // Overpaid principal per loan in the current calendar year, for free allowances
+  let allowanceYear = year;
+  const overpaidThisYear = new Array<number>(loans.length).fill(0);
 
   // Continue until all loans are paid off or maxMonths reached
   while (
-    (balances.some((b) => b > 0.01) || monthCount < 1) &&
+    (balances.some((b) => b > 0) || monthCount < 1) &&
     monthCount < maxMonths
   ) {
     const monthStr = isoMonthString(year, month);
     let totalInterest = 0;
     let totalPrincipal = 0;
     let totalRemaining = 0;
+    let totalFees = 0;
     const loanData: {
       loanId: string;
       loanAmount: number;
       interest: number;
       principal: number;
+      overpayment: number;
+      prepaymentFee: number;
+      installment: number;
       remaining: number;
     }[] = [];
 
-    // Allocate overpayment based on strategy
-    const overpaymentAllocation = allocateOverpayment(
+    applyMonthStartAdjustments(
       loans,
-      strategy,
-      monthlyOverpaymentLimit +
-        (reinvestReducedPayments ? monthlyReducedPaymentsTotal : 0),
+      monthStr,
+      options.rateIndexTimeline,
+      loanChanges,
+      state,
+    );
+
+    if (strategyPhases.length > 0) {
+      phase = resolveStrategyPhase(strategyPhases, phase, {
+        month: monthStr,
+        balances: new Map(
+          loans.map((loan, i) => [loan.id, fromGrosze(balances[i])]),
+        ),
+        paymentTargetMet: installmentTarget !== null && !reducingInstallments,
+      });
+    }
+    const { strategy: phaseStrategy, strategyParams } = phaseAllocators[phase];
+
+    // Accrue interest and apply scheduled installments first, so the strategy
+    // sees only the balance an overpayment can still reduce
+    const accruals = loans.map((loan, i) =>
+      accrueInstallment(loan, i, state, monthStr),
+    );
+
+    if (year !== allowanceYear) {
+      allowanceYear = year;
+      overpaidThisYear.fill(0);
+    }
+
+    // Allocate overpayment based on strategy, routing money around prepayment fees.
+    // Budgets, per-loan limits and results are in grosze; returns the part no loan
+    // could take.
+    const overpayments = new Array<number>(loans.length).fill(0);
+    const fees = new Array<number>(loans.length).fill(0);
+    const allocate = (budget: number, limits?: readonly number[]): number => {
+      const outstanding = loans.map((loan, i) =>
+        Math.max(
+          0,
+          balances[i] - accruals[i].scheduledPrincipal - overpayments[i],
+        ),
+      );
+      const capacities = outstanding.map((amount, i) =>
+        Math.min(limits?.[i] ?? Infinity, amount),
+      );
+      const terms = loans.map((loan, i) =>
+        resolvePrepaymentTerms(
+          loan,
+          monthStr,
+          fromGrosze(overpaidThisYear[i] + overpayments[i]),
+        ),
+      );
+      const allocation = allocateWithPrepaymentTerms(
+        loans.map((loan, i) => ({
+          id: loan.id,
+          balance: fromGrosze(capacities[i]),
+          outstanding: fromGrosze(outstanding[i]),
+          annualRate: accruals[i].annualRate,
+          monthlyInterest: fromGrosze(accruals[i].interest),
+          installment: fromGrosze(installments[i]),
+          remainingMonths: Math.max(0, remainingTerms[i] - 1),
+        })),
+        phaseStrategy,
+        fromGrosze(budget),
+        strategyParams,
+        terms,
+        {
+          objective: reducingInstallments ? "installment" : "interest",
+          reinvestFreedPayments: reinvestReducedPayments,
+        },
+      );
+
+      // The commission is charged on the part of what is actually applied beyond the
+      // loan's fee-free share, so rounding and caps never leave a fee without principal
+      let left = budget;
+      allocation.overpayments.forEach((amount, i) => {
+        const { feeRate } = terms[i];
+        const freePart =
+          feeRate > 0
+            ? toGrosze(Math.max(0, amount - allocation.fees[i] / feeRate))
+            : Infinity;
+        const feeOn = (principal: number): number =>
+          feeRate > 0
+            ? toGrosze(fromGrosze(Math.max(0, principal - freePart)) * feeRate)
+            : 0;
+        const affordable =
+          feeRate > 0
+            ? Math.min(
+                left,
+                Math.floor((left + freePart * feeRate) / (1 + feeRate)),
+              )
+            : left;
+        const overpayment = Math.max(
+          0,
+          Math.min(toGrosze(amount, "down"), capacities[i], affordable),
+        );
+        if (overpayment <= 0) return;
+        const fee = Math.min(feeOn(overpayment), left - overpayment);
+        overpayments[i] += overpayment;
+        fees[i] += fee;
+        left -= overpayment + fee;
+      });
+      return left;
+    };
+    const onlyLoan = (index: number, limit = Infinity): number[] =>
+      loans.map((loan, i) => (i === index ? limit : 0));
+
+    // Pinned lump sums go to their loan first; the rest joins this month's budget
+    let pooledLumpSums = 0;
+    for (const lumpSum of lumpSums.get(monthStr) ?? []) {
+      const pinnedLoan = lumpSum.loanId
+        ? loans.findIndex((loan) => loan.id === lumpSum.loanId)
+        : -1;
+      const amount = toGrosze(lumpSum.amount);
+      pooledLumpSums +=
+        pinnedLoan >= 0 ? allocate(amount, onlyLoan(pinnedLoan)) : amount;
+    }
+
+    // Budget each loan has received this month, checked against its cap
+    const fromBudget = new Array<number>(loans.length).fill(0);
+    const headroom = (i: number): number =>
+      Math.max(0, loanRules.caps[i] - fromBudget[i]);
+    const allocateBudget = (
+      budget: number,
+      limits: readonly number[],
+    ): number => {
+      const before = overpayments.slice();
+      const left = allocate(budget, limits);
+      overpayments.forEach((amount, i) => {
+        fromBudget[i] += amount - before[i];
+      });
+      return left;
+    };
+
+    let monthBudget =
+      toGrosze(
+        resolveMonthlyBudget(
+          monthlyOverpaymentLimit,
+          monthStr,
+          options.budgetSchedule,
+        ),
+        "down",
+      ) +
+      (reinvestReducedPayments
+        ? freedInstallments.reduce((sum, amount) => sum + amount, 0)
+        : 0) +
+      pooledLumpSums;
+
+    loanRules.floors.forEach((floor, i) => {
+      const amount = Math.min(monthBudget, floor, headroom(i));
+      if (amount <= 0) return;
+      monthBudget += allocateBudget(amount, onlyLoan(i, amount)) - amount;
+    });
+    if (loanRules.pinned.some(Boolean)) {
+      monthBudget = allocateBudget(
+        monthBudget,
+        loans.map((loan, i) => (loanRules.pinned[i] ? headroom(i) : 0)),
+      );
+    }
+    allocateBudget(
+      monthBudget,
+      loans.map((loan, i) => headroom(i)),
     );
 
     for (let i = 0; i < loans.length; i++) {
       if (balances[i] <= 0) continue;
 
       const loan = loans[i];
-      const monthlyRate = normalizeAnnualRate(loan.annual_rate) / 12;
-      const standardPayment = deriveStandardMonthlyPayment(
-        loan.remaining_balance,
-        loan.annual_rate,
-        loan.term_months,
+      const { annualRate, scheduledPrincipal } = accruals[i];
+      const overpayment = overpayments[i];
+      const prepaymentFee = fees[i];
+      const installmentDue = installments[i];
+      const principalPartDue = state.principalParts[i];
+      overpaidThisYear[i] += overpayment;
+      // Overpaid principal stops accruing from the day it is paid, not the next cycle
+      const interestCredit = Math.min(
+        accruals[i].interest,
+        roundInterest(
+          loan,
+          midCycleInterestCredit(loan, overpayment, annualRate, monthStr),
+        ),
+      );
+      const interest = accruals[i].interest - interestCredit;
+      const principal = Math.min(
+        scheduledPrincipal +
+          overpayment +
+          (loan.amortization_type === "decreasing" ? 0 : interestCredit),
+        balances[i],
       );
-      const totalPayment = standardPayment + overpaymentAllocation[i];
-
-      const interest = balances[i] * monthlyRate;
-      const principal = Math.min(totalPayment - interest, balances[i]);
 
       balances[i] -= principal;
+      remainingTerms[i] = Math.max(0, remainingTerms[i] - 1);
+
+      if (balances[i] > 0 && reducingInstallments && overpayment > 0) {
+        // Recast: keep the remaining term, lower the installment
+        rescheduleLoan(loan, i, state);
+        refreshInstallmentDue(loan, i, state);
+      } else if (overpayment > 0) {
+        applyOverpaymentEffect(loan, i, state);
+      } else {
+        refreshInstallmentDue(loan, i, state);
+      }
+
+      if (balances[i] <= 0) {
+        freedInstallments[i] += installmentDue;
+      } else if (overpayment > 0) {
+        freedInstallments[i] +=
+          loan.amortization_type === "decreasing"
+            ? Math.max(
+                0,
+                Math.min(principalPartDue, balances[i]) -
+                  Math.min(state.principalParts[i], balances[i]),
+              )
+            : Math.max(0, installmentDue - installments[i]);
+      }
+
       totalInterest += interest;
       totalPrincipal += principal;
       totalRemaining += Math.max(0, balances[i]);
+      totalFees += prepaymentFee;
 
       loanData.push({
         loanId: loan.id,
-        loanAmount: loan.principal,
-        interest,
-        principal,
-        remaining: Math.max(0, balances[i]),
+        loanAmount: loanAmounts[i],
+        interest: fromGrosze(interest),
+        principal: fromGrosze(principal),
+        overpayment: fromGrosze(overpayment),
+        prepaymentFee: fromGrosze(prepaymentFee),
+        installment: fromGrosze(installments[i]),
+        remaining: fromGrosze(Math.max(0, balances[i])),
       });
     }
 
     schedule.push({
       month: monthStr,
-      interest: totalInterest,
-      principal: totalPrincipal,
-      remaining: totalRemaining,
+      interest: fromGrosze(totalInterest),
+      principal: fromGrosze(totalPrincipal),
+      remaining: fromGrosze(totalRemaining),
+      fees: fromGrosze(totalFees),
       loanData,
     });
 
-    // Calculate reduced payments for reinvestment
-    if (monthCount > 0) {
-      monthlyReducedPaymentsTotal = loanData.reduce(
-        (sum, loan, index) =>
-          sum + (firstMonthPayments[index] - loan.principal),
-        0,
-      );
-    }
-
-    // Check if payment reduction target is met
-    if (paymentReductionTarget !== null && strategy === "payment_reduction") {
-      const currentMonthlyPayments = loanData.reduce(
-        (sum, loan) => sum + loan.principal,
-        0,
-      );
+    const currentInstallmentTotal = installments.reduce(
+      (sum, installment) => sum + installment,
+      0,
+    );
 
-      if (currentMonthlyPayments <= paymentReductionTarget) {
-        break;
-      }
+    // Once the target is met, switch to shortening the term
+    if (
+      reducingInstallments &&
+      installmentTarget !== null &&
+      currentInstallmentTotal <= installmentTarget
+    ) {
+      reducingInstallments = false;
     }
 
     const next = incrementMonth(year, month);
@@ -0,0 +1,411 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { z } from "zod";
+
+import type { Database } from "../../db/database.types.ts";
+import type {
+  PercentileBand,
+  StressTestBalancePoint,
+  StressTestModel,
+  StressTestResultDto,
+} from "../../types.ts";
+import {
+  conflictError,
+  internalError,
+  notFoundError,
+  validationError,
+} from "../errors.ts";
+import {
+  parseStoredLoanRules,
+  parseStoredLumpSums,
+  parseStoredStrategyPhases,
+  type StressTestParsed,
+} from "../validation/simulation.ts";
+import { parseStoredBudgetSchedule } from "../validation/userSettings.ts";
+import { fetchScheduledLoanChanges } from "./loanChangeEventService.ts";
+import { fetchRateIndexTimeline } from "./rateIndexService.ts";
+import {
+  computeProjectedPayoffMonth,
+  generateStrategyProjection,
+  incrementMonth,
+  isoMonthString,
+  resolveAnnualRate,
+  sumMoney,
+} from "./simulationSharedService.ts";
+import type { RateIndexTimeline } from "./simulationSharedService.ts";
+
+type LoanRow = Database["public"]["Tables"]["loans"]["Row"];
+type SimulationRow = Database["public"]["Tables"]["simulations"]["Row"];
+
+type SupabaseErrorPayload = { code: string; message: string } | null;
+
+const withSupabaseError = (error: SupabaseErrorPayload) => {
+  if (!error) {
+    return undefined;
+  }
+
+  return { supabaseCode: error.code, supabaseMessage: error.message };
+};
+
+const MAX_MONTHS = 600;
+/** Runs computed between yields to the event loop, so streams and jobs keep moving. */
+const RUNS_PER_CHUNK = 10;
+const STRESSABLE_STATUSES: SimulationRow["status"][] = [
+  "completed",
+  "active",
+  "stale",
+];
+
+/** Where historical index values are read from unless RATE_HISTORY_FILE says otherwise. */
+const DEFAULT_RATE_HISTORY_FILE = "data/rate-history.json";
+
+const rateHistorySchema = z
+  .array(
+    z.object({
+      month: z.string().regex(/^\d{4}-\d{2}-01$/),
+      value: z.number(),
+    }),
+  )
+  .min(2);
+
+let rateHistoryChanges: number[] | null = null;
+
+/**
+ * Loads month-over-month index changes from the local history file: a JSON array of
+ * `{ month: "YYYY-MM-01", value }` with values in decimal form. Read once per process.
+ */
+const loadRateHistoryChanges = async (): Promise<number[]> => {
+  if (rateHistoryChanges) {
+    return rateHistoryChanges;
+  }
+
+  const path = resolve(
+    process.env.RATE_HISTORY_FILE || DEFAULT_RATE_HISTORY_FILE,
+  );
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await readFile(path, "utf8"));
+  } catch {
+    throw validationError(
+      "RATE_HISTORY_UNAVAILABLE",
+      "Historical index data is not available on this server",
+    );
+  }
+
+  const parsed = rateHistorySchema.safeParse(raw);
+  if (!parsed.success) {
+    throw internalError(
+      "RATE_HISTORY_INVALID",
+      "Historical index data file is malformed",
+      { details: parsed.error.issues },
+    );
+  }
+
+  const values = [...parsed.data]
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map((point) => point.value);
+  rateHistoryChanges = values.slice(1).map((value, i) => value - values[i]);
+  return rateHistoryChanges;
+};
+
+/**
+ * Small seeded generator (mulberry32) so a stress test can be reproduced from its seed.
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const standardNormal = (random: () => number): number => {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Cumulative index shift for every projection month of one run.
+ */
+const generateShiftPath = (
+  model: StressTestModel,
+  drift: number,
+  volatility: number,
+  historyChanges: readonly number[],
+  random: () => number,
+): number[] => {
+  const shifts: number[] = [];
+  const offset = Math.floor(random() * historyChanges.length);
+  let shift = 0;
+
+  for (let month = 0; month < MAX_MONTHS; month++) {
+    shift +=
+      model === "historical"
+        ? historyChanges[(offset + month) % historyChanges.length]
+        : drift / 12 + (volatility / Math.sqrt(12)) * standardNormal(random);
+    shifts.push(shift);
+  }
+
+  return shifts;
+};
+
+/**
+ * Moves every index the variable-rate loans follow by the run's shift path. Months
+ * without a published value use the index implied by the loan's current rate.
+ */
+const buildStressedTimeline = (
+  loans: LoanRow[],
+  baseTimeline: RateIndexTimeline,
+  months: readonly string[],
+  shifts: readonly number[],
+): RateIndexTimeline => {
+  const stressed: RateIndexTimeline = new Map();
+
+  for (const loan of loans) {
+    if (
+      loan.rate_type !== "variable" ||
+      !loan.rate_index_id ||
+      stressed.has(loan.rate_index_id)
+    ) {
+      continue;
+    }
+
+    stressed.set(
+      loan.rate_index_id,
+      months.map((month, i) => ({
+        month,
+        value: Math.max(
+          0,
+          resolveAnnualRate(loan, month, baseTimeline) -
+            (loan.rate_margin ?? 0) +
+            shifts[i],
+        ),
+      })),
+    );
+  }
+
+  return stressed;
+};
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending. */
+const percentile = (sorted: readonly number[], p: number): number => {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = (sorted.length - 1) * p;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+const toBand = (values: number[]): PercentileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+  };
+};
+
+const fetchSimulation = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+): Promise<SimulationRow> => {
+  const { data, error } = await supabase
+    .from("simulations")
+    .select("*")
+    .eq("id", simulationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw internalError("SUPABASE_ERROR", "Failed to fetch simulation", {
+      cause: error,
+      details: withSupabaseError(error),
+    });
+  }
+
+  if (!data) {
+    throw notFoundError("SIMULATION_NOT_FOUND", "Simulation not found");
+  }
+
+  return data;
+};
+
+/**
+ * Replays a completed simulation under randomized index paths. Each run moves the
+ * indexes of variable-rate loans by its own path and projects the simulation's
+ * strategy, budget and lump sums from the current month on the user's open loans.
+ * Fixed-rate loans keep their contract rate, so a portfolio without a variable-rate
+ * loan is rejected. Nothing is persisted.
+ */
+export const runStressTest = async (
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  simulationId: string,
+  cmd: StressTestParsed,
+  now = new Date(),
+): Promise<StressTestResultDto> => {
+  const simulation = await fetchSimulation(supabase, userId, simulationId);
+
+  if (!STRESSABLE_STATUSES.includes(simulation.status)) {
+    throw conflictError(
+      "SIMULATION_NOT_COMPLETED",
+      "Only completed simulations can be stress tested",
+    );
+  }
+
+  const { data: loans, error: loansError } = await supabase
+    .from("loans")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("is_closed", false);
+
+  if (loansError) {
+    throw internalError("SUPABASE_ERROR", "Failed to load loans", {
+      cause: loansError,
+      details: withSupabaseError(loansError),
+    });
+  }
+
+  if (!loans || loans.length === 0) {
+    throw validationError(
+      "NO_OPEN_LOANS",
+      "There are no open loans to stress test",
+    );
+  }
+
+  if (
+    !loans.some((loan) => loan.rate_type === "variable" && loan.rate_index_id)
+  ) {
+    throw validationError(
+      "NO_VARIABLE_RATE_LOANS",
+      "Only variable-rate loans respond to rate scenarios; all open loans have fixed rates",
+    );
+  }
+
+  const historyChanges =
+    cmd.model === "historical" ? await loadRateHistoryChanges() : [];
+  const rateIndexTimeline = await fetchRateIndexTimeline(
+    supabase,
+    userId,
+    loans,
+  );
+  const loanChanges = await fetchScheduledLoanChanges(supabase, userId, loans);
+
+  const startYear = now.getFullYear();
+  const startMonth = now.getMonth();
+  const months: string[] = [];
+  for (
+    let cursor = { year: startYear, month: startMonth };
+    months.length < MAX_MONTHS;
+    cursor = incrementMonth(cursor.year, cursor.month)
+  ) {
+    months.push(isoMonthString(cursor.year, cursor.month));
+  }
+
+  const seed = cmd.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const paymentReductionTarget =
+    simulation.goal === "payment_reduction"
+      ? simulation.payment_reduction_target
+      : null;
+  const budgetSchedule = parseStoredBudgetSchedule(
+    simulation.overpayment_budget_schedule,
+  );
+  const lumpSums = parseStoredLumpSums(simulation.lump_sums);
+  const loanRules = parseStoredLoanRules(simulation.loan_rules);
+  const strategyPhases = parseStoredStrategyPhases(simulation.strategy_phases);
+
+  const monthsToPayoff: number[] = [];
+  const totalInterest: number[] = [];
+  const balancesByRun: number[][] = [];
+
+  for (let run = 0; run < cmd.runs; run++) {
+    if (run > 0 && run % RUNS_PER_CHUNK === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    const shifts = generateShiftPath(
+      cmd.model,
+      cmd.drift,
+      cmd.volatility,
+      historyChanges,
+      random,
+    );
+    const schedule = generateStrategyProjection(
+      loans,
+      simulation.strategy,
+      paymentReductionTarget,
+      simulation.monthly_overpayment_limit,
+      simulation.reinvest_reduced_payments,
+      startYear,
+      startMonth,
+      MAX_MONTHS,
+      {
+        strategyParams: simulation.strategy_params,
+        strategyPhases,
+        budgetSchedule,
+        lumpSums,
+        loanRules,
+        rateIndexTimeline: buildStressedTimeline(
+          loans,
+          rateIndexTimeline,
+          months,
+          shifts,
+        ),
+        loanChanges,
+      },
+    );
+
+    monthsToPayoff.push(schedule.length);
+    totalInterest.push(sumMoney(schedule.map((entry) => entry.interest)));
+    balancesByRun.push(schedule.map((entry) => entry.remaining));
+  }
+
+  const longestRun = Math.max(...monthsToPayoff);
+  const balances: StressTestBalancePoint[] = months
+    .slice(0, longestRun)
+    .map((month, i) => {
+      const sorted = balancesByRun
+        .map((runBalances) => runBalances[i] ?? 0)
+        .sort((a, b) => a - b);
+      return {
+        month,
+        p10: percentile(sorted, 0.1),
+        p50: percentile(sorted, 0.5),
+        p90: percentile(sorted, 0.9),
+      };
+    });
+
+  const monthsBand = toBand(monthsToPayoff);
+  const startIso = now.toISOString();
+  const toPayoffMonth = (value: number) =>
+    computeProjectedPayoffMonth(startIso, Math.round(value));
+
+  return {
+    simulationId: simulation.id,
+    model: cmd.model,
+    runs: cmd.runs,
+    seed,
+    monthsToPayoff: monthsBand,
+    payoffMonth: {
+      p10: toPayoffMonth(monthsBand.p10),
+      p25: toPayoffMonth(monthsBand.p25),
+      p50: toPayoffMonth(monthsBand.p50),
+      p75: toPayoffMonth(monthsBand.p75),
+      p90: toPayoffMonth(monthsBand.p90),
+    },
+    totalInterest: toBand(totalInterest),
+    balances,
+  };
+};
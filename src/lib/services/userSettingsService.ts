@@ -6,16 +6,23 @@ import type {
   UserSettingsDto,
 } from "../../types.ts";
 import { conflictError, internalError, notFoundError } from "../errors.ts";
+import {
+  parseStoredBudgetSchedule,
+  serializeBudgetSchedule,
+} from "../validation/userSettings.ts";
 import { invalidateDashboardCache } from "./dashboardService.ts";
 
 const SELECT_COLUMNS =
-  "user_id, monthly_overpayment_limit, reinvest_reduced_payments, updated_at";
+  "user_id, monthly_overpayment_limit, overpayment_budget_schedule, reinvest_reduced_payments, updated_at";
 type UserSettingsRow = Database["public"]["Tables"]["user_settings"]["Row"];
 
 const toDto = (row: UserSettingsRow): UserSettingsDto => {
   return {
     userId: row.user_id,
     monthlyOverpaymentLimit: row.monthly_overpayment_limit,
+    overpaymentBudgetSchedule: parseStoredBudgetSchedule(
+      row.overpayment_budget_schedule,
+    ),
     reinvestReducedPayments: row.reinvest_reduced_payments,
     updatedAt: row.updated_at,
   };
@@ -100,6 +107,9 @@ const insertUserSettings = async (
       .insert({
         user_id: userId,
         monthly_overpayment_limit: command.monthlyOverpaymentLimit,
+        overpayment_budget_schedule: serializeBudgetSchedule(
+          command.overpaymentBudgetSchedule ?? null,
+        ),
         reinvest_reduced_payments: command.reinvestReducedPayments,
       })
       .select(SELECT_COLUMNS)
@@ -154,6 +164,13 @@ const updateUserSettingsRow = async (
       .from("user_settings")
       .update({
         monthly_overpayment_limit: command.monthlyOverpaymentLimit,
+        ...(command.overpaymentBudgetSchedule !== undefined
+          ? {
+              overpayment_budget_schedule: serializeBudgetSchedule(
+                command.overpaymentBudgetSchedule,
+              ),
+            }
+          : {}),
         reinvest_reduced_payments: command.reinvestReducedPayments,
       })
       .eq("user_id", userId)
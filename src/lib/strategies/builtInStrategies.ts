@@ -0,0 +1,82 @@
+import type { AllocationLoan, StrategyDefinition } from "./types.ts";
+
+const isOpen = (loan: AllocationLoan) => loan.balance > 0;
+
+const splitEvenly = (loans: readonly AllocationLoan[], budget: number) => {
+  const openCount = loans.filter(isOpen).length;
+  return loans.map((loan) =>
+    openCount > 0 && isOpen(loan) ? budget / openCount : 0,
+  );
+};
+
+/**
+ * Priority waterfall: the whole budget goes to the first open loan in priority order,
+ * and only the part exceeding its balance spills over to the next one.
+ */
+const allocateWaterfall = (
+  loans: readonly AllocationLoan[],
+  budget: number,
+  compare: (a: AllocationLoan, b: AllocationLoan) => number,
+): number[] => {
+  const ordered = loans
+    .map((loan, index) => ({ loan, index }))
+    .filter((item) => isOpen(item.loan))
+    .sort((a, b) => compare(a.loan, b.loan));
+  const allocation = new Array(loans.length).fill(0);
+  let remaining = budget;
+
+  for (const item of ordered) {
+    if (remaining <= 0) break;
+    allocation[item.index] = Math.min(remaining, item.loan.balance);
+    remaining -= allocation[item.index];
+  }
+
+  return allocation;
+};
+
+export const avalancheStrategy: StrategyDefinition = {
+  id: "avalanche",
+  name: "Debt Avalanche",
+  description: "Pay highest interest first",
+  allocate: (loans, budget) =>
+    // Sort by rate descending - pay highest interest first
+    allocateWaterfall(loans, budget, (a, b) => b.annualRate - a.annualRate),
+};
+
+export const snowballStrategy: StrategyDefinition = {
+  id: "snowball",
+  name: "Debt Snowball",
+  description: "Pay smallest balance first",
+  allocate: (loans, budget) =>
+    // Sort by debt ascending - pay smallest balance first. `balance` only bounds the
+    // allocation and can be capped (e.g. by a fee-free allowance) below the debt
+    allocateWaterfall(
+      loans,
+      budget,
+      (a, b) => (a.outstanding ?? a.balance) - (b.outstanding ?? b.balance),
+    ),
+};
+
+export const equalStrategy: StrategyDefinition = {
+  id: "equal",
+  name: "Equal Distribution",
+  description: "Distribute overpayment equally",
+  allocate: splitEvenly,
+};
+
+export const ratioStrategy: StrategyDefinition = {
+  id: "ratio",
+  name: "Ratio Allocation",
+  description: "Allocate by interest share",
+  allocate: (loans, budget) => {
+    // Proportional to monthly interest - more interest = more overpayment
+    const totalInterest = loans.reduce(
+      (sum, loan) => sum + (isOpen(loan) ? loan.monthlyInterest : 0),
+      0,
+    );
+    if (totalInterest === 0) return splitEvenly(loans, budget);
+    return loans.map((loan) =>
+      isOpen(loan) ? (loan.monthlyInterest / totalInterest) * budget : 0,
+    );
+  },
+};
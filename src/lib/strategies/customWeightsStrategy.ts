@@ -0,0 +1,218 @@
+import { z } from "zod";
+
+import type { AllocationLoan, StrategyDefinition } from "./types.ts";
+
+export const CUSTOM_WEIGHTS_STRATEGY_ID = "custom_weights";
+
+const MAX_WEIGHTED_LOANS = 50;
+/** Percentages may be off by this much from 100 after rounding in the client. */
+const PERCENT_TOLERANCE = 0.01;
+/** Budget left below this (in złoty) is not worth another redistribution round. */
+const SPLIT_EPSILON = 1e-9;
+
+const percentagesSchema = z
+  .object({
+    mode: z.literal("percentages"),
+    percentages: z
+      .array(
+        z
+          .object({
+            loanId: z.string().uuid(),
+            percent: z.number().min(0).max(100),
+          })
+          .strict(),
+      )
+      .min(1)
+      .max(MAX_WEIGHTED_LOANS),
+  })
+  .strict();
+
+const formulaSchema = z
+  .object({
+    mode: z.literal("formula"),
+    rateWeight: z.number().min(0).max(100),
+    balanceWeight: z.number().min(0).max(100),
+    installmentWeight: z.number().min(0).max(100),
+  })
+  .strict();
+
+/**
+ * Either a fixed percentage per loan, or a formula that weighs each loan by its share
+ * of the open loans' rates, balances and installments.
+ */
+export const customWeightsParamsSchema = z
+  .discriminatedUnion("mode", [percentagesSchema, formulaSchema])
+  .superRefine((val, ctx) => {
+    if (val.mode === "formula") {
+      if (val.rateWeight + val.balanceWeight + val.installmentWeight <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "At least one formula weight must be greater than 0",
+        });
+      }
+      return;
+    }
+
+    const seen = new Set<string>();
+    val.percentages.forEach((entry, index) => {
+      if (seen.has(entry.loanId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["percentages", index, "loanId"],
+          message: "Only one percentage per loan is allowed",
+        });
+      }
+      seen.add(entry.loanId);
+    });
+
+    const total = val.percentages.reduce(
+      (sum, entry) => sum + entry.percent,
+      0,
+    );
+    if (Math.abs(total - 100) > PERCENT_TOLERANCE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["percentages"],
+        message: "Percentages must add up to 100",
+      });
+    }
+  });
+
+export type CustomWeightsParams = z.infer<typeof customWeightsParamsSchema>;
+
+const isOpen = (loan: AllocationLoan) => loan.balance > 0;
+
+/** Each open loan's share of `value` across all open loans; zeros when none has any. */
+const shares = (
+  loans: readonly AllocationLoan[],
+  value: (loan: AllocationLoan) => number,
+): number[] => {
+  const total = loans.reduce(
+    (sum, loan) => sum + (isOpen(loan) ? Math.max(0, value(loan)) : 0),
+    0,
+  );
+  return loans.map((loan) =>
+    total > 0 && isOpen(loan) ? Math.max(0, value(loan)) / total : 0,
+  );
+};
+
+/**
+ * Resolves the weight of every loan for this month. Formula weights follow the
+ * balances and installments of the month, so they shift as loans are repaid.
+ */
+export const resolveLoanWeights = (
+  loans: readonly AllocationLoan[],
+  params: CustomWeightsParams,
+): number[] => {
+  if (params.mode === "percentages") {
+    const percentByLoan = new Map(
+      params.percentages.map((entry) => [entry.loanId, entry.percent]),
+    );
+    return loans.map((loan) => percentByLoan.get(loan.id) ?? 0);
+  }
+
+  const rateShares = shares(loans, (loan) => loan.annualRate);
+  const balanceShares = shares(
+    loans,
+    (loan) => loan.outstanding ?? loan.balance,
+  );
+  const installmentShares = shares(loans, (loan) => loan.installment ?? 0);
+
+  return loans.map(
+    (loan, i) =>
+      params.rateWeight * rateShares[i] +
+      params.balanceWeight * balanceShares[i] +
+      params.installmentWeight * installmentShares[i],
+  );
+};
+
+/**
+ * Splits `remaining` across the loans at `indices` in proportion to `weightOf`, adding
+ * to `allocation`. A loan that cannot absorb its share keeps only its room, and the
+ * rest is split again across the others. Returns what none of them could take.
+ */
+const splitInProportion = (
+  loans: readonly AllocationLoan[],
+  allocation: number[],
+  indices: readonly number[],
+  weightOf: (i: number) => number,
+  budget: number,
+): number => {
+  let active = indices;
+  let remaining = budget;
+
+  while (remaining > SPLIT_EPSILON && active.length > 0) {
+    const totalWeight = active.reduce((sum, i) => sum + weightOf(i), 0);
+    const filled = new Set<number>();
+    let spent = 0;
+
+    for (const i of active) {
+      const room = loans[i].balance - allocation[i];
+      const share = (remaining * weightOf(i)) / totalWeight;
+      const amount = Math.min(share, room);
+      allocation[i] += amount;
+      spent += amount;
+      if (share >= room) {
+        filled.add(i);
+      }
+    }
+
+    remaining -= spent;
+    if (filled.size === 0) break;
+    active = active.filter((i) => !filled.has(i));
+  }
+
+  return remaining;
+};
+
+/**
+ * Splits the budget in proportion to the weights. A loan that cannot absorb its share
+ * (paid off, or capped below it) keeps only its balance, and the rest is split again
+ * across the remaining weighted loans in proportion to their weights. Whatever the
+ * weighted loans cannot take, or the whole budget when none of them is open, is split
+ * evenly across the other open loans, so it is never left unused.
+ */
+export const allocateByWeights = (
+  loans: readonly AllocationLoan[],
+  budget: number,
+  weights: readonly number[],
+): number[] => {
+  const allocation = new Array<number>(loans.length).fill(0);
+  const open = loans
+    .map((loan, index) => index)
+    .filter((i) => isOpen(loans[i]));
+  const weighted = open.filter((i) => (weights[i] ?? 0) > 0);
+  const unweighted = open.filter((i) => !((weights[i] ?? 0) > 0));
+
+  const leftover = splitInProportion(
+    loans,
+    allocation,
+    weighted,
+    (i) => weights[i],
+    budget,
+  );
+  splitInProportion(loans, allocation, unweighted, () => 1, leftover);
+
+  return allocation;
+};
+
+/**
+ * Loans referenced by percentage weights, so they can be checked against the user's
+ * open loans. Empty for formula weights or unparseable params.
+ */
+export const listWeightedLoanIds = (raw: unknown): string[] => {
+  const parsed = customWeightsParamsSchema.safeParse(raw);
+  if (!parsed.success || parsed.data.mode !== "percentages") {
+    return [];
+  }
+  return parsed.data.percentages.map((entry) => entry.loanId);
+};
+
+export const customWeightsStrategy: StrategyDefinition<CustomWeightsParams> = {
+  id: CUSTOM_WEIGHTS_STRATEGY_ID,
+  name: "Custom Weights",
+  description: "Split by your own loan percentages or weighting formula",
+  paramsSchema: customWeightsParamsSchema,
+  allocate: (loans, budget, params) =>
+    allocateByWeights(loans, budget, resolveLoanWeights(loans, params)),
+};
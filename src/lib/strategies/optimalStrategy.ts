@@ -0,0 +1,136 @@
+import type {
+  AllocationContext,
+  AllocationLoan,
+  StrategyDefinition,
+} from "./types.ts";
+
+export const OPTIMAL_STRATEGY_ID = "optimal";
+
+/** The budget is handed out in at most this many slices per allocation. */
+const MAX_SLICES = 200;
+/** Slices never get smaller than this, so tiny budgets finish in a few steps. */
+const MIN_SLICE = 1;
+
+const principalLeft = (loan: AllocationLoan, allocated: number): number => {
+  const feeFactor = 1 + (loan.feeRate ?? 0);
+  return (loan.outstanding ?? loan.balance / feeFactor) - allocated / feeFactor;
+};
+
+/**
+ * Months the loan still runs at its current installment with `principal` left. Falls
+ * back to the scheduled term when the installment does not cover the interest.
+ */
+const monthsToRepay = (loan: AllocationLoan, principal: number): number => {
+  const rate = loan.annualRate / 12;
+  const installment = loan.installment ?? 0;
+
+  if (rate > 0 && installment > principal * rate) {
+    return -Math.log(1 - (principal * rate) / installment) / Math.log(1 + rate);
+  }
+
+  return loan.remainingMonths ?? 0;
+};
+
+/**
+ * Benefit of the next PLN of budget given to a loan that already received `allocated`.
+ *
+ * For the interest objective this is the interest one PLN of principal saves: repaid
+ * now, it would otherwise have grown to `(1 + r)^n` by the time it is paid off. When
+ * freed installments are not reinvested, `n` is the loan's own remaining life, which
+ * shrinks as the loan receives more. When they are, every PLN saved keeps working in
+ * the portfolio until the last loan is repaid, so all loans share that horizon.
+ *
+ * For the installment objective it is the drop in the recast installment per PLN.
+ *
+ * Commissions reduce both, as only `1 / (1 + feeRate)` of the budget reaches principal.
+ */
+const marginalBenefit = (
+  loan: AllocationLoan,
+  allocated: number,
+  context: AllocationContext,
+  sharedHorizon: number | null,
+): number => {
+  const feeFactor = 1 + (loan.feeRate ?? 0);
+  const principal = principalLeft(loan, allocated);
+  const rate = loan.annualRate / 12;
+
+  if (context.objective === "installment") {
+    const months = loan.remainingMonths ?? 0;
+    if (months <= 0) {
+      return (loan.installment ?? loan.monthlyInterest) / principal / feeFactor;
+    }
+    const perUnit = rate > 0 ? rate / (1 - (1 + rate) ** -months) : 1 / months;
+    return perUnit / feeFactor;
+  }
+
+  const months = sharedHorizon ?? monthsToRepay(loan, principal);
+  if (months <= 0) {
+    // Nothing known about the schedule: rank by the rate alone
+    return rate / feeFactor;
+  }
+
+  return ((1 + rate) ** months - 1) / feeFactor;
+};
+
+/**
+ * Greedy marginal-benefit solver. The budget is split into small slices and each slice
+ * goes to the loan where it currently does the most good. Because the benefit of every
+ * loan never grows as it receives more, this reaches the best split of the month's
+ * budget up to the slice size.
+ */
+export const allocateOptimally = (
+  loans: readonly AllocationLoan[],
+  budget: number,
+  context: AllocationContext,
+): number[] => {
+  const allocation = new Array<number>(loans.length).fill(0);
+  const slice = Math.max(budget / MAX_SLICES, MIN_SLICE);
+  const sharedHorizon = context.reinvestFreedPayments
+    ? Math.max(
+        0,
+        ...loans.map((loan) =>
+          loan.balance > 0 ? monthsToRepay(loan, principalLeft(loan, 0)) : 0,
+        ),
+      )
+    : null;
+  let remaining = budget;
+
+  while (remaining > 0) {
+    let best = -1;
+    let bestBenefit = -Infinity;
+
+    loans.forEach((loan, i) => {
+      if (loan.balance - allocation[i] <= 0) return;
+      const benefit = marginalBenefit(
+        loan,
+        allocation[i],
+        context,
+        sharedHorizon,
+      );
+      if (benefit > bestBenefit) {
+        best = i;
+        bestBenefit = benefit;
+      }
+    });
+
+    if (best < 0) break;
+
+    const amount = Math.min(
+      slice,
+      remaining,
+      loans[best].balance - allocation[best],
+    );
+    allocation[best] += amount;
+    remaining -= amount;
+  }
+
+  return allocation;
+};
+
+export const optimalStrategy: StrategyDefinition = {
+  id: OPTIMAL_STRATEGY_ID,
+  name: "Optimal",
+  description: "Search each month for the split that saves the most",
+  allocate: (loans, budget, _params, context) =>
+    allocateOptimally(loans, budget, context),
+};
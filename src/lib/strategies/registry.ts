@@ -0,0 +1,106 @@
+import { z } from "zod";
+
+import {
+  avalancheStrategy,
+  equalStrategy,
+  ratioStrategy,
+  snowballStrategy,
+} from "./builtInStrategies.ts";
+import { customWeightsStrategy } from "./customWeightsStrategy.ts";
+import { OPTIMAL_STRATEGY_ID, optimalStrategy } from "./optimalStrategy.ts";
+import type { RegisteredStrategy, StrategyDefinition } from "./types.ts";
+
+/**
+ * Strategy used by the projection engine when a stored simulation references
+ * an id that is no longer registered.
+ */
+export const DEFAULT_STRATEGY_ID = "equal";
+
+const registry = new Map<string, RegisteredStrategy>();
+
+const rejectParams = (
+  strategyId: string,
+  raw: unknown,
+): z.SafeParseReturnType<unknown, unknown> => {
+  if (raw === undefined || raw === null) {
+    return { success: true, data: undefined };
+  }
+
+  return {
+    success: false,
+    error: new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        path: [],
+        message: `Strategy ${strategyId} does not accept parameters`,
+      },
+    ]),
+  };
+};
+
+/**
+ * Adds a strategy to the registry. Ids must be unique; registering the same id twice
+ * is treated as a programming error.
+ */
+export function registerStrategy<TParams>(
+  definition: StrategyDefinition<TParams>,
+): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Strategy "${definition.id}" is already registered`);
+  }
+
+  const { paramsSchema } = definition;
+
+  registry.set(definition.id, {
+    id: definition.id,
+    name: definition.name,
+    description: definition.description,
+    acceptsParams: paramsSchema !== undefined,
+    parseParams: (raw) =>
+      paramsSchema
+        ? paramsSchema.safeParse(raw)
+        : rejectParams(definition.id, raw),
+    allocate: (loans, budget, params, context) =>
+      definition.allocate(loans, budget, params as TParams, context),
+  });
+}
+
+export const getStrategy = (id: string): RegisteredStrategy | undefined => {
+  return registry.get(id);
+};
+
+export const isRegisteredStrategy = (id: string): boolean => {
+  return registry.has(id);
+};
+
+/**
+ * Looks up a strategy, falling back to the default strategy for unknown ids.
+ */
+export const resolveStrategy = (id: string): RegisteredStrategy => {
+  const strategy = registry.get(id) ?? registry.get(DEFAULT_STRATEGY_ID);
+  if (!strategy) {
+    throw new Error(`Default strategy "${DEFAULT_STRATEGY_ID}" is missing`);
+  }
+  return strategy;
+};
+
+export const listRegisteredStrategies = (): RegisteredStrategy[] => {
+  return Array.from(registry.values());
+};
+
+/**
+ * Strategies that follow a fixed rule and can be benchmarked against the optimizer.
+ */
+export const listHeuristicStrategies = (): RegisteredStrategy[] => {
+  return listRegisteredStrategies().filter(
+    (strategy) => strategy.id !== OPTIMAL_STRATEGY_ID,
+  );
+};
+
+// Strategies shipped with the engine. House strategies are registered here as well.
+registerStrategy(avalancheStrategy);
+registerStrategy(snowballStrategy);
+registerStrategy(equalStrategy);
+registerStrategy(ratioStrategy);
+registerStrategy(customWeightsStrategy);
+registerStrategy(optimalStrategy);
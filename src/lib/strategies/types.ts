@@ -0,0 +1,85 @@
+import type { z } from "zod";
+
+/**
+ * Loan state handed to a strategy when distributing a month's overpayment budget.
+ * The projection engine builds these from the balances of the month being simulated.
+ */
+export interface AllocationLoan {
+  id: string;
+  /**
+   * Principal left after this month's scheduled installment, i.e. the most an
+   * overpayment can repay. Zero for closed loans.
+   */
+  balance: number;
+  /** Annual rate in decimal form (e.g. 0.055 for 5.5%). */
+  annualRate: number;
+  /** Interest accrued on the current balance for one month. */
+  monthlyInterest: number;
+  /**
+   * Principal actually owed when `balance` is capped below it, e.g. by a yearly
+   * fee-free allowance. Defaults to the balance.
+   */
+  outstanding?: number;
+  /** Installment due from next month on, when the engine knows it. */
+  installment?: number;
+  /** Months left on the loan's schedule, when the engine knows it. */
+  remainingMonths?: number;
+  /**
+   * Commission charged on amounts allocated to this loan. The balance already includes
+   * it, so only `balance / (1 + feeRate)` reaches principal. Omitted when free.
+   */
+  feeRate?: number;
+}
+
+/**
+ * What the overpayments of the month are meant to achieve: cut total interest, or lower
+ * the combined installment while a payment reduction target has not been reached yet.
+ */
+export type AllocationObjective = "interest" | "installment";
+
+export interface AllocationContext {
+  objective: AllocationObjective;
+  /** Whether installments freed by overpayments join later budgets. */
+  reinvestFreedPayments: boolean;
+}
+
+/**
+ * Allocation function contract. Must return one amount per input loan, in input order.
+ * Amounts are treated as upper bounds by the engine, which caps each at the loan balance.
+ * Rule-of-thumb strategies can ignore the context.
+ */
+export type AllocateFn<TParams> = (
+  loans: readonly AllocationLoan[],
+  budget: number,
+  params: TParams,
+  context: AllocationContext,
+) => number[];
+
+/**
+ * Strategy plug-in contract. Every strategy known to the simulation engine,
+ * the `/api/strategies` catalog and simulation validation is described by one of these.
+ */
+export interface StrategyDefinition<TParams = undefined> {
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * Optional schema for strategy-specific parameters stored with the simulation.
+   * Strategies without a schema reject any parameters.
+   */
+  paramsSchema?: z.ZodType<TParams, z.ZodTypeDef, unknown>;
+  allocate: AllocateFn<TParams>;
+}
+
+/**
+ * Type-erased form of a strategy as stored in the registry.
+ * Parameters are validated once through `parseParams` before `allocate` is called.
+ */
+export interface RegisteredStrategy {
+  id: string;
+  name: string;
+  description: string;
+  acceptsParams: boolean;
+  parseParams: (raw: unknown) => z.SafeParseReturnType<unknown, unknown>;
+  allocate: AllocateFn<unknown>;
+}
@@ -139,6 +139,79 @@ const nonNegativeDecimal = (field: string) =>
       `${field} must be greater than or equal to 0`,
     );
 
+const overpaymentEffectSchema = z.enum(["shorten_term", "lower_installment"], {
+  errorMap: () => ({
+    message: "overpaymentEffect must be shorten_term or lower_installment",
+  }),
+});
+
+const amortizationTypeSchema = z.enum(["annuity", "decreasing"], {
+  errorMap: () => ({
+    message: "amortizationType must be annuity or decreasing",
+  }),
+});
+
+const interestAccrualSchema = z.enum(["thirty_360", "actual_365"], {
+  errorMap: () => ({
+    message: "interestAccrual must be thirty_360 or actual_365",
+  }),
+});
+
+const moneyRoundingSchema = (field: string) =>
+  z.enum(["half_up", "half_even", "down", "up"], {
+    errorMap: () => ({
+      message: `${field} must be half_up, half_even, down or up`,
+    }),
+  });
+
+const paymentDaySchema = z
+  .number({ invalid_type_error: "paymentDay must be a number" })
+  .int("paymentDay must be an integer")
+  .min(1, "paymentDay must be between 1 and 31")
+  .max(31, "paymentDay must be between 1 and 31");
+
+const rateTypeSchema = z.enum(["fixed", "variable"], {
+  errorMap: () => ({ message: "rateType must be fixed or variable" }),
+});
+
+const rateIndexIdSchema = z
+  .string({ invalid_type_error: "rateIndexId must be a string" })
+  .trim()
+  .min(1, "rateIndexId must not be empty")
+  .max(32, "rateIndexId must be at most 32 characters")
+  .transform((value) => value.toUpperCase());
+
+const rateMarginSchema = z
+  .number({ invalid_type_error: "rateMargin must be a number" })
+  .refine((value) => Number.isFinite(value), "rateMargin must be finite")
+  .refine(
+    (value) => value >= 0,
+    "rateMargin must be greater than or equal to 0",
+  )
+  .refine((value) => value < 1, "rateMargin must be less than 1");
+
+const prepaymentFeeRateSchema = z
+  .number({ invalid_type_error: "prepaymentFeeRate must be a number" })
+  .refine((value) => Number.isFinite(value), "prepaymentFeeRate must be finite")
+  .refine(
+    (value) => value >= 0,
+    "prepaymentFeeRate must be greater than or equal to 0",
+  )
+  .refine((value) => value < 1, "prepaymentFeeRate must be less than 1");
+
+const prepaymentFields = {
+  prepaymentFeeRate: z.union([prepaymentFeeRateSchema, z.null()]).optional(),
+  prepaymentFeeMonths: z
+    .union([positiveInteger("prepaymentFeeMonths"), z.null()])
+    .optional(),
+  prepaymentFreeAllowance: z
+    .union([nonNegativeDecimal("prepaymentFreeAllowance"), z.null()])
+    .optional(),
+  minOverpayment: z
+    .union([nonNegativeDecimal("minOverpayment"), z.null()])
+    .optional(),
+};
+
 const rateDecimal = (field: string) =>
   z
     .number({ invalid_type_error: `${field} must be a number` })
@@ -155,6 +228,16 @@ const baseLoanSchema = z
     termMonths: positiveInteger("termMonths"),
     originalTermMonths: positiveInteger("originalTermMonths"),
     startMonth: firstOfMonthSchema,
+    overpaymentEffect: overpaymentEffectSchema.optional(),
+    amortizationType: amortizationTypeSchema.optional(),
+    interestAccrual: interestAccrualSchema.optional(),
+    paymentDay: z.union([paymentDaySchema, z.null()]).optional(),
+    interestRounding: moneyRoundingSchema("interestRounding").optional(),
+    installmentRounding: moneyRoundingSchema("installmentRounding").optional(),
+    rateType: rateTypeSchema.optional(),
+    rateIndexId: z.union([rateIndexIdSchema, z.null()]).optional(),
+    rateMargin: z.union([rateMarginSchema, z.null()]).optional(),
+    ...prepaymentFields,
   })
   .strict();
 
@@ -173,6 +256,16 @@ const patchLoanSchema = z
     termMonths: positiveInteger("termMonths").optional(),
     originalTermMonths: positiveInteger("originalTermMonths").optional(),
     startMonth: firstOfMonthSchema.optional(),
+    overpaymentEffect: overpaymentEffectSchema.optional(),
+    amortizationType: amortizationTypeSchema.optional(),
+    interestAccrual: interestAccrualSchema.optional(),
+    paymentDay: z.union([paymentDaySchema, z.null()]).optional(),
+    interestRounding: moneyRoundingSchema("interestRounding").optional(),
+    installmentRounding: moneyRoundingSchema("installmentRounding").optional(),
+    rateType: rateTypeSchema.optional(),
+    rateIndexId: z.union([rateIndexIdSchema, z.null()]).optional(),
+    rateMargin: z.union([rateMarginSchema, z.null()]).optional(),
+    ...prepaymentFields,
     isClosed: z
       .boolean({ invalid_type_error: "isClosed must be a boolean" })
       .optional(),
@@ -295,6 +388,91 @@ const validateClosedState = (
   return issues;
 };
 
+const validateRateReference = (
+  rateType: string | undefined,
+  rateIndexId: string | null | undefined,
+  rateMargin: number | null | undefined,
+): LoanValidationIssue[] => {
+  const issues: LoanValidationIssue[] = [];
+  const hasIndex = rateIndexId !== undefined && rateIndexId !== null;
+  const hasMargin = rateMargin !== undefined && rateMargin !== null;
+
+  if (rateType === "variable") {
+    if (!hasIndex) {
+      issues.push(
+        createIssue(
+          ["rateIndexId"],
+          "rateIndexId is required when rateType is variable",
+        ),
+      );
+    }
+    if (!hasMargin) {
+      issues.push(
+        createIssue(
+          ["rateMargin"],
+          "rateMargin is required when rateType is variable",
+        ),
+      );
+    }
+    return issues;
+  }
+
+  if (hasIndex) {
+    issues.push(
+      createIssue(
+        ["rateIndexId"],
+        "rateIndexId is only allowed when rateType is variable",
+      ),
+    );
+  }
+  if (hasMargin) {
+    issues.push(
+      createIssue(
+        ["rateMargin"],
+        "rateMargin is only allowed when rateType is variable",
+      ),
+    );
+  }
+
+  return issues;
+};
+
+/**
+ * The fee window and free allowance only describe when a fee applies, so they need a fee rate.
+ */
+const validatePrepaymentFee = (
+  prepaymentFeeRate: number | null | undefined,
+  prepaymentFeeMonths: number | null | undefined,
+  prepaymentFreeAllowance: number | null | undefined,
+): LoanValidationIssue[] => {
+  if (prepaymentFeeRate !== undefined && prepaymentFeeRate !== null) {
+    return [];
+  }
+
+  const issues: LoanValidationIssue[] = [];
+  if (prepaymentFeeMonths !== undefined && prepaymentFeeMonths !== null) {
+    issues.push(
+      createIssue(
+        ["prepaymentFeeMonths"],
+        "prepaymentFeeMonths is only allowed when prepaymentFeeRate is set",
+      ),
+    );
+  }
+  if (
+    prepaymentFreeAllowance !== undefined &&
+    prepaymentFreeAllowance !== null
+  ) {
+    issues.push(
+      createIssue(
+        ["prepaymentFreeAllowance"],
+        "prepaymentFreeAllowance is only allowed when prepaymentFeeRate is set",
+      ),
+    );
+  }
+
+  return issues;
+};
+
 export const validateCreateLoan = (
   input: unknown,
 ): ValidationResult<CreateLoanCommand> => {
@@ -308,6 +486,16 @@ export const validateCreateLoan = (
     data.principal,
     data.remainingBalance,
   );
+  issues.push(
+    ...validateRateReference(data.rateType, data.rateIndexId, data.rateMargin),
+  );
+  issues.push(
+    ...validatePrepaymentFee(
+      data.prepaymentFeeRate,
+      data.prepaymentFeeMonths,
+      data.prepaymentFreeAllowance,
+    ),
+  );
   if (issues.length > 0) {
     return { errors: issues };
   }
@@ -335,6 +523,16 @@ export const validateUpdateLoan = (
       data.closedMonth,
     ),
   );
+  issues.push(
+    ...validateRateReference(data.rateType, data.rateIndexId, data.rateMargin),
+  );
+  issues.push(
+    ...validatePrepaymentFee(
+      data.prepaymentFeeRate,
+      data.prepaymentFeeMonths,
+      data.prepaymentFreeAllowance,
+    ),
+  );
 
   if (issues.length > 0) {
     return { errors: issues };
@@ -372,6 +570,23 @@ export const validatePatchLoan = (
     data.closedMonth !== undefined
       ? data.closedMonth
       : (existing.closedMonth ?? undefined);
+  const rateType = data.rateType ?? existing.rateType;
+  const rateIndexId =
+    data.rateIndexId !== undefined ? data.rateIndexId : existing.rateIndexId;
+  const rateMargin =
+    data.rateMargin !== undefined ? data.rateMargin : existing.rateMargin;
+  const prepaymentFeeRate =
+    data.prepaymentFeeRate !== undefined
+      ? data.prepaymentFeeRate
+      : existing.prepaymentFeeRate;
+  const prepaymentFeeMonths =
+    data.prepaymentFeeMonths !== undefined
+      ? data.prepaymentFeeMonths
+      : existing.prepaymentFeeMonths;
+  const prepaymentFreeAllowance =
+    data.prepaymentFreeAllowance !== undefined
+      ? data.prepaymentFreeAllowance
+      : existing.prepaymentFreeAllowance;
 
   const issues: LoanValidationIssue[] = [];
   issues.push(...validateRemainingBalance(principal, remainingBalance));
@@ -382,6 +597,14 @@ export const validatePatchLoan = (
       closedMonth ?? undefined,
     ),
   );
+  issues.push(...validateRateReference(rateType, rateIndexId, rateMargin));
+  issues.push(
+    ...validatePrepaymentFee(
+      prepaymentFeeRate,
+      prepaymentFeeMonths,
+      prepaymentFreeAllowance,
+    ),
+  );
 
   if (issues.length > 0) {
     return { errors: issues };
@@ -0,0 +1,123 @@
+import { z } from "zod";
+
+import { validationError } from "../errors.ts";
+import type {
+  CreateLoanChangeEventCommand,
+  LoanChangeEventListQuery,
+} from "../../types.ts";
+
+const CHANGE_TYPES = [
+  "rate_change",
+  "balance_adjustment",
+  "term_adjustment",
+  "principal_correction",
+] as const;
+
+const effectiveMonthSchema = z
+  .string({ invalid_type_error: "effectiveMonth must be a string" })
+  .regex(/^\d{4}-\d{2}-01$/u, "effectiveMonth must use YYYY-MM-01 format")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return (
+      !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+    );
+  }, "effectiveMonth must be a valid month");
+
+const rateSchema = z
+  .number({ invalid_type_error: "Rate must be a number" })
+  .refine((value) => Number.isFinite(value), "Rate must be finite")
+  .refine((value) => value > 0 && value < 1, "Rate must be between 0 and 1");
+
+const balanceSchema = z
+  .number({ invalid_type_error: "Balance must be a number" })
+  .refine((value) => Number.isFinite(value), "Balance must be finite")
+  .refine((value) => value >= 0, "Balance must be greater than or equal to 0");
+
+const principalSchema = z
+  .number({ invalid_type_error: "Principal must be a number" })
+  .refine((value) => Number.isFinite(value), "Principal must be finite")
+  .refine((value) => value > 0, "Principal must be greater than 0");
+
+const termSchema = z
+  .number({ invalid_type_error: "Term must be a number" })
+  .int("Term must be an integer")
+  .min(1, "Term must be at least 1 month");
+
+/** Field that carries the new value for each change type. */
+const REQUIRED_NEW_VALUE: Record<
+  (typeof CHANGE_TYPES)[number],
+  keyof CreateLoanChangeEventCommand
+> = {
+  rate_change: "newAnnualRate",
+  balance_adjustment: "newRemainingBalance",
+  term_adjustment: "newTermMonths",
+  principal_correction: "newPrincipal",
+};
+
+export const createLoanChangeEventSchema = z
+  .object({
+    loanId: z.string().uuid({ message: "loanId must be a valid UUID" }),
+    effectiveMonth: effectiveMonthSchema,
+    changeType: z.enum(CHANGE_TYPES),
+    notes: z.string().trim().max(500).nullable().optional(),
+    oldAnnualRate: rateSchema.nullable().optional(),
+    newAnnualRate: rateSchema.nullable().optional(),
+    oldPrincipal: principalSchema.nullable().optional(),
+    newPrincipal: principalSchema.nullable().optional(),
+    oldRemainingBalance: balanceSchema.nullable().optional(),
+    newRemainingBalance: balanceSchema.nullable().optional(),
+    oldTermMonths: termSchema.nullable().optional(),
+    newTermMonths: termSchema.nullable().optional(),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const field = REQUIRED_NEW_VALUE[data.changeType];
+    if (data[field] === undefined || data[field] === null) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [field],
+        message: `${field} is required for ${data.changeType}`,
+      });
+    }
+  });
+
+export const loanChangeEventQuerySchema = z
+  .object({
+    loanId: z.string().uuid({ message: "loanId must be a valid UUID" }),
+    page: z.coerce.number().int().min(1).default(1),
+    pageSize: z.coerce.number().int().min(1).max(100).default(20),
+    effectiveMonthFrom: effectiveMonthSchema.optional(),
+    effectiveMonthTo: effectiveMonthSchema.optional(),
+    changeType: z.enum(CHANGE_TYPES).optional(),
+  })
+  .strict();
+
+export const parseCreateLoanChangeEvent = (
+  input: unknown,
+): CreateLoanChangeEventCommand => {
+  const result = createLoanChangeEventSchema.safeParse(input);
+  if (!result.success) {
+    throw validationError(
+      "LOAN_CHANGE_EVENT_VALIDATION_FAILED",
+      "Invalid loan change event payload",
+      { issues: result.error.issues },
+    );
+  }
+
+  return result.data;
+};
+
+export const parseLoanChangeEventQuery = (
+  params: URLSearchParams,
+): LoanChangeEventListQuery => {
+  const result = loanChangeEventQuerySchema.safeParse(
+    Object.fromEntries(params.entries()),
+  );
+  if (!result.success) {
+    throw validationError("INVALID_QUERY", "Invalid query parameters", {
+      issues: result.error.issues,
+    });
+  }
+
+  return result.data;
+};
@@ -0,0 +1,168 @@
+import { z } from "zod";
+
+import { validationError } from "../errors.ts";
+import type {
+  RateIndexValueInput,
+  RateIndexValueListQuery,
+} from "../../types.ts";
+
+const MAX_CSV_ROWS = 5_000;
+const EXPECTED_HEADER = ["index", "month", "rate"] as const;
+
+export interface RateIndexCsvIssue {
+  line: number;
+  message: string;
+}
+
+const indexIdSchema = z
+  .string()
+  .trim()
+  .min(1, "index must not be empty")
+  .max(32, "index must be at most 32 characters")
+  .transform((value) => value.toUpperCase());
+
+const listQuerySchema = z
+  .object({
+    indexId: indexIdSchema.optional(),
+  })
+  .strict();
+
+/**
+ * Accepts `YYYY-MM` or `YYYY-MM-01` and normalises to the first day of the month.
+ */
+const parseMonth = (raw: string): string | null => {
+  const match = /^([0-9]{4})-([0-9]{2})(?:-01)?$/u.exec(raw);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month] = match;
+  const monthNumber = Number(month);
+  if (monthNumber < 1 || monthNumber > 12) {
+    return null;
+  }
+
+  return `${year}-${month}-01`;
+};
+
+/**
+ * Rates are given in percent (e.g. `5.85` for WIBOR 3M at 5.85%) and stored as decimals.
+ */
+const parseRate = (raw: string): number | null => {
+  const parsed = Number(raw.replace(",", "."));
+  if (!raw || !Number.isFinite(parsed) || parsed < 0 || parsed >= 100) {
+    return null;
+  }
+
+  return Math.round(parsed * 1000) / 100_000;
+};
+
+/**
+ * Parses a CSV export with an `index,month,rate` header into index values.
+ * The whole file is rejected when any row is invalid so an import never lands half-way.
+ */
+export const parseRateIndexCsv = (text: string): RateIndexValueInput[] => {
+  const lines = text
+    .split(/\r?\n/u)
+    .map((line, position) => ({ line: position + 1, raw: line.trim() }))
+    .filter(({ raw }) => raw.length > 0);
+
+  if (lines.length === 0) {
+    throw validationError("RATE_INDEX_CSV_EMPTY", "CSV file is empty");
+  }
+
+  const [header, ...rows] = lines;
+  const headerColumns = header.raw
+    .split(",")
+    .map((column) => column.trim().toLowerCase());
+  if (
+    headerColumns.length !== EXPECTED_HEADER.length ||
+    headerColumns.some((column, index) => column !== EXPECTED_HEADER[index])
+  ) {
+    throw validationError(
+      "RATE_INDEX_CSV_HEADER_INVALID",
+      `CSV header must be ${EXPECTED_HEADER.join(",")}`,
+    );
+  }
+
+  if (rows.length === 0) {
+    throw validationError("RATE_INDEX_CSV_EMPTY", "CSV file has no rows");
+  }
+
+  if (rows.length > MAX_CSV_ROWS) {
+    throw validationError(
+      "RATE_INDEX_CSV_TOO_LARGE",
+      `CSV file must not contain more than ${MAX_CSV_ROWS} rows`,
+    );
+  }
+
+  const issues: RateIndexCsvIssue[] = [];
+  const values = new Map<string, RateIndexValueInput>();
+
+  for (const { line, raw } of rows) {
+    const columns = raw.split(",").map((column) => column.trim());
+    if (columns.length !== EXPECTED_HEADER.length) {
+      issues.push({ line, message: "Row must have exactly 3 columns" });
+      continue;
+    }
+
+    const [rawIndex, rawMonth, rawRate] = columns;
+    const indexId = indexIdSchema.safeParse(rawIndex);
+    if (!indexId.success) {
+      issues.push({ line, message: indexId.error.issues[0].message });
+      continue;
+    }
+
+    const month = parseMonth(rawMonth);
+    if (!month) {
+      issues.push({ line, message: "month must use YYYY-MM format" });
+      continue;
+    }
+
+    const value = parseRate(rawRate);
+    if (value === null) {
+      issues.push({
+        line,
+        message: "rate must be a percentage between 0 and 100",
+      });
+      continue;
+    }
+
+    const key = `${indexId.data}|${month}`;
+    if (values.has(key)) {
+      issues.push({
+        line,
+        message: `Duplicate value for ${indexId.data} in ${month}`,
+      });
+      continue;
+    }
+
+    values.set(key, { indexId: indexId.data, month, value });
+  }
+
+  if (issues.length > 0) {
+    throw validationError("RATE_INDEX_CSV_INVALID", "CSV file is invalid", {
+      issues,
+    });
+  }
+
+  return Array.from(values.values());
+};
+
+export const parseRateIndexListQuery = (
+  params: URLSearchParams,
+): RateIndexValueListQuery => {
+  const raw: Record<string, string> = {};
+  params.forEach((value, key) => {
+    raw[key] = value;
+  });
+
+  const result = listQuerySchema.safeParse(raw);
+  if (!result.success) {
+    throw validationError("INVALID_QUERY", "Invalid query parameters", {
+      issues: result.error.issues,
+    });
+  }
+
+  return result.data;
+};
@@ -1,5 +1,22 @@
 import { z } from "zod";
 
+import type { Database, Json } from "../../db/database.types.ts";
+import type {
+  RateIndexTimeline,
+  ScheduledLoanChange,
+} from "../services/simulationSharedService.ts";
+import type {
+  SimulationLoanRule,
+  SimulationLumpSum,
+  SimulationOptimalityReport,
+  SimulationStrategyPhase,
+} from "../../types.ts";
+import { getStrategy } from "../strategies/registry.ts";
+import { overpaymentBudgetScheduleSchema } from "./userSettings.ts";
+
+type LoanRow = Database["public"]["Tables"]["loans"]["Row"];
+type UserSettingsRow = Database["public"]["Tables"]["user_settings"]["Row"];
+
 const simulationStatusEnum = z.enum([
   "running",
   "active",
@@ -28,15 +45,151 @@ export const simulationListQuerySchema = paginationSchema
   })
   .strict();
 
-const strategyEnum = z.enum(["avalanche", "snowball", "equal", "ratio"]);
+const storedJsonSchema: z.ZodType<Json> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(storedJsonSchema),
+    z.record(storedJsonSchema),
+  ]),
+);
+
+/**
+ * Strategy parameters in the shape stored on a simulation row. Parsed parameters are
+ * plain data; anything that is not counts as no parameters.
+ */
+export const serializeStrategyParams = (params: unknown): Json | null => {
+  const parsed = storedJsonSchema.safeParse(params ?? null);
+  return parsed.success ? parsed.data : null;
+};
+
+const strategyIdSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .refine((value) => getStrategy(value) !== undefined, {
+    message: "Unknown strategy",
+  });
+
+const MAX_LUMP_SUMS = 120;
+
+const monthStartSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])-01$/u, "month must use YYYY-MM-01 format");
+
+export const lumpSumSchema = z
+  .object({
+    month: monthStartSchema,
+    amount: z.number().positive(),
+    loanId: z.string().uuid().nullable().optional(),
+    label: z.string().trim().max(100).nullable().optional(),
+  })
+  .strict();
+
+const MAX_LOAN_RULES = 50;
+
+export const loanRuleSchema = z
+  .object({
+    loanId: z.string().uuid(),
+    pinned: z.boolean().optional(),
+    excluded: z.boolean().optional(),
+    monthlyCap: z.number().positive().nullable().optional(),
+    monthlyFloor: z.number().positive().nullable().optional(),
+  })
+  .strict()
+  .superRefine((val, ctx) => {
+    if (val.pinned && val.excluded) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["excluded"],
+        message: "A loan cannot be both pinned and excluded",
+      });
+    }
+    if (val.excluded && (val.monthlyCap != null || val.monthlyFloor != null)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["excluded"],
+        message: "An excluded loan cannot have a monthly cap or floor",
+      });
+    }
+    if (
+      val.monthlyCap != null &&
+      val.monthlyFloor != null &&
+      val.monthlyFloor > val.monthlyCap
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["monthlyFloor"],
+        message: "monthlyFloor cannot exceed monthlyCap",
+      });
+    }
+  });
+
+const loanRulesSchema = z
+  .array(loanRuleSchema)
+  .max(MAX_LOAN_RULES)
+  .superRefine((rules, ctx) => {
+    const seen = new Set<string>();
+    rules.forEach((rule, index) => {
+      if (seen.has(rule.loanId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, "loanId"],
+          message: "Only one rule per loan is allowed",
+        });
+      }
+      seen.add(rule.loanId);
+    });
+  });
+
+const MAX_STRATEGY_PHASES = 10;
+const MAX_TRIGGER_LOANS = 50;
+
+const strategyPhaseTriggerSchema = z.discriminatedUnion("type", [
+  z
+    .object({
+      type: z.literal("loan_closed"),
+      loanIds: z.array(z.string().uuid()).min(1).max(MAX_TRIGGER_LOANS),
+    })
+    .strict(),
+  z.object({ type: z.literal("date"), month: monthStartSchema }).strict(),
+  z
+    .object({
+      type: z.literal("balance_threshold"),
+      amount: z.number().min(0),
+      loanId: z.string().uuid().nullable().optional(),
+    })
+    .strict(),
+  z.object({ type: z.literal("payment_target_met") }).strict(),
+]);
+
+export const strategyPhaseSchema = z
+  .object({
+    strategy: strategyIdSchema,
+    strategyParams: z.unknown().optional(),
+    startsWhen: strategyPhaseTriggerSchema,
+  })
+  .strict();
 
 export const createSimulationSchema = z
   .object({
-    strategy: strategyEnum,
+    strategy: strategyIdSchema,
+    strategyParams: z.unknown().optional(),
+    strategyPhases: z
+      .array(strategyPhaseSchema)
+      .max(MAX_STRATEGY_PHASES)
+      .optional(),
     goal: goalTypeEnum,
     reinvestReducedPayments: z.boolean(),
     monthlyOverpaymentLimit: z.number().min(0).optional(),
     paymentReductionTarget: z.number().positive().optional(),
+    overpaymentBudgetSchedule: overpaymentBudgetScheduleSchema
+      .nullable()
+      .optional(),
+    lumpSums: z.array(lumpSumSchema).max(MAX_LUMP_SUMS).optional(),
+    loanRules: loanRulesSchema.optional(),
     notes: z.string().trim().max(500).optional(),
   })
   .superRefine((val, ctx) => {
@@ -49,8 +202,219 @@ export const createSimulationSchema = z
         message: "paymentReductionTarget required for payment_reduction goal",
       });
     }
+    val.strategyPhases?.forEach((phase, index) => {
+      if (
+        phase.startsWhen.type === "payment_target_met" &&
+        val.goal !== "payment_reduction"
+      ) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["strategyPhases", index, "startsWhen"],
+          message: "payment_target_met requires the payment_reduction goal",
+        });
+      }
+    });
+  })
+  .transform((val, ctx) => {
+    const strategy = getStrategy(val.strategy);
+    if (!strategy) {
+      return z.NEVER;
+    }
+
+    const params = strategy.parseParams(val.strategyParams);
+    if (!params.success) {
+      for (const issue of params.error.issues) {
+        ctx.addIssue({ ...issue, path: ["strategyParams", ...issue.path] });
+      }
+      return z.NEVER;
+    }
+
+    const strategyPhases: SimulationStrategyPhase[] = [];
+    for (const [index, phase] of (val.strategyPhases ?? []).entries()) {
+      const phaseParams = getStrategy(phase.strategy)?.parseParams(
+        phase.strategyParams,
+      );
+      if (!phaseParams?.success) {
+        for (const issue of phaseParams?.error.issues ?? []) {
+          ctx.addIssue({
+            ...issue,
+            path: ["strategyPhases", index, "strategyParams", ...issue.path],
+          });
+        }
+        return z.NEVER;
+      }
+      strategyPhases.push({
+        ...phase,
+        strategyParams: serializeStrategyParams(phaseParams.data),
+      });
+    }
+
+    return {
+      ...val,
+      strategyParams: serializeStrategyParams(params.data),
+      strategyPhases,
+    };
+  });
+
+export const recommendStrategiesSchema = z
+  .object({
+    goal: goalTypeEnum,
+    paymentReductionTarget: z.number().positive().optional(),
+    lumpSums: z.array(lumpSumSchema).max(MAX_LUMP_SUMS).optional(),
+    loanRules: loanRulesSchema.optional(),
+  })
+  .strict()
+  .superRefine((val, ctx) => {
+    if (
+      val.goal === "payment_reduction" &&
+      val.paymentReductionTarget == null
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["paymentReductionTarget"],
+        message: "paymentReductionTarget required for payment_reduction goal",
+      });
+    }
   });
 
+/**
+ * Reads the lump sums stored on a simulation row. Malformed entries are dropped so a
+ * hand-edited row never breaks a projection.
+ */
+export const parseStoredLumpSums = (
+  value: Json | null | undefined,
+): SimulationLumpSum[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    const parsed = lumpSumSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+/** Lump sums in the shape stored on a simulation row. */
+export const serializeLumpSums = (
+  lumpSums: readonly SimulationLumpSum[],
+): Json =>
+  lumpSums.map((lumpSum) => ({
+    month: lumpSum.month,
+    amount: lumpSum.amount,
+    loanId: lumpSum.loanId,
+    label: lumpSum.label,
+  }));
+
+export const opportunityCostQuerySchema = z
+  .object({
+    annualReturn: z.coerce.number().min(-0.5).max(0.5),
+    taxRate: z.coerce.number().min(0).max(1).default(0.19),
+    inflation: z.coerce.number().min(-0.1).max(0.5).default(0),
+  })
+  .strict();
+
+const scheduleMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])-01$/u, "month must use YYYY-MM-01 format");
+
+export const simulationScheduleQuerySchema = paginationSchema
+  .extend({
+    pageSize: z.coerce.number().int().positive().max(600).default(120),
+    fromMonth: scheduleMonthSchema.optional(),
+    toMonth: scheduleMonthSchema.optional(),
+    loanId: z.string().uuid().optional(),
+  })
+  .strict()
+  .refine(
+    (query) =>
+      !query.fromMonth || !query.toMonth || query.fromMonth <= query.toMonth,
+    { message: "fromMonth must not be after toMonth", path: ["toMonth"] },
+  );
+
+export const SIMULATION_COMPARE_MAX_IDS = 5;
+
+export const simulationCompareQuerySchema = z
+  .object({
+    ids: z
+      .string()
+      .transform((val) =>
+        val
+          .split(",")
+          .map((segment) => segment.trim())
+          .filter((segment) => segment.length > 0),
+      )
+      .pipe(
+        z
+          .array(z.string().uuid())
+          .min(2, "Provide at least two simulation ids")
+          .max(
+            SIMULATION_COMPARE_MAX_IDS,
+            `Provide at most ${SIMULATION_COMPARE_MAX_IDS} simulation ids`,
+          )
+          .refine((ids) => new Set(ids).size === ids.length, {
+            message: "Simulation ids must be unique",
+          }),
+      ),
+  })
+  .strict();
+
+/** Every run is a full projection computed inside the request, so keep the count low. */
+export const STRESS_TEST_MAX_RUNS = 200;
+
+export const stressTestSchema = z
+  .object({
+    runs: z.number().int().min(10).max(STRESS_TEST_MAX_RUNS).default(100),
+    model: z.enum(["random_walk", "historical"]).default("random_walk"),
+    drift: z.number().min(-0.1).max(0.1).default(0),
+    volatility: z.number().min(0).max(0.2).default(0.01),
+    seed: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+const optimalityReportSchema = z.object({
+  optimum: z.object({
+    monthsToPayoff: z.number(),
+    totalInterestSaved: z.number(),
+    paymentReductionTargetMonth: z.string().nullable(),
+  }),
+  heuristics: z.array(
+    z.object({
+      strategyId: z.string(),
+      strategyName: z.string(),
+      monthsToPayoff: z.number(),
+      totalInterestSaved: z.number(),
+      paymentReductionTargetMonth: z.string().nullable(),
+      interestShortfall: z.number(),
+      monthsShortfall: z.number(),
+      targetMonthsShortfall: z.number().nullable(),
+    }),
+  ),
+});
+
+/**
+ * Reads the optimality report stored on a simulation row; anything unreadable counts
+ * as no report.
+ */
+export const parseStoredOptimalityReport = (
+  value: Json | null | undefined,
+): SimulationOptimalityReport | null => {
+  const parsed = optimalityReportSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+/** Optimality report in the shape stored on a simulation row. */
+export const serializeOptimalityReport = (
+  report: SimulationOptimalityReport | null,
+): Json =>
+  report && {
+    optimum: {
+      monthsToPayoff: report.optimum.monthsToPayoff,
+      totalInterestSaved: report.optimum.totalInterestSaved,
+      paymentReductionTargetMonth: report.optimum.paymentReductionTargetMonth,
+    },
+    heuristics: report.heuristics.map((heuristic) => ({ ...heuristic })),
+  };
+
 export const simulationIdParamSchema = z.string().uuid();
 export const includeParamSchema = z
   .string()
@@ -86,5 +450,183 @@ export type CreateSimulationParsed = z.infer<typeof createSimulationSchema>;
 export type SimulationIdParamSchema = typeof simulationIdParamSchema;
 export type SimulationIdParamParsed = z.infer<typeof simulationIdParamSchema>;
 
+export type StressTestSchema = typeof stressTestSchema;
+export type StressTestParsed = z.infer<typeof stressTestSchema>;
+export type SimulationScheduleQuerySchema =
+  typeof simulationScheduleQuerySchema;
+export type SimulationScheduleQueryParsed = z.infer<
+  typeof simulationScheduleQuerySchema
+>;
+export type SimulationCompareQuerySchema = typeof simulationCompareQuerySchema;
+export type SimulationCompareQueryParsed = z.infer<
+  typeof simulationCompareQuerySchema
+>;
+export type OpportunityCostQuerySchema = typeof opportunityCostQuerySchema;
+export type OpportunityCostQueryParsed = z.infer<
+  typeof opportunityCostQuerySchema
+>;
+
 export type IncludeParamSchema = typeof includeParamSchema;
 export type IncludeParamParsed = z.infer<typeof includeParamSchema>;
+
+/**
+ * Reads the loan rules stored on a simulation row, dropping malformed entries the same
+ * way as {@link parseStoredLumpSums}.
+ */
+export const parseStoredLoanRules = (
+  value: Json | null | undefined,
+): SimulationLoanRule[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    const parsed = loanRuleSchema.safeParse(entry);
+    return parsed.success ? [parsed.data] : [];
+  });
+};
+
+/**
+ * Reads the strategy phases stored on a simulation row, dropping malformed entries the
+ * same way as {@link parseStoredLumpSums}.
+ */
+export const parseStoredStrategyPhases = (
+  value: Json | null | undefined,
+): SimulationStrategyPhase[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value.flatMap((entry) => {
+    const parsed = strategyPhaseSchema.safeParse(entry);
+    return parsed.success
+      ? [
+          {
+            ...parsed.data,
+            strategyParams: serializeStrategyParams(parsed.data.strategyParams),
+          },
+        ]
+      : [];
+  });
+};
+
+/** Loan rules in the shape stored on a simulation row. */
+export const serializeLoanRules = (
+  rules: readonly SimulationLoanRule[],
+): Json =>
+  rules.map((rule) => ({
+    loanId: rule.loanId,
+    pinned: rule.pinned,
+    excluded: rule.excluded,
+    monthlyCap: rule.monthlyCap,
+    monthlyFloor: rule.monthlyFloor,
+  }));
+
+/** Strategy phases in the shape stored on a simulation row. */
+export const serializeStrategyPhases = (
+  phases: readonly SimulationStrategyPhase[],
+): Json =>
+  phases.map((phase) => ({
+    strategy: phase.strategy,
+    strategyParams: phase.strategyParams,
+    startsWhen: phase.startsWhen,
+  }));
+
+/** Loans, settings and timelines a computation read, kept so it can be replayed. */
+export interface SimulationInputSnapshot {
+  loans: LoanRow[];
+  userSettings: UserSettingsRow | null;
+  rateIndexTimeline: RateIndexTimeline;
+  loanChanges: ScheduledLoanChange[];
+}
+
+const moneyRoundingEnum = z.enum(["half_up", "half_even", "down", "up"]);
+
+const storedLoanSchema = z.object({
+  amortization_type: z.enum(["annuity", "decreasing"]),
+  annual_rate: z.number(),
+  closed_month: z.string().nullable(),
+  created_at: z.string(),
+  id: z.string(),
+  installment_rounding: moneyRoundingEnum,
+  interest_accrual: z.enum(["thirty_360", "actual_365"]),
+  interest_rounding: moneyRoundingEnum,
+  is_closed: z.boolean(),
+  min_overpayment: z.number().nullable(),
+  original_term_months: z.number(),
+  overpayment_effect: z.enum(["shorten_term", "lower_installment"]),
+  payment_day: z.number().nullable(),
+  prepayment_fee_months: z.number().nullable(),
+  prepayment_fee_rate: z.number().nullable(),
+  prepayment_free_allowance: z.number().nullable(),
+  principal: z.number(),
+  rate_index_id: z.string().nullable(),
+  rate_margin: z.number().nullable(),
+  rate_type: z.enum(["fixed", "variable"]),
+  remaining_balance: z.number(),
+  start_month: z.string(),
+  term_months: z.number(),
+  user_id: z.string(),
+});
+
+const storedUserSettingsSchema = z.object({
+  monthly_overpayment_limit: z.number(),
+  overpayment_budget_schedule: storedJsonSchema.nullable(),
+  reinvest_reduced_payments: z.boolean(),
+  updated_at: z.string(),
+  user_id: z.string(),
+});
+
+const inputSnapshotSchema = z.object({
+  loans: z.array(storedLoanSchema),
+  userSettings: storedUserSettingsSchema.nullable(),
+  rateIndexTimeline: z.array(
+    z.tuple([
+      z.string(),
+      z.array(z.object({ month: z.string(), value: z.number() })),
+    ]),
+  ),
+  loanChanges: z.array(
+    z.object({
+      loanId: z.string(),
+      month: z.string(),
+      annualRate: z.number().optional(),
+      termMonths: z.number().optional(),
+      remainingBalance: z.number().optional(),
+      principal: z.number().optional(),
+    }),
+  ),
+});
+
+/**
+ * Reads the input snapshot stored on a simulation row; null for simulations computed
+ * before snapshots were stored, or when it cannot be read.
+ */
+export const parseStoredInputSnapshot = (
+  value: Json | null | undefined,
+): SimulationInputSnapshot | null => {
+  const parsed = inputSnapshotSchema.safeParse(value);
+  if (!parsed.success) {
+    return null;
+  }
+
+  return {
+    ...parsed.data,
+    rateIndexTimeline: new Map(parsed.data.rateIndexTimeline),
+  };
+};
+
+/** Input snapshot in the shape stored on a simulation row. */
+export const serializeInputSnapshot = (
+  snapshot: SimulationInputSnapshot,
+): Json => ({
+  loans: snapshot.loans.map((loan) => ({ ...loan })),
+  userSettings: snapshot.userSettings && { ...snapshot.userSettings },
+  rateIndexTimeline: [...snapshot.rateIndexTimeline.entries()].map(
+    ([rateIndexId, values]) => [
+      rateIndexId,
+      values.map(({ month, value }) => ({ month, value })),
+    ],
+  ),
+  loanChanges: snapshot.loanChanges.map((change) => ({ ...change })),
+});
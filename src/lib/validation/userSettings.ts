@@ -1,9 +1,14 @@
 import { z } from "zod";
 
+import type { Json } from "../../db/database.types.ts";
 import { validationError } from "../errors.ts";
-import type { UpdateUserSettingsCommand } from "../../types.ts";
+import type {
+  OverpaymentBudgetSchedule,
+  UpdateUserSettingsCommand,
+} from "../../types.ts";
 
 const MAX_MONTHLY_OVERPAYMENT_LIMIT = 9_999_999_999.99;
+const MAX_BUDGET_STEPS = 60;
 const DECIMAL_TOLERANCE = 1e-6;
 
 const hasAtMostTwoDecimalPlaces = (value: number): boolean => {
@@ -50,9 +55,76 @@ const monthlyOverpaymentLimitSchema = z
       ),
   );
 
+const budgetStepSchema = z
+  .object({
+    fromMonth: z
+      .string()
+      .regex(
+        /^\d{4}-(0[1-9]|1[0-2])-01$/u,
+        "fromMonth must use YYYY-MM-01 format",
+      ),
+    amount: z
+      .number({ invalid_type_error: "amount must be numeric" })
+      .min(0, "amount must be greater than or equal to 0")
+      .max(MAX_MONTHLY_OVERPAYMENT_LIMIT, "amount exceeds the allowed maximum")
+      .refine(
+        hasAtMostTwoDecimalPlaces,
+        "amount must not include more than two decimal places",
+      ),
+  })
+  .strict();
+
+export const overpaymentBudgetScheduleSchema = z
+  .object({
+    steps: z
+      .array(budgetStepSchema)
+      .min(1, "steps must contain at least one step")
+      .max(MAX_BUDGET_STEPS, `steps must not exceed ${MAX_BUDGET_STEPS}`)
+      .refine(
+        (steps) =>
+          steps.every(
+            (step, index) =>
+              index === 0 || steps[index - 1].fromMonth < step.fromMonth,
+          ),
+        "steps must be ordered by fromMonth without duplicate months",
+      ),
+    yearlyGrowthRate: z
+      .number({ invalid_type_error: "yearlyGrowthRate must be numeric" })
+      .min(0, "yearlyGrowthRate must be greater than or equal to 0")
+      .max(1, "yearlyGrowthRate must not exceed 1")
+      .default(0),
+  })
+  .strict();
+
+/**
+ * Reads a budget schedule stored on a settings or simulation row. Rows that no longer
+ * satisfy the schema fall back to the flat monthly limit.
+ */
+export const parseStoredBudgetSchedule = (
+  value: Json | null | undefined,
+): OverpaymentBudgetSchedule | null => {
+  const parsed = overpaymentBudgetScheduleSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+};
+
+/** Budget schedule in the shape stored on a settings or simulation row. */
+export const serializeBudgetSchedule = (
+  schedule: OverpaymentBudgetSchedule | null,
+): Json =>
+  schedule && {
+    steps: schedule.steps.map((step) => ({
+      fromMonth: step.fromMonth,
+      amount: step.amount,
+    })),
+    yearlyGrowthRate: schedule.yearlyGrowthRate,
+  };
+
 export const userSettingsUpdateSchema = z
   .object({
     monthlyOverpaymentLimit: monthlyOverpaymentLimitSchema,
+    overpaymentBudgetSchedule: overpaymentBudgetScheduleSchema
+      .nullable()
+      .optional(),
     reinvestReducedPayments: z.boolean({
       invalid_type_error: "reinvestReducedPayments must be a boolean",
     }),
@@ -1,7 +1,12 @@
 import type {
+  AmortizationType,
   CreateLoanCommand,
+  InterestAccrual,
   LoanDto,
   LoanListResponse,
+  LoanRateType,
+  MoneyRounding,
+  OverpaymentEffect,
   PatchLoanCommand,
   UpdateLoanCommand,
 } from "@/types";
@@ -34,7 +39,21 @@ export interface LoanFormValues {
   termMonths: number | "";
   originalTermMonths: number | "";
   startMonth: string;
-  rateChangeEffective: "current" | "next";
+  amortizationType: AmortizationType;
+  interestAccrual: InterestAccrual;
+  paymentDay: number | "";
+  interestRounding: MoneyRounding;
+  installmentRounding: MoneyRounding;
+  overpaymentEffect: OverpaymentEffect;
+  rateType: LoanRateType;
+  rateIndexId: string;
+  rateMargin: number | "";
+  prepaymentFeeRate: number | "";
+  prepaymentFeeMonths: number | "";
+  prepaymentFreeAllowance: number | "";
+  minOverpayment: number | "";
+  changeEffective: "current" | "scheduled";
+  effectiveMonth: string;
 }
 
 export interface LoanFormErrors {
@@ -44,7 +63,21 @@ export interface LoanFormErrors {
   termMonths?: string;
   originalTermMonths?: string;
   startMonth?: string;
-  rateChangeEffective?: string;
+  amortizationType?: string;
+  interestAccrual?: string;
+  paymentDay?: string;
+  interestRounding?: string;
+  installmentRounding?: string;
+  overpaymentEffect?: string;
+  rateType?: string;
+  rateIndexId?: string;
+  rateMargin?: string;
+  prepaymentFeeRate?: string;
+  prepaymentFeeMonths?: string;
+  prepaymentFreeAllowance?: string;
+  minOverpayment?: string;
+  changeEffective?: string;
+  effectiveMonth?: string;
   nonFieldError?: string;
 }
 
@@ -53,6 +86,7 @@ export type StaleTrigger =
   | "delete"
   | "balance_adjust"
   | "rate_change"
+  | "scheduled_change"
   | "create";
 
 export interface StaleState {
@@ -1,12 +1,23 @@
 import type { UserSettingsDto } from "@/types";
 
+export interface BudgetStepFormValue {
+  key: string;
+  /** Month input value (YYYY-MM). */
+  fromMonth: string;
+  amount: string;
+}
+
 export interface SettingsFormValues {
   monthlyOverpaymentLimit: string;
+  budgetSteps: BudgetStepFormValue[];
+  /** Yearly budget growth in percent. */
+  budgetGrowthPercent: string;
   reinvestReducedPayments: boolean;
 }
 
 export interface SettingsFormErrors {
   monthlyOverpaymentLimit?: string;
+  overpaymentBudgetSchedule?: string;
   nonFieldError?: string;
 }
 
@@ -61,6 +61,38 @@ export interface LoanPreviewVM extends LoanDto {
   readonly highlight?: "highRate" | "smallBalance";
 }
 
+/** Lump sum row being edited in the goal step; fields hold raw input values. */
+export interface LumpSumDraftVM {
+  readonly key: string;
+  /** Month input value (YYYY-MM). */
+  readonly month: string;
+  readonly amount: string;
+  /** Empty when the strategy decides which loan receives the money. */
+  readonly loanId: string;
+  readonly label: string;
+}
+
+/** Weights for the custom weights strategy as edited; amounts hold raw input values. */
+export interface CustomWeightsDraftVM {
+  readonly mode: "percentages" | "formula";
+  /** Percent input keyed by loan id; missing or empty means 0. */
+  readonly percentages: Readonly<Record<string, string>>;
+  readonly rateWeight: string;
+  readonly balanceWeight: string;
+  readonly installmentWeight: string;
+}
+
+/** How a loan is treated by the allocator, whatever the strategy. */
+export type LoanRuleModeVM = "default" | "pinned" | "excluded";
+
+/** Allocation rule row for one loan in the goal step; amounts hold raw input values. */
+export interface LoanRuleDraftVM {
+  readonly loanId: string;
+  readonly mode: LoanRuleModeVM;
+  readonly monthlyCap: string;
+  readonly monthlyFloor: string;
+}
+
 export interface SettingsSummaryVM {
   readonly overpaymentLimit: UserSettingsDto["monthlyOverpaymentLimit"];
   readonly reinvestReducedPayments: UserSettingsDto["reinvestReducedPayments"];
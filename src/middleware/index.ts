@@ -1,7 +1,10 @@
 import { randomUUID } from "node:crypto";
 import { defineMiddleware } from "astro:middleware";
 
-import { createSupabaseClient } from "../db/supabase.client.ts";
+import {
+  createSupabaseClient,
+  createSupabaseServiceClient,
+} from "../db/supabase.client.ts";
 import {
   internalError,
   tooManyRequestsError,
@@ -10,6 +13,7 @@ import {
 import { errorResponse } from "../lib/http/responses.ts";
 import { readAccessTokenFromCookies } from "../lib/http/sessionCookies.ts";
 import { logger } from "../lib/logger.ts";
+import { startSimulationWorker } from "../lib/services/simulationJobService.ts";
 
 const PUBLIC_API_PATHS = new Set([
   "/api/auth/signin",
@@ -44,6 +48,18 @@ const resolveRequestId = (request: Request): string => {
   return request.headers.get("x-request-id") ?? randomUUID();
 };
 
+/**
+ * Simulations are only computed by the job worker, which claims every user's jobs and
+ * so needs the service role key. Without it queued simulations would stay running
+ * forever, so loading the middleware fails instead and no request is served.
+ */
+const simulationServiceClient = createSupabaseServiceClient();
+if (!simulationServiceClient) {
+  throw new Error(
+    "SUPABASE_SERVICE_ROLE_KEY is not set; the simulation job worker cannot run without it",
+  );
+}
+
 const shouldEnforceAuth = (pathname: string, method: string): boolean => {
   if (method.toUpperCase() === "OPTIONS") {
     return false;
@@ -62,6 +78,8 @@ export const onRequest = defineMiddleware(async (context, next) => {
   const requestId = resolveRequestId(request);
 
   context.locals.requestId = requestId;
+  // The standalone server has no startup hook, so the worker starts with the first request
+  startSimulationWorker(simulationServiceClient);
 
   const cookieHeader = request.headers.get("cookie");
   const accessToken =
@@ -0,0 +1,103 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError } from "../../lib/errors.ts";
+import { subscribeToUserEvents } from "../../lib/events.ts";
+import { errorResponse } from "../../lib/http/responses.ts";
+import { logger } from "../../lib/logger.ts";
+import type { UserEvent } from "../../types.ts";
+
+const EVENT_STREAM_OPEN = "events.stream.open";
+const EVENT_STREAM_CLOSE = "events.stream.close";
+
+/** Comment lines keep proxies from closing an idle stream. */
+const HEARTBEAT_INTERVAL_MS = 25_000;
+/** How long the browser waits before reconnecting after the stream drops. */
+const RECONNECT_DELAY_MS = 5_000;
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+const formatEvent = (event: UserEvent): string =>
+  `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+
+  try {
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | undefined;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const send = (chunk: string) => {
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            // The stream is already closed; cleanup follows from the abort
+          }
+        };
+
+        const unsubscribe = subscribeToUserEvents(userId, (event) =>
+          send(formatEvent(event)),
+        );
+        const heartbeat = setInterval(
+          () => send(": heartbeat\n\n"),
+          HEARTBEAT_INTERVAL_MS,
+        );
+
+        cleanup = () => {
+          clearInterval(heartbeat);
+          unsubscribe();
+          cleanup = undefined;
+          logger.info(EVENT_STREAM_CLOSE, "Event stream closed", {
+            userId: hashUserId(userId),
+            requestId,
+          });
+        };
+
+        request.signal.addEventListener("abort", () => {
+          cleanup?.();
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the runtime
+          }
+        });
+
+        send(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    logger.info(EVENT_STREAM_OPEN, "Event stream opened", {
+      userId: hashUserId(userId),
+      requestId,
+    });
+
+    const headers = new Headers({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    if (requestId) {
+      headers.set("X-Request-Id", requestId);
+    }
+
+    return new Response(stream, { status: 200, headers });
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
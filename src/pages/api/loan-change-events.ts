@@ -0,0 +1,186 @@
+import type { APIRoute } from "astro";
+
+import { unauthorizedError, validationError } from "../../lib/errors.ts";
+import {
+  errorResponse,
+  jsonResponse,
+  toApiError,
+} from "../../lib/http/responses.ts";
+import { logger } from "../../lib/logger.ts";
+import { withIdempotency } from "../../lib/services/idempotencyService.ts";
+import {
+  createLoanChangeEvent,
+  listLoanChangeEvents,
+} from "../../lib/services/loanChangeEventService.ts";
+import {
+  parseCreateLoanChangeEvent,
+  parseLoanChangeEventQuery,
+} from "../../lib/validation/loanChangeEvent.ts";
+
+const resolveRequestId = (
+  localsRequestId: string | undefined,
+  request: Request,
+): string | undefined => {
+  if (localsRequestId) {
+    return localsRequestId;
+  }
+
+  const headerValue = request.headers.get("x-request-id");
+  return headerValue ?? undefined;
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+
+  return userId;
+};
+
+const ensureJsonContentType = (request: Request): void => {
+  const contentType = request.headers.get("content-type");
+  if (!contentType || !contentType.toLowerCase().includes("application/json")) {
+    throw validationError(
+      "INVALID_CONTENT_TYPE",
+      "Content-Type must be application/json",
+    );
+  }
+};
+
+export const GET: APIRoute = async ({ locals, request }) => {
+  const requestId = resolveRequestId(locals.requestId, request);
+
+  try {
+    const userId = ensureAuthenticated(locals.userId);
+
+    const query = parseLoanChangeEventQuery(new URL(request.url).searchParams);
+    const result = await listLoanChangeEvents(locals.supabase, userId, query);
+
+    const headers: Record<string, string> = { "Cache-Control": "no-store" };
+    if (requestId) {
+      headers["X-Request-Id"] = requestId;
+    }
+
+    logger.info("loanChangeEvents.list.success", "Loan change events listed", {
+      requestId,
+      userId,
+      loanId: query.loanId,
+      count: result.items.length,
+    });
+
+    return jsonResponse(result, { status: 200, headers });
+  } catch (error) {
+    const apiError = toApiError(error);
+    const logContext: Record<string, unknown> = {
+      requestId,
+      status: apiError.status,
+      code: apiError.code,
+    };
+
+    if (locals.userId) {
+      logContext.userId = locals.userId;
+    }
+
+    if (apiError.status >= 500) {
+      logger.error(
+        "loanChangeEvents.list.failure",
+        apiError.message,
+        logContext,
+      );
+    } else {
+      logger.warn(
+        "loanChangeEvents.list.failure",
+        apiError.message,
+        logContext,
+      );
+    }
+
+    return errorResponse(apiError, requestId);
+  }
+};
+
+export const POST: APIRoute = async ({ locals, request }) => {
+  const requestId = resolveRequestId(locals.requestId, request);
+
+  try {
+    const userId = ensureAuthenticated(locals.userId);
+
+    ensureJsonContentType(request);
+
+    return await withIdempotency(
+      locals.supabase,
+      userId,
+      request,
+      async () => {
+        let rawPayload: unknown;
+        try {
+          rawPayload = await request.json();
+        } catch {
+          throw validationError(
+            "INVALID_JSON",
+            "Request body must be valid JSON",
+          );
+        }
+
+        const command = parseCreateLoanChangeEvent(rawPayload);
+        const result = await createLoanChangeEvent(
+          locals.supabase,
+          userId,
+          command,
+        );
+
+        const headers: Record<string, string> = { "Cache-Control": "no-store" };
+        if (requestId) {
+          headers["X-Request-Id"] = requestId;
+        }
+
+        if (result.staleSimulation) {
+          headers["X-Simulation-Stale"] = "true";
+        }
+
+        logger.info(
+          "loanChangeEvents.create.success",
+          "Loan change event scheduled",
+          {
+            requestId,
+            userId,
+            loanId: result.event.loanId,
+            changeType: result.event.changeType,
+            effectiveMonth: result.event.effectiveMonth,
+            staleSimulation: result.staleSimulation,
+          },
+        );
+
+        return jsonResponse(result.event, { status: 201, headers });
+      },
+      { requestId },
+    );
+  } catch (error) {
+    const apiError = toApiError(error);
+    const logContext: Record<string, unknown> = {
+      requestId,
+      status: apiError.status,
+      code: apiError.code,
+    };
+
+    if (locals.userId) {
+      logContext.userId = locals.userId;
+    }
+
+    if (apiError.status >= 500) {
+      logger.error(
+        "loanChangeEvents.create.failure",
+        apiError.message,
+        logContext,
+      );
+    } else {
+      logger.warn(
+        "loanChangeEvents.create.failure",
+        apiError.message,
+        logContext,
+      );
+    }
+
+    return errorResponse(apiError, requestId);
+  }
+};
@@ -7,6 +7,7 @@ import {
   toApiError,
 } from "../../lib/http/responses.ts";
 import { logger } from "../../lib/logger.ts";
+import { withIdempotency } from "../../lib/services/idempotencyService.ts";
 import { createLoan, listLoans } from "../../lib/services/loanService.ts";
 import {
   validateCreateLoan,
@@ -124,42 +125,56 @@ export const POST: APIRoute = async ({ locals, request }) => {
 
     ensureJsonContentType(request);
 
-    let rawPayload: unknown;
-    try {
-      rawPayload = await request.json();
-    } catch {
-      throw validationError("INVALID_JSON", "Request body must be valid JSON");
-    }
-
-    const validatedPayload = validateCreateLoan(rawPayload);
-    if (!validatedPayload.value) {
-      throwLoanValidationError("Invalid loan payload", validatedPayload.errors);
-    }
-
-    const payload = validatedPayload.value as CreateLoanCommand;
-    const result = await createLoan(locals.supabase, userId, payload);
-
-    const headers: Record<string, string> = {
-      Location: `/api/loans/${result.loan.id}`,
-      "Cache-Control": "no-store",
-      ETag: result.etag,
-    };
-    if (requestId) {
-      headers["X-Request-Id"] = requestId;
-    }
-
-    if (result.staleSimulation) {
-      headers["X-Simulation-Stale"] = "true";
-    }
-
-    logger.info("loans.create.success", "Loan created successfully", {
-      requestId,
+    return await withIdempotency(
+      locals.supabase,
       userId,
-      loanId: result.loan.id,
-      staleSimulation: result.staleSimulation,
-    });
-
-    return jsonResponse(result.loan, { status: 201, headers });
+      request,
+      async () => {
+        let rawPayload: unknown;
+        try {
+          rawPayload = await request.json();
+        } catch {
+          throw validationError(
+            "INVALID_JSON",
+            "Request body must be valid JSON",
+          );
+        }
+
+        const validatedPayload = validateCreateLoan(rawPayload);
+        if (!validatedPayload.value) {
+          throwLoanValidationError(
+            "Invalid loan payload",
+            validatedPayload.errors,
+          );
+        }
+
+        const payload = validatedPayload.value as CreateLoanCommand;
+        const result = await createLoan(locals.supabase, userId, payload);
+
+        const headers: Record<string, string> = {
+          Location: `/api/loans/${result.loan.id}`,
+          "Cache-Control": "no-store",
+          ETag: result.etag,
+        };
+        if (requestId) {
+          headers["X-Request-Id"] = requestId;
+        }
+
+        if (result.staleSimulation) {
+          headers["X-Simulation-Stale"] = "true";
+        }
+
+        logger.info("loans.create.success", "Loan created successfully", {
+          requestId,
+          userId,
+          loanId: result.loan.id,
+          staleSimulation: result.staleSimulation,
+        });
+
+        return jsonResponse(result.loan, { status: 201, headers });
+      },
+      { requestId },
+    );
   } catch (error) {
     const apiError = toApiError(error);
     const logContext: Record<string, unknown> = {
@@ -3,6 +3,7 @@ import type { APIRoute } from "astro";
 import { unauthorizedError } from "../../lib/errors.ts";
 import { errorResponse, jsonResponse } from "../../lib/http/responses.ts";
 import { logger } from "../../lib/logger.ts";
+import { withIdempotency } from "../../lib/services/idempotencyService.ts";
 import {
   listLogs,
   createLog,
@@ -69,22 +70,30 @@ export const POST: APIRoute = async ({ locals, request }) => {
       throw unauthorizedError("ERR_UNAUTHORIZED", "Authentication required");
     }
 
-    const body = await request.json();
-    const cmd = createMonthlyExecutionLogSchema.parse(body);
-
-    const result = await createLog(
-      cmd,
+    return await withIdempotency(
       locals.supabase,
       userId,
-      requestId || "",
+      request,
+      async () => {
+        const body = await request.json();
+        const cmd = createMonthlyExecutionLogSchema.parse(body);
+
+        const result = await createLog(
+          cmd,
+          locals.supabase,
+          userId,
+          requestId || "",
+        );
+
+        const headers = new Headers();
+        if (requestId) {
+          headers.set("X-Request-Id", requestId);
+        }
+
+        return jsonResponse(result, { status: 201, headers });
+      },
+      { requestId },
     );
-
-    const headers = new Headers();
-    if (requestId) {
-      headers.set("X-Request-Id", requestId);
-    }
-
-    return jsonResponse(result, { status: 201, headers });
   } catch (error) {
     logger.error(
       "monthly_execution_logs_post",
@@ -0,0 +1,164 @@
+import type { APIRoute } from "astro";
+
+import { unauthorizedError, validationError } from "../../lib/errors.ts";
+import {
+  errorResponse,
+  jsonResponse,
+  toApiError,
+} from "../../lib/http/responses.ts";
+import { logger } from "../../lib/logger.ts";
+import { withIdempotency } from "../../lib/services/idempotencyService.ts";
+import {
+  importRateIndexValues,
+  listRateIndexValues,
+} from "../../lib/services/rateIndexService.ts";
+import {
+  parseRateIndexCsv,
+  parseRateIndexListQuery,
+} from "../../lib/validation/rateIndex.ts";
+
+const MAX_CSV_BYTES = 512 * 1024;
+
+const resolveRequestId = (
+  localsRequestId: string | undefined,
+  request: Request,
+): string | undefined => {
+  if (localsRequestId) {
+    return localsRequestId;
+  }
+
+  const headerValue = request.headers.get("x-request-id");
+  return headerValue ?? undefined;
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+
+  return userId;
+};
+
+const ensureCsvContentType = (request: Request): void => {
+  const contentType = request.headers.get("content-type");
+  if (!contentType || !contentType.toLowerCase().includes("text/csv")) {
+    throw validationError(
+      "INVALID_CONTENT_TYPE",
+      "Content-Type must be text/csv",
+    );
+  }
+};
+
+export const GET: APIRoute = async ({ locals, request }) => {
+  const requestId = resolveRequestId(locals.requestId, request);
+
+  try {
+    const userId = ensureAuthenticated(locals.userId);
+
+    const query = parseRateIndexListQuery(new URL(request.url).searchParams);
+    const items = await listRateIndexValues(locals.supabase, userId, query);
+
+    const headers: Record<string, string> = { "Cache-Control": "no-store" };
+    if (requestId) {
+      headers["X-Request-Id"] = requestId;
+    }
+
+    logger.info("rateIndex.list.success", "Rate index values listed", {
+      requestId,
+      userId,
+      count: items.length,
+    });
+
+    return jsonResponse({ items }, { status: 200, headers });
+  } catch (error) {
+    const apiError = toApiError(error);
+    const logContext: Record<string, unknown> = {
+      requestId,
+      status: apiError.status,
+      code: apiError.code,
+    };
+
+    if (locals.userId) {
+      logContext.userId = locals.userId;
+    }
+
+    if (apiError.status >= 500) {
+      logger.error("rateIndex.list.failure", apiError.message, logContext);
+    } else {
+      logger.warn("rateIndex.list.failure", apiError.message, logContext);
+    }
+
+    return errorResponse(apiError, requestId);
+  }
+};
+
+export const POST: APIRoute = async ({ locals, request }) => {
+  const requestId = resolveRequestId(locals.requestId, request);
+
+  try {
+    const userId = ensureAuthenticated(locals.userId);
+
+    ensureCsvContentType(request);
+
+    return await withIdempotency(
+      locals.supabase,
+      userId,
+      request,
+      async () => {
+        const text = await request.text();
+        if (text.length > MAX_CSV_BYTES) {
+          throw validationError(
+            "RATE_INDEX_CSV_TOO_LARGE",
+            "CSV file must not exceed 512 KB",
+          );
+        }
+
+        const values = parseRateIndexCsv(text);
+        const result = await importRateIndexValues(
+          locals.supabase,
+          userId,
+          values,
+        );
+
+        const headers: Record<string, string> = { "Cache-Control": "no-store" };
+        if (requestId) {
+          headers["X-Request-Id"] = requestId;
+        }
+
+        if (result.staleSimulation) {
+          headers["X-Simulation-Stale"] = "true";
+        }
+
+        logger.info("rateIndex.import.success", "Rate index values imported", {
+          requestId,
+          userId,
+          imported: result.imported,
+          changed: result.changed,
+          staleSimulation: result.staleSimulation,
+        });
+
+        return jsonResponse(result, { status: 200, headers });
+      },
+      { requestId },
+    );
+  } catch (error) {
+    const apiError = toApiError(error);
+    const logContext: Record<string, unknown> = {
+      requestId,
+      status: apiError.status,
+      code: apiError.code,
+    };
+
+    if (locals.userId) {
+      logContext.userId = locals.userId;
+    }
+
+    if (apiError.status >= 500) {
+      logger.error("rateIndex.import.failure", apiError.message, logContext);
+    } else {
+      logger.warn("rateIndex.import.failure", apiError.message, logContext);
+    }
+
+    return errorResponse(apiError, requestId);
+  }
+};
@@ -0,0 +1,53 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError, validationError } from "../../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../../lib/http/responses.ts";
+import { logger } from "../../../../lib/logger.ts";
+import { replaySimulation } from "../../../../lib/services/simulationReplayService.ts";
+import { simulationIdParamSchema } from "../../../../lib/validation/simulation.ts";
+
+const EVENT_REPLAY = "simulations.replay";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const POST: APIRoute = async ({ params, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    const idValidation = simulationIdParamSchema.safeParse(params.simulationId);
+    if (!idValidation.success) {
+      return errorResponse(
+        validationError("INVALID_ID", "Invalid simulation ID"),
+        requestId,
+      );
+    }
+    const simulationId = idValidation.data;
+
+    const result = await replaySimulation(supabase, userId, simulationId);
+
+    logger.info(EVENT_REPLAY, "Simulation replayed", {
+      userId: hashUserId(userId),
+      simulationId,
+      engineChanged: result.engineChanged,
+      inputsChanged: result.inputsChanged,
+      matches: result.matches,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
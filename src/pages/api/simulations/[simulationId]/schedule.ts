@@ -0,0 +1,84 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError, validationError } from "../../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../../lib/http/responses.ts";
+import { logger } from "../../../../lib/logger.ts";
+import { listSimulationSchedule } from "../../../../lib/services/simulationScheduleService.ts";
+import {
+  simulationIdParamSchema,
+  simulationScheduleQuerySchema,
+} from "../../../../lib/validation/simulation.ts";
+import type { SimulationScheduleResponse } from "../../../../types.ts";
+
+const EVENT_SCHEDULE = "simulations.schedule";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const GET: APIRoute = async ({ params, request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    // Validate simulationId
+    const idValidation = simulationIdParamSchema.safeParse(params.simulationId);
+    if (!idValidation.success) {
+      return errorResponse(
+        validationError("INVALID_ID", "Invalid simulation ID"),
+        requestId,
+      );
+    }
+    const simulationId = idValidation.data;
+
+    // Parse and validate query params
+    const url = new URL(request.url);
+    const queryParams = Object.fromEntries(url.searchParams);
+    const queryValidation =
+      simulationScheduleQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      return errorResponse(
+        {
+          code: "INVALID_QUERY",
+          message: "Invalid query parameters",
+          status: 400,
+          details: queryValidation.error.issues,
+        },
+        requestId,
+      );
+    }
+
+    const query = queryValidation.data;
+
+    // Call service
+    const result: SimulationScheduleResponse = await listSimulationSchedule(
+      supabase,
+      userId,
+      simulationId,
+      query,
+    );
+
+    logger.info(EVENT_SCHEDULE, "Simulation schedule fetched", {
+      userId: hashUserId(userId),
+      simulationId,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalItems: result.totalItems,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
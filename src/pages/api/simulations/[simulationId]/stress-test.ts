@@ -0,0 +1,83 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError, validationError } from "../../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../../lib/http/responses.ts";
+import { logger } from "../../../../lib/logger.ts";
+import { runStressTest } from "../../../../lib/services/simulationStressTestService.ts";
+import {
+  simulationIdParamSchema,
+  stressTestSchema,
+} from "../../../../lib/validation/simulation.ts";
+import type { StressTestResultDto } from "../../../../types.ts";
+
+const EVENT_STRESS_TEST = "simulations.stress_test";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    // Validate simulationId
+    const idValidation = simulationIdParamSchema.safeParse(params.simulationId);
+    if (!idValidation.success) {
+      return errorResponse(
+        validationError("INVALID_ID", "Invalid simulation ID"),
+        requestId,
+      );
+    }
+    const simulationId = idValidation.data;
+
+    // Parse and validate body
+    const body = await request.json();
+    const bodyValidation = stressTestSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      return errorResponse(
+        {
+          code: "INVALID_BODY",
+          message: "Invalid request body",
+          status: 400,
+          details: bodyValidation.error.issues,
+        },
+        requestId,
+      );
+    }
+
+    const cmd = bodyValidation.data;
+    const startedAt = Date.now();
+
+    // Call service
+    const result: StressTestResultDto = await runStressTest(
+      supabase,
+      userId,
+      simulationId,
+      cmd,
+    );
+
+    logger.info(EVENT_STRESS_TEST, "Simulation stress tested", {
+      userId: hashUserId(userId),
+      simulationId,
+      model: cmd.model,
+      runs: cmd.runs,
+      durationMs: Date.now() - startedAt,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
@@ -0,0 +1,68 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError } from "../../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../../lib/http/responses.ts";
+import { logger } from "../../../../lib/logger.ts";
+import { analyzeOpportunityCost } from "../../../../lib/services/simulationOpportunityCostService.ts";
+import { opportunityCostQuerySchema } from "../../../../lib/validation/simulation.ts";
+import type { OpportunityCostAnalysisDto } from "../../../../types.ts";
+
+const EVENT_OPPORTUNITY_COST = "simulations.opportunity_cost";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    // Parse and validate query params
+    const url = new URL(request.url);
+    const queryParams = Object.fromEntries(url.searchParams);
+    const queryValidation = opportunityCostQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      return errorResponse(
+        {
+          code: "INVALID_QUERY",
+          message: "Invalid query parameters",
+          status: 400,
+          details: queryValidation.error.issues,
+        },
+        requestId,
+      );
+    }
+
+    const query = queryValidation.data;
+
+    // Call service
+    const result: OpportunityCostAnalysisDto = await analyzeOpportunityCost(
+      supabase,
+      userId,
+      query,
+    );
+
+    logger.info(EVENT_OPPORTUNITY_COST, "Overpay vs invest analyzed", {
+      userId: hashUserId(userId),
+      simulationId: result.simulationId,
+      annualReturn: query.annualReturn,
+      betterPath: result.betterPath,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
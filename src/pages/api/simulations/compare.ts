@@ -0,0 +1,67 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError } from "../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../lib/http/responses.ts";
+import { logger } from "../../../lib/logger.ts";
+import { compareSimulations } from "../../../lib/services/simulationComparisonService.ts";
+import { simulationCompareQuerySchema } from "../../../lib/validation/simulation.ts";
+import type { SimulationComparisonDto } from "../../../types.ts";
+
+const EVENT_COMPARE = "simulations.compare";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const GET: APIRoute = async ({ request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    // Parse and validate query params
+    const url = new URL(request.url);
+    const queryParams = Object.fromEntries(url.searchParams);
+    const queryValidation = simulationCompareQuerySchema.safeParse(queryParams);
+
+    if (!queryValidation.success) {
+      return errorResponse(
+        {
+          code: "INVALID_QUERY",
+          message: "Invalid query parameters",
+          status: 400,
+          details: queryValidation.error.issues,
+        },
+        requestId,
+      );
+    }
+
+    const { ids } = queryValidation.data;
+
+    // Call service
+    const result: SimulationComparisonDto = await compareSimulations(
+      supabase,
+      userId,
+      ids,
+    );
+
+    logger.info(EVENT_COMPARE, "Simulations compared", {
+      userId: hashUserId(userId),
+      simulationIds: ids,
+      months: result.months.length,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
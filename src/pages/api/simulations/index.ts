@@ -4,6 +4,7 @@ import { createHash } from "node:crypto";
 import { unauthorizedError } from "../../../lib/errors.ts";
 import { errorResponse, ok } from "../../../lib/http/responses.ts";
 import { logger } from "../../../lib/logger.ts";
+import { withIdempotency } from "../../../lib/services/idempotencyService.ts";
 import {
   listSimulations,
   queueSimulation,
@@ -83,48 +84,56 @@ export const POST: APIRoute = async ({ request, locals }) => {
   const supabase = locals.supabase;
 
   try {
-    // Parse and validate body
-    const body = await request.json();
-    const bodyValidation = createSimulationSchema.safeParse(body);
-
-    if (!bodyValidation.success) {
-      return errorResponse(
-        {
-          code: "INVALID_BODY",
-          message: "Invalid request body",
-          status: 400,
-          details: bodyValidation.error.issues,
-        },
-        requestId,
-      );
-    }
-
-    const cmd = bodyValidation.data;
-
-    // Call service
-    const result: SimulationQueuedResponse = await queueSimulation(
+    return await withIdempotency(
       supabase,
       userId,
-      cmd,
+      request,
+      async () => {
+        // Parse and validate body
+        const body = await request.json();
+        const bodyValidation = createSimulationSchema.safeParse(body);
+
+        if (!bodyValidation.success) {
+          return errorResponse(
+            {
+              code: "INVALID_BODY",
+              message: "Invalid request body",
+              status: 400,
+              details: bodyValidation.error.issues,
+            },
+            requestId,
+          );
+        }
+
+        const cmd = bodyValidation.data;
+
+        // Call service
+        const result: SimulationQueuedResponse = await queueSimulation(
+          supabase,
+          userId,
+          cmd,
+          { requestId },
+        );
+
+        logger.info(EVENT_QUEUE, "Simulation queued", {
+          userId: hashUserId(userId),
+          simulationId: result.simulationId,
+          strategy: cmd.strategy,
+          goal: cmd.goal,
+          requestId,
+        });
+
+        // Return 202 Accepted
+        return new Response(JSON.stringify(result), {
+          status: 202,
+          headers: {
+            "Content-Type": "application/json; charset=utf-8",
+            "X-Request-Id": requestId || "",
+          },
+        });
+      },
       { requestId },
     );
-
-    logger.info(EVENT_QUEUE, "Simulation queued", {
-      userId: hashUserId(userId),
-      simulationId: result.simulationId,
-      strategy: cmd.strategy,
-      goal: cmd.goal,
-      requestId,
-    });
-
-    // Return 202 Accepted
-    return new Response(JSON.stringify(result), {
-      status: 202,
-      headers: {
-        "Content-Type": "application/json; charset=utf-8",
-        "X-Request-Id": requestId || "",
-      },
-    });
   } catch (error) {
     return errorResponse(error, requestId);
   }
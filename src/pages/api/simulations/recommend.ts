@@ -0,0 +1,67 @@
+import type { APIRoute } from "astro";
+import { createHash } from "node:crypto";
+
+import { unauthorizedError } from "../../../lib/errors.ts";
+import { errorResponse, ok } from "../../../lib/http/responses.ts";
+import { logger } from "../../../lib/logger.ts";
+import { recommendStrategies } from "../../../lib/services/simulationRecommendationService.ts";
+import { recommendStrategiesSchema } from "../../../lib/validation/simulation.ts";
+import type { StrategyRecommendationResponse } from "../../../types.ts";
+
+const EVENT_RECOMMEND = "simulations.recommend";
+
+const hashUserId = (userId: string): string => {
+  return createHash("sha256").update(userId).digest("hex");
+};
+
+const ensureAuthenticated = (userId: string | undefined): string => {
+  if (!userId) {
+    throw unauthorizedError("AUTH_REQUIRED", "Authentication required");
+  }
+  return userId;
+};
+
+export const POST: APIRoute = async ({ request, locals }) => {
+  const requestId = locals.requestId;
+  const userId = ensureAuthenticated(locals.userId);
+  const supabase = locals.supabase;
+
+  try {
+    // Parse and validate body
+    const body = await request.json();
+    const bodyValidation = recommendStrategiesSchema.safeParse(body);
+
+    if (!bodyValidation.success) {
+      return errorResponse(
+        {
+          code: "INVALID_BODY",
+          message: "Invalid request body",
+          status: 400,
+          details: bodyValidation.error.issues,
+        },
+        requestId,
+      );
+    }
+
+    const cmd = bodyValidation.data;
+
+    // Call service
+    const result: StrategyRecommendationResponse = await recommendStrategies(
+      supabase,
+      userId,
+      cmd,
+    );
+
+    logger.info(EVENT_RECOMMEND, "Strategies compared", {
+      userId: hashUserId(userId),
+      goal: cmd.goal,
+      strategies: result.items.length,
+      recommendedStrategyId: result.recommendedStrategyId,
+      requestId,
+    });
+
+    return ok(result, requestId);
+  } catch (error) {
+    return errorResponse(error, requestId);
+  }
+};
@@ -11,10 +11,12 @@ type LoanRow = Tables<"loans">;
 type LoanInsert = TablesInsert<"loans">;
 type LoanUpdate = TablesUpdate<"loans">;
 type LoanChangeEventRow = Tables<"loan_change_events">;
+type RateIndexValueRow = Tables<"rate_index_values">;
 type LoanChangeEventInsert = TablesInsert<"loan_change_events">;
 type SimulationRow = Tables<"simulations">;
 type SimulationInsert = TablesInsert<"simulations">;
 type SimulationLoanSnapshotRow = Tables<"simulation_loan_snapshots">;
+type SimulationScheduleEntryRow = Tables<"simulation_schedule_entries">;
 type SimulationHistoryMetricRow = Tables<"simulation_history_metrics">;
 type SimulationHistoryMetricInsert = TablesInsert<"simulation_history_metrics">;
 type MonthlyExecutionLogRow = Tables<"monthly_execution_logs">;
@@ -25,8 +27,13 @@ type UserSettingsRow = Tables<"user_settings">;
 type UserSettingsInsert = TablesInsert<"user_settings">;
 type AdherenceMetricUpdate = TablesUpdate<"adherence_metrics">;
 
+export type AmortizationType = Enums<"amortization_type">;
 export type GoalType = Enums<"goal_type">;
+export type InterestAccrual = Enums<"interest_accrual">;
 export type LoanChangeType = Enums<"loan_change_type">;
+export type LoanRateType = Enums<"loan_rate_type">;
+export type MoneyRounding = Enums<"money_rounding">;
+export type OverpaymentEffect = Enums<"overpayment_effect">;
 export type OverpaymentStatus = Enums<"overpayment_status">;
 export type PaymentStatus = Enums<"payment_status">;
 export type SimulationStatus = Enums<"simulation_status">;
@@ -68,9 +75,29 @@ export interface AuthResetPasswordResponse {
 }
 
 // User Settings
+/**
+ * Overpayment budget in effect from a given month until the next step.
+ */
+export interface OverpaymentBudgetStep {
+  /** First day of the month the amount applies from (YYYY-MM-01). */
+  fromMonth: string;
+  amount: number;
+}
+
+/**
+ * Time-varying monthly overpayment budget. Before the first step the flat monthly
+ * overpayment limit applies; each step's amount grows by the yearly rate every 12 months.
+ */
+export interface OverpaymentBudgetSchedule {
+  steps: OverpaymentBudgetStep[];
+  /** Yearly growth as a decimal (0.05 = 5%); 0 keeps each step flat. */
+  yearlyGrowthRate: number;
+}
+
 export interface UserSettingsDto {
   userId: UserSettingsRow["user_id"];
   monthlyOverpaymentLimit: UserSettingsRow["monthly_overpayment_limit"];
+  overpaymentBudgetSchedule: OverpaymentBudgetSchedule | null;
   reinvestReducedPayments: UserSettingsRow["reinvest_reduced_payments"];
   updatedAt: UserSettingsRow["updated_at"];
 }
@@ -79,6 +106,8 @@ export interface UpdateUserSettingsCommand {
   monthlyOverpaymentLimit: NonNullable<
     UserSettingsInsert["monthly_overpayment_limit"]
   >;
+  /** Omit to keep the stored schedule; null clears it. */
+  overpaymentBudgetSchedule?: OverpaymentBudgetSchedule | null;
   reinvestReducedPayments: NonNullable<
     UserSettingsInsert["reinvest_reduced_payments"]
   >;
@@ -94,6 +123,19 @@ export interface LoanDto {
   termMonths: LoanRow["term_months"];
   originalTermMonths: LoanRow["original_term_months"];
   startMonth: LoanRow["start_month"];
+  overpaymentEffect: LoanRow["overpayment_effect"];
+  amortizationType: LoanRow["amortization_type"];
+  interestAccrual: LoanRow["interest_accrual"];
+  paymentDay: LoanRow["payment_day"];
+  interestRounding: LoanRow["interest_rounding"];
+  installmentRounding: LoanRow["installment_rounding"];
+  rateType: LoanRow["rate_type"];
+  rateIndexId: LoanRow["rate_index_id"];
+  rateMargin: LoanRow["rate_margin"];
+  prepaymentFeeRate: LoanRow["prepayment_fee_rate"];
+  prepaymentFeeMonths: LoanRow["prepayment_fee_months"];
+  prepaymentFreeAllowance: LoanRow["prepayment_free_allowance"];
+  minOverpayment: LoanRow["min_overpayment"];
   isClosed: LoanRow["is_closed"];
   closedMonth: LoanRow["closed_month"];
   createdAt: LoanRow["created_at"];
@@ -118,6 +160,19 @@ export interface CreateLoanCommand {
   termMonths: LoanInsert["term_months"];
   originalTermMonths: LoanInsert["original_term_months"];
   startMonth: NonNullable<LoanInsert["start_month"]>;
+  overpaymentEffect?: LoanInsert["overpayment_effect"];
+  amortizationType?: LoanInsert["amortization_type"];
+  interestAccrual?: LoanInsert["interest_accrual"];
+  paymentDay?: LoanInsert["payment_day"];
+  interestRounding?: LoanInsert["interest_rounding"];
+  installmentRounding?: LoanInsert["installment_rounding"];
+  rateType?: LoanInsert["rate_type"];
+  rateIndexId?: LoanInsert["rate_index_id"];
+  rateMargin?: LoanInsert["rate_margin"];
+  prepaymentFeeRate?: LoanInsert["prepayment_fee_rate"];
+  prepaymentFeeMonths?: LoanInsert["prepayment_fee_months"];
+  prepaymentFreeAllowance?: LoanInsert["prepayment_free_allowance"];
+  minOverpayment?: LoanInsert["min_overpayment"];
 }
 
 export type UpdateLoanCommand = CreateLoanCommand & {
@@ -127,6 +182,32 @@ export type UpdateLoanCommand = CreateLoanCommand & {
 
 export type PatchLoanCommand = Partial<UpdateLoanCommand>;
 
+// Rate Index Values
+export interface RateIndexValueDto {
+  id: RateIndexValueRow["id"];
+  indexId: RateIndexValueRow["index_id"];
+  month: RateIndexValueRow["month"];
+  value: RateIndexValueRow["value"];
+  updatedAt: RateIndexValueRow["updated_at"];
+}
+
+export interface RateIndexValueListQuery {
+  indexId?: RateIndexValueRow["index_id"];
+}
+
+export interface RateIndexValueInput {
+  indexId: RateIndexValueRow["index_id"];
+  month: RateIndexValueRow["month"];
+  value: RateIndexValueRow["value"];
+}
+
+export interface RateIndexImportResult {
+  imported: number;
+  changed: number;
+  indexIds: RateIndexValueRow["index_id"][];
+  staleSimulation: boolean;
+}
+
 // Loan Change Events
 export interface LoanChangeEventDto {
   id: LoanChangeEventRow["id"];
@@ -176,12 +257,17 @@ export interface SimulationDto {
   id: SimulationRow["id"];
   userId: SimulationRow["user_id"];
   strategy: SimulationRow["strategy"];
+  strategyParams: SimulationRow["strategy_params"];
+  /** Strategies that take over from `strategy` in order, each once its trigger fires. */
+  strategyPhases: SimulationStrategyPhase[];
   goal: GoalType;
   status: SimulationRow["status"];
   isActive: SimulationRow["is_active"];
   stale: SimulationRow["stale"];
   monthlyOverpaymentLimit: SimulationRow["monthly_overpayment_limit"];
+  overpaymentBudgetSchedule: OverpaymentBudgetSchedule | null;
   paymentReductionTarget: SimulationRow["payment_reduction_target"];
+  paymentReductionTargetMonth: SimulationRow["payment_reduction_target_month"];
   reinvestReducedPayments: SimulationRow["reinvest_reduced_payments"];
   baselineInterest: SimulationRow["baseline_interest"];
   totalInterestSaved: SimulationRow["total_interest_saved"];
@@ -192,6 +278,66 @@ export interface SimulationDto {
   completedAt: SimulationRow["completed_at"];
   cancelledAt: SimulationRow["cancelled_at"];
   notes: SimulationRow["notes"];
+  lumpSums: SimulationLumpSum[];
+  loanRules: SimulationLoanRule[];
+  /** Set once an `optimal` simulation has been computed; null otherwise. */
+  optimalityReport: SimulationOptimalityReport | null;
+  /** Engine that computed the results; null before versions were recorded. */
+  engineVersion: SimulationRow["engine_version"];
+  inputFingerprint: SimulationRow["input_fingerprint"];
+  /** True when finished results come from an engine older than the running one. */
+  engineOutdated: boolean;
+}
+
+/**
+ * Planned one-off overpayment (e.g. a bonus) injected in its month by the strategy projection.
+ */
+export interface SimulationLumpSum {
+  /** First day of the month the lump sum is paid (YYYY-MM-01). */
+  month: string;
+  amount: number;
+  /** Loan the lump sum is pinned to; without one the strategy allocates it. */
+  loanId?: string | null;
+  label?: string | null;
+}
+
+/**
+ * Per-loan constraint on how the monthly overpayment budget is split, honoured by every
+ * strategy. Pinned lump sums are not subject to these rules.
+ */
+export interface SimulationLoanRule {
+  loanId: string;
+  /** Budget goes to this loan before the strategy sees the rest. */
+  pinned?: boolean;
+  /** This loan never receives budget (only its scheduled payment). */
+  excluded?: boolean;
+  /** Largest overpayment the loan can receive from the budget in one month. */
+  monthlyCap?: number | null;
+  /** Overpayment set aside for the loan each month before the strategy splits the rest. */
+  monthlyFloor?: number | null;
+}
+
+/**
+ * Condition that starts the next strategy phase, checked at the start of every month.
+ */
+export type StrategyPhaseTrigger =
+  /** All listed loans are repaid. */
+  | { type: "loan_closed"; loanIds: string[] }
+  /** The projection reaches this month (YYYY-MM-01). */
+  | { type: "date"; month: string }
+  /** The balance of one loan, or of all loans without `loanId`, is at or below `amount`. */
+  | { type: "balance_threshold"; amount: number; loanId?: string | null }
+  /** The combined installment has dropped to the payment reduction target. */
+  | { type: "payment_target_met" };
+
+/**
+ * Strategy that replaces the previous one once its trigger fires. Phases start in order;
+ * a phase never ends before the one after it starts.
+ */
+export interface SimulationStrategyPhase {
+  strategy: string;
+  strategyParams?: SimulationRow["strategy_params"];
+  startsWhen: StrategyPhaseTrigger;
 }
 
 export interface SimulationListQuery {
@@ -215,15 +361,160 @@ export interface SimulationQueuedResponse {
 
 export interface CreateSimulationCommand {
   strategy: SimulationInsert["strategy"];
+  strategyParams?: SimulationInsert["strategy_params"];
+  strategyPhases?: SimulationStrategyPhase[];
   goal: GoalType;
   reinvestReducedPayments: NonNullable<
     SimulationInsert["reinvest_reduced_payments"]
   >;
   monthlyOverpaymentLimit?: SimulationInsert["monthly_overpayment_limit"];
+  /** Defaults to the schedule stored in user settings. */
+  overpaymentBudgetSchedule?: OverpaymentBudgetSchedule | null;
   paymentReductionTarget?: SimulationInsert["payment_reduction_target"];
+  lumpSums?: SimulationLumpSum[];
+  loanRules?: SimulationLoanRule[];
   notes?: SimulationInsert["notes"];
 }
 
+export interface RecommendStrategiesCommand {
+  goal: GoalType;
+  paymentReductionTarget?: SimulationInsert["payment_reduction_target"];
+  lumpSums?: SimulationLumpSum[];
+  loanRules?: SimulationLoanRule[];
+}
+
+/**
+ * Outcome of one registered strategy run against the user's current loans and settings.
+ */
+export interface StrategyRecommendationDto {
+  /** 1 for the best strategy for the requested goal. */
+  rank: number;
+  strategyId: StrategyDto["id"];
+  strategyName: StrategyDto["name"];
+  monthsToPayoff: number;
+  projectedPayoffMonth: string;
+  totalInterestSaved: number;
+  /** Month the payment reduction target is reached (payment reduction goal only). */
+  paymentReductionTargetMonth: string | null;
+}
+
+export interface StrategyRecommendationResponse {
+  goal: GoalType;
+  baselineMonthsToPayoff: number;
+  baselineInterest: number;
+  recommendedStrategyId: StrategyDto["id"] | null;
+  items: StrategyRecommendationDto[];
+}
+
+/**
+ * How a rule-of-thumb strategy fares against the optimizer on the same inputs.
+ * Shortfalls are positive when the heuristic does worse; a negative value means it beat
+ * the optimizer's greedy search on that measure.
+ */
+export interface StrategyShortfallDto {
+  strategyId: StrategyDto["id"];
+  strategyName: string;
+  monthsToPayoff: number;
+  totalInterestSaved: number;
+  paymentReductionTargetMonth: string | null;
+  /** Interest the optimizer saves on top of this strategy. */
+  interestShortfall: number;
+  /** Extra months this strategy needs to repay everything. */
+  monthsShortfall: number;
+  /** Extra months to reach the payment target; null unless both strategies reach it. */
+  targetMonthsShortfall: number | null;
+}
+
+/**
+ * Benchmark stored with a completed simulation: the optimizer's outcome and each
+ * heuristic's shortfall against it.
+ */
+export interface SimulationOptimalityReport {
+  optimum: {
+    monthsToPayoff: number;
+    totalInterestSaved: number;
+    paymentReductionTargetMonth: string | null;
+  };
+  heuristics: StrategyShortfallDto[];
+}
+
+/**
+ * How stressed index paths are generated: a random walk from user-set drift and
+ * volatility, or monthly index changes replayed from historical data.
+ */
+export type StressTestModel = "random_walk" | "historical";
+
+export interface StressTestCommand {
+  /** Number of projections to run. */
+  runs?: number;
+  model?: StressTestModel;
+  /** Expected yearly change of the index in decimal form (0.005 = +0.5 pp a year). */
+  drift?: number;
+  /** Yearly standard deviation of index changes in decimal form. */
+  volatility?: number;
+  /** Makes the random paths reproducible. */
+  seed?: number;
+}
+
+export interface PercentileBand<T = number> {
+  p10: T;
+  p25: T;
+  p50: T;
+  p75: T;
+  p90: T;
+}
+
+export interface StressTestBalancePoint {
+  month: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface StressTestResultDto {
+  simulationId: SimulationRow["id"];
+  model: StressTestModel;
+  runs: number;
+  seed: number;
+  monthsToPayoff: PercentileBand;
+  payoffMonth: PercentileBand<string>;
+  totalInterest: PercentileBand;
+  /** Total remaining balance per month across the runs (0 once a run is repaid). */
+  balances: StressTestBalancePoint[];
+}
+
+export interface OpportunityCostQuery {
+  /** Expected yearly return of the investment before tax, in decimal form. */
+  annualReturn: number;
+  /** Tax on investment gains, charged when the portfolio is sold (defaults to 19%). */
+  taxRate?: number;
+  /** Yearly inflation used to express wealth in today's money. */
+  inflation?: number;
+}
+
+export interface OpportunityCostPoint {
+  month: string;
+  /** Investments minus remaining debt when the budget goes into overpayments. */
+  overpayNetWealth: number;
+  /** Investments minus remaining debt when the budget is invested instead. */
+  investNetWealth: number;
+}
+
+export interface OpportunityCostAnalysisDto {
+  simulationId: SimulationRow["id"];
+  annualReturn: number;
+  taxRate: number;
+  inflation: number;
+  monthlyOverpaymentLimit: number;
+  /** Net wealth after tax, in today's money, until both paths are debt-free. */
+  points: OpportunityCostPoint[];
+  finalOverpayNetWealth: number;
+  finalInvestNetWealth: number;
+  /** Yearly return before tax at which both paths end equal; null when above 50%. */
+  breakEvenReturn: number | null;
+  betterPath: "overpay" | "invest";
+}
+
 export interface SimulationLoanSnapshotDto {
   id: SimulationLoanSnapshotRow["id"];
   simulationId: SimulationLoanSnapshotRow["simulation_id"];
@@ -232,6 +523,7 @@ export interface SimulationLoanSnapshotDto {
   startingBalance: SimulationLoanSnapshotRow["starting_balance"];
   startingMonth: SimulationLoanSnapshotRow["starting_month"];
   startingRate: SimulationLoanSnapshotRow["starting_rate"];
+  targetMonthlyPayment: SimulationLoanSnapshotRow["target_monthly_payment"];
   userId: SimulationLoanSnapshotRow["user_id"];
 }
 
@@ -244,6 +536,131 @@ export interface SimulationLoanSnapshotListQuery {
 export type SimulationLoanSnapshotListResponse =
   PaginatedResult<SimulationLoanSnapshotDto>;
 
+/** One loan's line of a simulation schedule for one month. */
+export interface SimulationScheduleEntryDto {
+  loanId: SimulationScheduleEntryRow["loan_id"];
+  month: SimulationScheduleEntryRow["month"];
+  /** Regular installment paid: interest plus scheduled principal. */
+  payment: SimulationScheduleEntryRow["payment"];
+  overpayment: SimulationScheduleEntryRow["overpayment"];
+  prepaymentFee: SimulationScheduleEntryRow["prepayment_fee"];
+  interest: SimulationScheduleEntryRow["interest"];
+  /** Principal repaid in the month, including the overpayment. */
+  principal: SimulationScheduleEntryRow["principal"];
+  balance: SimulationScheduleEntryRow["balance"];
+  /** Interest the loan would have cost in the month without overpayments. */
+  baselineInterest: SimulationScheduleEntryRow["baseline_interest"];
+}
+
+export interface SimulationScheduleQuery {
+  /** First month to include (YYYY-MM-01). */
+  fromMonth?: string;
+  /** Last month to include (YYYY-MM-01). */
+  toMonth?: string;
+  loanId?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export type SimulationScheduleResponse =
+  PaginatedResult<SimulationScheduleEntryDto>;
+
+export interface SimulationCompareQuery {
+  /** Comma separated simulation ids; the first one is the reference for deltas. */
+  ids: string;
+}
+
+/** Difference of a simulation against the reference (first) simulation of a comparison. */
+export interface SimulationComparisonDelta {
+  /** Positive when the simulation needs more months to pay off. */
+  monthsToPayoff: number | null;
+  totalInterestSaved: number | null;
+  monthlyPaymentTotal: number | null;
+}
+
+export interface SimulationComparisonItem {
+  simulationId: SimulationRow["id"];
+  strategy: SimulationRow["strategy"];
+  goal: GoalType;
+  status: SimulationRow["status"];
+  isActive: SimulationRow["is_active"];
+  createdAt: SimulationRow["created_at"];
+  projectedPayoffMonth: SimulationRow["projected_payoff_month"];
+  projectedMonthsToPayoff: SimulationRow["projected_months_to_payoff"];
+  baselineInterest: SimulationRow["baseline_interest"];
+  totalInterestSaved: SimulationRow["total_interest_saved"];
+  /** Total monthly payment from the latest captured metrics. */
+  monthlyPaymentTotal: SimulationHistoryMetricRow["monthly_payment_total"];
+  /** Null for the reference simulation. */
+  delta: SimulationComparisonDelta | null;
+}
+
+/** Month of a compared schedule; values are null before the schedule starts. */
+export interface SimulationComparisonPoint {
+  month: string;
+  /** Total remaining balance at the end of the month; 0 once repaid. */
+  totalRemaining: number | null;
+  interest: number | null;
+  /** Baseline interest of the month minus the interest and prepayment fees paid. */
+  interestSaved: number | null;
+}
+
+export interface SimulationComparisonSeries {
+  simulationId: SimulationRow["id"];
+  /** One point per month of the comparison; empty without a stored schedule. */
+  points: SimulationComparisonPoint[];
+}
+
+export interface SimulationComparisonDto {
+  /** Months covered by any of the schedules, ascending. */
+  months: string[];
+  /** Simulations in the requested order. */
+  simulations: SimulationComparisonItem[];
+  series: SimulationComparisonSeries[];
+}
+
+/** Headline result that differs between the stored run and its replay. */
+export interface SimulationReplayDifference {
+  field:
+    | "baselineInterest"
+    | "totalInterestSaved"
+    | "projectedMonthsToPayoff"
+    | "projectedPayoffMonth"
+    | "paymentReductionTargetMonth";
+  stored: number | string | null;
+  replayed: number | string | null;
+}
+
+export interface SimulationReplayScheduleSummary {
+  storedEntries: number;
+  replayedEntries: number;
+  /** Loan-months whose amounts differ or that exist in only one of the schedules. */
+  mismatchedEntries: number;
+  firstMismatchMonth: string | null;
+}
+
+export interface SimulationReplayDto {
+  simulationId: SimulationRow["id"];
+  stored: {
+    engineVersion: SimulationRow["engine_version"];
+    inputFingerprint: SimulationRow["input_fingerprint"];
+  };
+  replayed: {
+    engineVersion: string;
+    inputFingerprint: string;
+  };
+  engineChanged: boolean;
+  /**
+   * Null when the stored run has no fingerprint to compare with. Replays whose inputs
+   * changed are refused instead.
+   */
+  inputsChanged: false | null;
+  /** True when the replay reproduces the stored results and schedule exactly. */
+  matches: boolean;
+  differences: SimulationReplayDifference[];
+  schedule: SimulationReplayScheduleSummary;
+}
+
 export interface SimulationHistoryMetricDto {
   id: SimulationHistoryMetricRow["id"];
   simulationId: SimulationHistoryMetricRow["simulation_id"];
@@ -396,6 +813,7 @@ export interface StrategyDto {
   id: SimulationRow["strategy"];
   name: string;
   description: string;
+  acceptsParams: boolean;
 }
 
 // Dashboard Overview
@@ -403,15 +821,31 @@ export type ActiveSimulationSummary = Pick<
   SimulationDto,
   | "id"
   | "strategy"
+  | "strategyParams"
+  | "strategyPhases"
   | "goal"
   | "projectedPayoffMonth"
   | "totalInterestSaved"
   | "status"
   | "stale"
   | "paymentReductionTarget"
+  | "paymentReductionTargetMonth"
+  | "lumpSums"
+  | "loanRules"
+  | "monthlyOverpaymentLimit"
+  | "overpaymentBudgetSchedule"
+  | "engineVersion"
+  | "engineOutdated"
 > & {
   projectedPayoffMonth: SimulationRow["projected_payoff_month"];
   totalInterestSaved: SimulationRow["total_interest_saved"];
+  /** Overpayment budget in effect for the current month (dashboard overview only). */
+  currentMonthlyBudget?: number;
+  /**
+   * Strategy phase in effect given the loans today: 0 for `strategy`, n for the n-th
+   * entry of `strategyPhases` (dashboard overview only).
+   */
+  activeStrategyPhase?: number;
 };
 
 export interface DashboardOverviewLoanItem {
@@ -481,3 +915,30 @@ export interface DashboardOverviewDto {
   graphs?: DashboardOverviewGraphData;
   adherence?: DashboardOverviewAdherence;
 }
+
+// User Events
+/** Payload of each event pushed to a user's `/api/events` stream, by event name. */
+export interface UserEventPayloads {
+  "simulation.completed": { simulationId: SimulationRow["id"] };
+  "simulation.failed": { simulationId: SimulationRow["id"] };
+  "simulation.stale": { simulationIds: SimulationRow["id"][] };
+  "loan.changed": {
+    loanId: LoanRow["id"];
+    change: "created" | "updated" | "deleted";
+  };
+  "executionLog.changed": {
+    logId: MonthlyExecutionLogRow["id"];
+    loanId: MonthlyExecutionLogRow["loan_id"];
+    monthStart: MonthlyExecutionLogRow["month_start"];
+  };
+}
+
+export type UserEventType = keyof UserEventPayloads;
+
+export type UserEvent = {
+  [T in UserEventType]: {
+    type: T;
+    data: UserEventPayloads[T];
+    occurredAt: string;
+  };
+}[UserEventType];
@@ -26,6 +26,15 @@ export interface OverviewCardVM {
   readonly status?: "loading" | "ok";
 }
 
+export interface StrategyPhaseVM {
+  readonly index: number;
+  readonly strategyLabel: string;
+  /** When the phase takes over, e.g. "Once loan 1a2b3c4d is repaid". */
+  readonly startsWhen: string;
+  readonly isActive: boolean;
+  readonly isCompleted: boolean;
+}
+
 export interface DashboardLoanVM {
   readonly loanId: string;
   readonly remainingBalance: number;
@@ -0,0 +1,15 @@
+-- migration: store strategy-specific parameters on simulations
+-- timestamp (utc): 2026-10-19 10:00:00
+-- description:
+--   strategies are now resolved through an application-layer registry, and a registered
+--   strategy may declare a parameter schema. the validated parameters are persisted
+--   alongside the simulation so the projection engine can replay the same allocation.
+-- special considerations:
+--   - `strategy` stays free text; valid ids are enforced by the registry, not by a check constraint.
+--   - null means the strategy takes no parameters.
+
+alter table public.simulations
+  add column strategy_params jsonb null;
+
+comment on column public.simulations.strategy is 'strategy id from the application strategy registry';
+comment on column public.simulations.strategy_params is 'validated parameters for the selected strategy (null when none)';
@@ -0,0 +1,19 @@
+-- migration: persist payment reduction goal results
+-- timestamp (utc): 2026-10-19 10:10:00
+-- description:
+--   the payment reduction engine recasts installments until the combined monthly
+--   installment reaches simulations.payment_reduction_target. the month this happens
+--   is stored on the simulation and the installment each loan ends up with is stored
+--   on its loan snapshot.
+-- special considerations:
+--   - both columns stay null for fastest payoff simulations and when the target is never reached.
+--   - target_monthly_payment is 0 for loans repaid before the target month.
+
+alter table public.simulations
+  add column payment_reduction_target_month date null;
+
+alter table public.simulation_loan_snapshots
+  add column target_monthly_payment numeric(14,2) null check (target_monthly_payment >= 0);
+
+comment on column public.simulations.payment_reduction_target_month is 'first month in which the combined installment is at or below payment_reduction_target';
+comment on column public.simulation_loan_snapshots.target_monthly_payment is 'loan installment once the payment reduction target is reached';
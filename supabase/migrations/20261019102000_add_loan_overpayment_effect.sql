@@ -0,0 +1,15 @@
+-- migration: per-loan overpayment effect
+-- timestamp (utc): 2026-10-19 10:20:00
+-- description:
+--   polish banks ask at every overpayment whether to shorten the term or recalculate a
+--   lower installment. the choice is stored per loan so projections recast installments
+--   the same way the bank does.
+-- special considerations:
+--   - existing loans default to 'shorten_term', which matches the previous fixed-installment projections.
+
+create type overpayment_effect as enum ('shorten_term','lower_installment');
+
+alter table public.loans
+  add column overpayment_effect overpayment_effect not null default 'shorten_term';
+
+comment on column public.loans.overpayment_effect is 'how the bank applies overpayments: shorten the term (installment unchanged) or lower the installment (term unchanged)';
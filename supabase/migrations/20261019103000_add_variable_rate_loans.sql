@@ -0,0 +1,52 @@
+-- migration: variable-rate loans driven by a reference index plus margin
+-- timestamp (utc): 2026-10-19 10:30:00
+-- description:
+--   loans can be marked as variable (e.g. wibor 3m / wiron + margin). each user maintains
+--   a table of monthly index values, imported from a csv file, and projections compute every
+--   month's rate as index value + margin.
+-- special considerations:
+--   - annual_rate keeps the rate currently in force and remains the fallback when no index
+--     value is known yet.
+--   - index values are stored as decimals like annual_rate (0.0585 for 5.85%); a month without
+--     a value reuses the latest earlier one.
+--   - index ids are free text normalized to upper case by the api (e.g. 'WIBOR3M').
+
+create type loan_rate_type as enum ('fixed','variable');
+
+alter table public.loans
+  add column rate_type loan_rate_type not null default 'fixed',
+  add column rate_index_id text null,
+  add column rate_margin numeric(7,5) null check (rate_margin >= 0 and rate_margin < 1),
+  add constraint loans_variable_rate_reference check (
+    (rate_type = 'fixed' and rate_index_id is null and rate_margin is null)
+    or (rate_type = 'variable' and rate_index_id is not null and rate_margin is not null)
+  );
+
+-- rate_index_values: user-maintained reference index values by month.
+create table public.rate_index_values (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  index_id text not null check (length(index_id) between 1 and 32),
+  month date not null check (month = date_trunc('month', month)),
+  value numeric(7,5) not null check (value > -1 and value < 1),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, index_id, month)
+);
+
+create index idx_rate_index_values_user_index on public.rate_index_values(user_id, index_id, month);
+
+alter table public.rate_index_values enable row level security;
+
+create policy rate_index_values_select_authenticated on public.rate_index_values for select to authenticated using (user_id = auth.uid());
+create policy rate_index_values_select_anon on public.rate_index_values for select to anon using (false);
+create policy rate_index_values_insert_authenticated on public.rate_index_values for insert to authenticated with check (user_id = auth.uid());
+create policy rate_index_values_insert_anon on public.rate_index_values for insert to anon with check (false);
+create policy rate_index_values_update_authenticated on public.rate_index_values for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy rate_index_values_update_anon on public.rate_index_values for update to anon using (false) with check (false);
+create policy rate_index_values_delete_authenticated on public.rate_index_values for delete to authenticated using (user_id = auth.uid());
+create policy rate_index_values_delete_anon on public.rate_index_values for delete to anon using (false);
+
+comment on column public.loans.rate_type is 'fixed loans use annual_rate; variable loans use rate_index_id value + rate_margin per month';
+comment on column public.loans.rate_index_id is 'reference index id matching rate_index_values.index_id (variable loans only)';
+comment on column public.loans.rate_margin is 'bank margin added to the index value, decimal (variable loans only)';
@@ -0,0 +1,16 @@
+-- migration: per-loan amortization type
+-- timestamp (utc): 2026-10-19 10:40:00
+-- description:
+--   besides equal (annuity) installments, polish banks offer decreasing installments
+--   (raty malejące): the principal part is constant and the interest part shrinks with
+--   the balance. the type is stored per loan so projections amortize each loan the way
+--   its contract does.
+-- special considerations:
+--   - existing loans default to 'annuity', which matches the previous projections.
+
+create type amortization_type as enum ('annuity','decreasing');
+
+alter table public.loans
+  add column amortization_type amortization_type not null default 'annuity';
+
+comment on column public.loans.amortization_type is 'annuity (equal installments) or decreasing (constant principal part, shrinking interest)';
@@ -0,0 +1,22 @@
+-- migration: per-loan prepayment fee rules
+-- timestamp (utc): 2026-10-19 10:50:00
+-- description:
+--   some contracts charge a commission on early repayment, e.g. a percentage of the
+--   overpaid amount during the first 36 months, or only on the part above a yearly free
+--   allowance. banks may also refuse overpayments below a minimum amount. the rules are
+--   stored per loan so projections route money around fees and report savings net of them.
+-- special considerations:
+--   - all columns are nullable; existing loans keep fee-free overpayments with no minimum.
+--   - prepayment_fee_months counts from loans.start_month; null means the fee applies for the whole term.
+--   - prepayment_free_allowance is per calendar year and only matters while a fee applies.
+
+alter table public.loans
+  add column prepayment_fee_rate numeric(6,5) null check (prepayment_fee_rate >= 0 and prepayment_fee_rate < 1),
+  add column prepayment_fee_months integer null check (prepayment_fee_months > 0),
+  add column prepayment_free_allowance numeric(14,2) null check (prepayment_free_allowance >= 0),
+  add column min_overpayment numeric(14,2) null check (min_overpayment >= 0);
+
+comment on column public.loans.prepayment_fee_rate is 'commission charged on overpaid amounts (decimal, e.g. 0.02 for 2%)';
+comment on column public.loans.prepayment_fee_months is 'number of months from start_month during which the commission applies; null for the whole term';
+comment on column public.loans.prepayment_free_allowance is 'amount that can be overpaid each calendar year without the commission';
+comment on column public.loans.min_overpayment is 'smallest overpayment the bank accepts';
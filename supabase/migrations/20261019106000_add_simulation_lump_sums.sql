@@ -0,0 +1,16 @@
+-- migration: planned lump-sum overpayments on simulations
+-- timestamp (utc): 2026-10-19 11:00:00
+-- description:
+--   users often know about a future bonus or a 13th salary. a simulation can carry a
+--   list of dated one-off overpayments ({ month, amount, loanId?, label? }) that the
+--   strategy projection injects in their month, either pinned to a loan or allocated
+--   by the strategy together with the monthly budget.
+-- special considerations:
+--   - existing simulations get an empty list.
+--   - pinned loan ids are validated when the simulation is queued; a lump sum pinned to a
+--     loan that is already repaid falls back to the strategy.
+
+alter table public.simulations
+  add column lump_sums jsonb not null default '[]'::jsonb check (jsonb_typeof(lump_sums) = 'array');
+
+comment on column public.simulations.lump_sums is 'planned one-off overpayments: array of { month, amount, loanId, label }';
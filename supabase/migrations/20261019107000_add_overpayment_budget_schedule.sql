@@ -0,0 +1,21 @@
+-- migration: time-varying monthly overpayment budget
+-- timestamp (utc): 2026-10-19 12:00:00
+-- description:
+--   the monthly overpayment limit is a single number. users can now describe a budget
+--   schedule ("800 pln until june 2027, then 1500 pln") with optional yearly growth:
+--   { steps: [{ fromMonth, amount }], yearlyGrowthRate }. each step's amount applies
+--   from its month until the next step and grows by yearlyGrowthRate every 12 months.
+--   the flat limit still applies before the first step.
+--   user_settings holds the default schedule; simulations keep the schedule they were
+--   queued with so later settings edits do not change a computed simulation.
+-- special considerations:
+--   - both columns are nullable; null means the flat monthly_overpayment_limit only.
+
+alter table public.user_settings
+  add column overpayment_budget_schedule jsonb check (overpayment_budget_schedule is null or jsonb_typeof(overpayment_budget_schedule) = 'object');
+
+alter table public.simulations
+  add column overpayment_budget_schedule jsonb check (overpayment_budget_schedule is null or jsonb_typeof(overpayment_budget_schedule) = 'object');
+
+comment on column public.user_settings.overpayment_budget_schedule is 'default overpayment budget schedule: { steps: [{ fromMonth, amount }], yearlyGrowthRate }';
+comment on column public.simulations.overpayment_budget_schedule is 'overpayment budget schedule the simulation was queued with';
@@ -0,0 +1,16 @@
+-- migration: optimality report for completed simulations
+-- timestamp (utc): 2026-10-19 13:00:00
+-- description:
+--   a new "optimal" strategy searches each month's allocation for the most interest
+--   saved (or the fastest path to a payment reduction target). every computation now
+--   also benchmarks the rule-of-thumb strategies against it and stores the result:
+--   { optimum: { monthsToPayoff, totalInterestSaved, paymentReductionTargetMonth },
+--     heuristics: [{ strategyId, interestShortfall, monthsShortfall, ... }] }.
+-- special considerations:
+--   - nullable; null until a computation finishes, and for simulations computed before
+--     this migration.
+
+alter table public.simulations
+  add column optimality_report jsonb check (optimality_report is null or jsonb_typeof(optimality_report) = 'object');
+
+comment on column public.simulations.optimality_report is 'optimizer outcome and heuristic shortfalls captured when the simulation completed';
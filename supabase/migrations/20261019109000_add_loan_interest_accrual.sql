@@ -0,0 +1,21 @@
+-- migration: per-loan interest accrual convention and payment day
+-- timestamp (utc): 2026-10-19 14:00:00
+-- description:
+--   polish banks usually accrue interest daily between actual payment dates (actual/365)
+--   instead of charging a flat twelfth of the annual rate. projections that assume 30/360
+--   drift from bank statements by tens of złoty a year. the convention and the day of
+--   month installments fall on are stored per loan so projections accrue interest by the
+--   real day count and credit overpayments made before the installment within a cycle.
+-- special considerations:
+--   - existing loans default to 'thirty_360' with no payment day, which matches the
+--     previous projections (installments on the 1st, a twelfth of the rate each month).
+--   - payment_day values above a short month's length fall on its last day.
+
+create type interest_accrual as enum ('thirty_360','actual_365');
+
+alter table public.loans
+  add column interest_accrual interest_accrual not null default 'thirty_360',
+  add column payment_day smallint null check (payment_day between 1 and 31);
+
+comment on column public.loans.interest_accrual is 'day-count convention for interest between payment dates: thirty_360 or actual_365';
+comment on column public.loans.payment_day is 'day of month installments are due; null for the 1st';
@@ -0,0 +1,20 @@
+-- migration: per-loan rounding rules for interest and installments
+-- timestamp (utc): 2026-10-19 15:00:00
+-- description:
+--   projections now compute every amount in whole grosze, the way banks post them. banks
+--   differ in how they round the interest part of an installment and the installment
+--   itself (half up, half to even, always down or always up), which shifts schedules by
+--   a few grosze a month and adds up over a long mortgage. both rules are stored per
+--   loan so each loan follows its own bank.
+-- special considerations:
+--   - existing loans default to 'half_up' for both, the most common rule.
+--   - the last installment of a schedule always settles whatever rounding left over.
+
+create type money_rounding as enum ('half_up','half_even','down','up');
+
+alter table public.loans
+  add column interest_rounding money_rounding not null default 'half_up',
+  add column installment_rounding money_rounding not null default 'half_up';
+
+comment on column public.loans.interest_rounding is 'rounding of the monthly interest to whole grosze: half_up, half_even, down or up';
+comment on column public.loans.installment_rounding is 'rounding of the installment (or decreasing principal part) to whole grosze';
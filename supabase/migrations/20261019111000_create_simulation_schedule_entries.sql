@@ -0,0 +1,52 @@
+-- migration: persisted month-by-month simulation schedule
+-- timestamp (utc): 2026-10-19 16:00:00
+-- description:
+--   the simulation compute job builds a full month-by-month schedule but only stored
+--   aggregates, so the dashboard charts and the monthly execution logs projected the
+--   schedule again on every request. the strategy schedule is now stored per loan per
+--   month when a simulation completes and read back by those consumers and by a
+--   paginated schedule endpoint.
+-- special considerations:
+--   - rows are replaced as a whole whenever the simulation is recomputed.
+--   - principal includes the overpayment; payment is the regular installment paid
+--     (interest plus scheduled principal), so overpayment and prepayment_fee come on top.
+--   - baseline_interest is the interest the loan would have cost that month without
+--     overpayments, so interest saved can be read without recomputing the baseline.
+--   - simulations computed before this migration have no rows; their consumers keep
+--     projecting on the fly until the simulation is recomputed.
+
+create table public.simulation_schedule_entries (
+  id uuid primary key default gen_random_uuid(),
+  simulation_id uuid not null references public.simulations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  loan_id uuid not null references public.loans(id) on delete cascade,
+  month date not null check (month = date_trunc('month', month)),
+  payment numeric(14,2) not null,
+  overpayment numeric(14,2) not null default 0 check (overpayment >= 0),
+  prepayment_fee numeric(14,2) not null default 0 check (prepayment_fee >= 0),
+  interest numeric(14,2) not null check (interest >= 0),
+  principal numeric(14,2) not null,
+  balance numeric(14,2) not null check (balance >= 0),
+  baseline_interest numeric(14,2) not null default 0 check (baseline_interest >= 0),
+  created_at timestamptz not null default now(),
+  unique (simulation_id, loan_id, month)
+);
+
+create index idx_sim_schedule_entries_simulation_month on public.simulation_schedule_entries(simulation_id, month);
+create index idx_sim_schedule_entries_user on public.simulation_schedule_entries(user_id);
+
+alter table public.simulation_schedule_entries enable row level security;
+
+create policy simulation_schedule_entries_select_authenticated on public.simulation_schedule_entries for select to authenticated using (user_id = auth.uid());
+create policy simulation_schedule_entries_select_anon on public.simulation_schedule_entries for select to anon using (false);
+create policy simulation_schedule_entries_insert_authenticated on public.simulation_schedule_entries for insert to authenticated with check (user_id = auth.uid());
+create policy simulation_schedule_entries_insert_anon on public.simulation_schedule_entries for insert to anon with check (false);
+create policy simulation_schedule_entries_update_authenticated on public.simulation_schedule_entries for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy simulation_schedule_entries_update_anon on public.simulation_schedule_entries for update to anon using (false) with check (false);
+create policy simulation_schedule_entries_delete_authenticated on public.simulation_schedule_entries for delete to authenticated using (user_id = auth.uid());
+create policy simulation_schedule_entries_delete_anon on public.simulation_schedule_entries for delete to anon using (false);
+
+comment on table public.simulation_schedule_entries is 'strategy schedule of a simulation, one row per loan per month, replaced on every recompute';
+comment on column public.simulation_schedule_entries.payment is 'regular installment paid: interest plus scheduled principal';
+comment on column public.simulation_schedule_entries.principal is 'principal repaid in the month, including the overpayment';
+comment on column public.simulation_schedule_entries.baseline_interest is 'interest the loan would have cost in the month without overpayments';
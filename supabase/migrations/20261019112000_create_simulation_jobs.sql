@@ -0,0 +1,77 @@
+-- migration: durable simulation computation jobs
+-- timestamp (utc): 2026-10-19 17:00:00
+-- description:
+--   simulation computations ran in the request process, so a restart or crash left the
+--   simulation running forever. every computation is now a row in simulation_jobs that
+--   a worker loop claims under a lease, retries with backoff and fails after its last
+--   attempt. a watchdog returns jobs whose lease expired and re-queues running
+--   simulations that have no open job.
+-- special considerations:
+--   - jobs are claimed through claim_simulation_job, which skips rows locked by other
+--     workers, so several app instances can share the table without a queue service.
+--   - only one open (pending or running) job may exist per simulation.
+--   - the worker and the watchdog act for every user, so they use the service role;
+--     users can only read and enqueue their own jobs.
+
+create type simulation_job_status as enum ('pending','running','completed','failed');
+
+create table public.simulation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  simulation_id uuid not null references public.simulations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  status simulation_job_status not null default 'pending',
+  attempts integer not null default 0 check (attempts >= 0),
+  max_attempts integer not null default 3 check (max_attempts > 0),
+  run_after timestamptz not null default now(),
+  locked_by text,
+  locked_until timestamptz,
+  last_error text,
+  request_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create unique index uq_simulation_jobs_open_per_simulation on public.simulation_jobs(simulation_id) where status in ('pending','running');
+create index idx_simulation_jobs_pending on public.simulation_jobs(run_after) where status = 'pending';
+create index idx_simulation_jobs_running_lease on public.simulation_jobs(locked_until) where status = 'running';
+create index idx_simulation_jobs_user on public.simulation_jobs(user_id);
+
+alter table public.simulation_jobs enable row level security;
+
+create policy simulation_jobs_select_authenticated on public.simulation_jobs for select to authenticated using (user_id = auth.uid());
+create policy simulation_jobs_select_anon on public.simulation_jobs for select to anon using (false);
+create policy simulation_jobs_insert_authenticated on public.simulation_jobs for insert to authenticated with check (user_id = auth.uid() and status = 'pending' and attempts = 0);
+create policy simulation_jobs_insert_anon on public.simulation_jobs for insert to anon with check (false);
+create policy simulation_jobs_update_anon on public.simulation_jobs for update to anon using (false) with check (false);
+create policy simulation_jobs_delete_anon on public.simulation_jobs for delete to anon using (false);
+
+-- claims the oldest due pending job for a worker and counts the attempt
+create or replace function public.claim_simulation_job(p_worker_id text, p_lease_seconds integer)
+returns setof public.simulation_jobs
+language sql
+as $$
+  update public.simulation_jobs
+  set status = 'running',
+      attempts = attempts + 1,
+      locked_by = p_worker_id,
+      locked_until = now() + make_interval(secs => p_lease_seconds),
+      updated_at = now()
+  where id = (
+    select id
+    from public.simulation_jobs
+    where status = 'pending' and run_after <= now()
+    order by run_after
+    limit 1
+    for update skip locked
+  )
+  returning *;
+$$;
+
+revoke execute on function public.claim_simulation_job(text, integer) from public, anon, authenticated;
+grant execute on function public.claim_simulation_job(text, integer) to service_role;
+
+comment on table public.simulation_jobs is 'durable queue of simulation computations, claimed by workers under a lease';
+comment on column public.simulation_jobs.attempts is 'attempts started so far, counted when a worker claims the job';
+comment on column public.simulation_jobs.run_after is 'earliest time a pending job may be claimed; pushed back by the retry backoff';
+comment on column public.simulation_jobs.locked_until is 'lease end of a running job; the watchdog reclaims jobs past it';
@@ -0,0 +1,48 @@
+-- migration: idempotency keys for creating endpoints
+-- timestamp (utc): 2026-10-19 18:00:00
+-- description:
+--   a retried or double-submitted post created a second loan or cancelled and re-queued
+--   a simulation. creating endpoints now accept an idempotency-key header: the first
+--   successful response is stored per user and key and replayed for identical retries,
+--   while the same key sent with a different request is rejected.
+-- special considerations:
+--   - a key is claimed with an in_progress row before the request runs, so concurrent
+--     retries see the claim through the unique (user_id, key) constraint.
+--   - failed requests release their key so the client can retry with it.
+--   - keys expire after 24 hours and are replaced when the same key is used again.
+
+create type idempotency_key_status as enum ('in_progress','completed');
+
+create table public.idempotency_keys (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  key text not null check (char_length(key) between 1 and 255),
+  request_method text not null,
+  request_path text not null,
+  request_hash text not null,
+  status idempotency_key_status not null default 'in_progress',
+  response_status integer,
+  response_headers jsonb,
+  response_body text,
+  created_at timestamptz not null default now(),
+  completed_at timestamptz,
+  expires_at timestamptz not null default now() + interval '24 hours',
+  constraint uq_idempotency_keys_user_key unique (user_id, key)
+);
+
+create index idx_idempotency_keys_expires_at on public.idempotency_keys(expires_at);
+
+alter table public.idempotency_keys enable row level security;
+
+create policy idempotency_keys_select_authenticated on public.idempotency_keys for select to authenticated using (user_id = auth.uid());
+create policy idempotency_keys_select_anon on public.idempotency_keys for select to anon using (false);
+create policy idempotency_keys_insert_authenticated on public.idempotency_keys for insert to authenticated with check (user_id = auth.uid());
+create policy idempotency_keys_insert_anon on public.idempotency_keys for insert to anon with check (false);
+create policy idempotency_keys_update_authenticated on public.idempotency_keys for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+create policy idempotency_keys_update_anon on public.idempotency_keys for update to anon using (false) with check (false);
+create policy idempotency_keys_delete_authenticated on public.idempotency_keys for delete to authenticated using (user_id = auth.uid());
+create policy idempotency_keys_delete_anon on public.idempotency_keys for delete to anon using (false);
+
+comment on table public.idempotency_keys is 'first response of each idempotent request, replayed for retries with the same key';
+comment on column public.idempotency_keys.request_hash is 'sha-256 of method, path and body; a retry must match it to be replayed';
+comment on column public.idempotency_keys.expires_at is 'after this the key may be reused for a new request';
@@ -0,0 +1,18 @@
+-- migration: record the engine and inputs behind each simulation
+-- timestamp (utc): 2026-10-19 19:00:00
+-- description:
+--   fixes to the projection engine made stored simulations silently disagree with
+--   recomputed dashboard graphs. each computed simulation now stores the engine version
+--   that produced it and a sha-256 fingerprint of its canonical inputs (loans, settings,
+--   simulation parameters, rate index values and scheduled loan changes).
+-- special considerations:
+--   - both columns stay null for simulations computed before this migration; they are
+--     treated as computed by an older engine.
+--   - the fingerprint is compared by the replay endpoint to tell changed inputs apart
+--     from a changed engine.
+
+alter table public.simulations add column engine_version text;
+alter table public.simulations add column input_fingerprint text;
+
+comment on column public.simulations.engine_version is 'version of the projection engine that computed the results; null before versions were recorded';
+comment on column public.simulations.input_fingerprint is 'sha-256 of the canonical inputs the results were computed from';
@@ -0,0 +1,16 @@
+-- migration: per-loan allocation rules on simulations
+-- timestamp (utc): 2026-10-19 20:00:00
+-- description:
+--   some loans should always be overpaid first (e.g. a family loan) and some never
+--   (e.g. a 0% installment plan or a loan with a prepayment penalty). a simulation can
+--   carry a list of rules ({ loanId, pinned?, excluded?, monthlyCap?, monthlyFloor? })
+--   that every strategy applies when it splits the monthly overpayment budget.
+-- special considerations:
+--   - existing simulations get an empty list and keep their current allocation.
+--   - rule loan ids are validated when the simulation is queued; rules for loans that
+--     are repaid later simply stop applying.
+
+alter table public.simulations
+  add column loan_rules jsonb not null default '[]'::jsonb check (jsonb_typeof(loan_rules) = 'array');
+
+comment on column public.simulations.loan_rules is 'per-loan allocation rules: array of { loanId, pinned, excluded, monthlyCap, monthlyFloor }';
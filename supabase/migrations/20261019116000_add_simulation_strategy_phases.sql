@@ -0,0 +1,17 @@
+-- migration: strategy phases on simulations
+-- timestamp (utc): 2026-10-19 21:00:00
+-- description:
+--   a common plan is "snowball until the two smallest loans are gone, then avalanche".
+--   a simulation keeps its strategy as the first phase and can carry an ordered list of
+--   further phases ({ strategy, strategyParams?, startsWhen }) whose trigger (a loan
+--   closed, a date reached, a balance threshold or the payment target met) switches the
+--   projection to that phase's strategy.
+-- special considerations:
+--   - existing simulations get an empty list and keep a single strategy.
+--   - phase strategies and parameters are validated when the simulation is queued, like
+--     the simulation's own strategy.
+
+alter table public.simulations
+  add column strategy_phases jsonb not null default '[]'::jsonb check (jsonb_typeof(strategy_phases) = 'array');
+
+comment on column public.simulations.strategy_phases is 'strategies that follow the first one: array of { strategy, strategyParams, startsWhen }';
@@ -0,0 +1,14 @@
+-- migration: keep the inputs behind each simulation
+-- timestamp (utc): 2026-10-19 22:00:00
+-- description:
+--   replaying a simulation recomputed it from the user's current loans and settings, so
+--   any edit since the run showed up as an engine difference. each computed simulation
+--   now also stores the inputs its fingerprint was taken from ({ loans, userSettings,
+--   rateIndexTimeline, loanChanges }), and replays recompute from those.
+-- special considerations:
+--   - the column stays null for simulations computed before this migration; their
+--     replays fall back to the current inputs and are refused once those changed.
+
+alter table public.simulations add column input_snapshot jsonb;
+
+comment on column public.simulations.input_snapshot is 'loans, settings, rate index values and scheduled loan changes the results were computed from';